@@ -3,14 +3,21 @@ import { RouterProvider } from 'react-router-dom';
 
 import { router } from '@/app/router';
 import { useAuthStore } from '@/stores/authStore';
+import { useOfflineSyncStore } from '@/stores/offlineSyncStore';
 
 function App() {
   const initialize = useAuthStore((s) => s.initialize);
+  const initializeOfflineSync = useOfflineSyncStore((s) => s.initialize);
 
   useEffect(() => {
     initialize();
   }, [initialize]);
 
+  // Load queued offline writes and replay them once we're back online
+  useEffect(() => {
+    initializeOfflineSync();
+  }, [initializeOfflineSync]);
+
   return <RouterProvider router={router} />;
 }
 
@@ -6,6 +6,10 @@ import Login from './routes/Login';
 import Projects from './routes/Projects';
 import ProjectDetail from './routes/ProjectDetail';
 import LogArchive from './routes/LogArchive';
+import ManpowerReport from './routes/ManpowerReport';
+import PeriodReport from './routes/PeriodReport';
+import Analytics from './routes/Analytics';
+import SiteIssueResponse from './routes/SiteIssueResponse';
 
 // Protected route wrapper
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -85,6 +89,35 @@ export const router = createBrowserRouter([
       </ProtectedRoute>
     ),
   },
+  {
+    path: '/projects/:projectId/manpower',
+    element: (
+      <ProtectedRoute>
+        <ManpowerReport />
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/projects/:projectId/period-report',
+    element: (
+      <ProtectedRoute>
+        <PeriodReport />
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/analytics',
+    element: (
+      <ProtectedRoute>
+        <Analytics />
+      </ProtectedRoute>
+    ),
+  },
+  {
+    // Public: linked from site issue emails, authorized by the token
+    path: '/site-issues/respond/:token',
+    element: <SiteIssueResponse />,
+  },
   {
     path: '*',
     element: <Navigate to="/" replace />,
@@ -0,0 +1,414 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { AnalyticsData } from '@/types/supervisor';
+import { ChartCard, LineChart, BarChart } from '@/components/AnalyticsCharts';
+import {
+  getAnalyticsBuckets,
+  getDelayHoursByType,
+  getFlraRateSeries,
+  getHazardFrequency,
+  getManpowerHoursByCompany,
+  getProjectSummaries,
+  getShiftFlraRates,
+  getSiteIssueTrend,
+} from '@/utils/analytics';
+import { addDays, toLocalDate } from '@/utils/shiftRecurrence';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const RANGE_PRESETS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '12 months' },
+];
+
+// Bars shown on the ranked charts; the CSV export has every row
+const TOP_COUNT = 10;
+
+function formatPercent(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+function formatHours(hours: number): string {
+  return `${Math.round(hours * 10) / 10}`;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+interface StatTileProps {
+  label: string;
+  value: string | number;
+  detail?: string;
+  tone?: 'default' | 'warning';
+}
+
+function StatTile({ label, value, detail, tone = 'default' }: StatTileProps) {
+  return (
+    <div className={`rounded-lg border p-4 ${tone === 'warning' ? 'bg-yellow-50 border-yellow-200' : 'bg-white border-gray-200'}`}>
+      <div className="text-xs font-medium text-gray-500">{label}</div>
+      <div className="text-2xl font-bold text-gray-900 mt-1">{value}</div>
+      {detail && <div className="text-xs text-gray-500 mt-0.5">{detail}</div>}
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export default function Analytics() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedProjectId = searchParams.get('project');
+
+  const projects = useSupervisorStore((s) => s.projects);
+  const fetchProjects = useSupervisorStore((s) => s.fetchProjects);
+  const fetchAnalyticsData = useSupervisorStore((s) => s.fetchAnalyticsData);
+  const loading = useSupervisorStore((s) => s.loading);
+  const error = useSupervisorStore((s) => s.error);
+
+  const [endDate, setEndDate] = useState(() => toLocalDate(new Date()));
+  const [startDate, setStartDate] = useState(() => addDays(toLocalDate(new Date()), -29));
+  const [data, setData] = useState<AnalyticsData | null>(null);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  const projectIds = useMemo(
+    () => (selectedProjectId ? [selectedProjectId] : projects.map((p) => p.id)),
+    [selectedProjectId, projects]
+  );
+
+  useEffect(() => {
+    if (!startDate || !endDate || startDate > endDate) return;
+    let cancelled = false;
+    fetchAnalyticsData(projectIds, startDate, endDate).then((result) => {
+      if (!cancelled) setData(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectIds, startDate, endDate, fetchAnalyticsData]);
+
+  const analytics = useMemo(() => {
+    if (!data) return null;
+    const buckets = getAnalyticsBuckets(startDate, endDate);
+    const flra = getFlraRateSeries(data.shifts, buckets);
+    const totals = flra.reduce(
+      (sum, p) => ({ shifts: sum.shifts + p.shifts, expected: sum.expected + p.expected, submitted: sum.submitted + p.submitted, late: sum.late + p.late }),
+      { shifts: 0, expected: 0, submitted: 0, late: 0 }
+    );
+    const issueTrend = getSiteIssueTrend(data.dailyLogs, buckets);
+    const delays = getDelayHoursByType(data.dailyLogs);
+    const manpower = getManpowerHoursByCompany(data.dailyLogs);
+
+    return {
+      buckets,
+      flra,
+      totals,
+      lowestShifts: getShiftFlraRates(data.shifts).slice(0, 5),
+      hazards: getHazardFrequency(data.documents),
+      issueTrend,
+      delays,
+      manpower,
+      openIssues: issueTrend.length > 0 ? issueTrend[issueTrend.length - 1].open : 0,
+      resolvedIssues: issueTrend.reduce((sum, p) => sum + p.resolved, 0),
+      delayHours: delays.reduce((sum, d) => sum + d.value, 0),
+      manpowerHours: manpower.reduce((sum, d) => sum + d.value, 0),
+      projectSummaries: selectedProjectId ? [] : getProjectSummaries(data, projectIds, endDate),
+    };
+  }, [data, startDate, endDate, selectedProjectId, projectIds]);
+
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name ?? 'Project';
+  const scopeName = selectedProjectId ? projectName(selectedProjectId) : 'All projects';
+  const filePrefix = `${(selectedProjectId ? projectName(selectedProjectId) : 'all-projects').replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${startDate}-to-${endDate}`;
+  const today = toLocalDate(new Date());
+
+  const handlePreset = (days: number) => {
+    setEndDate(today);
+    setStartDate(addDays(today, -(days - 1)));
+  };
+
+  const handleProjectChange = (projectId: string) => {
+    setSearchParams(projectId ? { project: projectId } : {});
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => navigate(selectedProjectId ? `/projects/${selectedProjectId}` : '/dashboard')}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                title={selectedProjectId ? 'Back to Project' : 'Back to Dashboard'}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-lg font-semibold text-gray-900">Safety Analytics</h1>
+                <p className="text-xs text-gray-500">{scopeName}</p>
+              </div>
+            </div>
+
+            <Link
+              to="/projects"
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              All Projects
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-[200px]">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Project</label>
+              <select
+                value={selectedProjectId ?? ''}
+                onChange={(e) => handleProjectChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All projects</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="min-w-[150px]">
+              <label className="block text-xs font-medium text-gray-700 mb-1">From Date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                max={endDate}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="min-w-[150px]">
+              <label className="block text-xs font-medium text-gray-700 mb-1">To Date</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                min={startDate}
+                max={today}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex gap-1">
+              {RANGE_PRESETS.map((preset) => (
+                <button
+                  key={preset.days}
+                  onClick={() => handlePreset(preset.days)}
+                  className={`px-3 py-2 text-xs font-medium rounded-lg border transition-colors ${
+                    endDate === today && startDate === addDays(today, -(preset.days - 1))
+                      ? 'bg-blue-50 border-blue-300 text-blue-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        </div>
+
+        {!analytics ? (
+          loading && (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+            </div>
+          )
+        ) : (
+          <>
+            {/* Summary */}
+            <div className={`grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 ${loading ? 'opacity-60' : ''}`}>
+              <StatTile
+                label="FLRA submission rate"
+                value={formatPercent(analytics.totals.expected > 0 ? analytics.totals.submitted / analytics.totals.expected : null)}
+                detail={`${analytics.totals.submitted}/${analytics.totals.expected} over ${analytics.totals.shifts} shifts`}
+              />
+              <StatTile
+                label="Late submissions"
+                value={analytics.totals.late}
+                detail="after shift start"
+                tone={analytics.totals.late > 0 ? 'warning' : 'default'}
+              />
+              <StatTile
+                label="Hazards reported"
+                value={analytics.hazards.reduce((sum, h) => sum + h.value, 0)}
+                detail={`${analytics.hazards.length} distinct`}
+              />
+              <StatTile
+                label="Open site issues"
+                value={analytics.openIssues}
+                detail={`${analytics.resolvedIssues} resolved in range`}
+                tone={analytics.openIssues > 0 ? 'warning' : 'default'}
+              />
+              <StatTile label="Delay hours" value={formatHours(analytics.delayHours)} />
+              <StatTile label="Manpower hours" value={formatHours(analytics.manpowerHours)} />
+            </div>
+
+            {/* FLRA submissions */}
+            <ChartCard
+              title="FLRA submissions"
+              subtitle="Share of shift workers who submitted a form, and share who submitted after the shift started"
+              filename={`flra-submissions-${filePrefix}`}
+              isEmpty={analytics.totals.expected === 0}
+              csv={{
+                headers: ['Period start', 'Period end', 'Shifts', 'Workers', 'Submitted', 'Late', 'Submission rate'],
+                rows: analytics.flra.map((p) => [
+                  p.bucket.start, p.bucket.end, p.shifts, p.expected, p.submitted, p.late,
+                  p.rate === null ? '' : Math.round(p.rate * 1000) / 10,
+                ]),
+              }}
+            >
+              <LineChart
+                labels={analytics.buckets.map((b) => b.label)}
+                maxValue={100}
+                formatValue={(v) => `${Math.round(v)}%`}
+                series={[
+                  { label: 'Submitted', color: '#2563eb', values: analytics.flra.map((p) => (p.rate === null ? null : p.rate * 100)) },
+                  { label: 'Late', color: '#d97706', values: analytics.flra.map((p) => (p.expected > 0 ? (p.late / p.expected) * 100 : null)) },
+                ]}
+              />
+              {analytics.lowestShifts.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-xs font-medium text-gray-600 mb-1">Lowest submission rates</p>
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {analytics.lowestShifts.map((row) => (
+                        <tr key={row.shift.id} className="border-t border-gray-100">
+                          <td className="py-1 text-gray-500 whitespace-nowrap">{formatDate(row.shift.scheduled_date)}</td>
+                          <td className="py-1 px-2 text-gray-900">
+                            <Link to={`/projects/${row.shift.project_id}?tab=shifts`} className="hover:text-blue-600">
+                              {row.shift.name}
+                            </Link>
+                            {!selectedProjectId && <span className="text-gray-400"> · {projectName(row.shift.project_id)}</span>}
+                          </td>
+                          <td className="py-1 text-right text-gray-700 whitespace-nowrap">
+                            {row.submitted}/{row.expected} · {formatPercent(row.rate)}
+                            {row.late > 0 && <span className="text-yellow-700"> · {row.late} late</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </ChartCard>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Site issues */}
+              <ChartCard
+                title="Site issues"
+                subtitle="Open at the end of each period, and raised or resolved during it"
+                filename={`site-issues-${filePrefix}`}
+                isEmpty={analytics.issueTrend.every((p) => p.open === 0 && p.raised === 0 && p.resolved === 0)}
+                csv={{
+                  headers: ['Period start', 'Period end', 'Open', 'Raised', 'Resolved'],
+                  rows: analytics.issueTrend.map((p) => [p.bucket.start, p.bucket.end, p.open, p.raised, p.resolved]),
+                }}
+              >
+                <LineChart
+                  labels={analytics.buckets.map((b) => b.label)}
+                  series={[
+                    { label: 'Open', color: '#dc2626', values: analytics.issueTrend.map((p) => p.open) },
+                    { label: 'Raised', color: '#d97706', values: analytics.issueTrend.map((p) => p.raised) },
+                    { label: 'Resolved', color: '#16a34a', values: analytics.issueTrend.map((p) => p.resolved) },
+                  ]}
+                />
+              </ChartCard>
+
+              {/* Hazards */}
+              <ChartCard
+                title="Most reported hazards"
+                subtitle={`From AI-extracted form data${analytics.hazards.length > TOP_COUNT ? `, top ${TOP_COUNT}` : ''}`}
+                filename={`hazards-${filePrefix}`}
+                isEmpty={analytics.hazards.length === 0}
+                csv={{ headers: ['Hazard', 'Documents'], rows: analytics.hazards.map((h) => [h.label, h.value]) }}
+              >
+                <BarChart data={analytics.hazards.slice(0, TOP_COUNT)} color="#f59e0b" />
+              </ChartCard>
+
+              {/* Delays */}
+              <ChartCard
+                title="Delay hours by type"
+                subtitle="Impact hours on schedule/delay log entries"
+                filename={`delays-${filePrefix}`}
+                isEmpty={analytics.delays.length === 0}
+                csv={{ headers: ['Delay type', 'Hours'], rows: analytics.delays.map((d) => [d.label, d.value]) }}
+              >
+                <BarChart data={analytics.delays} color="#ef4444" formatValue={(v) => `${formatHours(v)} h`} />
+              </ChartCard>
+
+              {/* Manpower */}
+              <ChartCard
+                title="Manpower hours by company"
+                subtitle={`From manpower log entries${analytics.manpower.length > TOP_COUNT ? `, top ${TOP_COUNT}` : ''}`}
+                filename={`manpower-${filePrefix}`}
+                isEmpty={analytics.manpower.length === 0}
+                csv={{ headers: ['Company', 'Hours'], rows: analytics.manpower.map((m) => [m.label, m.value]) }}
+              >
+                <BarChart data={analytics.manpower.slice(0, TOP_COUNT)} color="#7c3aed" formatValue={(v) => `${formatHours(v)} h`} />
+              </ChartCard>
+            </div>
+
+            {/* Per-project comparison */}
+            {analytics.projectSummaries.length > 1 && (
+              <div className="bg-white rounded-lg border border-gray-200 p-4 overflow-x-auto">
+                <h3 className="text-sm font-semibold text-gray-900 mb-3">By project</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="pb-2 font-medium">Project</th>
+                      <th className="pb-2 font-medium text-right">FLRA rate</th>
+                      <th className="pb-2 font-medium text-right">Late</th>
+                      <th className="pb-2 font-medium text-right">Open issues</th>
+                      <th className="pb-2 font-medium text-right">Delay hrs</th>
+                      <th className="pb-2 font-medium text-right">Manpower hrs</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.projectSummaries.map((row) => (
+                      <tr key={row.project_id} className="border-t border-gray-100">
+                        <td className="py-2">
+                          <button onClick={() => handleProjectChange(row.project_id)} className="text-blue-600 hover:text-blue-700">
+                            {projectName(row.project_id)}
+                          </button>
+                        </td>
+                        <td className="py-2 text-right">{formatPercent(row.rate)}</td>
+                        <td className="py-2 text-right">{row.late}</td>
+                        <td className="py-2 text-right">{row.open_issues}</td>
+                        <td className="py-2 text-right">{formatHours(row.delay_hours)}</td>
+                        <td className="py-2 text-right">{formatHours(row.manpower_hours)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
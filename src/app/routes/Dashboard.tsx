@@ -241,6 +241,12 @@ export default function Dashboard() {
             >
               View All Projects
             </Link>
+            <Link
+              to="/analytics"
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-xl transition-colors border border-slate-600"
+            >
+              Safety Analytics
+            </Link>
             <Link
               to="/projects?new=true"
               className="px-4 py-2 bg-gradient-to-r from-[#d1bd23] to-[#9e5e1a] hover:from-[#b19e1d] hover:to-[#7a4a15] text-white rounded-xl transition-all"
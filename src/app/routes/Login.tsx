@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 
 import { useAuthStore } from '@/stores/authStore';
+import { HRDHAT_FRONTEND_URL } from '@/utils/hrdhatLinks';
 
 export default function Login() {
   const [email, setEmail] = useState('');
@@ -127,10 +128,7 @@ export default function Login() {
             <button
               type="button"
               onClick={() => {
-                const frontendUrl = import.meta.env.DEV
-                  ? 'http://localhost:5173'
-                  : 'https://hrdhat.site';
-                window.location.href = frontendUrl;
+                window.location.href = HRDHAT_FRONTEND_URL;
               }}
               className="text-sm text-[#d1bd23] hover:text-[#e4c94f] transition-colors"
             >
@@ -0,0 +1,396 @@
+import { useEffect, useState, useMemo } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import {
+  getManpowerEntries,
+  getMissingManpowerDays,
+  rollupByCompany,
+  rollupByPerson,
+  rollupByTrade,
+  type ManpowerRollup,
+} from '@/utils/manpowerReport';
+import { downloadCsv, toCsv, type CsvValue } from '@/utils/csv';
+import { downloadXlsx, type XlsxSheet } from '@/utils/xlsx';
+import { addDays, toLocalDate } from '@/utils/shiftRecurrence';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+type ReportView = 'company' | 'trade' | 'person' | 'daily';
+
+const VIEW_LABELS: Record<ReportView, string> = {
+  company: 'By Company',
+  trade: 'By Trade',
+  person: 'By Person',
+  daily: 'Daily Detail',
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatWeekday(dateStr: string): string {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'long' });
+}
+
+function formatHours(hours: number): string {
+  return String(Math.round(hours * 100) / 100);
+}
+
+function rollupSheet(name: string, labelHeader: string, detailHeader: string, rollups: ManpowerRollup[]): XlsxSheet {
+  return {
+    name,
+    headers: [labelHeader, detailHeader, 'Days on site', 'Worker-days', 'Hours'],
+    rows: rollups.map((r) => [r.label, r.detail.join(', '), r.days, r.worker_days, r.hours]),
+  };
+}
+
+// ============================================================================
+// Rollup Table
+// ============================================================================
+
+interface RollupTableProps {
+  rollups: ManpowerRollup[];
+  labelHeader: string;
+  detailHeader: string;
+  emptyMessage: string;
+}
+
+function RollupTable({ rollups, labelHeader, detailHeader, emptyMessage }: RollupTableProps) {
+  if (rollups.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">{emptyMessage}</p>;
+  }
+
+  const totals = rollups.reduce(
+    (sum, r) => ({ worker_days: sum.worker_days + r.worker_days, hours: sum.hours + r.hours }),
+    { worker_days: 0, hours: 0 }
+  );
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+          <th className="py-2 font-medium">{labelHeader}</th>
+          <th className="py-2 font-medium">{detailHeader}</th>
+          <th className="py-2 font-medium text-right">Days on site</th>
+          <th className="py-2 font-medium text-right">Worker-days</th>
+          <th className="py-2 font-medium text-right">Hours</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rollups.map((r) => (
+          <tr key={r.label} className="border-b border-gray-100">
+            <td className="py-2 text-gray-900 font-medium">{r.label}</td>
+            <td className="py-2 text-gray-500">{r.detail.join(', ') || '—'}</td>
+            <td className="py-2 text-right text-gray-700">{r.days}</td>
+            <td className="py-2 text-right text-gray-700">{r.worker_days}</td>
+            <td className="py-2 text-right text-gray-900">{formatHours(r.hours)}</td>
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr className="font-semibold text-gray-900">
+          <td className="py-2" colSpan={3}>Total</td>
+          <td className="py-2 text-right">{totals.worker_days}</td>
+          <td className="py-2 text-right">{formatHours(totals.hours)}</td>
+        </tr>
+      </tfoot>
+    </table>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export default function ManpowerReport() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+
+  const today = toLocalDate(new Date());
+  const [dateFrom, setDateFrom] = useState(() => addDays(toLocalDate(new Date()), -13));
+  const [dateTo, setDateTo] = useState(() => toLocalDate(new Date()));
+  const [skipWeekends, setSkipWeekends] = useState(true);
+  const [view, setView] = useState<ReportView>('company');
+
+  // Store
+  const currentProject = useSupervisorStore((s) => s.currentProject);
+  const dailyLogs = useSupervisorStore((s) => s.dailyLogs);
+  const loading = useSupervisorStore((s) => s.loading);
+  const error = useSupervisorStore((s) => s.error);
+  const fetchDailyLogsForDateRange = useSupervisorStore((s) => s.fetchDailyLogsForDateRange);
+  const fetchProjects = useSupervisorStore((s) => s.fetchProjects);
+  const setCurrentProject = useSupervisorStore((s) => s.setCurrentProject);
+  const projects = useSupervisorStore((s) => s.projects);
+
+  // Fetch project if not set
+  useEffect(() => {
+    if (!currentProject && projectId) {
+      fetchProjects().then(() => {
+        const project = useSupervisorStore.getState().projects.find(p => p.id === projectId);
+        if (project) {
+          setCurrentProject(project);
+        }
+      });
+    }
+  }, [projectId, currentProject, fetchProjects, setCurrentProject]);
+
+  // Fetch logs when date range changes
+  useEffect(() => {
+    if (projectId && dateFrom && dateTo && dateFrom <= dateTo) {
+      fetchDailyLogsForDateRange(projectId, dateFrom, dateTo);
+    }
+  }, [projectId, dateFrom, dateTo, fetchDailyLogsForDateRange]);
+
+  const report = useMemo(() => {
+    // The store may still hold another range until the fetch lands
+    const logs = dailyLogs.filter(
+      (log) => log.project_id === projectId && log.log_type === 'manpower' && log.log_date >= dateFrom && log.log_date <= dateTo
+    );
+    const entries = getManpowerEntries(logs);
+    const missingDays = getMissingManpowerDays(logs, dateFrom, dateTo, skipWeekends);
+
+    return {
+      entries,
+      byCompany: rollupByCompany(entries),
+      byTrade: rollupByTrade(entries),
+      byPerson: rollupByPerson(logs),
+      missingDays,
+      daysLogged: new Set(entries.map((e) => e.date)).size,
+      totalHours: entries.reduce((sum, e) => sum + e.hours, 0),
+      totalWorkerDays: entries.reduce((sum, e) => sum + e.worker_days, 0),
+    };
+  }, [dailyLogs, projectId, dateFrom, dateTo, skipWeekends]);
+
+  const projectName = currentProject?.name || projects.find(p => p.id === projectId)?.name || 'Project';
+  const filePrefix = `manpower-${projectName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${dateFrom}-to-${dateTo}`;
+
+  const dailySheet: XlsxSheet = {
+    name: 'Daily detail',
+    headers: ['Date', 'Company', 'Trade', 'Worker-days', 'Hours', 'Personnel', 'Notes'],
+    rows: report.entries.map((e) => [e.date, e.company, e.trade, e.worker_days, e.hours, e.personnel.join(', '), e.notes]),
+  };
+
+  const sheets: Record<ReportView, XlsxSheet> = {
+    company: rollupSheet('By company', 'Company', 'Trades', report.byCompany),
+    trade: rollupSheet('By trade', 'Trade', 'Companies', report.byTrade),
+    person: rollupSheet('By person', 'Person', 'Company', report.byPerson),
+    daily: dailySheet,
+  };
+
+  const handleExportCsv = () => {
+    const sheet = sheets[view];
+    downloadCsv(toCsv(sheet.headers, sheet.rows), `${filePrefix}-${view}.csv`);
+  };
+
+  const handleExportXlsx = () => {
+    const missingRows: CsvValue[][] = report.missingDays.map((date) => [date, formatWeekday(date)]);
+    downloadXlsx(
+      [
+        sheets.company,
+        sheets.trade,
+        sheets.person,
+        sheets.daily,
+        { name: 'Days with no manpower log', headers: ['Date', 'Day'], rows: missingRows },
+      ],
+      `${filePrefix}.xlsx`
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => navigate(`/projects/${projectId}`)}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Back to Project"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-lg font-semibold text-gray-900">Manpower Report</h1>
+                <p className="text-xs text-gray-500">{projectName}</p>
+              </div>
+            </div>
+
+            <Link
+              to="/projects"
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              All Projects
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-[180px]">
+              <label className="block text-xs font-medium text-gray-700 mb-1">From Date</label>
+              <input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                max={dateTo}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex-1 min-w-[180px]">
+              <label className="block text-xs font-medium text-gray-700 mb-1">To Date</label>
+              <input
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                min={dateFrom}
+                max={today}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+              <input
+                type="checkbox"
+                checked={skipWeekends}
+                onChange={(e) => setSkipWeekends(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Skip weekends when flagging missing days
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={handleExportCsv}
+                disabled={report.entries.length === 0}
+                className="px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                title={`Download "${VIEW_LABELS[view]}" as CSV`}
+              >
+                CSV
+              </button>
+              <button
+                onClick={handleExportXlsx}
+                disabled={report.entries.length === 0}
+                className="px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                title="Download every view as an Excel workbook"
+              >
+                Excel (.xlsx)
+              </button>
+            </div>
+          </div>
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        </div>
+
+        {/* Summary */}
+        <div className={`grid grid-cols-2 md:grid-cols-4 gap-3 ${loading ? 'opacity-60' : ''}`}>
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <div className="text-xs font-medium text-gray-500">Total hours</div>
+            <div className="text-2xl font-bold text-gray-900 mt-1">{formatHours(report.totalHours)}</div>
+          </div>
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <div className="text-xs font-medium text-gray-500">Worker-days</div>
+            <div className="text-2xl font-bold text-gray-900 mt-1">{report.totalWorkerDays}</div>
+          </div>
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <div className="text-xs font-medium text-gray-500">Days logged</div>
+            <div className="text-2xl font-bold text-gray-900 mt-1">{report.daysLogged}</div>
+            <div className="text-xs text-gray-500 mt-0.5">{report.byCompany.length} compan{report.byCompany.length === 1 ? 'y' : 'ies'}</div>
+          </div>
+          <div className={`rounded-lg border p-4 ${report.missingDays.length > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-white border-gray-200'}`}>
+            <div className="text-xs font-medium text-gray-500">Days with no manpower log</div>
+            <div className="text-2xl font-bold text-gray-900 mt-1">{report.missingDays.length}</div>
+          </div>
+        </div>
+
+        {/* Missing days */}
+        {report.missingDays.length > 0 && (
+          <div className="p-4 rounded-lg bg-yellow-50 border border-yellow-200">
+            <p className="text-sm font-medium text-yellow-800 mb-2">No manpower logged on:</p>
+            <div className="flex flex-wrap gap-1.5">
+              {report.missingDays.map((date) => (
+                <span key={date} className="px-2 py-0.5 text-xs rounded bg-white border border-yellow-300 text-yellow-800">
+                  {formatDate(date)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Views */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="flex border-b border-gray-200 overflow-x-auto">
+            {(Object.keys(VIEW_LABELS) as ReportView[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                className={`px-4 py-3 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
+                  view === key ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {VIEW_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          <div className="p-4 overflow-x-auto">
+            {view === 'company' && (
+              <RollupTable rollups={report.byCompany} labelHeader="Company" detailHeader="Trades" emptyMessage="No manpower logged in this range." />
+            )}
+            {view === 'trade' && (
+              <RollupTable rollups={report.byTrade} labelHeader="Trade" detailHeader="Companies" emptyMessage="No manpower logged in this range." />
+            )}
+            {view === 'person' && (
+              <RollupTable
+                rollups={report.byPerson}
+                labelHeader="Person"
+                detailHeader="Company"
+                emptyMessage="No named workers in this range. Add people under “Personnel on Site” on manpower logs."
+              />
+            )}
+            {view === 'daily' && (
+              report.entries.length === 0 ? (
+                <p className="text-sm text-gray-500 py-8 text-center">No manpower logged in this range.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                      <th className="py-2 font-medium">Date</th>
+                      <th className="py-2 font-medium">Company</th>
+                      <th className="py-2 font-medium">Trade</th>
+                      <th className="py-2 font-medium text-right">Worker-days</th>
+                      <th className="py-2 font-medium text-right">Hours</th>
+                      <th className="py-2 pl-4 font-medium">Personnel</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.entries.map((e) => (
+                      <tr key={e.log_id} className="border-b border-gray-100 align-top">
+                        <td className="py-2 text-gray-700 whitespace-nowrap">{formatDate(e.date)}</td>
+                        <td className="py-2 text-gray-900">{e.company}</td>
+                        <td className="py-2 text-gray-500">{e.trade}</td>
+                        <td className="py-2 text-right text-gray-700">{e.worker_days}</td>
+                        <td className="py-2 text-right text-gray-900">{formatHours(e.hours)}</td>
+                        <td className="py-2 pl-4 text-gray-500">{e.personnel.join(', ') || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
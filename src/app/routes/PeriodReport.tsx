@@ -0,0 +1,609 @@
+import { useEffect, useState, useMemo, type ReactNode } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { MeetingMinutesMetadata, ScheduleDelayMetadata, SiteIssueMetadata } from '@/types/supervisor';
+import { WEATHER_CONDITIONS } from '@/types/supervisor';
+import {
+  buildPeriodReport,
+  formatWeatherSummary,
+  getDeliverySummary,
+  getMeetingTypeLabel,
+  getPeriodRange,
+  shiftPeriod,
+  type ReportPeriod,
+} from '@/utils/periodReport';
+import { buildPeriodReportPdf, getPeriodReportPdfFilename } from '@/utils/periodReportPdf';
+import { DELAY_TYPE_LABELS } from '@/utils/analytics';
+import { getSiteIssueResolvedDate } from '@/utils/siteIssues';
+import { downloadPdfBlob, pdfFileSlug } from '@/utils/pdfLayout';
+import { downloadXlsx, type XlsxSheet } from '@/utils/xlsx';
+import { toLocalDate } from '@/utils/shiftRecurrence';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const PERIOD_LABELS: Record<ReportPeriod, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatHours(hours: number): string {
+  return String(Math.round(hours * 100) / 100);
+}
+
+// ============================================================================
+// Print Styles
+// ============================================================================
+
+const printStyles = `
+  @media print {
+    .no-print {
+      display: none !important;
+    }
+    .period-report {
+      padding: 0 !important;
+      max-width: none !important;
+    }
+    .period-report section {
+      border: none !important;
+      box-shadow: none !important;
+      break-inside: avoid;
+    }
+    body {
+      print-color-adjust: exact;
+      -webkit-print-color-adjust: exact;
+    }
+  }
+`;
+
+// ============================================================================
+// Report Section
+// ============================================================================
+
+function ReportSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+      <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">{title}</h2>
+      <div className="overflow-x-auto">{children}</div>
+    </section>
+  );
+}
+
+function EmptyMessage({ children }: { children: ReactNode }) {
+  return <p className="text-sm text-gray-500 py-2">{children}</p>;
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export default function PeriodReport() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+
+  const today = toLocalDate(new Date());
+  const [range, setRange] = useState(() => getPeriodRange('week', toLocalDate(new Date())));
+  const [exportingPdf, setExportingPdf] = useState(false);
+
+  // Store
+  const currentProject = useSupervisorStore((s) => s.currentProject);
+  const dailyLogs = useSupervisorStore((s) => s.dailyLogs);
+  const siteIssues = useSupervisorStore((s) => s.siteIssues);
+  const dailyReports = useSupervisorStore((s) => s.dailyReports);
+  const loading = useSupervisorStore((s) => s.loading);
+  const error = useSupervisorStore((s) => s.error);
+  const fetchDailyLogsForDateRange = useSupervisorStore((s) => s.fetchDailyLogsForDateRange);
+  const fetchSiteIssues = useSupervisorStore((s) => s.fetchSiteIssues);
+  const fetchDailyReports = useSupervisorStore((s) => s.fetchDailyReports);
+  const fetchProjects = useSupervisorStore((s) => s.fetchProjects);
+  const setCurrentProject = useSupervisorStore((s) => s.setCurrentProject);
+  const projects = useSupervisorStore((s) => s.projects);
+
+  // Fetch project if not set
+  useEffect(() => {
+    if (!currentProject && projectId) {
+      fetchProjects().then(() => {
+        const project = useSupervisorStore.getState().projects.find(p => p.id === projectId);
+        if (project) {
+          setCurrentProject(project);
+        }
+      });
+    }
+  }, [projectId, currentProject, fetchProjects, setCurrentProject]);
+
+  // Site issues raised before the period can still close in it; weather comes from the daily reports
+  useEffect(() => {
+    if (projectId) {
+      fetchSiteIssues(projectId);
+      fetchDailyReports(projectId);
+    }
+  }, [projectId, fetchSiteIssues, fetchDailyReports]);
+
+  // Fetch logs when the period changes
+  useEffect(() => {
+    if (projectId) {
+      fetchDailyLogsForDateRange(projectId, range.start, range.end);
+    }
+  }, [projectId, range.start, range.end, fetchDailyLogsForDateRange]);
+
+  const report = useMemo(() => {
+    const logs = dailyLogs.filter((log) => log.project_id === projectId);
+    // Include issues added since the site issue list was fetched
+    const fetched = siteIssues.filter((log) => log.project_id === projectId);
+    const added = logs.filter((log) => log.log_type === 'site_issue' && !fetched.some((i) => i.id === log.id));
+    const reports = dailyReports.filter((r) => r.project_id === projectId);
+    return buildPeriodReport(range, logs, [...fetched, ...added], reports);
+  }, [dailyLogs, siteIssues, dailyReports, projectId, range]);
+
+  const projectName = currentProject?.name || projects.find(p => p.id === projectId)?.name || 'Project';
+  const nextRange = shiftPeriod(range, 1);
+  const { totals } = report;
+
+  const handlePeriodChange = (period: ReportPeriod) => {
+    // Keep the view anchored on the same week/month: its last day that isn't in the future
+    setRange(getPeriodRange(period, range.end < today ? range.end : today));
+  };
+
+  const handleExportPdf = () => {
+    setExportingPdf(true);
+    try {
+      const blob = buildPeriodReportPdf({
+        data: report,
+        projectName,
+        projectAddress: currentProject?.site_address ?? null,
+      });
+      downloadPdfBlob(blob, getPeriodReportPdfFilename(projectName, report));
+    } catch (error) {
+      console.error('Failed to build period report PDF:', error);
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
+  const handleExportXlsx = () => {
+    const sheets: XlsxSheet[] = [
+      {
+        name: 'Day by day',
+        headers: ['Date', 'Weather', 'Worker-days', 'Manpower hours', 'Deliveries', 'Delay hours', 'Issues opened', 'Issues closed', 'Meetings'],
+        rows: report.days.map((d) => [
+          d.date,
+          formatWeatherSummary(d.weather),
+          d.worker_days,
+          d.manpower_hours,
+          d.deliveries,
+          d.delay_hours,
+          d.issues_opened,
+          d.issues_closed,
+          d.meetings,
+        ]),
+      },
+      {
+        name: 'Manpower by company',
+        headers: ['Company', 'Trades', 'Days on site', 'Worker-days', 'Hours'],
+        rows: report.manpowerByCompany.map((r) => [r.label, r.detail.join(', '), r.days, r.worker_days, r.hours]),
+      },
+      {
+        name: 'Deliveries',
+        headers: ['Date', 'Supplier', 'Items', 'PO #'],
+        rows: report.deliveries.map((log) => {
+          const { supplier, items, po_number } = getDeliverySummary(log);
+          return [log.log_date, supplier, items, po_number];
+        }),
+      },
+      {
+        name: 'Delays',
+        headers: ['Date', 'Description', 'Type', 'Impact hours', 'Affected areas'],
+        rows: report.delays.map((log) => {
+          const meta = log.metadata as ScheduleDelayMetadata;
+          return [log.log_date, log.content, DELAY_TYPE_LABELS[meta.delay_type ?? 'other'], meta.impact_hours ?? null, meta.affected_areas ?? ''];
+        }),
+      },
+      {
+        name: 'Site issues',
+        headers: ['Event', 'Date', 'Issue', 'Priority', 'Assigned to'],
+        rows: [
+          ...report.issuesOpened.map((issue) => ({ event: 'Opened', date: issue.log_date, issue })),
+          ...report.issuesClosed.map((issue) => ({ event: 'Closed', date: getSiteIssueResolvedDate(issue) ?? issue.log_date, issue })),
+        ].map(({ event, date, issue }) => {
+          const meta = issue.metadata as SiteIssueMetadata;
+          return [event, date, issue.content, meta.priority ?? '', meta.assigned_to ?? ''];
+        }),
+      },
+      {
+        name: 'Meetings',
+        headers: ['Date', 'Meeting', 'Type', 'Attendees', 'Duration (min)'],
+        rows: report.meetings.map((log) => {
+          const meta = log.metadata as MeetingMinutesMetadata;
+          return [log.log_date, meta.meeting_title || log.content, getMeetingTypeLabel(meta), (meta.attendees ?? []).join(', '), meta.duration_minutes ?? null];
+        }),
+      },
+    ];
+    downloadXlsx(sheets, `${pdfFileSlug(projectName)}-${range.period}ly-report-${range.start}.xlsx`);
+  };
+
+  const summaryTiles = [
+    { label: 'Manpower hours', value: formatHours(totals.manpower_hours), detail: `${totals.worker_days} worker-days` },
+    { label: 'Deliveries', value: String(totals.deliveries) },
+    { label: 'Delay hours', value: formatHours(totals.delay_hours), detail: `${totals.delays} delay${totals.delays === 1 ? '' : 's'} logged` },
+    { label: 'Site issues', value: `+${totals.issues_opened} / −${totals.issues_closed}`, detail: `${totals.open_at_end} open at period end` },
+    { label: 'Meetings', value: String(totals.meetings) },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <style>{printStyles}</style>
+
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 no-print">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => navigate(`/projects/${projectId}`)}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Back to Project"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-lg font-semibold text-gray-900">{PERIOD_LABELS[range.period]} Report</h1>
+                <p className="text-xs text-gray-500">{projectName}</p>
+              </div>
+            </div>
+
+            <Link
+              to="/projects"
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              All Projects
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6 period-report">
+        {/* Period controls */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 no-print">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+              {(Object.keys(PERIOD_LABELS) as ReportPeriod[]).map((period) => (
+                <button
+                  key={period}
+                  onClick={() => handlePeriodChange(period)}
+                  className={`px-3 py-2 text-sm font-medium ${
+                    range.period === period ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {PERIOD_LABELS[period]}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setRange(shiftPeriod(range, -1))}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+                title={`Previous ${range.period}`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <input
+                type="date"
+                value={range.start}
+                max={today}
+                onChange={(e) => e.target.value && setRange(getPeriodRange(range.period, e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title={`Jump to the ${range.period} containing a date`}
+              />
+              <button
+                onClick={() => setRange(nextRange)}
+                disabled={nextRange.start > today}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-30 disabled:hover:bg-transparent"
+                title={`Next ${range.period}`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+              <span className="text-sm font-medium text-gray-900">{range.label}</span>
+            </div>
+
+            <div className="flex gap-2 ml-auto">
+              <button
+                onClick={() => window.print()}
+                className="px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Print
+              </button>
+              <button
+                onClick={handleExportPdf}
+                disabled={exportingPdf}
+                className="px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                {exportingPdf ? 'Building…' : 'PDF'}
+              </button>
+              <button
+                onClick={handleExportXlsx}
+                className="px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700"
+                title="Download every section as an Excel workbook"
+              >
+                Excel (.xlsx)
+              </button>
+            </div>
+          </div>
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        </div>
+
+        {/* Report title (shown on paper in place of the app header) */}
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">{projectName} — {PERIOD_LABELS[range.period]} Report</h2>
+          <p className="text-sm text-gray-500">
+            {range.label} · {formatDate(range.start)} to {formatDate(range.end)}
+            {currentProject?.site_address ? ` · ${currentProject.site_address}` : ''}
+          </p>
+        </div>
+
+        {/* Summary */}
+        <div className={`grid grid-cols-2 md:grid-cols-5 gap-3 ${loading ? 'opacity-60' : ''}`}>
+          {summaryTiles.map((tile) => (
+            <div key={tile.label} className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-xs font-medium text-gray-500">{tile.label}</div>
+              <div className="text-2xl font-bold text-gray-900 mt-1">{tile.value}</div>
+              {tile.detail && <div className="text-xs text-gray-500 mt-0.5">{tile.detail}</div>}
+            </div>
+          ))}
+        </div>
+
+        {/* Day by day */}
+        <ReportSection title="Day by Day">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Weather</th>
+                <th className="py-2 font-medium text-right">Worker-days</th>
+                <th className="py-2 font-medium text-right">Hours</th>
+                <th className="py-2 font-medium text-right">Deliveries</th>
+                <th className="py-2 font-medium text-right">Delay hrs</th>
+                <th className="py-2 font-medium text-right">Issues +/−</th>
+                <th className="py-2 font-medium text-right">Meetings</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.days.map((day) => {
+                const condition = WEATHER_CONDITIONS.find((c) => c.value === day.weather?.conditions);
+                return (
+                  <tr key={day.date} className={`border-b border-gray-100 ${day.date > today ? 'text-gray-300' : ''}`}>
+                    <td className="py-2 whitespace-nowrap text-gray-700">{formatDate(day.date)}</td>
+                    <td className="py-2 text-gray-600">
+                      {day.weather ? (
+                        <>{condition?.icon} {formatWeatherSummary(day.weather) || 'Not recorded'}</>
+                      ) : (
+                        <span className="text-gray-400">No daily report</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right text-gray-700">{day.worker_days || '—'}</td>
+                    <td className="py-2 text-right text-gray-900">{day.manpower_hours ? formatHours(day.manpower_hours) : '—'}</td>
+                    <td className="py-2 text-right text-gray-700">{day.deliveries || '—'}</td>
+                    <td className={`py-2 text-right ${day.delay_hours ? 'text-orange-700 font-medium' : 'text-gray-700'}`}>
+                      {day.delay_hours ? formatHours(day.delay_hours) : '—'}
+                    </td>
+                    <td className="py-2 text-right text-gray-700">
+                      {day.issues_opened || day.issues_closed ? `+${day.issues_opened} / −${day.issues_closed}` : '—'}
+                    </td>
+                    <td className="py-2 text-right text-gray-700">{day.meetings || '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold text-gray-900">
+                <td className="py-2" colSpan={2}>
+                  Total <span className="font-normal text-xs text-gray-500">({totals.days_reported} day{totals.days_reported === 1 ? '' : 's'} with a daily report)</span>
+                </td>
+                <td className="py-2 text-right">{totals.worker_days}</td>
+                <td className="py-2 text-right">{formatHours(totals.manpower_hours)}</td>
+                <td className="py-2 text-right">{totals.deliveries}</td>
+                <td className="py-2 text-right">{formatHours(totals.delay_hours)}</td>
+                <td className="py-2 text-right">+{totals.issues_opened} / −{totals.issues_closed}</td>
+                <td className="py-2 text-right">{totals.meetings}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </ReportSection>
+
+        {/* Manpower */}
+        <ReportSection title="Manpower by Company">
+          {report.manpowerByCompany.length === 0 ? (
+            <EmptyMessage>No manpower logged this {range.period}.</EmptyMessage>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Company</th>
+                  <th className="py-2 font-medium">Trades</th>
+                  <th className="py-2 font-medium text-right">Days on site</th>
+                  <th className="py-2 font-medium text-right">Worker-days</th>
+                  <th className="py-2 font-medium text-right">Hours</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.manpowerByCompany.map((r) => (
+                  <tr key={r.label} className="border-b border-gray-100">
+                    <td className="py-2 text-gray-900 font-medium">{r.label}</td>
+                    <td className="py-2 text-gray-500">{r.detail.join(', ') || '—'}</td>
+                    <td className="py-2 text-right text-gray-700">{r.days}</td>
+                    <td className="py-2 text-right text-gray-700">{r.worker_days}</td>
+                    <td className="py-2 text-right text-gray-900">{formatHours(r.hours)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </ReportSection>
+
+        {/* Deliveries */}
+        <ReportSection title="Deliveries">
+          {report.deliveries.length === 0 ? (
+            <EmptyMessage>No deliveries logged this {range.period}.</EmptyMessage>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Date</th>
+                  <th className="py-2 font-medium">Supplier</th>
+                  <th className="py-2 font-medium">Items</th>
+                  <th className="py-2 font-medium">PO #</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.deliveries.map((log) => {
+                  const { supplier, items, po_number } = getDeliverySummary(log);
+                  return (
+                    <tr key={log.id} className="border-b border-gray-100 align-top">
+                      <td className="py-2 whitespace-nowrap text-gray-700">{formatDate(log.log_date)}</td>
+                      <td className="py-2 text-gray-900">{supplier || '—'}</td>
+                      <td className="py-2 text-gray-600">{items}</td>
+                      <td className="py-2 text-gray-500">{po_number || '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </ReportSection>
+
+        {/* Delays */}
+        <ReportSection title="Schedule & Delays">
+          {report.delays.length === 0 ? (
+            <EmptyMessage>No delays logged this {range.period}.</EmptyMessage>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {report.delayHoursByType.map((c) => (
+                  <span key={c.label} className="px-2 py-1 text-xs font-medium rounded bg-orange-50 border border-orange-200 text-orange-800">
+                    {c.label}: {formatHours(c.value)} hrs
+                  </span>
+                ))}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">Date</th>
+                    <th className="py-2 font-medium">Description</th>
+                    <th className="py-2 font-medium">Type</th>
+                    <th className="py-2 font-medium text-right">Impact (hrs)</th>
+                    <th className="py-2 pl-4 font-medium">Affected areas</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.delays.map((log) => {
+                    const meta = log.metadata as ScheduleDelayMetadata;
+                    return (
+                      <tr key={log.id} className="border-b border-gray-100 align-top">
+                        <td className="py-2 whitespace-nowrap text-gray-700">{formatDate(log.log_date)}</td>
+                        <td className="py-2 text-gray-900">{log.content}</td>
+                        <td className="py-2 text-gray-600">{DELAY_TYPE_LABELS[meta.delay_type ?? 'other']}</td>
+                        <td className="py-2 text-right text-gray-900">{meta.impact_hours ?? '—'}</td>
+                        <td className="py-2 pl-4 text-gray-500">{meta.affected_areas || '—'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </>
+          )}
+        </ReportSection>
+
+        {/* Site issues */}
+        <ReportSection title="Site Issues">
+          <p className="text-sm text-gray-600 mb-3">
+            {totals.issues_opened} opened, {totals.issues_closed} closed,{' '}
+            <span className={totals.open_at_end > 0 ? 'font-medium text-red-700' : ''}>{totals.open_at_end} open</span> at the end of the {range.period}.
+          </p>
+          {report.issuesOpened.length === 0 && report.issuesClosed.length === 0 ? (
+            <EmptyMessage>No site issues opened or closed this {range.period}.</EmptyMessage>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Event</th>
+                  <th className="py-2 font-medium">Date</th>
+                  <th className="py-2 font-medium">Issue</th>
+                  <th className="py-2 font-medium">Priority</th>
+                  <th className="py-2 font-medium">Assigned to</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.issuesOpened.map((issue) => (
+                  <tr key={`opened-${issue.id}`} className="border-b border-gray-100 align-top">
+                    <td className="py-2"><span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">Opened</span></td>
+                    <td className="py-2 whitespace-nowrap text-gray-700">{formatDate(issue.log_date)}</td>
+                    <td className="py-2 text-gray-900">{issue.content}</td>
+                    <td className="py-2 text-gray-600 capitalize">{(issue.metadata as SiteIssueMetadata).priority ?? '—'}</td>
+                    <td className="py-2 text-gray-500">{(issue.metadata as SiteIssueMetadata).assigned_to || '—'}</td>
+                  </tr>
+                ))}
+                {report.issuesClosed.map((issue) => (
+                  <tr key={`closed-${issue.id}`} className="border-b border-gray-100 align-top">
+                    <td className="py-2"><span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">Closed</span></td>
+                    <td className="py-2 whitespace-nowrap text-gray-700">{formatDate(getSiteIssueResolvedDate(issue) ?? issue.log_date)}</td>
+                    <td className="py-2 text-gray-900">{issue.content}</td>
+                    <td className="py-2 text-gray-600 capitalize">{(issue.metadata as SiteIssueMetadata).priority ?? '—'}</td>
+                    <td className="py-2 text-gray-500">{(issue.metadata as SiteIssueMetadata).assigned_to || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </ReportSection>
+
+        {/* Meetings */}
+        <ReportSection title="Meetings">
+          {report.meetings.length === 0 ? (
+            <EmptyMessage>No meetings logged this {range.period}.</EmptyMessage>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Date</th>
+                  <th className="py-2 font-medium">Meeting</th>
+                  <th className="py-2 font-medium">Type</th>
+                  <th className="py-2 font-medium">Attendees</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.meetings.map((log) => {
+                  const meta = log.metadata as MeetingMinutesMetadata;
+                  return (
+                    <tr key={log.id} className="border-b border-gray-100 align-top">
+                      <td className="py-2 whitespace-nowrap text-gray-700">{formatDate(log.log_date)}</td>
+                      <td className="py-2 text-gray-900">{meta.meeting_title || log.content}</td>
+                      <td className="py-2 text-gray-600">{getMeetingTypeLabel(meta)}</td>
+                      <td className="py-2 text-gray-500">{(meta.attendees ?? []).join(', ') || '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </ReportSection>
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { Link, useParams, useSearchParams, useNavigate } from 'react-router-dom'
 import { useAuthStore } from '@/stores/authStore';
 import { useSupervisorStore } from '@/stores/supervisorStore';
 import { useDocumentRealtime } from '@/hooks/useDocumentRealtime';
+import { useShiftReminderScheduler } from '@/hooks/useShiftReminderScheduler';
+import { useDocumentShiftMatcher } from '@/hooks/useDocumentShiftMatcher';
+import { useDocumentRouter } from '@/hooks/useDocumentRouter';
 import { DocumentFilterBar, filterDocuments } from '@/components/DocumentFilterBar';
 import { QuickReviewModal } from '@/components/QuickReviewModal';
 import { ShiftCloseout } from '@/components/ShiftCloseout';
@@ -17,8 +20,24 @@ import { DailyLogList } from '@/components/DailyLogList';
 import { SupervisorFormsList } from '@/components/SupervisorFormsList';
 import { NewSupervisorFormPicker } from '@/components/NewSupervisorFormPicker';
 import { SupervisorFormEditor } from '@/components/SupervisorFormEditor';
-import type { ReceivedDocument, DocumentFilters, DocumentMetadata, ProjectSubcontractor, CreateSubcontractorInput, ProjectShiftWithStats, ProjectDailyReport, DailyLogType } from '@/types/supervisor';
-import { getEffectiveMetadata } from '@/types/supervisor';
+import { PendingSyncIndicator } from '@/components/PendingSyncIndicator';
+import { AuditLogPanel } from '@/components/AuditLogPanel';
+import { ProjectMembersPanel } from '@/components/ProjectMembersPanel';
+import { ProjectWorkersPanel } from '@/components/ProjectWorkersPanel';
+import { ShiftTemplatesPanel } from '@/components/ShiftTemplatesPanel';
+import { ShiftMatchQueue } from '@/components/ShiftMatchQueue';
+import { DocumentViewer } from '@/components/DocumentViewer';
+import { RetentionPanel } from '@/components/RetentionPanel';
+import { RoutingRulesPanel } from '@/components/RoutingRulesPanel';
+import { SiteIssuesTracker } from '@/components/SiteIssuesTracker';
+import type { ReceivedDocument, DocumentFilters, DocumentSortOption, DocumentMetadata, ProjectSubcontractor, CreateSubcontractorInput, ProjectShiftWithStats, ProjectDailyReport, DailyLogType, ProjectPermission } from '@/types/supervisor';
+import { getEffectiveMetadata, hasProjectPermission, DAILY_LOG_TYPE_CONFIG, PROJECT_ROLE_CONFIG } from '@/types/supervisor';
+import { EMPTY_DOCUMENT_FILTERS, readDocumentFilterParams, writeDocumentFilterParams } from '@/utils/documentFilters';
+import { isDocumentOnLegalHold } from '@/utils/retention';
+import { findDuplicateGroups, indexDuplicateGroups } from '@/utils/duplicateDetection';
+import { getAutoFileThreshold } from '@/utils/documentRouting';
+import { isSiteIssueOverdue } from '@/utils/siteIssues';
+import { toLocalDate } from '@/utils/shiftRecurrence';
 
 // Toast notification for new documents
 interface Toast {
@@ -36,7 +55,7 @@ export default function ProjectDetail() {
   const [showSettingsMenu, setShowSettingsMenu] = useState(false);
   
   // Tab state - 'documents' is now the primary "Forms" tab
-  const [activeTab, setActiveTab] = useState<'folders' | 'contacts' | 'subcontractors' | 'documents'>('documents');
+  const [activeTab, setActiveTab] = useState<'folders' | 'contacts' | 'subcontractors' | 'documents' | 'workers' | 'templates' | 'team' | 'audit' | 'retention' | 'routing'>('documents');
   
   // Forms sub-tab state (within the Forms tab)
   const [formsSubTab, setFormsSubTab] = useState<'received' | 'my_forms'>('received');
@@ -46,6 +65,7 @@ export default function ProjectDetail() {
   // Daily log modal state (for QuickAddBar)
   const [showDailyLogModal, setShowDailyLogModal] = useState(false);
   const [selectedLogType, setSelectedLogType] = useState<DailyLogType | null>(null);
+  const [showSiteIssues, setShowSiteIssues] = useState(false);
   
   // Shift management state
   const [showCreateShiftModal, setShowCreateShiftModal] = useState(false);
@@ -86,21 +106,20 @@ export default function ProjectDetail() {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   
-  // Filter state
-  const [filters, setFilters] = useState<DocumentFilters>({
-    search: '',
-    workerName: null,
-    companyName: null,
-    dateFrom: null,
-    dateTo: null,
-    documentType: null,
-  });
+  // Filter and sort state lives in the URL so filtered lists survive navigation and can be shared
+  const { filters, sortBy } = useMemo(() => readDocumentFilterParams(searchParams), [searchParams]);
+  const applyDocumentListParams = useCallback((nextFilters: DocumentFilters, nextSort: DocumentSortOption) => {
+    setSearchParams((prev) => writeDocumentFilterParams(prev, nextFilters, nextSort), { replace: true });
+  }, [setSearchParams]);
+  const setFilters = (nextFilters: DocumentFilters) => applyDocumentListParams(nextFilters, sortBy);
+  const setSortBy = (nextSort: DocumentSortOption) => applyDocumentListParams(filters, nextSort);
   const [showFilters, setShowFilters] = useState(true); // Show filters by default
-  const [sortBy, setSortBy] = useState<'date_desc' | 'date_asc' | 'name_asc' | 'name_desc' | 'company' | 'worker'>('date_desc');
   
   // Quick Review modal state
   const [showQuickReview, setShowQuickReview] = useState(false);
   const [quickReviewStartIndex, setQuickReviewStartIndex] = useState(0);
+  // Queue is fixed when Quick Review opens so filing a document doesn't reorder it
+  const [quickReviewIds, setQuickReviewIds] = useState<string[]>([]);
   
   // Bulk selection state
   const [selectedDocIds, setSelectedDocIds] = useState<Set<string>>(new Set());
@@ -171,18 +190,26 @@ export default function ProjectDetail() {
   const updateDocumentMetadata = useSupervisorStore((s) => s.updateDocumentMetadata);
   const moveDocumentsToFolder = useSupervisorStore((s) => s.moveDocumentsToFolder);
   const deleteDocuments = useSupervisorStore((s) => s.deleteDocuments);
+  const resolveDuplicateDocuments = useSupervisorStore((s) => s.resolveDuplicateDocuments);
+  const restoreDocumentReview = useSupervisorStore((s) => s.restoreDocumentReview);
+  const setDocumentLegalHold = useSupervisorStore((s) => s.setDocumentLegalHold);
+  const hashDocumentContents = useSupervisorStore((s) => s.hashDocumentContents);
   const clearError = useSupervisorStore((s) => s.clearError);
   
   // Shift store selectors
   const shifts = useSupervisorStore((s) => s.shifts);
   const shiftWorkers = useSupervisorStore((s) => s.shiftWorkers);
   const fetchShifts = useSupervisorStore((s) => s.fetchShifts);
+  const fetchShiftTemplates = useSupervisorStore((s) => s.fetchShiftTemplates);
+  const generateShiftsFromTemplates = useSupervisorStore((s) => s.generateShiftsFromTemplates);
   const setCurrentShift = useSupervisorStore((s) => s.setCurrentShift);
 
   // Daily Log & PDR store selectors
   const dailyLogs = useSupervisorStore((s) => s.dailyLogs);
   const dailyReports = useSupervisorStore((s) => s.dailyReports);
   const fetchDailyLogsForDateRange = useSupervisorStore((s) => s.fetchDailyLogsForDateRange);
+  const siteIssues = useSupervisorStore((s) => s.siteIssues);
+  const fetchSiteIssues = useSupervisorStore((s) => s.fetchSiteIssues);
   const fetchDailyReports = useSupervisorStore((s) => s.fetchDailyReports);
   const deleteDailyLog = useSupervisorStore((s) => s.deleteDailyLog);
   const getDailyLogsGroupedByPeriod = useSupervisorStore((s) => s.getDailyLogsGroupedByPeriod);
@@ -192,9 +219,17 @@ export default function ProjectDetail() {
 
   // Supervisor Forms store selectors
   const fetchSupervisorForms = useSupervisorStore((s) => s.fetchSupervisorForms);
+  const fetchFormDefinitions = useSupervisorStore((s) => s.fetchFormDefinitions);
 
   const project = projects.find((p) => p.id === projectId);
 
+  // What the current user's role on this project allows
+  const role = project?.my_role ?? null;
+  const can = (permission: ProjectPermission) => hasProjectPermission(role, permission);
+  const canSelectDocuments = can('documents.review') || can('documents.delete');
+  const canReviewDocuments = project ? can('documents.review') : false;
+  const autoFileThreshold = getAutoFileThreshold(project);
+
   // Toast management
   const addToast = useCallback((toast: Omit<Toast, 'id'>) => {
     const id = crypto.randomUUID();
@@ -209,6 +244,12 @@ export default function ProjectDetail() {
     setToasts((prev) => prev.filter((t) => t.id !== id));
   }, []);
 
+  // Link incoming forms to workers on active shifts
+  const { matchDocument } = useDocumentShiftMatcher(projectId, canReviewDocuments);
+
+  // File incoming documents by routing rule without waiting for a reprocess
+  const { routeDocument } = useDocumentRouter(projectId, canReviewDocuments);
+
   // Realtime document subscription
   useDocumentRealtime(projectId, {
     onNewDocument: (doc) => {
@@ -217,8 +258,17 @@ export default function ProjectDetail() {
         sender: doc.source_email ?? undefined,
         type: 'new_document',
       });
+      routeDocument(doc);
+      matchDocument(doc);
+      if (projectId && canReviewDocuments && !doc.content_hash) {
+        hashDocumentContents(projectId, [doc.id]);
+      }
     },
     onDocumentUpdated: (doc) => {
+      // AI extraction or a manual correction may have filled in the worker or company name
+      routeDocument(doc);
+      matchDocument(doc);
+
       // Only toast for status changes to 'filed' (auto-filed by AI)
       if (doc.status === 'filed' && doc.folder_id) {
         addToast({
@@ -259,11 +309,34 @@ export default function ProjectDetail() {
       // Fetch daily logs for the past 7 days
       const { startDate, endDate } = getSevenDayRange();
       fetchDailyLogsForDateRange(projectId, startDate, endDate);
+      fetchSiteIssues(projectId);
       
       fetchDailyReports(projectId);
       fetchSupervisorForms(projectId);
+      fetchFormDefinitions();
     }
-  }, [projectId, setLastActiveProject, fetchFolders, fetchContacts, fetchSubcontractors, fetchDocuments, fetchShifts, fetchDailyLogsForDateRange, fetchDailyReports, fetchSupervisorForms, getSevenDayRange]);
+  }, [projectId, setLastActiveProject, fetchFolders, fetchContacts, fetchSubcontractors, fetchDocuments, fetchShifts, fetchDailyLogsForDateRange, fetchSiteIssues, fetchDailyReports, fetchSupervisorForms, fetchFormDefinitions, getSevenDayRange]);
+
+  // Background shift jobs wait until we know the user may manage shifts
+  const canManageShifts = project ? can('shifts.manage') : false;
+  useShiftReminderScheduler(projectId, canManageShifts);
+
+  // Top up recurring shift drafts
+  useEffect(() => {
+    if (!projectId) return;
+    fetchShiftTemplates(projectId).then(async () => {
+      if (!canManageShifts) return;
+      const created = await generateShiftsFromTemplates(projectId);
+      // Reload so the list includes drafts the initial fetch may have missed
+      if (created.length > 0) fetchShifts(projectId);
+    });
+  }, [projectId, canManageShifts, fetchShiftTemplates, generateShiftsFromTemplates, fetchShifts]);
+
+  // Hash documents stored without one so identical copies group together
+  useEffect(() => {
+    if (!projectId || !canReviewDocuments) return;
+    hashDocumentContents(projectId);
+  }, [projectId, canReviewDocuments, hashDocumentContents]);
 
   // Handle URL query parameters for deep linking (e.g., from Dashboard "Start New Shift")
   useEffect(() => {
@@ -274,8 +347,12 @@ export default function ProjectDetail() {
       setTimeout(() => {
         setShowCreateShiftModal(true);
       }, 100);
-      // Clear the URL params after processing
-      setSearchParams({});
+      // Clear the param after processing (filter params stay)
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        next.delete('newShift');
+        return next;
+      });
     }
   }, [searchParams, setSearchParams]);
 
@@ -304,12 +381,17 @@ export default function ProjectDetail() {
 
     if (!projectId || !workerEmail.trim()) return;
 
-    await addWorker(projectId, workerEmail, workerSubcontractorId || undefined);
-
-    if (!error) {
+    try {
+      const worker = await addWorker(projectId, workerEmail, workerSubcontractorId || undefined);
       setShowWorkerModal(false);
       setWorkerEmail('');
       setWorkerSubcontractorId('');
+      setActiveTab('workers');
+      if (worker.status === 'pending' && worker.invite_sent_at) {
+        alert(`No HrdHat account for ${worker.invite_email} yet. We've emailed them a signup link; they'll join the project once they sign up.`);
+      }
+    } catch {
+      // addWorker sets the store error shown in the modal
     }
   };
 
@@ -416,12 +498,21 @@ export default function ProjectDetail() {
     setShowMoveModal(true);
   };
 
+  const handleToggleDocumentHold = async (doc: ReceivedDocument) => {
+    if (doc.legal_hold) {
+      await setDocumentLegalHold([doc.id], false);
+      return;
+    }
+    const reason = prompt('Reason for the legal hold (e.g. claim or case number):');
+    if (reason !== null) await setDocumentLegalHold([doc.id], true, reason);
+  };
+
   const openDeleteModal = (doc: ReceivedDocument) => {
     setSelectedDocument(doc);
     setShowDeleteModal(true);
   };
 
-  const handlePreviewDocument = async (doc: ReceivedDocument) => {
+  const handlePreviewDocument = useCallback(async (doc: ReceivedDocument) => {
     setIsLoadingPreview(true);
     setSelectedDocument(doc);
 
@@ -441,7 +532,21 @@ export default function ProjectDetail() {
     }
     
     setIsLoadingPreview(false);
-  };
+  }, [getDocumentDownloadUrl, clearError]);
+
+  // Open a document linked from cross-project search (?document=<id>) once documents load
+  const linkedDocumentId = searchParams.get('document');
+  useEffect(() => {
+    if (!linkedDocumentId) return;
+    const doc = documents.find((d) => d.id === linkedDocumentId);
+    if (!doc) return;
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.delete('document');
+      return next;
+    });
+    setTimeout(() => handlePreviewDocument(doc), 0);
+  }, [linkedDocumentId, documents, setSearchParams, handlePreviewDocument]);
 
   const handleDownloadDocument = async (doc: ReceivedDocument) => {
     await downloadDocument(doc);
@@ -477,16 +582,37 @@ export default function ProjectDetail() {
   };
 
   // Quick Review handlers
-  const handleOpenQuickReview = (startIndex = 0) => {
-    setQuickReviewStartIndex(startIndex);
-    setShowQuickReview(true);
+  const handleResolveDuplicates = async (keep: ReceivedDocument, reject: ReceivedDocument[]) => {
+    clearError();
+    await resolveDuplicateDocuments(
+      keep.id,
+      reject.map((d) => d.id),
+      `Duplicate of ${keep.original_filename ?? 'a kept copy'}`
+    );
+    return !useSupervisorStore.getState().error;
+  };
+
+  const handleQuickReviewReject = async (doc: ReceivedDocument) => {
+    clearError();
+    await deleteDocument(doc.id, 'Rejected in Quick Review');
+    return !useSupervisorStore.getState().error;
   };
 
   const handleQuickReviewSave = async (
     documentId: string,
     updates: { folderId: string | null; metadata: Partial<DocumentMetadata> }
   ) => {
+    clearError();
     await updateDocumentMetadata(documentId, updates.folderId, updates.metadata);
+    const error = useSupervisorStore.getState().error;
+    if (error) throw new Error(error);
+  };
+
+  const handleQuickReviewRestore = async (snapshot: ReceivedDocument) => {
+    clearError();
+    await restoreDocumentReview(snapshot);
+    const error = useSupervisorStore.getState().error;
+    if (error) throw new Error(error);
   };
 
   // Bulk selection handlers
@@ -565,6 +691,26 @@ export default function ProjectDetail() {
     });
   }, [folderDocuments, filters, sortBy]);
 
+  // Same submission received more than once
+  const duplicateGroups = useMemo(() => findDuplicateGroups(documents), [documents]);
+  const duplicateGroupByDoc = useMemo(() => indexDuplicateGroups(duplicateGroups), [duplicateGroups]);
+  const reviewDocuments = useMemo(() => {
+    const byId = new Map(documents.map((d) => [d.id, d]));
+    return quickReviewIds.flatMap((id) => byId.get(id) ?? []);
+  }, [documents, quickReviewIds]);
+
+  const handleOpenQuickReview = (startIndex = 0) => {
+    setQuickReviewIds(currentDocuments.map((d) => d.id));
+    setQuickReviewStartIndex(startIndex);
+    setShowQuickReview(true);
+  };
+
+  const handleOpenDuplicateReview = () => {
+    setQuickReviewIds(duplicateGroups.flatMap((group) => group.documents.map((d) => d.id)));
+    setQuickReviewStartIndex(0);
+    setShowQuickReview(true);
+  };
+
   const unsortedCount = getDocumentCountByFolder(null);
   const totalDocumentsCount = documents.filter(d => d.status !== 'rejected').length;
   
@@ -597,6 +743,15 @@ export default function ProjectDetail() {
   //   ? contacts.filter((c) => c.recent_project_id === projectId || c.recent_project_id === null)
   //   : contacts;
   const activeSubcontractors = subcontractors.filter((s) => s.status === 'active');
+  const openSiteIssues = siteIssues.filter((issue) => issue.project_id === projectId && issue.status !== 'resolved');
+  const openSiteIssueCount = openSiteIssues.length;
+  const overdueSiteIssueCount = openSiteIssues.filter((issue) => isSiteIssueOverdue(issue, toLocalDate(new Date()))).length;
+  const workerSuggestions = [...new Set(contacts.map((c) => c.name).filter(Boolean))].sort();
+  const companySuggestions = [...new Set(
+    [...activeSubcontractors.map((s) => s.company_name), ...contacts.map((c) => c.company_name)].filter(
+      (name): name is string => !!name
+    )
+  )].sort();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
@@ -632,6 +787,7 @@ export default function ProjectDetail() {
               <span className="text-white font-medium truncate max-w-[150px] sm:max-w-none">{project?.name ?? 'Loading...'}</span>
             </div>
             <div className="flex items-center gap-4">
+              <PendingSyncIndicator />
               <span className="hidden sm:block text-sm text-slate-400">{user?.email}</span>
               <button
                 onClick={logout}
@@ -701,11 +857,42 @@ export default function ProjectDetail() {
                 >
                   {project?.is_active ? 'Active' : 'Inactive'}
                 </span>
+                {role && role !== 'owner' && (
+                  <span
+                    className="flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded bg-primary-50 text-primary-700"
+                    title={PROJECT_ROLE_CONFIG[role].description}
+                  >
+                    {PROJECT_ROLE_CONFIG[role].label}
+                  </span>
+                )}
               </div>
               {project?.site_address && (
                 <p className="text-secondary-600 mt-1 text-sm sm:text-base truncate">{project.site_address}</p>
               )}
             </div>
+            <div className="flex-shrink-0 mt-1 flex items-center gap-3 text-sm font-medium">
+              <Link
+                to={`/projects/${projectId}/manpower`}
+                onClick={(e) => e.stopPropagation()}
+                className="text-primary-600 hover:text-primary-700"
+              >
+                Manpower
+              </Link>
+              <Link
+                to={`/projects/${projectId}/period-report`}
+                onClick={(e) => e.stopPropagation()}
+                className="text-primary-600 hover:text-primary-700"
+              >
+                Weekly Report
+              </Link>
+              <Link
+                to={`/analytics?project=${projectId}`}
+                onClick={(e) => e.stopPropagation()}
+                className="text-primary-600 hover:text-primary-700"
+              >
+                Analytics
+              </Link>
+            </div>
           </div>
 
           {/* Collapsible content */}
@@ -767,41 +954,68 @@ export default function ProjectDetail() {
         </div>
 
         {/* Quick Add Bar - Collapsible */}
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-          <div 
-            className="flex items-center gap-2 p-4 cursor-pointer"
-            onClick={() => setIsQuickAddExpanded(!isQuickAddExpanded)}
-          >
-            <svg 
-              className={`w-5 h-5 text-gray-400 transition-transform duration-200 ${isQuickAddExpanded ? 'rotate-180' : ''}`} 
-              fill="none" 
-              viewBox="0 0 24 24" 
-              stroke="currentColor"
+        {can('logs.edit') && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div 
+              className="flex items-center gap-2 p-4 cursor-pointer"
+              onClick={() => setIsQuickAddExpanded(!isQuickAddExpanded)}
             >
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-            </svg>
-            <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Quick Add</span>
-          </div>
-          <div className={`${isQuickAddExpanded ? 'block' : 'hidden'} px-4 pb-4`}>
-            <QuickAddBar 
-              onAddShift={() => setShowCreateShiftModal(true)}
-              onAddLog={(type) => {
-                setSelectedLogType(type);
-                setShowDailyLogModal(true);
-              }}
-            />
-            {/* Generate Daily Report Button */}
-            <div className="mt-3 pt-3 border-t border-gray-200">
-              <button
-                onClick={() => setShowAIDailyReportModal(true)}
-                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-500 text-white rounded-lg hover:from-indigo-600 hover:to-purple-600 transition-all shadow-sm"
+              <svg 
+                className={`w-5 h-5 text-gray-400 transition-transform duration-200 ${isQuickAddExpanded ? 'rotate-180' : ''}`} 
+                fill="none" 
+                viewBox="0 0 24 24" 
+                stroke="currentColor"
               >
-                <span className="text-lg">📊</span>
-                <span className="font-medium">Generate daily report powered by Gemini</span>
-              </button>
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+              <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Quick Add</span>
+            </div>
+            <div className={`${isQuickAddExpanded ? 'block' : 'hidden'} px-4 pb-4`}>
+              <QuickAddBar 
+                onAddShift={can('shifts.manage') ? () => setShowCreateShiftModal(true) : undefined}
+                onAddLog={(type) => {
+                  setSelectedLogType(type);
+                  setShowDailyLogModal(true);
+                }}
+              />
+              {/* Generate Daily Report Button */}
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <button
+                  onClick={() => setShowAIDailyReportModal(true)}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-500 text-white rounded-lg hover:from-indigo-600 hover:to-purple-600 transition-all shadow-sm"
+                >
+                  <span className="text-lg">📊</span>
+                  <span className="font-medium">Generate daily report powered by Gemini</span>
+                </button>
+              </div>
             </div>
           </div>
-        </div>
+        )}
+
+        {/* Site Issues punch list */}
+        <button
+          onClick={() => setShowSiteIssues(true)}
+          className="mt-4 w-full flex items-center justify-between gap-3 p-4 bg-white rounded-xl shadow-sm border border-gray-200 hover:bg-gray-50 transition-colors text-left"
+        >
+          <span className="flex items-center gap-2 text-sm font-medium text-gray-800">
+            <span>{DAILY_LOG_TYPE_CONFIG.site_issue.icon}</span>
+            Site Issues
+          </span>
+          <span className="flex items-center gap-2">
+            {openSiteIssueCount > 0 ? (
+              <span className="px-2 py-0.5 text-xs font-medium bg-red-100 text-red-700 rounded-full">
+                {openSiteIssueCount} Open
+              </span>
+            ) : (
+              <span className="text-xs text-gray-400">None open</span>
+            )}
+            {overdueSiteIssueCount > 0 && (
+              <span className="px-2 py-0.5 text-xs font-medium bg-red-600 text-white rounded-full">
+                {overdueSiteIssueCount} Overdue
+              </span>
+            )}
+          </span>
+        </button>
 
         {/* Daily Logs List - Collapsible, Grouped by Period (Today, Yesterday, Earlier This Week) */}
         <div className="mt-4">
@@ -809,14 +1023,14 @@ export default function ProjectDetail() {
             logs={dailyLogs}
             title="Recent Logs"
             groupedByPeriod={getDailyLogsGroupedByPeriod()}
-            onDeleteLog={async (logId) => {
+            onDeleteLog={can('logs.edit') ? async (logId) => {
               await deleteDailyLog(logId);
               // Refresh logs after deletion
               if (projectId) {
                 const { startDate, endDate } = getSevenDayRange();
                 fetchDailyLogsForDateRange(projectId, startDate, endDate);
               }
-            }}
+            } : undefined}
             onViewArchive={() => {
               if (projectId) {
                 navigate(`/projects/${projectId}/log-archive`);
@@ -873,7 +1087,7 @@ export default function ProjectDetail() {
                 <button
                   onClick={() => setShowSettingsMenu(!showSettingsMenu)}
                   className={`px-4 py-4 text-sm font-medium transition-colors flex items-center gap-2 ${
-                    showSettingsMenu || ['folders', 'subcontractors', 'contacts'].includes(activeTab)
+                    showSettingsMenu || ['folders', 'subcontractors', 'contacts', 'team', 'audit', 'retention', 'routing'].includes(activeTab)
                       ? 'text-primary-600'
                       : 'text-secondary-500 hover:text-secondary-700'
                   }`}
@@ -927,6 +1141,60 @@ export default function ProjectDetail() {
                       Contacts
                       <span className="ml-auto text-xs text-secondary-400">{contacts.length}</span>
                     </button>
+                    <button
+                      onClick={() => { setActiveTab('workers'); setShowSettingsMenu(false); }}
+                      className={`w-full text-left px-4 py-2 text-sm hover:bg-secondary-50 flex items-center gap-2 ${activeTab === 'workers' ? 'text-primary-600 bg-primary-50' : 'text-secondary-700'}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                      </svg>
+                      Workers
+                    </button>
+                    <button
+                      onClick={() => { setActiveTab('templates'); setShowSettingsMenu(false); }}
+                      className={`w-full text-left px-4 py-2 text-sm hover:bg-secondary-50 flex items-center gap-2 ${activeTab === 'templates' ? 'text-primary-600 bg-primary-50' : 'text-secondary-700'}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                      </svg>
+                      Shift Templates
+                    </button>
+                    <button
+                      onClick={() => { setActiveTab('team'); setShowSettingsMenu(false); }}
+                      className={`w-full text-left px-4 py-2 text-sm hover:bg-secondary-50 flex items-center gap-2 ${activeTab === 'team' ? 'text-primary-600 bg-primary-50' : 'text-secondary-700'}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+                      </svg>
+                      Team
+                    </button>
+                    <button
+                      onClick={() => { setActiveTab('audit'); setShowSettingsMenu(false); }}
+                      className={`w-full text-left px-4 py-2 text-sm hover:bg-secondary-50 flex items-center gap-2 ${activeTab === 'audit' ? 'text-primary-600 bg-primary-50' : 'text-secondary-700'}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                      </svg>
+                      Audit Log
+                    </button>
+                    <button
+                      onClick={() => { setActiveTab('retention'); setShowSettingsMenu(false); }}
+                      className={`w-full text-left px-4 py-2 text-sm hover:bg-secondary-50 flex items-center gap-2 ${activeTab === 'retention' ? 'text-primary-600 bg-primary-50' : 'text-secondary-700'}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                      </svg>
+                      Retention
+                    </button>
+                    <button
+                      onClick={() => { setActiveTab('routing'); setShowSettingsMenu(false); }}
+                      className={`w-full text-left px-4 py-2 text-sm hover:bg-secondary-50 flex items-center gap-2 ${activeTab === 'routing' ? 'text-primary-600 bg-primary-50' : 'text-secondary-700'}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                      </svg>
+                      Routing
+                    </button>
                   </div>
                   </>
                 )}
@@ -942,12 +1210,14 @@ export default function ProjectDetail() {
               <div>
                 <div className="flex justify-between items-center mb-4">
                   <h3 className="text-lg font-semibold text-secondary-900">Form Folders</h3>
-                  <button
-                    onClick={() => setShowFolderModal(true)}
-                    className="px-3 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
-                  >
-                    + Add Folder
-                  </button>
+                  {can('folders.manage') && (
+                    <button
+                      onClick={() => setShowFolderModal(true)}
+                      className="px-3 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+                    >
+                      + Add Folder
+                    </button>
+                  )}
                 </div>
 
                 {/* Unsorted Documents Card - Always visible */}
@@ -1045,24 +1315,26 @@ export default function ProjectDetail() {
               <div>
                 <div className="flex justify-between items-center mb-4">
                   <h3 className="text-lg font-semibold text-secondary-900">Subcontractors</h3>
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => setShowDiscoverSubcontractorsModal(true)}
-                      className="px-3 py-2 text-sm border border-primary-600 text-primary-600 hover:bg-primary-50 rounded-lg transition-colors flex items-center gap-1"
-                      title="Discover subcontractors from submitted forms"
-                    >
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                      </svg>
-                      Discover
-                    </button>
-                    <button
-                      onClick={() => openSubcontractorModal()}
-                      className="px-3 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
-                    >
-                      + Add Subcontractor
-                    </button>
-                  </div>
+                  {can('workers.manage') && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setShowDiscoverSubcontractorsModal(true)}
+                        className="px-3 py-2 text-sm border border-primary-600 text-primary-600 hover:bg-primary-50 rounded-lg transition-colors flex items-center gap-1"
+                        title="Discover subcontractors from submitted forms"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                        </svg>
+                        Discover
+                      </button>
+                      <button
+                        onClick={() => openSubcontractorModal()}
+                        className="px-3 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+                      >
+                        + Add Subcontractor
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 {activeSubcontractors.length === 0 ? (
@@ -1099,26 +1371,28 @@ export default function ProjectDetail() {
                                 )}
                               </div>
                             </div>
-                            <div className="flex items-center gap-1">
-                              <button
-                                onClick={() => openSubcontractorModal(sub)}
-                                className="p-1.5 text-secondary-500 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
-                                title="Edit"
-                              >
-                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                                </svg>
-                              </button>
-                              <button
-                                onClick={() => handleDeleteSubcontractor(sub.id, sub.company_name)}
-                                className="p-1.5 text-secondary-500 hover:text-danger-600 hover:bg-danger-50 rounded-lg transition-colors"
-                                title="Delete"
-                              >
-                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                </svg>
-                              </button>
-                            </div>
+                            {can('workers.manage') && (
+                              <div className="flex items-center gap-1">
+                                <button
+                                  onClick={() => openSubcontractorModal(sub)}
+                                  className="p-1.5 text-secondary-500 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+                                  title="Edit"
+                                >
+                                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                  </svg>
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteSubcontractor(sub.id, sub.company_name)}
+                                  className="p-1.5 text-secondary-500 hover:text-danger-600 hover:bg-danger-50 rounded-lg transition-colors"
+                                  title="Delete"
+                                >
+                                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                  </svg>
+                                </button>
+                              </div>
+                            )}
                           </div>
 
                           {/* Contact Info */}
@@ -1151,7 +1425,7 @@ export default function ProjectDetail() {
                             </div>
                             <button
                               onClick={() => {
-                                setFilters(prev => ({ ...prev, companyName: sub.company_name }));
+                                setFilters({ ...filters, companyName: sub.company_name });
                                 setActiveTab('documents');
                               }}
                               className="flex items-center gap-1.5 text-sm text-primary-600 hover:text-primary-700"
@@ -1175,6 +1449,36 @@ export default function ProjectDetail() {
               </div>
             )}
 
+            {/* Workers Tab */}
+            {activeTab === 'workers' && projectId && (
+              <ProjectWorkersPanel projectId={projectId} onInvite={() => { clearError(); setShowWorkerModal(true); }} />
+            )}
+
+            {/* Shift Templates Tab */}
+            {activeTab === 'templates' && projectId && (
+              <ShiftTemplatesPanel projectId={projectId} />
+            )}
+
+            {/* Team Tab */}
+            {activeTab === 'team' && projectId && (
+              <ProjectMembersPanel projectId={projectId} />
+            )}
+
+            {/* Audit Log Tab */}
+            {activeTab === 'audit' && projectId && (
+              <AuditLogPanel projectId={projectId} projectName={project?.name ?? 'project'} />
+            )}
+
+            {/* Retention Tab */}
+            {activeTab === 'retention' && projectId && (
+              <RetentionPanel projectId={projectId} />
+            )}
+
+            {/* Routing Tab */}
+            {activeTab === 'routing' && projectId && (
+              <RoutingRulesPanel projectId={projectId} />
+            )}
+
             {/* Contacts Tab */}
             {activeTab === 'contacts' && (
               <div>
@@ -1298,6 +1602,7 @@ export default function ProjectDetail() {
                     projectId={projectId}
                     onCreateForm={() => setShowFormPicker(true)}
                     onEditForm={(formId) => setEditingFormId(formId)}
+                    readOnly={!can('forms.edit')}
                   />
                 )}
 
@@ -1321,7 +1626,7 @@ export default function ProjectDetail() {
                       <label className="text-sm text-secondary-500 hidden sm:inline">Sort:</label>
                       <select
                         value={sortBy}
-                        onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                        onChange={(e) => setSortBy(e.target.value as DocumentSortOption)}
                         className="px-3 py-2 text-sm rounded-lg border border-secondary-300 bg-white focus:border-primary-500 focus:ring-2 focus:ring-primary-200 outline-none transition-all"
                       >
                         <option value="date_desc">Newest First</option>
@@ -1354,7 +1659,7 @@ export default function ProjectDetail() {
                     </button>
                     
                     {/* Quick Review Button */}
-                    {currentDocuments.length > 0 && (
+                    {currentDocuments.length > 0 && can('documents.review') && (
                       <button
                         onClick={() => handleOpenQuickReview(0)}
                         className="px-4 py-2 bg-success-600 hover:bg-success-700 text-white rounded-lg transition-colors flex items-center gap-2"
@@ -1367,7 +1672,7 @@ export default function ProjectDetail() {
                     )}
                     
                     {/* Reprocess Button */}
-                    {unsortedCount > 0 && (
+                    {unsortedCount > 0 && can('documents.review') && (
                       <button
                         onClick={handleReprocessAll}
                         disabled={isReprocessing || loading}
@@ -1394,6 +1699,26 @@ export default function ProjectDetail() {
                   </div>
                 </div>
 
+                {/* Duplicate submissions */}
+                {duplicateGroups.length > 0 && can('documents.review') && (
+                  <div className="mb-4 p-3 bg-warning-50 border border-warning-200 rounded-lg flex items-center justify-between gap-3">
+                    <p className="text-sm text-warning-800">
+                      {duplicateGroups.length} set{duplicateGroups.length !== 1 ? 's' : ''} of duplicate documents
+                    </p>
+                    <button
+                      onClick={handleOpenDuplicateReview}
+                      className="px-3 py-1.5 text-sm font-medium bg-warning-600 hover:bg-warning-700 text-white rounded-lg transition-colors"
+                    >
+                      Review duplicates
+                    </button>
+                  </div>
+                )}
+
+                {/* Documents waiting for a shift worker match */}
+                {projectId && can('documents.review') && (
+                  <ShiftMatchQueue projectId={projectId} onViewDocument={handlePreviewDocument} />
+                )}
+
                 {/* Filter Bar (collapsible) */}
                 {showFilters && (
                   <DocumentFilterBar
@@ -1401,6 +1726,9 @@ export default function ProjectDetail() {
                     filters={filters}
                     onFiltersChange={setFilters}
                     subcontractors={subcontractors}
+                    projectId={projectId}
+                    sortBy={sortBy}
+                    onApplyView={applyDocumentListParams}
                   />
                 )}
 
@@ -1413,14 +1741,7 @@ export default function ProjectDetail() {
                     </span>
                     {activeFilterCount > 0 && (
                       <button
-                        onClick={() => setFilters({
-                          search: '',
-                          workerName: null,
-                          companyName: null,
-                          dateFrom: null,
-                          dateTo: null,
-                          documentType: null,
-                        })}
+                        onClick={() => setFilters(EMPTY_DOCUMENT_FILTERS)}
                         className="text-primary-600 hover:text-primary-700 hover:underline"
                       >
                         Clear filters
@@ -1508,7 +1829,7 @@ export default function ProjectDetail() {
                 </div>
 
                 {/* Selection Header & Bulk Actions */}
-                {currentDocuments.length > 0 && (
+                {currentDocuments.length > 0 && canSelectDocuments && (
                   <div className="flex items-center justify-between mb-4 p-3 bg-secondary-50 rounded-lg border border-secondary-200">
                     <div className="flex items-center gap-3">
                       {/* Select All Checkbox */}
@@ -1545,24 +1866,28 @@ export default function ProjectDetail() {
                     {/* Bulk Actions */}
                     {selectedDocIds.size > 0 && (
                       <div className="flex items-center gap-2">
-                        <button
-                          onClick={() => setShowBulkMoveModal(true)}
-                          className="px-3 py-1.5 text-sm font-medium bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors flex items-center gap-1.5"
-                        >
-                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
-                          </svg>
-                          Move to Folder
-                        </button>
-                        <button
-                          onClick={() => setShowBulkDeleteModal(true)}
-                          className="px-3 py-1.5 text-sm font-medium bg-danger-600 hover:bg-danger-700 text-white rounded-lg transition-colors flex items-center gap-1.5"
-                        >
-                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                          Delete
-                        </button>
+                        {can('documents.review') && (
+                          <button
+                            onClick={() => setShowBulkMoveModal(true)}
+                            className="px-3 py-1.5 text-sm font-medium bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors flex items-center gap-1.5"
+                          >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                            </svg>
+                            Move to Folder
+                          </button>
+                        )}
+                        {can('documents.delete') && (
+                          <button
+                            onClick={() => setShowBulkDeleteModal(true)}
+                            className="px-3 py-1.5 text-sm font-medium bg-danger-600 hover:bg-danger-700 text-white rounded-lg transition-colors flex items-center gap-1.5"
+                          >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                            Delete
+                          </button>
+                        )}
                       </div>
                     )}
                   </div>
@@ -1603,14 +1928,16 @@ export default function ProjectDetail() {
                       >
                         <div className="flex items-start gap-3">
                           {/* Selection Checkbox */}
-                          <div className="flex-shrink-0 pt-1">
-                            <input
-                              type="checkbox"
-                              checked={selectedDocIds.has(doc.id)}
-                              onChange={() => toggleDocumentSelection(doc.id)}
-                              className="w-4 h-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500 cursor-pointer"
-                            />
-                          </div>
+                          {canSelectDocuments && (
+                            <div className="flex-shrink-0 pt-1">
+                              <input
+                                type="checkbox"
+                                checked={selectedDocIds.has(doc.id)}
+                                onChange={() => toggleDocumentSelection(doc.id)}
+                                className="w-4 h-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500 cursor-pointer"
+                              />
+                            </div>
+                          )}
                           
                           {/* Document Content */}
                           <div className="flex-1 min-w-0 flex items-start justify-between gap-4">
@@ -1660,7 +1987,7 @@ export default function ProjectDetail() {
                               )}
                               {doc.confidence_score !== null && doc.confidence_score > 0 && (
                                 <span className={`px-2 py-1 text-xs font-medium rounded ${
-                                  doc.confidence_score >= 70 
+                                  doc.confidence_score >= autoFileThreshold
                                     ? 'bg-success-100 text-success-700' 
                                     : 'bg-warning-100 text-warning-700'
                                 }`}>
@@ -1675,6 +2002,29 @@ export default function ProjectDetail() {
                               }`}>
                                 {doc.status.replace('_', ' ')}
                               </span>
+                              {isDocumentOnLegalHold(doc, project) && (
+                                <span
+                                  title={doc.legal_hold_reason ?? project?.legal_hold_reason ?? undefined}
+                                  className="px-2 py-1 text-xs font-medium rounded bg-danger-600 text-white"
+                                >
+                                  Legal hold
+                                </span>
+                              )}
+                              {(() => {
+                                const group = duplicateGroupByDoc.get(doc.id);
+                                if (!group) return null;
+                                const newest = group.documents[0];
+                                return (
+                                  <span
+                                    title={newest.id === doc.id
+                                      ? `Newest of ${group.documents.length} copies`
+                                      : `Duplicate of ${newest.original_filename ?? 'a newer copy'}`}
+                                    className="px-2 py-1 text-xs font-medium rounded bg-warning-100 text-warning-700"
+                                  >
+                                    Duplicate
+                                  </span>
+                                );
+                              })()}
                             </div>
 
                             {/* Extracted Metadata */}
@@ -1748,7 +2098,7 @@ export default function ProjectDetail() {
                               Download
                             </button>
                             
-                            {selectedFolderId === null && folders.length > 0 && (
+                            {selectedFolderId === null && folders.length > 0 && can('documents.review') && (
                               <button
                                 onClick={() => openMoveModal(doc)}
                                 className="px-3 py-1.5 text-sm font-medium text-primary-600 bg-primary-50 hover:bg-primary-100 rounded-lg transition-colors"
@@ -1756,12 +2106,22 @@ export default function ProjectDetail() {
                                 Move to Folder
                               </button>
                             )}
-                            <button
-                              onClick={() => openDeleteModal(doc)}
-                              className="px-3 py-1.5 text-sm font-medium text-danger-600 bg-danger-50 hover:bg-danger-100 rounded-lg transition-colors"
-                            >
-                              Delete
-                            </button>
+                            {can('project.manage') && !project?.legal_hold && (
+                              <button
+                                onClick={() => handleToggleDocumentHold(doc)}
+                                className="px-3 py-1.5 text-sm font-medium text-secondary-700 bg-secondary-100 hover:bg-secondary-200 rounded-lg transition-colors"
+                              >
+                                {doc.legal_hold ? 'Release Hold' : 'Hold'}
+                              </button>
+                            )}
+                            {can('documents.delete') && !isDocumentOnLegalHold(doc, project) && (
+                              <button
+                                onClick={() => openDeleteModal(doc)}
+                                className="px-3 py-1.5 text-sm font-medium text-danger-600 bg-danger-50 hover:bg-danger-100 rounded-lg transition-colors"
+                              >
+                                Delete
+                              </button>
+                            )}
                           </div>
                         </div>
                         </div>
@@ -1875,7 +2235,7 @@ export default function ProjectDetail() {
           <div className="bg-white rounded-xl w-full max-w-md p-6">
             <h3 className="text-xl font-semibold text-secondary-900 mb-2">Invite Worker to Project</h3>
             <p className="text-sm text-secondary-600 mb-6">
-              Enter the email address of a registered HrdHat user to add them to this project.
+              Enter the worker's email address. If they don't have a HrdHat account yet, we'll email them a signup link.
             </p>
 
             <form onSubmit={handleInviteWorker} className="space-y-4">
@@ -1893,7 +2253,7 @@ export default function ProjectDetail() {
                   placeholder="worker@example.com"
                 />
                 <p className="text-xs text-secondary-500 mt-2">
-                  The worker must have an existing HrdHat account with this email address.
+                  Invited workers show as pending until they sign up with the emailed link.
                 </p>
               </div>
 
@@ -2208,7 +2568,7 @@ export default function ProjectDetail() {
       {/* Document Preview Modal */}
       {showPreviewModal && selectedDocument && previewUrl && (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+          <div className="bg-white rounded-xl w-full max-w-7xl max-h-[95vh] flex flex-col overflow-hidden">
             {/* Header */}
             <div className="flex items-center justify-between p-4 border-b border-secondary-200">
               <div className="flex items-center gap-3 min-w-0">
@@ -2264,19 +2624,9 @@ export default function ProjectDetail() {
 
             {/* Preview Content */}
             <div className="flex-1 overflow-auto bg-secondary-100 p-4">
-              {selectedDocument.mime_type?.includes('pdf') ? (
-                <iframe
-                  src={previewUrl}
-                  className="w-full h-full min-h-[70vh] rounded-lg bg-white"
-                  title="Document Preview"
-                />
-              ) : selectedDocument.mime_type?.includes('image') ? (
-                <div className="flex items-center justify-center h-full">
-                  <img
-                    src={previewUrl}
-                    alt={selectedDocument.original_filename ?? 'Document'}
-                    className="max-w-full max-h-[70vh] object-contain rounded-lg shadow-lg"
-                  />
+              {selectedDocument.mime_type?.includes('pdf') || selectedDocument.mime_type?.includes('image') ? (
+                <div className="h-[70vh]">
+                  <DocumentViewer key={selectedDocument.id} document={selectedDocument} url={previewUrl} />
                 </div>
               ) : (
                 <div className="flex items-center justify-center h-64 text-secondary-500">
@@ -2320,14 +2670,21 @@ export default function ProjectDetail() {
       )}
 
       {/* Quick Review Modal */}
-      {showQuickReview && currentDocuments.length > 0 && (
+      {showQuickReview && reviewDocuments.length > 0 && (
         <QuickReviewModal
-          documents={currentDocuments}
+          documents={reviewDocuments}
           folders={folders}
           initialIndex={quickReviewStartIndex}
           onClose={() => setShowQuickReview(false)}
           onSave={handleQuickReviewSave}
           getDocumentUrl={getDocumentDownloadUrl}
+          autoFileThreshold={autoFileThreshold}
+          duplicateGroups={duplicateGroups}
+          onResolveDuplicates={can('documents.delete') ? handleResolveDuplicates : undefined}
+          onReject={can('documents.delete') ? handleQuickReviewReject : undefined}
+          onRestore={can('documents.review') ? handleQuickReviewRestore : undefined}
+          workerSuggestions={workerSuggestions}
+          companySuggestions={companySuggestions}
         />
       )}
 
@@ -2526,8 +2883,17 @@ export default function ProjectDetail() {
         />
       )}
 
+      {/* Site Issues Tracker */}
+      {showSiteIssues && projectId && (
+        <div className="fixed inset-0 bg-black/50 flex justify-end z-50" onClick={() => setShowSiteIssues(false)}>
+          <div className="w-full max-w-lg h-full shadow-xl" onClick={(e) => e.stopPropagation()}>
+            <SiteIssuesTracker projectId={projectId} onClose={() => setShowSiteIssues(false)} />
+          </div>
+        </div>
+      )}
+
       {/* Shift Closeout Modal */}
-      {selectedShift && showShiftCloseout && (
+      {selectedShift && showShiftCloseout && can('shifts.closeout') && (
         <ShiftCloseout
           shift={selectedShift}
           workers={shiftWorkers}
@@ -3,6 +3,8 @@ import { Link, useSearchParams, useNavigate } from 'react-router-dom';
 
 import { useAuthStore } from '@/stores/authStore';
 import { useSupervisorStore, FORM_TYPE_PRESETS } from '@/stores/supervisorStore';
+import { DocumentSearchBox } from '@/components/DocumentSearchBox';
+import { PROJECT_ROLE_CONFIG } from '@/types/supervisor';
 
 type WizardStep = 'basic' | 'forms' | 'complete';
 
@@ -29,10 +31,15 @@ export default function Projects() {
   const fetchProjects = useSupervisorStore((s) => s.fetchProjects);
   const createProjectWithSetup = useSupervisorStore((s) => s.createProjectWithSetup);
   const clearError = useSupervisorStore((s) => s.clearError);
+  const myInvites = useSupervisorStore((s) => s.myInvites);
+  const fetchMyInvites = useSupervisorStore((s) => s.fetchMyInvites);
+  const acceptProjectInvite = useSupervisorStore((s) => s.acceptProjectInvite);
+  const declineProjectInvite = useSupervisorStore((s) => s.declineProjectInvite);
 
   useEffect(() => {
     fetchProjects();
-  }, [fetchProjects]);
+    fetchMyInvites();
+  }, [fetchProjects, fetchMyInvites]);
 
   const resetWizard = () => {
     setWizardStep('basic');
@@ -162,6 +169,43 @@ export default function Projects() {
           </button>
         </div>
 
+        {/* Document Search */}
+        {projects.length > 0 && <DocumentSearchBox projects={projects} />}
+
+        {/* Pending Invitations */}
+        {myInvites.length > 0 && (
+          <div className="mb-8 space-y-3">
+            {myInvites.map((invite) => (
+              <div
+                key={invite.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-slate-800/50 backdrop-blur-sm rounded-xl border border-[#d1bd23]/40"
+              >
+                <div>
+                  <p className="text-white">
+                    You've been invited to <span className="font-semibold">{invite.project_name ?? 'a project'}</span> as{' '}
+                    <span className="text-[#d1bd23]">{PROJECT_ROLE_CONFIG[invite.role].label}</span>
+                  </p>
+                  <p className="text-xs text-slate-400 mt-1">{PROJECT_ROLE_CONFIG[invite.role].description}</p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => declineProjectInvite(invite.id)}
+                    className="px-4 py-2 text-sm text-slate-300 hover:text-white border border-slate-600 rounded-xl transition-colors"
+                  >
+                    Decline
+                  </button>
+                  <button
+                    onClick={() => acceptProjectInvite(invite.id)}
+                    className="px-4 py-2 text-sm bg-gradient-to-r from-[#d1bd23] to-[#9e5e1a] hover:from-[#b19e1d] hover:to-[#7a4a15] text-white rounded-xl transition-all"
+                  >
+                    Accept
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Projects Grid */}
         {loading ? (
           <div className="text-center py-12 text-slate-400">Loading projects...</div>
@@ -206,6 +250,11 @@ export default function Projects() {
                   {project.site_address && (
                     <p className="text-sm text-slate-400 mb-4">{project.site_address}</p>
                   )}
+                  {project.my_role && project.my_role !== 'owner' && (
+                    <p className="text-xs text-slate-400 mb-4">
+                      Shared with you • {PROJECT_ROLE_CONFIG[project.my_role].label}
+                    </p>
+                  )}
                 </Link>
 
                 {/* Processing Email */}
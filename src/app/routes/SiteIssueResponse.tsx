@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { SiteIssueNoticeView } from '@/types/supervisor';
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Public page linked from the site issue email. The subcontractor opens it
+ * without signing in and marks the issue fixed, ready for inspection.
+ */
+export default function SiteIssueResponse() {
+  const { token } = useParams<{ token: string }>();
+  const fetchSiteIssueNoticeByToken = useSupervisorStore((s) => s.fetchSiteIssueNoticeByToken);
+  const respondToSiteIssueNotice = useSupervisorStore((s) => s.respondToSiteIssueNotice);
+  const loading = useSupervisorStore((s) => s.loading);
+  const error = useSupervisorStore((s) => s.error);
+
+  // undefined while loading, null when the link is invalid
+  const [notice, setNotice] = useState<SiteIssueNoticeView | null | undefined>(undefined);
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+    fetchSiteIssueNoticeByToken(token).then(setNotice);
+  }, [token, fetchSiteIssueNoticeByToken]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    const success = await respondToSiteIssueNotice(token, comment);
+    if (success && notice) {
+      setNotice({ ...notice, responded_at: new Date().toISOString(), response_comment: comment.trim() || null });
+    }
+  };
+
+  if (token && notice === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-pulse text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-lg mx-auto">
+        <h1 className="text-xl font-bold text-gray-900 mb-1">Site Issue</h1>
+
+        {!notice ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 mt-4">
+            <p className="text-sm text-gray-700">{error || 'This link is invalid or has expired.'}</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              {notice.project_name} · Assigned to {notice.company_name}
+            </p>
+
+            <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+              <p className="text-gray-900 whitespace-pre-wrap">{notice.content}</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                <span>Raised {formatDate(notice.log_date)}</span>
+                {notice.due_date && <span>Due {formatDate(notice.due_date)}</span>}
+                {notice.priority && <span className="capitalize">{notice.priority} priority</span>}
+              </div>
+              {notice.photo_urls.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {notice.photo_urls.map((url) => (
+                    <a key={url} href={url} target="_blank" rel="noreferrer">
+                      <img src={url} alt="Site issue" className="w-24 h-24 object-cover rounded border border-gray-200" />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="mt-4">
+              {notice.resolved ? (
+                <div className="p-4 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">
+                  This issue has been inspected and closed. Nothing more is needed.
+                </div>
+              ) : notice.responded_at ? (
+                <div className="p-4 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800">
+                  <p className="font-medium">Marked fixed, ready for inspection · {formatDateTime(notice.responded_at)}</p>
+                  {notice.response_comment && <p className="mt-1">"{notice.response_comment}"</p>}
+                  <p className="mt-2 text-blue-700">Thanks. The supervisor has been told.</p>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+                  <label htmlFor="response-comment" className="block text-sm font-medium text-gray-700">
+                    Comment (optional)
+                  </label>
+                  <textarea
+                    id="response-comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    rows={3}
+                    placeholder="What was done?"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full py-2 px-4 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {loading ? 'Sending...' : 'Mark fixed — ready for inspection'}
+                  </button>
+                </form>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
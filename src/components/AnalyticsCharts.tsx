@@ -0,0 +1,194 @@
+import { useRef, type ReactNode } from 'react';
+
+import { downloadCsv, toCsv, type CsvValue } from '@/utils/csv';
+import { downloadSvgAsPng } from '@/utils/chartExport';
+import type { AnalyticsCount } from '@/utils/analytics';
+
+const WIDTH = 640;
+const AXIS_COLOR = '#e5e7eb';
+const LABEL_COLOR = '#6b7280';
+const FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+// ============================================================================
+// Chart Card (title + PNG/CSV export)
+// ============================================================================
+
+interface ChartCardProps {
+  title: string;
+  subtitle?: string;
+  filename: string; // Without extension
+  csv: { headers: string[]; rows: CsvValue[][] };
+  isEmpty?: boolean;
+  children: ReactNode;
+}
+
+export function ChartCard({ title, subtitle, filename, csv, isEmpty, children }: ChartCardProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const handleExportPng = async () => {
+    const svg = containerRef.current?.querySelector('svg');
+    if (!svg) return;
+    try {
+      await downloadSvgAsPng(svg, `${filename}.png`);
+    } catch (error) {
+      console.error('Chart export failed:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">{title}</h3>
+          {subtitle && <p className="text-xs text-gray-500 mt-0.5">{subtitle}</p>}
+        </div>
+        {!isEmpty && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <button
+              onClick={handleExportPng}
+              className="px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+              title="Download chart as PNG"
+            >
+              PNG
+            </button>
+            <button
+              onClick={() => downloadCsv(toCsv(csv.headers, csv.rows), `${filename}.csv`)}
+              className="px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+              title="Download chart data as CSV"
+            >
+              CSV
+            </button>
+          </div>
+        )}
+      </div>
+      <div ref={containerRef}>
+        {isEmpty ? <p className="text-sm text-gray-400 py-8 text-center">No data in this range.</p> : children}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Line Chart (trend over buckets)
+// ============================================================================
+
+export interface LineSeries {
+  label: string;
+  color: string;
+  values: (number | null)[]; // null leaves a gap
+}
+
+interface LineChartProps {
+  labels: string[];
+  series: LineSeries[];
+  maxValue?: number; // Defaults to the largest value
+  formatValue?: (value: number) => string;
+}
+
+export function LineChart({ labels, series, maxValue, formatValue = String }: LineChartProps) {
+  const height = 220;
+  const pad = { top: 12, right: 12, bottom: 40, left: 44 };
+  const plotWidth = WIDTH - pad.left - pad.right;
+  const plotHeight = height - pad.top - pad.bottom;
+
+  const largest = Math.max(0, ...series.flatMap((s) => s.values.filter((v): v is number => v !== null)));
+  const max = maxValue ?? (largest || 1);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((t) => t * max);
+  const labelEvery = Math.max(1, Math.ceil(labels.length / 10));
+
+  const x = (i: number) => pad.left + (labels.length > 1 ? (i / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (v: number) => pad.top + plotHeight - (v / max) * plotHeight;
+
+  // Split each series into runs of non-null points
+  const paths = series.map((s) => {
+    let d = '';
+    let drawing = false;
+    s.values.forEach((v, i) => {
+      if (v === null) {
+        drawing = false;
+        return;
+      }
+      d += `${drawing ? 'L' : 'M'}${x(i).toFixed(1)},${y(v).toFixed(1)} `;
+      drawing = true;
+    });
+    return d.trim();
+  });
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" fontFamily={FONT}>
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={pad.left} x2={WIDTH - pad.right} y1={y(tick)} y2={y(tick)} stroke={AXIS_COLOR} />
+          <text x={pad.left - 6} y={y(tick) + 3} fontSize={10} fill={LABEL_COLOR} textAnchor="end">
+            {formatValue(Math.round(tick * 100) / 100)}
+          </text>
+        </g>
+      ))}
+      {labels.map((label, i) =>
+        i % labelEvery === 0 ? (
+          <text key={i} x={x(i)} y={height - pad.bottom + 16} fontSize={10} fill={LABEL_COLOR} textAnchor="middle">
+            {label}
+          </text>
+        ) : null
+      )}
+      {series.map((s, si) => (
+        <g key={s.label}>
+          <path d={paths[si]} fill="none" stroke={s.color} strokeWidth={2} />
+          {s.values.map((v, i) =>
+            v === null ? null : (
+              <circle key={i} cx={x(i)} cy={y(v)} r={2.5} fill={s.color}>
+                <title>{`${labels[i]}: ${s.label} ${formatValue(v)}`}</title>
+              </circle>
+            )
+          )}
+        </g>
+      ))}
+      {series.map((s, si) => (
+        <g key={s.label} transform={`translate(${pad.left + si * 120}, ${height - 10})`}>
+          <rect width={10} height={10} y={-9} fill={s.color} rx={2} />
+          <text x={14} fontSize={10} fill={LABEL_COLOR}>{s.label}</text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+// ============================================================================
+// Bar Chart (ranked totals)
+// ============================================================================
+
+interface BarChartProps {
+  data: AnalyticsCount[];
+  color: string;
+  formatValue?: (value: number) => string;
+}
+
+export function BarChart({ data, color, formatValue = String }: BarChartProps) {
+  const rowHeight = 24;
+  const labelWidth = 180;
+  const valueWidth = 56;
+  const height = data.length * rowHeight + 8;
+  const max = Math.max(1, ...data.map((d) => d.value));
+  const barSpace = WIDTH - labelWidth - valueWidth;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" fontFamily={FONT}>
+      {data.map((d, i) => {
+        const top = i * rowHeight + 4;
+        const label = d.label.length > 28 ? `${d.label.slice(0, 27)}…` : d.label;
+        return (
+          <g key={`${d.label}-${i}`}>
+            <text x={labelWidth - 8} y={top + 14} fontSize={11} fill="#374151" textAnchor="end">
+              <title>{d.label}</title>
+              {label}
+            </text>
+            <rect x={labelWidth} y={top + 3} width={Math.max(2, (d.value / max) * barSpace)} height={rowHeight - 8} fill={color} rx={2} />
+            <text x={labelWidth + (d.value / max) * barSpace + 6} y={top + 14} fontSize={11} fill={LABEL_COLOR}>
+              {formatValue(d.value)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
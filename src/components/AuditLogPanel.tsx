@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuditStore } from '@/stores/auditStore';
+import type { AuditEntityType, AuditLogEntry } from '@/types/audit';
+import { AUDIT_ENTITY_LABELS } from '@/types/audit';
+import { auditEntriesToCsv, getChangedFields, getEntityLabel } from '@/utils/auditLog';
+import { downloadCsv } from '@/utils/csv';
+
+interface AuditLogPanelProps {
+  projectId: string;
+  projectName: string;
+}
+
+function formatTimestamp(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function AuditEntryRow({ entry }: { entry: AuditLogEntry }) {
+  const [expanded, setExpanded] = useState(false);
+  const changed = getChangedFields(entry);
+
+  return (
+    <>
+      <tr className="hover:bg-secondary-50 cursor-pointer align-top" onClick={() => setExpanded(!expanded)}>
+        <td className="px-3 py-2 text-secondary-600 whitespace-nowrap">{formatTimestamp(entry.created_at)}</td>
+        <td className="px-3 py-2 text-secondary-700 truncate max-w-[10rem]" title={entry.actor_id}>
+          {entry.actor_email ?? entry.actor_id.slice(0, 8)}
+        </td>
+        <td className="px-3 py-2">
+          <span className="px-2 py-0.5 text-xs font-mono bg-secondary-100 text-secondary-700 rounded">{entry.action}</span>
+        </td>
+        <td className="px-3 py-2 text-secondary-800">
+          <span className="text-xs text-secondary-500 mr-1">{AUDIT_ENTITY_LABELS[entry.entity_type]}</span>
+          {getEntityLabel(entry)}
+        </td>
+        <td className="px-3 py-2 text-xs text-secondary-500">
+          {entry.before === null && entry.after !== null && 'Created'}
+          {entry.after === null && entry.before !== null && 'Removed'}
+          {changed.length > 0 && changed.join(', ')}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-secondary-50">
+          <td colSpan={5} className="px-3 py-3">
+            {Object.keys(entry.metadata ?? {}).length > 0 && (
+              <p className="text-xs text-secondary-600 mb-2 font-mono">{JSON.stringify(entry.metadata)}</p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <p className="text-xs font-semibold text-secondary-500 mb-1">Before</p>
+                <pre className="text-xs bg-white border border-secondary-200 rounded p-2 overflow-auto max-h-64">
+                  {entry.before === null ? '—' : JSON.stringify(entry.before, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <p className="text-xs font-semibold text-secondary-500 mb-1">After</p>
+                <pre className="text-xs bg-white border border-secondary-200 rounded p-2 overflow-auto max-h-64">
+                  {entry.after === null ? '—' : JSON.stringify(entry.after, null, 2)}
+                </pre>
+              </div>
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+export function AuditLogPanel({ projectId, projectName }: AuditLogPanelProps) {
+  const entries = useAuditStore((s) => s.entries);
+  const filters = useAuditStore((s) => s.filters);
+  const loading = useAuditStore((s) => s.loading);
+  const error = useAuditStore((s) => s.error);
+  const fetchAuditLog = useAuditStore((s) => s.fetchAuditLog);
+  const setFilters = useAuditStore((s) => s.setFilters);
+  const resetFilters = useAuditStore((s) => s.resetFilters);
+  const getFilteredEntries = useAuditStore((s) => s.getFilteredEntries);
+
+  useEffect(() => {
+    fetchAuditLog(projectId);
+  }, [projectId, fetchAuditLog]);
+
+  // entries/filters subscriptions above re-render us when either changes
+  const filtered = getFilteredEntries();
+
+  const actions = useMemo(() => [...new Set(entries.map((e) => e.action))].sort(), [entries]);
+  const actors = useMemo(() => {
+    const map = new Map<string, string>();
+    entries.forEach((e) => map.set(e.actor_id, e.actor_email ?? e.actor_id.slice(0, 8)));
+    return [...map.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries]);
+
+  const handleExport = () => {
+    const slug = projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
+    downloadCsv(auditEntriesToCsv(filtered), `${slug}-audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const selectClass = 'px-2 py-1.5 text-sm border border-secondary-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-secondary-900">Audit Log</h3>
+          <p className="text-xs text-secondary-500">Every change to documents, shifts, workers and forms on this project</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={filtered.length === 0}
+          className="px-3 py-2 text-sm border border-primary-600 text-primary-600 hover:bg-primary-50 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Export CSV ({filtered.length})
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <select
+          value={filters.entityType}
+          onChange={(e) => setFilters({ entityType: e.target.value as AuditEntityType | 'all' })}
+          className={selectClass}
+        >
+          <option value="all">All entities</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+            <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>
+          ))}
+        </select>
+        <select value={filters.action} onChange={(e) => setFilters({ action: e.target.value })} className={selectClass}>
+          <option value="all">All actions</option>
+          {actions.map((action) => (
+            <option key={action} value={action}>{action}</option>
+          ))}
+        </select>
+        <select value={filters.actor} onChange={(e) => setFilters({ actor: e.target.value })} className={selectClass}>
+          <option value="all">All people</option>
+          {actors.map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.startDate ?? ''}
+          onChange={(e) => setFilters({ startDate: e.target.value || null })}
+          className={selectClass}
+          aria-label="From date"
+        />
+        <span className="text-secondary-400 text-sm">to</span>
+        <input
+          type="date"
+          value={filters.endDate ?? ''}
+          onChange={(e) => setFilters({ endDate: e.target.value || null })}
+          className={selectClass}
+          aria-label="To date"
+        />
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => setFilters({ search: e.target.value })}
+          placeholder="Search..."
+          className={`${selectClass} flex-1 min-w-[10rem]`}
+        />
+        <button onClick={resetFilters} className="px-2 py-1.5 text-sm text-secondary-600 hover:text-secondary-800">
+          Reset
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-danger-600 mb-3">{error}</p>}
+
+      {loading && entries.length === 0 ? (
+        <div className="text-center py-8 text-secondary-500 text-sm">Loading audit log...</div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-8 text-secondary-500 text-sm">
+          {entries.length === 0 ? 'No changes recorded yet' : 'No entries match these filters'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-secondary-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-secondary-50 text-xs text-secondary-500 uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">When</th>
+                <th className="px-3 py-2 text-left font-medium">Who</th>
+                <th className="px-3 py-2 text-left font-medium">Action</th>
+                <th className="px-3 py-2 text-left font-medium">Entity</th>
+                <th className="px-3 py-2 text-left font-medium">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-secondary-100">
+              {filtered.map((entry) => (
+                <AuditEntryRow key={entry.id} entry={entry} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
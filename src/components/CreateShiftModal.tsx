@@ -1,8 +1,10 @@
 import { useState, useMemo } from 'react';
 import { useSupervisorStore } from '@/stores/supervisorStore';
-import type { ProjectWorker, AddShiftWorkerInput, SupervisorContact, ShiftTask, ShiftNote, CustomCategory } from '@/types/supervisor';
+import type { ProjectWorker, AddShiftWorkerInput, SupervisorContact, ShiftTask, ShiftNote, CustomCategory, ShiftRecurrence, ShiftTemplateAdHocWorker } from '@/types/supervisor';
+import { DEFAULT_RECURRENCE, describeRecurrence } from '@/utils/shiftRecurrence';
 import { ShiftTasksNotesPanel } from './ShiftTasksNotesPanel';
 import { ShiftDailyReport } from './ShiftDailyReport';
+import { ShiftRecurrenceFields } from './ShiftRecurrenceFields';
 
 interface CreateShiftModalProps {
   projectId: string;
@@ -43,6 +45,9 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
   const createShift = useSupervisorStore((s) => s.createShift);
   const addExistingWorkersToShift = useSupervisorStore((s) => s.addExistingWorkersToShift);
   const addShiftWorker = useSupervisorStore((s) => s.addShiftWorker);
+  const shiftTemplates = useSupervisorStore((s) => s.shiftTemplates);
+  const createShiftTemplate = useSupervisorStore((s) => s.createShiftTemplate);
+  const generateShiftsFromTemplates = useSupervisorStore((s) => s.generateShiftsFromTemplates);
   const loading = useSupervisorStore((s) => s.loading);
 
   // Form state
@@ -71,6 +76,17 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
   const [adHocSubcontractor, setAdHocSubcontractor] = useState('');
   const [adHocNotificationMethod, setAdHocNotificationMethod] = useState<'sms' | 'email' | 'both'>('sms');
 
+  // Template state
+  const [appliedTemplateId, setAppliedTemplateId] = useState('');
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [recurrence, setRecurrence] = useState<ShiftRecurrence>({ ...DEFAULT_RECURRENCE, frequency: 'none' });
+
+  const projectTemplates = useMemo(
+    () => shiftTemplates.filter(t => t.project_id === projectId),
+    [shiftTemplates, projectId]
+  );
+
   // Filter active workers only
   const activeWorkers = useMemo(() => 
     workers.filter(w => w.status === 'active'),
@@ -116,6 +132,31 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
     setScheduledDate(newDate);
   };
 
+  // Pre-fill everything from a saved template; the shift can still be edited before creating
+  const applyTemplate = (templateId: string) => {
+    setAppliedTemplateId(templateId);
+    const template = projectTemplates.find(t => t.id === templateId);
+    if (!template) return;
+
+    const now = new Date().toISOString();
+    setStartTime(template.start_time?.slice(0, 5) ?? '');
+    setEndTime(template.end_time?.slice(0, 5) ?? '');
+    setNotes(template.notes ?? '');
+    setShiftTasks(template.shift_tasks.map(t => ({ ...t, id: crypto.randomUUID(), checked: false, created_at: now })));
+    setShiftNotes(template.shift_notes.map(n => ({ ...n, id: crypto.randomUUID(), created_at: now })));
+    setCustomCategories(template.custom_categories);
+    setSelectedWorkerIds(new Set(template.worker_ids.filter(id => activeWorkers.some(w => w.id === id))));
+    setSelectedContactIds(new Set());
+    setAdHocWorkers(template.adhoc_workers.map(w => ({
+      id: crypto.randomUUID(),
+      name: w.name,
+      phone: w.phone ?? '',
+      email: w.email ?? '',
+      subcontractorId: w.subcontractor_id ?? '',
+      notificationMethod: w.notification_method,
+    })));
+  };
+
   // Toggle worker selection
   const toggleWorker = (workerId: string) => {
     setSelectedWorkerIds(prev => {
@@ -252,8 +293,56 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
     setShiftNotes(prev => prev.filter(n => n.category !== categoryId));
   };
 
+  // Ad-hoc workers and selected contacts, in the shape both shifts and templates store them
+  const getAdHocRoster = (): ShiftTemplateAdHocWorker[] => [
+    ...adHocWorkers.map(adHoc => ({
+      name: adHoc.name,
+      phone: adHoc.phone || null,
+      email: adHoc.email || null,
+      subcontractor_id: adHoc.subcontractorId || null,
+      notification_method: adHoc.notificationMethod,
+    })),
+    ...Array.from(selectedContactIds)
+      .map(contactId => contacts.find(c => c.id === contactId))
+      .filter((contact): contact is SupervisorContact => contact !== undefined)
+      .map(contact => ({
+        name: contact.name,
+        phone: contact.phone || null,
+        email: contact.email || null,
+        // Find subcontractor ID if contact has a company that matches a project subcontractor
+        subcontractor_id: subcontractors.find(
+          s => s.company_name.toLowerCase() === contact.company_name?.toLowerCase()
+        )?.id ?? null,
+        notification_method: contact.phone ? 'sms' as const : 'email' as const,
+      })),
+  ];
+
   // Handle form submission
   const handleSubmit = async () => {
+    const adHocRoster = getAdHocRoster();
+
+    // Save the template first so this shift counts as its first occurrence
+    let templateId: string | undefined;
+    if (saveAsTemplate) {
+      const template = await createShiftTemplate({
+        project_id: projectId,
+        name: templateName.trim() || shiftName,
+        start_time: startTime || undefined,
+        end_time: endTime || undefined,
+        notes: notes || undefined,
+        shift_tasks: shiftTasks,
+        shift_notes: shiftNotes,
+        custom_categories: customCategories,
+        worker_ids: Array.from(selectedWorkerIds),
+        adhoc_workers: adHocRoster,
+        recurrence,
+        starts_on: scheduledDate,
+        generated_through: scheduledDate,
+      });
+      if (!template) return;
+      templateId = template.id;
+    }
+
     // Create the shift with tasks and notes
     const shift = await createShift({
       project_id: projectId,
@@ -265,6 +354,7 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
       shift_tasks: shiftTasks,
       shift_notes: shiftNotes,
       custom_categories: customCategories,
+      template_id: templateId,
     });
 
     if (!shift) return;
@@ -274,44 +364,23 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
       await addExistingWorkersToShift(shift.id, Array.from(selectedWorkerIds));
     }
 
-    // Add ad-hoc workers
-    for (const adHoc of adHocWorkers) {
+    // Add ad-hoc workers and selected contacts
+    for (const adHoc of adHocRoster) {
       const workerInput: AddShiftWorkerInput = {
         shift_id: shift.id,
         worker_type: 'adhoc',
         name: adHoc.name,
-        phone: adHoc.phone || undefined,
-        email: adHoc.email || undefined,
-        subcontractor_id: adHoc.subcontractorId || undefined,
-        notification_method: adHoc.notificationMethod,
+        phone: adHoc.phone ?? undefined,
+        email: adHoc.email ?? undefined,
+        subcontractor_id: adHoc.subcontractor_id ?? undefined,
+        notification_method: adHoc.notification_method,
       };
       await addShiftWorker(workerInput);
     }
 
-    // Add selected contacts as ad-hoc workers
-    for (const contactId of selectedContactIds) {
-      const contact = contacts.find(c => c.id === contactId);
-      if (contact) {
-        // Find subcontractor ID if contact has a company that matches a project subcontractor
-        let subcontractorId: string | undefined;
-        if (contact.company_name) {
-          const matchingSub = subcontractors.find(
-            s => s.company_name.toLowerCase() === contact.company_name?.toLowerCase()
-          );
-          subcontractorId = matchingSub?.id;
-        }
-        
-        const workerInput: AddShiftWorkerInput = {
-          shift_id: shift.id,
-          worker_type: 'adhoc',
-          name: contact.name,
-          phone: contact.phone || undefined,
-          email: contact.email || undefined,
-          subcontractor_id: subcontractorId,
-          notification_method: contact.phone ? 'sms' : 'email',
-        };
-        await addShiftWorker(workerInput);
-      }
+    // Put the rest of the series on the schedule right away
+    if (templateId && recurrence.frequency !== 'none') {
+      await generateShiftsFromTemplates(projectId);
     }
 
     onShiftCreated(shift.id);
@@ -333,6 +402,10 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
     setSelectedContactIds(new Set());
     setAdHocWorkers([]);
     setShowAddAdHoc(false);
+    setAppliedTemplateId('');
+    setSaveAsTemplate(false);
+    setTemplateName('');
+    setRecurrence({ ...DEFAULT_RECURRENCE, frequency: 'none' });
     onClose();
   };
 
@@ -372,6 +445,27 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
             {/* Step 1: Shift Details */}
             {step === 'details' && (
               <div className="space-y-4">
+                {/* Template */}
+                {projectTemplates.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Start from Template <span className="text-gray-400">(optional)</span>
+                    </label>
+                    <select
+                      value={appliedTemplateId}
+                      onChange={(e) => applyTemplate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Blank shift</option>
+                      {projectTemplates.map(template => (
+                        <option key={template.id} value={template.id}>
+                          {template.name} ({describeRecurrence(template.recurrence)})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {/* Shift Name */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -774,6 +868,39 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
                   compact
                 />
 
+                {/* Save as Template */}
+                <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={saveAsTemplate}
+                      onChange={(e) => {
+                        setSaveAsTemplate(e.target.checked);
+                        if (e.target.checked && !templateName) setTemplateName(shiftName);
+                      }}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    Save as template
+                  </label>
+                  {saveAsTemplate && (
+                    <>
+                      <input
+                        type="text"
+                        value={templateName}
+                        onChange={(e) => setTemplateName(e.target.value)}
+                        placeholder="e.g., Day Shift"
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <ShiftRecurrenceFields value={recurrence} onChange={setRecurrence} />
+                      <p className="text-xs text-gray-500">
+                        {recurrence.frequency === 'none'
+                          ? 'Times, tasks, notes and workers are saved for reuse from Step 1.'
+                          : 'Draft shifts are created a week ahead with these details. Each one can be edited on its own.'}
+                      </p>
+                    </>
+                  )}
+                </div>
+
                 {/* Warning if no workers */}
                 {totalWorkerCount === 0 && (
                   <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
@@ -829,7 +956,7 @@ export function CreateShiftModal({ projectId, isOpen, onClose, onShiftCreated }:
               ) : (
                 <button
                   onClick={handleSubmit}
-                  disabled={loading}
+                  disabled={loading || (saveAsTemplate && recurrence.frequency === 'days' && recurrence.days_of_week.length === 0)}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
                 >
                   {loading ? (
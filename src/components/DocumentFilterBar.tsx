@@ -1,13 +1,32 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 
-import type { DocumentFilters, ReceivedDocument, ProjectSubcontractor } from '@/types/supervisor';
+import { useDocumentFilterViewStore } from '@/stores/documentFilterViewStore';
+import type {
+  DocumentDateRangePreset,
+  DocumentFilters,
+  DocumentMetadata,
+  DocumentSortOption,
+  ReceivedDocument,
+  ProjectSubcontractor,
+} from '@/types/supervisor';
 import { getEffectiveMetadata } from '@/types/supervisor';
+import {
+  DATE_RANGE_PRESET_LABELS,
+  DEFAULT_DOCUMENT_SORT,
+  EMPTY_DOCUMENT_FILTERS,
+  isSameDocumentFilters,
+  resolveFilterView,
+} from '@/utils/documentFilters';
 
 interface DocumentFilterBarProps {
   documents: ReceivedDocument[];
   filters: DocumentFilters;
   onFiltersChange: (filters: DocumentFilters) => void;
   subcontractors?: ProjectSubcontractor[];
+  // Saved views are shown when a project and onApplyView are provided
+  projectId?: string;
+  sortBy?: DocumentSortOption;
+  onApplyView?: (filters: DocumentFilters, sortBy: DocumentSortOption) => void;
 }
 
 /**
@@ -19,7 +38,79 @@ export function DocumentFilterBar({
   filters,
   onFiltersChange,
   subcontractors = [],
+  projectId,
+  sortBy = DEFAULT_DOCUMENT_SORT,
+  onApplyView,
 }: DocumentFilterBarProps) {
+  const views = useDocumentFilterViewStore((s) => s.views);
+  const viewError = useDocumentFilterViewStore((s) => s.error);
+  const fetchFilterViews = useDocumentFilterViewStore((s) => s.fetchFilterViews);
+  const saveFilterView = useDocumentFilterViewStore((s) => s.saveFilterView);
+  const deleteFilterView = useDocumentFilterViewStore((s) => s.deleteFilterView);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [viewDateRange, setViewDateRange] = useState<DocumentDateRangePreset>('fixed');
+  const [viewAllProjects, setViewAllProjects] = useState(false);
+  const [isSavingView, setIsSavingView] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const showViews = !!projectId && !!onApplyView;
+
+  useEffect(() => {
+    if (projectId && onApplyView) fetchFilterViews(projectId);
+  }, [projectId, onApplyView, fetchFilterViews]);
+
+  // The saved view matching what's on screen, if any
+  const activeView = views.find((view) => {
+    const resolved = resolveFilterView(view);
+    return resolved.sortBy === sortBy && isSameDocumentFilters(resolved.filters, filters);
+  });
+
+  const handleSelectView = (viewId: string) => {
+    const view = views.find((v) => v.id === viewId);
+    if (view && onApplyView) {
+      const resolved = resolveFilterView(view);
+      onApplyView(resolved.filters, resolved.sortBy);
+    }
+  };
+
+  const handleSaveView = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!projectId || !viewName.trim()) return;
+
+    setIsSavingView(true);
+    const saved = await saveFilterView({
+      project_id: viewAllProjects ? null : projectId,
+      name: viewName,
+      filters: viewDateRange === 'fixed' ? filters : { ...filters, dateFrom: null, dateTo: null },
+      sort_by: sortBy,
+      date_range: viewDateRange,
+    });
+    setIsSavingView(false);
+
+    if (saved) {
+      setShowSaveForm(false);
+      setViewName('');
+      setViewDateRange('fixed');
+      setViewAllProjects(false);
+      if (onApplyView) {
+        const resolved = resolveFilterView(saved);
+        onApplyView(resolved.filters, resolved.sortBy);
+      }
+    }
+  };
+
+  const handleDeleteView = async () => {
+    if (activeView && confirm(`Delete saved view "${activeView.name}"?`)) {
+      await deleteFilterView(activeView.id);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
   // Extract unique values from documents for filter dropdowns
   const filterOptions = useMemo(() => {
     const workers = new Set<string>();
@@ -62,14 +153,7 @@ export function DocumentFilterBar({
   ].filter(Boolean).length;
 
   const handleClearFilters = () => {
-    onFiltersChange({
-      search: '',
-      workerName: null,
-      companyName: null,
-      dateFrom: null,
-      dateTo: null,
-      documentType: null,
-    });
+    onFiltersChange(EMPTY_DOCUMENT_FILTERS);
   };
 
   return (
@@ -87,19 +171,124 @@ export function DocumentFilterBar({
             </span>
           )}
         </div>
-        {activeFilterCount > 0 && (
-          <button
-            onClick={handleClearFilters}
-            className="text-sm text-secondary-500 hover:text-secondary-700 flex items-center gap-1"
-          >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-            Clear all
-          </button>
-        )}
+        <div className="flex items-center gap-3 flex-wrap justify-end">
+          {/* Saved Views */}
+          {showViews && (
+            <>
+              {views.length > 0 && (
+                <div className="flex items-center gap-1">
+                  <select
+                    value={activeView?.id ?? ''}
+                    onChange={(e) => handleSelectView(e.target.value)}
+                    className="px-2 py-1 text-sm rounded-lg border border-secondary-300 focus:border-primary-500 focus:ring-2 focus:ring-primary-200 outline-none transition-all bg-white"
+                  >
+                    <option value="" disabled>Saved views</option>
+                    {views.map((view) => (
+                      <option key={view.id} value={view.id}>
+                        {view.name}{view.project_id === null ? ' (all projects)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {activeView && (
+                    <button
+                      onClick={handleDeleteView}
+                      title="Delete saved view"
+                      className="p-1 text-secondary-400 hover:text-danger-600"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              )}
+              {(activeFilterCount > 0 || sortBy !== DEFAULT_DOCUMENT_SORT) && !activeView && (
+                <button
+                  onClick={() => setShowSaveForm(!showSaveForm)}
+                  className="text-sm text-primary-600 hover:text-primary-700"
+                >
+                  Save view
+                </button>
+              )}
+              <button
+                onClick={handleCopyLink}
+                className="text-sm text-secondary-500 hover:text-secondary-700"
+              >
+                {linkCopied ? 'Link copied' : 'Copy link'}
+              </button>
+            </>
+          )}
+          {activeFilterCount > 0 && (
+            <button
+              onClick={handleClearFilters}
+              className="text-sm text-secondary-500 hover:text-secondary-700 flex items-center gap-1"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+              Clear all
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Save View Form */}
+      {showViews && showSaveForm && !activeView && (
+        <form onSubmit={handleSaveView} className="flex flex-wrap items-end gap-3 mb-3 p-3 bg-white rounded-lg border border-secondary-200">
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-xs font-medium text-secondary-500 mb-1">View name</label>
+            <input
+              type="text"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder="e.g. Hot work this week — ABC Electric"
+              autoFocus
+              className="w-full px-3 py-2 text-sm rounded-lg border border-secondary-300 focus:border-primary-500 focus:ring-2 focus:ring-primary-200 outline-none transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-secondary-500 mb-1">Dates</label>
+            <select
+              value={viewDateRange}
+              onChange={(e) => setViewDateRange(e.target.value as DocumentDateRangePreset)}
+              className="px-3 py-2 text-sm rounded-lg border border-secondary-300 focus:border-primary-500 focus:ring-2 focus:ring-primary-200 outline-none transition-all bg-white"
+            >
+              {(Object.keys(DATE_RANGE_PRESET_LABELS) as DocumentDateRangePreset[]).map((preset) => (
+                <option key={preset} value={preset}>
+                  {DATE_RANGE_PRESET_LABELS[preset]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-secondary-600 py-2">
+            <input
+              type="checkbox"
+              checked={viewAllProjects}
+              onChange={(e) => setViewAllProjects(e.target.checked)}
+              className="rounded border-secondary-300"
+            />
+            All my projects
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setShowSaveForm(false)}
+              className="px-3 py-2 text-sm text-secondary-600 hover:text-secondary-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!viewName.trim() || isSavingView}
+              className="px-3 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg disabled:opacity-50"
+            >
+              {isSavingView ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+          {viewError && <p className="w-full text-sm text-danger-600">{viewError}</p>}
+        </form>
+      )}
+
       {/* Filter Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3">
         {/* Search */}
@@ -227,15 +416,18 @@ export function filterDocuments(
     // Get effective metadata (manual overrides take precedence)
     const metadata = getEffectiveMetadata(doc.ai_extracted_data);
 
-    // Search filter (filename, subject, source email)
+    // Search filter (filename, subject, source email, AI summary, hazards)
     if (filters.search) {
       const searchLower = filters.search.toLowerCase();
+      const hazards = (doc.ai_extracted_data as DocumentMetadata).hazards ?? [];
       const matchesSearch =
         doc.original_filename?.toLowerCase().includes(searchLower) ||
         doc.email_subject?.toLowerCase().includes(searchLower) ||
         doc.source_email?.toLowerCase().includes(searchLower) ||
         metadata.workerName?.toLowerCase().includes(searchLower) ||
-        metadata.companyName?.toLowerCase().includes(searchLower);
+        metadata.companyName?.toLowerCase().includes(searchLower) ||
+        doc.ai_summary?.toLowerCase().includes(searchLower) ||
+        hazards.some((hazard) => hazard.toLowerCase().includes(searchLower));
       
       if (!matchesSearch) return false;
     }
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+
+import { useDocumentSearchStore } from '@/stores/documentSearchStore';
+import type { SupervisorProject } from '@/types/supervisor';
+import { SEARCH_SOURCE_LABELS } from '@/types/search';
+import { parseSearchSnippet } from '@/utils/documentSearch';
+
+interface DocumentSearchBoxProps {
+  projects: SupervisorProject[];
+}
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 300;
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <p className="text-sm text-slate-300 mt-1 line-clamp-3">
+      {parseSearchSnippet(snippet).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-[#d1bd23]/30 text-white rounded px-0.5">{part.text}</mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+/**
+ * Search box spanning every project the user can see. Matches document
+ * details, AI summaries, hazards, PDF text and reviewer annotations.
+ */
+export function DocumentSearchBox({ projects }: DocumentSearchBoxProps) {
+  const query = useDocumentSearchStore((s) => s.query);
+  const results = useDocumentSearchStore((s) => s.results);
+  const unindexed = useDocumentSearchStore((s) => s.unindexed);
+  const loading = useDocumentSearchStore((s) => s.loading);
+  const indexing = useDocumentSearchStore((s) => s.indexing);
+  const error = useDocumentSearchStore((s) => s.error);
+  const searchDocuments = useDocumentSearchStore((s) => s.searchDocuments);
+  const clearSearch = useDocumentSearchStore((s) => s.clearSearch);
+  const fetchUnindexedDocuments = useDocumentSearchStore((s) => s.fetchUnindexedDocuments);
+  const indexDocumentText = useDocumentSearchStore((s) => s.indexDocumentText);
+  const [input, setInput] = useState(query);
+
+  const projectIds = projects.map((p) => p.id);
+  const projectKey = projectIds.join(',');
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name ?? 'Project';
+
+  useEffect(() => {
+    if (projectKey) fetchUnindexedDocuments(projectKey.split(','));
+  }, [projectKey, fetchUnindexedDocuments]);
+
+  useEffect(() => {
+    if (!projectKey) return;
+    const timer = setTimeout(() => searchDocuments(input, projectKey.split(',')), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input, projectKey, searchDocuments]);
+
+  const handleClear = () => {
+    setInput('');
+    clearSearch();
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="relative">
+        <svg className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder='Search all documents, e.g. "boom lift level 3"'
+          className="w-full pl-12 pr-20 py-3 bg-slate-800/60 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:border-[#d1bd23] focus:ring-2 focus:ring-[#d1bd23]/30 outline-none"
+        />
+        {input && (
+          <button onClick={handleClear} className="absolute right-4 top-1/2 -translate-y-1/2 text-sm text-slate-400 hover:text-white">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {unindexed.length > 0 && (
+        <p className="mt-2 text-xs text-slate-400">
+          {unindexed.length} PDF{unindexed.length === 1 ? " isn't" : "s aren't"} searchable by their text yet.{' '}
+          <button
+            onClick={() => indexDocumentText(projectIds)}
+            disabled={indexing}
+            className="text-[#d1bd23] hover:text-[#e4c94f] disabled:opacity-50"
+          >
+            {indexing ? 'Indexing...' : 'Index now'}
+          </button>
+        </p>
+      )}
+
+      {query && (
+        <div className="mt-4 bg-slate-800/50 backdrop-blur-sm rounded-xl border border-slate-700/50 divide-y divide-slate-700/50">
+          {error ? (
+            <p className="p-4 text-sm text-red-400">{error}</p>
+          ) : loading && results.length === 0 ? (
+            <p className="p-4 text-sm text-slate-400">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-sm text-slate-400">No documents match "{query}"</p>
+          ) : (
+            results.map((result) => (
+              <Link
+                key={result.document_id}
+                to={`/projects/${result.project_id}?document=${result.document_id}`}
+                className="block p-4 hover:bg-slate-700/30 transition-colors"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-white truncate">{result.original_filename ?? 'Document'}</span>
+                  {result.ai_classification && (
+                    <span className="px-2 py-0.5 text-xs bg-slate-700 text-slate-300 rounded">{result.ai_classification}</span>
+                  )}
+                  <span className="ml-auto text-xs text-slate-500">
+                    {projectName(result.project_id)} • {new Date(result.received_at).toLocaleDateString()}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-400 mt-0.5">
+                  {result.worker_name && `${result.worker_name} • `}
+                  Found in {result.matched_in.map((source) => SEARCH_SOURCE_LABELS[source]).join(', ')}
+                </p>
+                {result.snippet && <Snippet snippet={result.snippet} />}
+              </Link>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,649 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+import { useAuthStore } from '@/stores/authStore';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { DocumentAnnotation, ReceivedDocument } from '@/types/supervisor';
+import { hasProjectPermission } from '@/types/supervisor';
+import type { PageRect, PdfTextMatch } from '@/utils/pdfViewer';
+import { findPdfTextMatches, getPageSize, loadPdfDocument, renderPdfPage, toUnrotatedPoint } from '@/utils/pdfViewer';
+
+interface DocumentViewerProps {
+  document: ReceivedDocument;
+  url: string;
+  /** Start with the thumbnail strip and annotation list closed (narrow layouts) */
+  compact?: boolean;
+}
+
+type ViewerTool = 'select' | 'highlight' | 'pin';
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** Unrotated page width in CSS pixels at 100% zoom */
+const BASE_PAGE_WIDTH = 760;
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const HIGHLIGHT_COLORS = ['#FACC15', '#F87171', '#60A5FA', '#4ADE80'];
+
+const toPercent = (rect: PageRect) => ({
+  left: `${rect.x * 100}%`,
+  top: `${rect.y * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+function PdfCanvas({ pdf, pageNumber, width }: { pdf: PDFDocumentProxy; pageNumber: number; width: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let cancelRender: (() => void) | undefined;
+
+    pdf.getPage(pageNumber).then((page) => {
+      if (cancelled || !canvasRef.current) return;
+      const task = renderPdfPage(page, canvasRef.current, width);
+      cancelRender = () => task.cancel();
+      task.promise.catch((error: Error) => {
+        if (error.name !== 'RenderingCancelledException') console.error('Failed to render page', pageNumber, error);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      cancelRender?.();
+    };
+  }, [pdf, pageNumber, width]);
+
+  return <canvas ref={canvasRef} className="block" />;
+}
+
+interface ViewerPageProps {
+  pageNumber: number;
+  size: PageSize;
+  zoom: number;
+  rotation: number;
+  pdf: PDFDocumentProxy | null;
+  imageUrl: string | null;
+  tool: ViewerTool;
+  color: string;
+  annotations: DocumentAnnotation[];
+  matches: PdfTextMatch[];
+  activeMatch: PdfTextMatch | null;
+  activeAnnotationId: string | null;
+  onSelectAnnotation: (id: string) => void;
+  onCreate: (kind: 'highlight' | 'pin', rect: PageRect) => void;
+}
+
+function ViewerPage({
+  pageNumber,
+  size,
+  zoom,
+  rotation,
+  pdf,
+  imageUrl,
+  tool,
+  color,
+  annotations,
+  matches,
+  activeMatch,
+  activeAnnotationId,
+  onSelectAnnotation,
+  onCreate,
+}: ViewerPageProps) {
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<PageRect | null>(null);
+
+  const width = BASE_PAGE_WIDTH * zoom;
+  const height = (width * size.height) / size.width;
+  const sideways = rotation % 180 !== 0;
+
+  // Pointer position as a fraction of the unrotated page
+  const pointFromEvent = (e: React.PointerEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - box.left) / box.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - box.top) / box.height));
+    return toUnrotatedPoint(x, y, rotation);
+  };
+
+  const rectBetween = (a: { x: number; y: number }, b: { x: number; y: number }): PageRect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (tool === 'pin') {
+      const point = pointFromEvent(e);
+      onCreate('pin', { ...point, width: 0, height: 0 });
+    } else if (tool === 'highlight') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDragStart(pointFromEvent(e));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDraft(rectBetween(dragStart, pointFromEvent(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const rect = rectBetween(dragStart, pointFromEvent(e));
+    setDragStart(null);
+    setDraft(null);
+    // Ignore stray clicks
+    if (rect.width > 0.01 && rect.height > 0.005) onCreate('highlight', rect);
+  };
+
+  return (
+    <div
+      className={`relative mx-auto bg-white shadow-md ${tool === 'select' ? '' : 'cursor-crosshair touch-none'}`}
+      style={{ width: sideways ? height : width, height: sideways ? width : height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <div
+        className="absolute left-1/2 top-1/2 select-none"
+        style={{ width, height, transform: `translate(-50%, -50%) rotate(${rotation}deg)` }}
+      >
+        {pdf ? (
+          <PdfCanvas pdf={pdf} pageNumber={pageNumber} width={width} />
+        ) : imageUrl ? (
+          <img src={imageUrl} alt="" draggable={false} style={{ width, height }} />
+        ) : null}
+
+        {/* Search results */}
+        {matches.map((match, i) => (
+          <div
+            key={`match-${i}`}
+            className={`absolute pointer-events-none ${match === activeMatch ? 'bg-orange-400/60 ring-2 ring-orange-500' : 'bg-yellow-300/50'}`}
+            style={toPercent(match.rect)}
+          />
+        ))}
+
+        {/* Annotations */}
+        {annotations.map((annotation) =>
+          annotation.kind === 'highlight' ? (
+            <button
+              key={annotation.id}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onSelectAnnotation(annotation.id)}
+              title={annotation.comment ?? undefined}
+              className={`absolute mix-blend-multiply ${annotation.id === activeAnnotationId ? 'ring-2 ring-primary-600' : ''}`}
+              style={{ ...toPercent(annotation), backgroundColor: `${annotation.color}80` }}
+            />
+          ) : (
+            <button
+              key={annotation.id}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onSelectAnnotation(annotation.id)}
+              title={annotation.comment ?? undefined}
+              className={`absolute -translate-x-1/2 -translate-y-full w-6 h-6 rounded-full rounded-bl-none rotate-[-45deg] border-2 border-white shadow ${
+                annotation.id === activeAnnotationId ? 'scale-125' : ''
+              }`}
+              style={{ left: `${annotation.x * 100}%`, top: `${annotation.y * 100}%`, backgroundColor: annotation.color }}
+            />
+          )
+        )}
+
+        {draft && (
+          <div className="absolute border border-dashed border-secondary-700" style={{ ...toPercent(draft), backgroundColor: `${color}60` }} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Thumbnail({
+  pageNumber,
+  size,
+  pdf,
+  imageUrl,
+  active,
+  badge,
+  onClick,
+}: {
+  pageNumber: number;
+  size: PageSize;
+  pdf: PDFDocumentProxy | null;
+  imageUrl: string | null;
+  active: boolean;
+  badge: number;
+  onClick: () => void;
+}) {
+  const width = 88;
+  return (
+    <button
+      onClick={onClick}
+      className={`relative block mx-auto mb-3 border-2 rounded overflow-hidden bg-white ${
+        active ? 'border-primary-500' : 'border-transparent hover:border-secondary-300'
+      }`}
+      style={{ width: width + 4, height: (width * size.height) / size.width + 4 }}
+    >
+      {pdf ? (
+        <PdfCanvas pdf={pdf} pageNumber={pageNumber} width={width} />
+      ) : imageUrl ? (
+        <img src={imageUrl} alt="" style={{ width }} />
+      ) : null}
+      <span className="absolute bottom-0 inset-x-0 text-[10px] bg-black/50 text-white">{pageNumber}</span>
+      {badge > 0 && (
+        <span className="absolute top-0.5 right-0.5 px-1 text-[10px] bg-primary-600 text-white rounded">{badge}</span>
+      )}
+    </button>
+  );
+}
+
+function AnnotationItem({
+  annotation,
+  active,
+  canEdit,
+  onSelect,
+}: {
+  annotation: DocumentAnnotation;
+  active: boolean;
+  canEdit: boolean;
+  onSelect: () => void;
+}) {
+  const updateDocumentAnnotation = useSupervisorStore((s) => s.updateDocumentAnnotation);
+  const deleteDocumentAnnotation = useSupervisorStore((s) => s.deleteDocumentAnnotation);
+  const [editing, setEditing] = useState(false);
+  const [comment, setComment] = useState(annotation.comment ?? '');
+
+  const handleSave = async () => {
+    await updateDocumentAnnotation(annotation.id, comment.trim() || null);
+    setEditing(false);
+  };
+
+  return (
+    <li
+      onClick={onSelect}
+      className={`p-2 rounded-lg cursor-pointer text-xs ${active ? 'bg-primary-50 border border-primary-200' : 'hover:bg-secondary-50 border border-transparent'}`}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: annotation.color }} />
+        <span className="font-medium text-secondary-700">
+          {annotation.kind === 'pin' ? 'Pin' : 'Highlight'} • p.{annotation.page}
+        </span>
+        <span className="ml-auto text-secondary-400 truncate">{annotation.created_by_email ?? ''}</span>
+      </div>
+      {editing ? (
+        <div onClick={(e) => e.stopPropagation()}>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            autoFocus
+            className="w-full px-2 py-1 border border-secondary-300 rounded focus:ring-2 focus:ring-primary-500"
+          />
+          <div className="flex justify-end gap-2 mt-1">
+            <button onClick={() => setEditing(false)} className="text-secondary-500 hover:text-secondary-700">Cancel</button>
+            <button onClick={handleSave} className="text-primary-600 hover:text-primary-700 font-medium">Save</button>
+          </div>
+        </div>
+      ) : (
+        <p className={annotation.comment ? 'text-secondary-800 whitespace-pre-wrap' : 'text-secondary-400 italic'}>
+          {annotation.comment ?? 'No comment'}
+        </p>
+      )}
+      {canEdit && !editing && (
+        <div className="flex gap-3 mt-1" onClick={(e) => e.stopPropagation()}>
+          <button onClick={() => setEditing(true)} className="text-primary-600 hover:text-primary-700">
+            {annotation.comment ? 'Edit' : 'Add comment'}
+          </button>
+          <button onClick={() => deleteDocumentAnnotation(annotation.id)} className="text-danger-600 hover:text-danger-700">
+            Delete
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * In-app viewer for received PDFs and images: page thumbnails, zoom, rotate,
+ * PDF text search and shared supervisor annotations (highlights and pins).
+ * Remount (key by document id) when switching documents.
+ */
+export function DocumentViewer({ document, url, compact = false }: DocumentViewerProps) {
+  const isPdf = !!document.mime_type?.includes('pdf');
+  const isImage = !!document.mime_type?.includes('image');
+
+  const user = useAuthStore((s) => s.user);
+  const allAnnotations = useSupervisorStore((s) => s.documentAnnotations);
+  const fetchDocumentAnnotations = useSupervisorStore((s) => s.fetchDocumentAnnotations);
+  const addDocumentAnnotation = useSupervisorStore((s) => s.addDocumentAnnotation);
+  const role = useSupervisorStore((s) => s.getProjectRole(document.project_id));
+  const canAnnotate = hasProjectPermission(role, 'documents.review');
+
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [tool, setTool] = useState<ViewerTool>('select');
+  const [color, setColor] = useState(HIGHLIGHT_COLORS[0]);
+  const [showThumbnails, setShowThumbnails] = useState(!compact);
+  const [showAnnotations, setShowAnnotations] = useState(!compact);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [matches, setMatches] = useState<PdfTextMatch[]>([]);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [searching, setSearching] = useState(false);
+
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const annotations = useMemo(
+    () =>
+      allAnnotations
+        .filter((a) => a.document_id === document.id)
+        .sort((a, b) => a.page - b.page || a.y - b.y),
+    [allAnnotations, document.id]
+  );
+
+  useEffect(() => {
+    fetchDocumentAnnotations(document.id);
+  }, [document.id, fetchDocumentAnnotations]);
+
+  // Load the PDF and measure its pages
+  useEffect(() => {
+    if (!isPdf) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    loadPdfDocument(url)
+      .then(async (doc) => {
+        loaded = doc;
+        const pages = await Promise.all(
+          Array.from({ length: doc.numPages }, (_, i) => doc.getPage(i + 1).then(getPageSize))
+        );
+        if (cancelled) return;
+        setPdf(doc);
+        setPageSizes(pages);
+      })
+      .catch((error: Error) => {
+        console.error('Failed to load PDF:', error);
+        if (!cancelled) setLoadError('Could not open this PDF');
+      });
+
+    return () => {
+      cancelled = true;
+      void loaded?.destroy();
+    };
+  }, [isPdf, url]);
+
+  const scrollToPage = (pageNumber: number) => {
+    pageRefs.current[pageNumber - 1]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setCurrentPage(pageNumber);
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const top = e.currentTarget.scrollTop + 40;
+    let page = 1;
+    pageRefs.current.forEach((el, i) => {
+      if (el && el.offsetTop <= top) page = i + 1;
+    });
+    setCurrentPage(page);
+  };
+
+  const goToMatch = (index: number, list = matches) => {
+    if (list.length === 0) return;
+    const next = (index + list.length) % list.length;
+    setMatchIndex(next);
+    scrollToPage(list[next].page);
+  };
+
+  const handleSearch = async () => {
+    if (!pdf) return;
+    const trimmed = query.trim();
+    // Enter on the same query steps through results
+    if (trimmed && trimmed === searchedQuery) {
+      goToMatch(matchIndex + 1);
+      return;
+    }
+
+    setSearching(true);
+    const results = trimmed ? await findPdfTextMatches(pdf, trimmed) : [];
+    setSearching(false);
+    setSearchedQuery(trimmed);
+    setMatches(results);
+    setMatchIndex(0);
+    goToMatch(0, results);
+  };
+
+  const handleCreate = async (pageNumber: number, kind: 'highlight' | 'pin', rect: PageRect) => {
+    let comment: string | null = null;
+    if (kind === 'pin') {
+      const entered = prompt('Comment for this pin:');
+      if (entered === null) return;
+      comment = entered.trim() || null;
+    }
+
+    const created = await addDocumentAnnotation({
+      document_id: document.id,
+      project_id: document.project_id,
+      page: pageNumber,
+      kind,
+      ...rect,
+      color,
+      comment,
+    });
+    if (created) {
+      setActiveAnnotationId(created.id);
+      setShowAnnotations(true);
+    }
+  };
+
+  const selectAnnotation = (annotation: DocumentAnnotation) => {
+    setActiveAnnotationId(annotation.id);
+    scrollToPage(annotation.page);
+  };
+
+  const changeZoom = (direction: 1 | -1) => {
+    const index = ZOOM_STEPS.indexOf(zoom);
+    setZoom(ZOOM_STEPS[Math.min(ZOOM_STEPS.length - 1, Math.max(0, index + direction))]);
+  };
+
+  // Keep typing in the viewer's fields from triggering the host's shortcuts
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) e.stopPropagation();
+  };
+
+  if (!isPdf && !isImage) return null;
+
+  const pages = pageSizes;
+  const activeMatch = matches[matchIndex] ?? null;
+  const toolButton = (value: ViewerTool, label: string) => (
+    <button
+      onClick={() => setTool(value)}
+      className={`px-2 py-1 rounded ${tool === value ? 'bg-primary-600 text-white' : 'text-secondary-700 hover:bg-secondary-100'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col h-full min-h-0 bg-secondary-100 rounded-lg overflow-hidden" onKeyDown={handleKeyDown}>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-white border-b border-secondary-200 text-sm">
+        <button
+          onClick={() => setShowThumbnails(!showThumbnails)}
+          className={`px-2 py-1 rounded ${showThumbnails ? 'bg-secondary-200' : 'hover:bg-secondary-100'}`}
+          title="Page thumbnails"
+        >
+          Pages
+        </button>
+        <span className="text-secondary-500">
+          {currentPage} / {pages.length || 1}
+        </span>
+
+        <div className="flex items-center gap-1 ml-2">
+          <button onClick={() => changeZoom(-1)} disabled={zoom === ZOOM_STEPS[0]} className="w-7 h-7 rounded hover:bg-secondary-100 disabled:opacity-40" title="Zoom out">
+            −
+          </button>
+          <button onClick={() => setZoom(1)} className="w-12 text-secondary-700 hover:underline" title="Reset zoom">
+            {Math.round(zoom * 100)}%
+          </button>
+          <button onClick={() => changeZoom(1)} disabled={zoom === ZOOM_STEPS[ZOOM_STEPS.length - 1]} className="w-7 h-7 rounded hover:bg-secondary-100 disabled:opacity-40" title="Zoom in">
+            +
+          </button>
+          <button onClick={() => setRotation((r) => (r + 90) % 360)} className="px-2 py-1 rounded hover:bg-secondary-100" title="Rotate">
+            ⟳ Rotate
+          </button>
+        </div>
+
+        {isPdf && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSearch();
+            }}
+            className="flex items-center gap-1"
+          >
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search text"
+              className="w-36 px-2 py-1 border border-secondary-300 rounded focus:ring-2 focus:ring-primary-500"
+            />
+            {searchedQuery && (
+              <>
+                <span className="text-xs text-secondary-500 whitespace-nowrap">
+                  {searching ? '…' : matches.length ? `${matchIndex + 1}/${matches.length}` : 'No matches'}
+                </span>
+                <button type="button" onClick={() => goToMatch(matchIndex - 1)} disabled={!matches.length} className="px-1 disabled:opacity-40" title="Previous match">
+                  ↑
+                </button>
+                <button type="button" onClick={() => goToMatch(matchIndex + 1)} disabled={!matches.length} className="px-1 disabled:opacity-40" title="Next match">
+                  ↓
+                </button>
+              </>
+            )}
+          </form>
+        )}
+
+        <div className="flex items-center gap-1 ml-auto">
+          {canAnnotate && (
+            <>
+              {toolButton('select', 'Select')}
+              {toolButton('highlight', 'Highlight')}
+              {toolButton('pin', 'Pin')}
+              {tool !== 'select' &&
+                HIGHLIGHT_COLORS.map((c) => (
+                  <button
+                    key={c}
+                    onClick={() => setColor(c)}
+                    className={`w-4 h-4 rounded-full ${color === c ? 'ring-2 ring-offset-1 ring-secondary-500' : ''}`}
+                    style={{ backgroundColor: c }}
+                    title="Annotation color"
+                  />
+                ))}
+            </>
+          )}
+          <button
+            onClick={() => setShowAnnotations(!showAnnotations)}
+            className={`px-2 py-1 rounded ${showAnnotations ? 'bg-secondary-200' : 'hover:bg-secondary-100'}`}
+          >
+            Notes{annotations.length > 0 && ` (${annotations.length})`}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Thumbnails */}
+        {showThumbnails && pages.length > 0 && (
+          <div className="w-28 flex-shrink-0 overflow-y-auto py-3 bg-secondary-200/60 border-r border-secondary-200">
+            {pages.map((size, i) => (
+              <Thumbnail
+                key={i}
+                pageNumber={i + 1}
+                size={size}
+                pdf={pdf}
+                imageUrl={isImage ? url : null}
+                active={currentPage === i + 1}
+                badge={annotations.filter((a) => a.page === i + 1).length}
+                onClick={() => scrollToPage(i + 1)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Pages */}
+        <div className="relative flex-1 overflow-auto p-4" onScroll={handleScroll}>
+          {loadError ? (
+            <div className="flex items-center justify-center h-full text-secondary-500">
+              <p>{loadError}</p>
+            </div>
+          ) : (
+            <>
+              {/* Measure images off-screen; PDFs are measured when loaded */}
+              {isImage && pages.length === 0 && (
+                <img
+                  src={url}
+                  alt=""
+                  className="hidden"
+                  onLoad={(e) => setPageSizes([{ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight }])}
+                  onError={() => setLoadError('Could not load this image')}
+                />
+              )}
+              {pages.length === 0 && <p className="text-center text-secondary-500 py-12">Loading document...</p>}
+              <div className="space-y-4">
+                {pages.map((size, i) => (
+                  <div key={i} ref={(el) => { pageRefs.current[i] = el; }}>
+                    <ViewerPage
+                      pageNumber={i + 1}
+                      size={size}
+                      zoom={zoom}
+                      rotation={rotation}
+                      pdf={pdf}
+                      imageUrl={isImage ? url : null}
+                      tool={canAnnotate ? tool : 'select'}
+                      color={color}
+                      annotations={annotations.filter((a) => a.page === i + 1)}
+                      matches={matches.filter((m) => m.page === i + 1)}
+                      activeMatch={activeMatch}
+                      activeAnnotationId={activeAnnotationId}
+                      onSelectAnnotation={(id) => {
+                        setActiveAnnotationId(id);
+                        setShowAnnotations(true);
+                      }}
+                      onCreate={(kind, rect) => handleCreate(i + 1, kind, rect)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Annotation list */}
+        {showAnnotations && (
+          <div className="w-64 flex-shrink-0 overflow-y-auto p-3 bg-white border-l border-secondary-200">
+            <h4 className="text-xs font-semibold text-secondary-600 uppercase mb-2">Annotations</h4>
+            {annotations.length === 0 ? (
+              <p className="text-xs text-secondary-400 italic">
+                {canAnnotate ? 'Use Highlight or Pin to mark up this document' : 'No annotations yet'}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {annotations.map((annotation) => (
+                  <AnnotationItem
+                    key={annotation.id}
+                    annotation={annotation}
+                    active={annotation.id === activeAnnotationId}
+                    canEdit={canAnnotate && annotation.created_by === user?.id}
+                    onSelect={() => selectAnnotation(annotation)}
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
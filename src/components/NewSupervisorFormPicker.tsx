@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useSupervisorStore } from '@/stores/supervisorStore';
-import type { FormTypeId, FormCategory } from '@/types/supervisorForms';
+import type { FormCategory } from '@/types/supervisorForms';
 import { getWorkerFormTypes, getSupervisorFormTypes } from '@/types/supervisorForms';
 
 interface NewSupervisorFormPickerProps {
@@ -17,13 +17,14 @@ export function NewSupervisorFormPicker({
   onFormCreated,
 }: NewSupervisorFormPickerProps) {
   const [creating, setCreating] = useState(false);
-  const [selectedType, setSelectedType] = useState<FormTypeId | null>(null);
+  const [selectedType, setSelectedType] = useState<string | null>(null);
   const [activeCategory, setActiveCategory] = useState<FormCategory>('supervisor');
   
   const createSupervisorForm = useSupervisorStore((s) => s.createSupervisorForm);
+  const formDefinitions = useSupervisorStore((s) => s.formDefinitions);
   const error = useSupervisorStore((s) => s.error);
 
-  const handleSelectFormType = async (formTypeId: FormTypeId) => {
+  const handleSelectFormType = async (formTypeId: string) => {
     setSelectedType(formTypeId);
     setCreating(true);
 
@@ -53,8 +54,8 @@ export function NewSupervisorFormPicker({
 
   if (!isOpen) return null;
 
-  const supervisorForms = getSupervisorFormTypes();
-  const workerForms = getWorkerFormTypes();
+  const supervisorForms = getSupervisorFormTypes(formDefinitions);
+  const workerForms = getWorkerFormTypes(formDefinitions);
   const displayedForms = activeCategory === 'supervisor' ? supervisorForms : workerForms;
 
   return (
@@ -13,6 +13,7 @@ import {
   WEATHER_CONDITIONS,
   SITE_ISSUE_STATUS_CONFIG,
 } from '@/types/supervisor';
+import { formatSiteIssueAge, getSiteIssuesForDate, type SiteIssueOnDate } from '@/utils/siteIssues';
 
 interface PDRPreviewProps {
   report: ProjectDailyReport;
@@ -299,15 +300,15 @@ function DeliveriesSection({ logs }: { logs: ProjectDailyLog[] }) {
   );
 }
 
-function SiteIssuesSection({ logs }: { logs: ProjectDailyLog[] }) {
-  if (logs.length === 0) return null;
+function SiteIssuesSection({ issues }: { issues: SiteIssueOnDate[] }) {
+  if (issues.length === 0) return null;
 
-  const openCount = logs.filter(l => l.status !== 'resolved').length;
+  const openCount = issues.filter(i => i.status !== 'resolved').length;
 
   return (
     <div className="border border-red-200 rounded-lg p-4 bg-red-50/30 print:bg-red-50">
       <h3 className="text-sm font-semibold text-red-800 mb-3 uppercase tracking-wider flex items-center gap-2">
-        Site Issues ({logs.length})
+        Site Issues ({issues.length})
         {openCount > 0 && (
           <span className="px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded-full">
             {openCount} Open
@@ -315,9 +316,9 @@ function SiteIssuesSection({ logs }: { logs: ProjectDailyLog[] }) {
         )}
       </h3>
       <div className="space-y-2">
-        {logs.map((log) => {
+        {issues.map(({ issue: log, status, age_days, overdue }) => {
           const meta = log.metadata as SiteIssueMetadata;
-          const statusConfig = SITE_ISSUE_STATUS_CONFIG[log.status];
+          const statusConfig = SITE_ISSUE_STATUS_CONFIG[status];
           return (
             <div key={log.id} className="bg-white rounded p-2 border border-gray-100">
               <div className="flex items-start justify-between gap-2">
@@ -335,6 +336,9 @@ function SiteIssuesSection({ logs }: { logs: ProjectDailyLog[] }) {
                     <span className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${statusConfig.bgColor} ${statusConfig.color}`}>
                       {statusConfig.label}
                     </span>
+                    <span className={`text-[10px] ${overdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                      {formatSiteIssueAge(age_days)}{overdue && ' · overdue'}
+                    </span>
                   </div>
                   <p className="text-sm text-gray-800">{log.content}</p>
                   {meta.assigned_to && (
@@ -481,10 +485,10 @@ export function PDRPreview({
       visitors: logsForDate.filter((log) => log.log_type === 'visitor'),
       deliveries: logsForDate.filter((log) => log.log_type === 'delivery'),
       manpower: logsForDate.filter((log) => log.log_type === 'manpower'),
-      siteIssues: logsForDate.filter((log) => log.log_type === 'site_issue'),
+      siteIssues: getSiteIssuesForDate(logs, report.report_date),
       scheduleDelays: logsForDate.filter((log) => log.log_type === 'schedule_delay'),
     };
-  }, [logsForDate]);
+  }, [logs, logsForDate, report.report_date]);
 
   // Filter shifts by date
   const shiftsForDate = useMemo(() => {
@@ -565,7 +569,7 @@ export function PDRPreview({
 
           {/* Site Issues */}
           <div className="mb-4">
-            <SiteIssuesSection logs={logsByType.siteIssues} />
+            <SiteIssuesSection issues={logsByType.siteIssues} />
           </div>
 
           {/* Schedule & Delays */}
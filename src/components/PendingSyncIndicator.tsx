@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useOfflineSyncStore } from '@/stores/offlineSyncStore';
+import type { QueuedMutation } from '@/types/offlineSync';
+
+function formatQueuedAt(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const STATUS_STYLES: Record<QueuedMutation['status'], { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-slate-100 text-slate-600' },
+  conflict: { label: 'Conflict', className: 'bg-amber-100 text-amber-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
+
+/**
+ * Header badge showing offline status and writes waiting to sync.
+ * Opens a panel where conflicts can be resolved (keep mine / discard).
+ */
+export function PendingSyncIndicator() {
+  const queue = useOfflineSyncStore((s) => s.queue);
+  const isOnline = useOfflineSyncStore((s) => s.isOnline);
+  const syncing = useOfflineSyncStore((s) => s.syncing);
+  const replayQueue = useOfflineSyncStore((s) => s.replayQueue);
+  const keepLocalChange = useOfflineSyncStore((s) => s.keepLocalChange);
+  const discardMutation = useOfflineSyncStore((s) => s.discardMutation);
+  const retryMutation = useOfflineSyncStore((s) => s.retryMutation);
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (isOnline && queue.length === 0) return null;
+
+  const needsAttention = queue.some((m) => m.status !== 'pending');
+
+  const badgeClass = needsAttention
+    ? 'bg-amber-500/20 text-amber-300 border-amber-500/40'
+    : !isOnline
+      ? 'bg-slate-700 text-slate-200 border-slate-600'
+      : 'bg-[#d1bd23]/20 text-[#d1bd23] border-[#d1bd23]/40';
+
+  const badgeLabel = !isOnline
+    ? queue.length > 0
+      ? `Offline · ${queue.length} pending`
+      : 'Offline'
+    : syncing
+      ? 'Syncing…'
+      : `${queue.length} pending sync`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-full border ${badgeClass}`}
+        title={isOnline ? 'Changes waiting to sync' : 'You are offline. Changes are saved on this device.'}
+      >
+        {syncing ? (
+          <svg className="w-3.5 h-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+        ) : (
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        )}
+        {badgeLabel}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-secondary-200 z-50">
+            <div className="px-4 py-3 border-b border-secondary-100 flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-semibold text-secondary-900">Pending changes</h3>
+                <p className="text-xs text-secondary-500">
+                  {isOnline ? 'Saved on this device until synced' : 'Will sync when you reconnect'}
+                </p>
+              </div>
+              {isOnline && queue.length > 0 && (
+                <button
+                  onClick={() => replayQueue()}
+                  disabled={syncing}
+                  className="text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                >
+                  Sync now
+                </button>
+              )}
+            </div>
+
+            {queue.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-secondary-500 text-center">Nothing waiting to sync</p>
+            ) : (
+              <ul className="max-h-80 overflow-y-auto divide-y divide-secondary-100">
+                {queue.map((mutation) => {
+                  const style = STATUS_STYLES[mutation.status];
+                  return (
+                    <li key={mutation.id} className="px-4 py-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm text-secondary-900 truncate">{mutation.label}</p>
+                          <p className="text-xs text-secondary-500">{formatQueuedAt(mutation.created_at)}</p>
+                        </div>
+                        <span className={`flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded ${style.className}`}>
+                          {style.label}
+                        </span>
+                      </div>
+
+                      {mutation.last_error && (
+                        <p className="mt-1 text-xs text-secondary-600">{mutation.last_error}</p>
+                      )}
+
+                      {mutation.status === 'conflict' && (
+                        <div className="mt-2 flex gap-2">
+                          <button
+                            onClick={() => keepLocalChange(mutation.id)}
+                            className="px-2 py-1 text-xs font-medium rounded bg-primary-600 text-white hover:bg-primary-700"
+                          >
+                            Keep mine
+                          </button>
+                          <button
+                            onClick={() => discardMutation(mutation.id)}
+                            className="px-2 py-1 text-xs font-medium rounded border border-secondary-300 text-secondary-700 hover:bg-secondary-50"
+                          >
+                            Use theirs
+                          </button>
+                        </div>
+                      )}
+
+                      {mutation.status === 'failed' && (
+                        <div className="mt-2 flex gap-2">
+                          <button
+                            onClick={() => retryMutation(mutation.id)}
+                            className="px-2 py-1 text-xs font-medium rounded bg-primary-600 text-white hover:bg-primary-700"
+                          >
+                            Retry
+                          </button>
+                          <button
+                            onClick={() => discardMutation(mutation.id)}
+                            className="px-2 py-1 text-xs font-medium rounded border border-secondary-300 text-secondary-700 hover:bg-secondary-50"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
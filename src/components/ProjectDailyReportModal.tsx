@@ -16,6 +16,9 @@ import {
   DAILY_LOG_TYPE_CONFIG,
   SITE_ISSUE_STATUS_CONFIG,
 } from '@/types/supervisor';
+import { buildDailyReportPdf, getDailyReportPdfFilename } from '@/utils/dailyReportPdf';
+import { formatSiteIssueAge, getSiteIssueAgeDays, getSiteIssuesForDate, isSiteIssueOverdue } from '@/utils/siteIssues';
+import { downloadPdfBlob } from '@/utils/pdfLayout';
 
 interface ProjectDailyReportModalProps {
   projectId: string;
@@ -40,6 +43,10 @@ function formatDate(dateStr: string): string {
   });
 }
 
+function formatShortDate(dateStr: string): string {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
 function formatTime(timeStr: string | undefined): string {
   if (!timeStr) return '';
   const [hours, minutes] = timeStr.split(':');
@@ -190,9 +197,10 @@ interface LogSectionProps {
   logType: DailyLogType;
   bgColor: string;
   borderColor: string;
+  reportDate?: string; // Site issues show their age as of this date
 }
 
-function LogSection({ title, icon, logs, logType, bgColor, borderColor }: LogSectionProps) {
+function LogSection({ title, icon, logs, logType, bgColor, borderColor, reportDate }: LogSectionProps) {
   if (logs.length === 0) return null;
 
   const renderLogContent = (log: ProjectDailyLog) => {
@@ -278,6 +286,17 @@ function LogSection({ title, icon, logs, logType, bgColor, borderColor }: LogSec
               )}
             </div>
             <p className="text-sm text-gray-800 mt-1">{log.content}</p>
+            {reportDate && (
+              <p className="text-xs text-gray-500 mt-1">
+                {formatSiteIssueAge(getSiteIssueAgeDays(log, reportDate))}
+                {log.log_date < reportDate && ` · raised ${formatShortDate(log.log_date)}`}
+                {meta.due_date && (
+                  <span className={isSiteIssueOverdue(log, reportDate) ? 'text-red-600 font-medium' : ''}>
+                    {' '}· due {formatShortDate(meta.due_date)}{isSiteIssueOverdue(log, reportDate) && ' (overdue)'}
+                  </span>
+                )}
+              </p>
+            )}
             {meta.resolution_notes && (
               <p className="text-xs text-green-600 mt-1">Resolution: {meta.resolution_notes}</p>
             )}
@@ -441,17 +460,35 @@ export function ProjectDailyReportModal({
   const [summaryNotes, setSummaryNotes] = useState(existingReport?.summary_notes ?? '');
   const [isGenerating, setIsGenerating] = useState(false);
   const [_isSaved, setIsSaved] = useState(!!existingReport);
+  const [pdfAction, setPdfAction] = useState<'download' | 'upload' | null>(null);
+  const [pdfMessage, setPdfMessage] = useState<string | null>(null);
 
   const dailyLogs = useSupervisorStore((s) => s.dailyLogs);
+  const siteIssues = useSupervisorStore((s) => s.siteIssues);
   const shifts = useSupervisorStore((s) => s.shifts);
   const fetchDailyLogs = useSupervisorStore((s) => s.fetchDailyLogs);
+  const fetchSiteIssues = useSupervisorStore((s) => s.fetchSiteIssues);
   const generateDailyReport = useSupervisorStore((s) => s.generateDailyReport);
   const updateDailyReport = useSupervisorStore((s) => s.updateDailyReport);
+  const uploadDailyReportPdf = useSupervisorStore((s) => s.uploadDailyReportPdf);
+  const getDailyReportPdfUrl = useSupervisorStore((s) => s.getDailyReportPdfUrl);
+  const currentProject = useSupervisorStore((s) => s.currentProject);
+  const savedReport = useSupervisorStore((s) =>
+    existingReport ? s.dailyReports.find((r) => r.id === existingReport.id) ?? existingReport : undefined
+  );
 
-  // Fetch logs for this date
+  // Fetch logs for this date, plus site issues still open from earlier days
   useEffect(() => {
     fetchDailyLogs(projectId, reportDate);
-  }, [projectId, reportDate, fetchDailyLogs]);
+    fetchSiteIssues(projectId);
+  }, [projectId, reportDate, fetchDailyLogs, fetchSiteIssues]);
+
+  // Every site issue on the project, including ones raised today before the list was fetched
+  const projectSiteIssues = useMemo(() => {
+    const fetched = siteIssues.filter((log) => log.project_id === projectId);
+    const added = dailyLogs.filter((log) => log.log_type === 'site_issue' && !fetched.some((i) => i.id === log.id));
+    return [...fetched, ...added];
+  }, [siteIssues, dailyLogs, projectId]);
 
   // Filter logs by date and group by type
   const logsByType = useMemo(() => {
@@ -460,10 +497,11 @@ export function ProjectDailyReportModal({
       visitors: filtered.filter((log) => log.log_type === 'visitor'),
       deliveries: filtered.filter((log) => log.log_type === 'delivery'),
       manpower: filtered.filter((log) => log.log_type === 'manpower'),
-      siteIssues: filtered.filter((log) => log.log_type === 'site_issue'),
+      // Carried-over issues show with their status as of the report date
+      siteIssues: getSiteIssuesForDate(projectSiteIssues, reportDate).map(({ issue, status }) => ({ ...issue, status })),
       scheduleDelays: filtered.filter((log) => log.log_type === 'schedule_delay'),
     };
-  }, [dailyLogs, reportDate]);
+  }, [dailyLogs, projectSiteIssues, reportDate]);
 
   // Filter shifts by date
   const shiftsForDate = useMemo(() => {
@@ -513,6 +551,48 @@ export function ProjectDailyReportModal({
     setIsSaved(true);
   };
 
+  // PDF is built from the saved report so exports match what's on record
+  const handleExportPdf = async (action: 'download' | 'upload') => {
+    if (!savedReport) return;
+
+    setPdfAction(action);
+    setPdfMessage(null);
+
+    try {
+      const blob = await buildDailyReportPdf({
+        report: savedReport,
+        projectName,
+        projectAddress: currentProject?.site_address ?? null,
+        logs: dailyLogs,
+        siteIssues: projectSiteIssues,
+        shifts: shiftsForDate,
+      });
+
+      if (action === 'download') {
+        downloadPdfBlob(blob, getDailyReportPdfFilename(projectName, reportDate));
+      } else {
+        const path = await uploadDailyReportPdf(savedReport.id, blob);
+        setPdfMessage(path ? 'PDF saved to project storage' : 'Failed to save PDF');
+      }
+    } catch (error) {
+      console.error('Failed to build daily report PDF:', error);
+      setPdfMessage('Failed to build PDF');
+    } finally {
+      setPdfAction(null);
+    }
+  };
+
+  // Saved PDFs are in a private bucket, so open them through a fresh signed URL
+  const handleOpenSavedPdf = async () => {
+    if (!savedReport) return;
+    const url = await getDailyReportPdfUrl(savedReport.id);
+    if (url) {
+      window.open(url, '_blank');
+    } else {
+      setPdfMessage('Failed to open saved PDF');
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
@@ -606,6 +686,7 @@ export function ProjectDailyReportModal({
             logType="site_issue"
             bgColor="bg-red-50"
             borderColor="border-red-200"
+            reportDate={reportDate}
           />
 
           {/* Schedule & Delays */}
@@ -639,8 +720,39 @@ export function ProjectDailyReportModal({
             {existingReport && (
               <span>Generated: {formatDateTime(existingReport.generated_at)}</span>
             )}
+            {pdfMessage && <span className="ml-3 text-gray-600">{pdfMessage}</span>}
           </div>
           <div className="flex gap-2">
+            {savedReport && (
+              <>
+                <button
+                  onClick={() => handleExportPdf('download')}
+                  disabled={pdfAction !== null}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium disabled:opacity-50"
+                  title="Download the saved report as a PDF"
+                >
+                  {pdfAction === 'download' ? 'Building PDF...' : 'Download PDF'}
+                </button>
+                <button
+                  onClick={() => handleExportPdf('upload')}
+                  disabled={pdfAction !== null}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium disabled:opacity-50"
+                  title={savedReport.pdf_storage_path ? 'Replace the PDF saved in project storage' : 'Save a PDF copy to project storage'}
+                >
+                  {pdfAction === 'upload' ? 'Saving PDF...' : 'Save PDF'}
+                </button>
+                {savedReport.pdf_storage_path && (
+                  <button
+                    onClick={handleOpenSavedPdf}
+                    disabled={pdfAction !== null}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium disabled:opacity-50"
+                    title="Open the PDF saved in project storage"
+                  >
+                    Open Saved PDF
+                  </button>
+                )}
+              </>
+            )}
             <button
               onClick={onClose}
               className="px-4 py-2 text-gray-600 hover:text-gray-800 text-sm font-medium"
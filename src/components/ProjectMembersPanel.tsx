@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { ProjectMember, ProjectRole } from '@/types/supervisor';
+import { PROJECT_ROLE_CONFIG, hasProjectPermission } from '@/types/supervisor';
+
+interface ProjectMembersPanelProps {
+  projectId: string;
+}
+
+// Owner is set at project creation and can't be granted through an invite
+const INVITABLE_ROLES: ProjectRole[] = ['supervisor', 'safety_officer', 'client'];
+
+function MemberRow({ member, canManage }: { member: ProjectMember; canManage: boolean }) {
+  const updateProjectMemberRole = useSupervisorStore((s) => s.updateProjectMemberRole);
+  const removeProjectMember = useSupervisorStore((s) => s.removeProjectMember);
+  const isOwner = member.role === 'owner';
+
+  const handleRemove = async () => {
+    const message = member.status === 'pending'
+      ? `Cancel the invitation for ${member.email}?`
+      : `Remove ${member.email} from this project?`;
+    if (!confirm(message)) return;
+    await removeProjectMember(member.id);
+  };
+
+  return (
+    <tr>
+      <td className="px-3 py-2 text-secondary-800">
+        {member.email}
+        {member.status === 'pending' && (
+          <span className="ml-2 px-2 py-0.5 text-xs bg-warning-100 text-warning-700 rounded">Invited</span>
+        )}
+      </td>
+      <td className="px-3 py-2">
+        {canManage && !isOwner ? (
+          <select
+            value={member.role}
+            onChange={(e) => updateProjectMemberRole(member.id, e.target.value as ProjectRole)}
+            className="px-2 py-1 text-sm border border-secondary-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500"
+          >
+            {INVITABLE_ROLES.map((role) => (
+              <option key={role} value={role}>{PROJECT_ROLE_CONFIG[role].label}</option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-sm text-secondary-700">{PROJECT_ROLE_CONFIG[member.role].label}</span>
+        )}
+      </td>
+      <td className="px-3 py-2 text-xs text-secondary-500">
+        {member.accepted_at ? `Joined ${new Date(member.accepted_at).toLocaleDateString()}` : `Invited ${new Date(member.created_at).toLocaleDateString()}`}
+      </td>
+      <td className="px-3 py-2 text-right">
+        {canManage && !isOwner && (
+          <button onClick={handleRemove} className="text-sm text-danger-600 hover:text-danger-700">
+            {member.status === 'pending' ? 'Cancel' : 'Remove'}
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export function ProjectMembersPanel({ projectId }: ProjectMembersPanelProps) {
+  const members = useSupervisorStore((s) => s.members);
+  const error = useSupervisorStore((s) => s.error);
+  const fetchProjectMembers = useSupervisorStore((s) => s.fetchProjectMembers);
+  const inviteProjectMember = useSupervisorStore((s) => s.inviteProjectMember);
+  const role = useSupervisorStore((s) => s.getProjectRole(projectId));
+
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('supervisor');
+  const [inviting, setInviting] = useState(false);
+
+  const canManage = hasProjectPermission(role, 'members.manage');
+  const projectMembers = members.filter((m) => m.project_id === projectId);
+
+  useEffect(() => {
+    fetchProjectMembers(projectId);
+  }, [projectId, fetchProjectMembers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setInviting(true);
+    const member = await inviteProjectMember(projectId, email, inviteRole);
+    setInviting(false);
+
+    if (member) {
+      setEmail('');
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-secondary-900">Team</h3>
+        <p className="text-xs text-secondary-500">People who can open this project and what their role lets them do</p>
+      </div>
+
+      {canManage && (
+        <>
+          <form onSubmit={handleInvite} className="flex flex-wrap items-center gap-2 mb-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@company.com"
+              className="flex-1 min-w-[12rem] px-3 py-2 text-sm border border-secondary-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              required
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+              className="px-2 py-2 text-sm border border-secondary-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500"
+            >
+              {INVITABLE_ROLES.map((r) => (
+                <option key={r} value={r}>{PROJECT_ROLE_CONFIG[r].label}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={inviting}
+              className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {inviting ? 'Inviting...' : 'Invite'}
+            </button>
+          </form>
+          <p className="text-xs text-secondary-500 mb-4">
+            {PROJECT_ROLE_CONFIG[inviteRole].description}. They'll see the invitation on their Projects page after signing in with this email.
+          </p>
+        </>
+      )}
+
+      {error && <p className="text-sm text-danger-600 mb-3">{error}</p>}
+
+      {projectMembers.length === 0 ? (
+        <div className="text-center py-8 text-secondary-500 text-sm">No members yet</div>
+      ) : (
+        <div className="overflow-x-auto border border-secondary-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-secondary-50 text-xs text-secondary-500 uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Email</th>
+                <th className="px-3 py-2 text-left font-medium">Role</th>
+                <th className="px-3 py-2 text-left font-medium">Status</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-secondary-100">
+              {projectMembers.map((member) => (
+                <MemberRow key={member.id} member={member} canManage={canManage} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
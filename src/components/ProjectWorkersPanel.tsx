@@ -0,0 +1,124 @@
+import { useEffect } from 'react';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { ProjectWorker } from '@/types/supervisor';
+import { hasProjectPermission } from '@/types/supervisor';
+
+interface ProjectWorkersPanelProps {
+  projectId: string;
+  onInvite: () => void;
+}
+
+function WorkerRow({ worker, canManage }: { worker: ProjectWorker; canManage: boolean }) {
+  const removeWorker = useSupervisorStore((s) => s.removeWorker);
+  const resendWorkerInvite = useSupervisorStore((s) => s.resendWorkerInvite);
+  const revokeWorkerInvite = useSupervisorStore((s) => s.revokeWorkerInvite);
+  const isPending = worker.status === 'pending';
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove ${worker.user_full_name || worker.user_email} from this project?`)) return;
+    await removeWorker(worker.id);
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm(`Revoke the invitation for ${worker.invite_email}? The signup link will stop working.`)) return;
+    await revokeWorkerInvite(worker.id);
+  };
+
+  return (
+    <tr>
+      <td className="px-3 py-2 text-secondary-800">
+        {worker.user_full_name || worker.user_email}
+        {isPending && (
+          <span className="ml-2 px-2 py-0.5 text-xs bg-warning-100 text-warning-700 rounded">Invited</span>
+        )}
+        {worker.user_full_name && <p className="text-xs text-secondary-500">{worker.user_email}</p>}
+      </td>
+      <td className="px-3 py-2 text-secondary-600">{worker.subcontractor_name ?? 'Direct'}</td>
+      <td className="px-3 py-2 text-xs text-secondary-500">
+        {isPending
+          ? worker.invite_sent_at
+            ? `Invite sent ${new Date(worker.invite_sent_at).toLocaleDateString()}`
+            : 'Invite not sent yet'
+          : `Added ${new Date(worker.added_at).toLocaleDateString()}`}
+      </td>
+      <td className="px-3 py-2 text-right whitespace-nowrap">
+        {canManage && isPending && (
+          <>
+            <button onClick={() => resendWorkerInvite(worker.id)} className="text-sm text-primary-600 hover:text-primary-700 mr-3">
+              Resend
+            </button>
+            <button onClick={handleRevoke} className="text-sm text-danger-600 hover:text-danger-700">
+              Revoke
+            </button>
+          </>
+        )}
+        {canManage && !isPending && (
+          <button onClick={handleRemove} className="text-sm text-danger-600 hover:text-danger-700">
+            Remove
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export function ProjectWorkersPanel({ projectId, onInvite }: ProjectWorkersPanelProps) {
+  const workers = useSupervisorStore((s) => s.workers);
+  const error = useSupervisorStore((s) => s.error);
+  const fetchWorkers = useSupervisorStore((s) => s.fetchWorkers);
+  const role = useSupervisorStore((s) => s.getProjectRole(projectId));
+
+  const canManage = hasProjectPermission(role, 'workers.manage');
+  const projectWorkers = workers.filter((w) => w.project_id === projectId && w.status !== 'removed');
+  const pendingCount = projectWorkers.filter((w) => w.status === 'pending').length;
+
+  // Invites are activated on the server when the worker signs up with the link
+  useEffect(() => {
+    fetchWorkers(projectId);
+  }, [projectId, fetchWorkers]);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-secondary-900">Workers</h3>
+          <p className="text-xs text-secondary-500">
+            HrdHat users on this project{pendingCount > 0 && ` • ${pendingCount} invitation${pendingCount === 1 ? '' : 's'} pending`}
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={onInvite}
+            className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+          >
+            Invite Worker
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-danger-600 mb-3">{error}</p>}
+
+      {projectWorkers.length === 0 ? (
+        <div className="text-center py-8 text-secondary-500 text-sm">No workers yet</div>
+      ) : (
+        <div className="overflow-x-auto border border-secondary-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-secondary-50 text-xs text-secondary-500 uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Worker</th>
+                <th className="px-3 py-2 text-left font-medium">Company</th>
+                <th className="px-3 py-2 text-left font-medium">Status</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-secondary-100">
+              {projectWorkers.map((worker) => (
+                <WorkerRow key={worker.id} worker={worker} canManage={canManage} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@ import { useState } from 'react';
 import type { DailyLogType } from '@/types/supervisor';
 
 interface QuickAddBarProps {
-  onAddShift: () => void;
+  /** Omit to hide the Shift button (roles that can't manage shifts) */
+  onAddShift?: () => void;
   onAddLog: (type: DailyLogType) => void;
   /** If true, renders only the button grid without container/header */
   bare?: boolean;
@@ -23,10 +24,11 @@ const LOG_TYPE_BUTTONS: { type: DailyLogType | 'shift'; label: string; icon: str
 
 export function QuickAddBar({ onAddShift, onAddLog }: QuickAddBarProps) {
   const [activeType, setActiveType] = useState<DailyLogType | 'shift' | null>(null);
+  const buttons = onAddShift ? LOG_TYPE_BUTTONS : LOG_TYPE_BUTTONS.filter((b) => b.type !== 'shift');
 
   const handleClick = (type: DailyLogType | 'shift') => {
     if (type === 'shift') {
-      onAddShift();
+      onAddShift?.();
     } else {
       onAddLog(type);
     }
@@ -43,7 +45,7 @@ export function QuickAddBar({ onAddShift, onAddLog }: QuickAddBarProps) {
       
       {/* Button Grid - All equal weight */}
       <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-9 gap-2">
-        {LOG_TYPE_BUTTONS.map(({ type, label, icon, color, bgColor, hoverBg }) => (
+        {buttons.map(({ type, label, icon, color, bgColor, hoverBg }) => (
           <button
             key={type}
             onClick={() => handleClick(type)}
@@ -66,12 +68,14 @@ export function QuickAddBar({ onAddShift, onAddLog }: QuickAddBarProps) {
 
 // Compact version for mobile or inline use
 export function QuickAddBarCompact({ onAddShift, onAddLog }: QuickAddBarProps) {
+  const buttons = onAddShift ? LOG_TYPE_BUTTONS : LOG_TYPE_BUTTONS.filter((b) => b.type !== 'shift');
+
   return (
     <div className="flex items-center gap-1 overflow-x-auto pb-2 -mb-2">
-      {LOG_TYPE_BUTTONS.map(({ type, label, icon, color, bgColor, hoverBg }) => (
+      {buttons.map(({ type, label, icon, color, bgColor, hoverBg }) => (
         <button
           key={type}
-          onClick={() => type === 'shift' ? onAddShift() : onAddLog(type)}
+          onClick={() => type === 'shift' ? onAddShift?.() : onAddLog(type)}
           className={`
             flex items-center gap-1.5 px-3 py-1.5 rounded-full
             text-xs font-medium whitespace-nowrap
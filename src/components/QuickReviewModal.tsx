@@ -1,7 +1,10 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 
 import type { ReceivedDocument, ProjectFolder, DocumentMetadata } from '@/types/supervisor';
-import { getEffectiveMetadata } from '@/types/supervisor';
+import { DEFAULT_AUTO_FILE_THRESHOLD, getEffectiveMetadata } from '@/types/supervisor';
+import type { DuplicateGroup } from '@/utils/duplicateDetection';
+import { indexDuplicateGroups, pickDuplicateToKeep } from '@/utils/duplicateDetection';
+import { DocumentViewer } from './DocumentViewer';
 
 interface QuickReviewModalProps {
   documents: ReceivedDocument[];
@@ -13,12 +16,49 @@ interface QuickReviewModalProps {
     metadata: Partial<DocumentMetadata>;
   }) => Promise<void>;
   getDocumentUrl: (storagePath: string) => Promise<string | null>;
+  autoFileThreshold?: number; // Confidence the project auto-files at
+  duplicateGroups?: DuplicateGroup[];
+  /** Reject the duplicate copies; resolves false if nothing was rejected */
+  onResolveDuplicates?: (keep: ReceivedDocument, reject: ReceivedDocument[]) => Promise<boolean>;
+  /** Reject one document; resolves false if it couldn't be rejected */
+  onReject?: (document: ReceivedDocument) => Promise<boolean>;
+  /** Write back a document as it was before a review, for undo */
+  onRestore?: (snapshot: ReceivedDocument) => Promise<void>;
+  workerSuggestions?: string[]; // Type-ahead for the worker field
+  companySuggestions?: string[]; // Type-ahead for the company field
+}
+
+type TriageOutcome =
+  | { action: 'filed'; folderId: string | null }
+  | { action: 'rejected' }
+  | { action: 'skipped' };
+
+// One triage action, with the document as it was before so it can be undone
+interface TriageStep {
+  index: number;
+  before: ReceivedDocument;
+  outcome: TriageOutcome;
+}
+
+// Folders 1-9 get number keys
+const FOLDER_SHORTCUT_COUNT = 9;
+
+/**
+ * Start downloading a preview so it's in the browser cache when shown
+ */
+function warmPreview(document: ReceivedDocument, url: string) {
+  if (document.mime_type?.includes('image')) {
+    new Image().src = url;
+  } else if (document.mime_type?.includes('pdf')) {
+    fetch(url).catch(() => undefined);
+  }
 }
 
 /**
  * Quick Review Modal for rapid document triage.
  * Shows document preview on the left, metadata form on the right.
- * Supports keyboard navigation (Arrow keys, Enter to save).
+ * Fully keyboard driven: number keys file into folders, R rejects, S skips,
+ * U undoes, and a summary of the session is shown at the end.
  */
 export function QuickReviewModal({
   documents,
@@ -27,11 +67,26 @@ export function QuickReviewModal({
   onClose,
   onSave,
   getDocumentUrl,
+  autoFileThreshold = DEFAULT_AUTO_FILE_THRESHOLD,
+  duplicateGroups = [],
+  onResolveDuplicates,
+  onReject,
+  onRestore,
+  workerSuggestions = [],
+  companySuggestions = [],
 }: QuickReviewModalProps) {
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [history, setHistory] = useState<TriageStep[]>([]);
+  const [showSummary, setShowSummary] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Signed URLs by storage path, shared by the preview and the prefetch
+  const urlCache = useRef(new Map<string, Promise<string | null>>());
+  const workerInputRef = useRef<HTMLInputElement>(null);
+  const companyInputRef = useRef<HTMLInputElement>(null);
   
   // Form state for current document
   const [workerName, setWorkerName] = useState('');
@@ -40,9 +95,21 @@ export function QuickReviewModal({
   const [selectedFolderId, setSelectedFolderId] = useState<string>('');
 
   const currentDoc = documents[currentIndex];
+  const currentGroup = currentDoc ? indexDuplicateGroups(duplicateGroups).get(currentDoc.id) : undefined;
+  const duplicateToKeep = currentGroup ? pickDuplicateToKeep(currentGroup) : undefined;
+  const nextDoc = documents[currentIndex + 1];
   const hasNext = currentIndex < documents.length - 1;
   const hasPrev = currentIndex > 0;
 
+  const getCachedUrl = useCallback((storagePath: string) => {
+    let url = urlCache.current.get(storagePath);
+    if (!url) {
+      url = getDocumentUrl(storagePath);
+      urlCache.current.set(storagePath, url);
+    }
+    return url;
+  }, [getDocumentUrl]);
+
   // Load document preview
   useEffect(() => {
     if (!currentDoc) return;
@@ -50,11 +117,19 @@ export function QuickReviewModal({
     setIsLoadingPreview(true);
     setPreviewUrl(null);
     
-    getDocumentUrl(currentDoc.storage_path).then((url) => {
+    getCachedUrl(currentDoc.storage_path).then((url) => {
       setPreviewUrl(url);
       setIsLoadingPreview(false);
     });
-  }, [currentDoc, getDocumentUrl]);
+  }, [currentDoc, getCachedUrl]);
+
+  // Prefetch the next document so moving on is instant
+  useEffect(() => {
+    if (!nextDoc) return;
+    getCachedUrl(nextDoc.storage_path).then((url) => {
+      if (url) warmPreview(nextDoc, url);
+    });
+  }, [nextDoc, getCachedUrl]);
 
   // Initialize form with current document's metadata
   useEffect(() => {
@@ -76,45 +151,103 @@ export function QuickReviewModal({
     if (hasPrev) setCurrentIndex((i) => i - 1);
   }, [hasPrev]);
 
-  // Save current document and go to next
-  const handleSaveAndNext = useCallback(async () => {
+  // Record a triage action and move on; the last document opens the summary
+  const completeStep = useCallback((outcome: TriageOutcome) => {
+    if (!currentDoc) return;
+    setHistory((prev) => [...prev, { index: currentIndex, before: currentDoc, outcome }]);
+    setActionError(null);
+    if (hasNext) {
+      goNext();
+    } else {
+      setShowSummary(true);
+    }
+  }, [currentDoc, currentIndex, hasNext, goNext]);
+
+  // Save current document (optionally straight into a folder) and go to next
+  const handleSaveAndNext = useCallback(async (folderOverride?: string | null) => {
     if (!currentDoc || isSaving) return;
+    const folderId = folderOverride !== undefined ? folderOverride : selectedFolderId || null;
     
     setIsSaving(true);
     
     try {
       await onSave(currentDoc.id, {
-        folderId: selectedFolderId || null,
+        folderId,
         metadata: {
           workerNameManual: workerName || undefined,
           companyNameManual: companyName || undefined,
           documentDateManual: documentDate || undefined,
         },
       });
-      
-      // Move to next document or close if this was the last one
-      if (hasNext) {
-        goNext();
-      } else {
-        onClose();
-      }
+      completeStep({ action: 'filed', folderId: folderId ?? currentDoc.folder_id });
     } catch (error) {
       console.error('Failed to save document:', error);
+      setActionError('Could not save this document');
     } finally {
       setIsSaving(false);
     }
-  }, [currentDoc, selectedFolderId, workerName, companyName, documentDate, isSaving, onSave, hasNext, goNext, onClose]);
+  }, [currentDoc, selectedFolderId, workerName, companyName, documentDate, isSaving, onSave, completeStep]);
 
   // Skip without saving
   const handleSkip = useCallback(() => {
-    if (hasNext) {
-      goNext();
-    } else {
-      onClose();
+    completeStep({ action: 'skipped' });
+  }, [completeStep]);
+
+  const handleReject = useCallback(async () => {
+    if (!currentDoc || !onReject || isSaving || currentDoc.status === 'rejected') return;
+
+    setIsSaving(true);
+    try {
+      if (await onReject(currentDoc)) {
+        completeStep({ action: 'rejected' });
+      } else {
+        setActionError('Could not reject this document');
+      }
+    } finally {
+      setIsSaving(false);
     }
-  }, [hasNext, goNext, onClose]);
+  }, [currentDoc, onReject, isSaving, completeStep]);
 
-  // Keyboard navigation
+  // Undo the last action and go back to its document
+  const handleUndo = useCallback(async () => {
+    const last = history[history.length - 1];
+    if (!last || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      if (last.outcome.action !== 'skipped') {
+        if (!onRestore) return;
+        await onRestore(last.before);
+      }
+      setHistory((prev) => prev.slice(0, -1));
+      setCurrentIndex(last.index);
+      setShowSummary(false);
+      setActionError(null);
+    } catch (error) {
+      console.error('Failed to undo review:', error);
+      setActionError('Could not undo the last action');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [history, isSaving, onRestore]);
+
+  // Keep the linked/filed copy (else the newest) and reject the others, then land on the kept document
+  const handleResolveDuplicates = async () => {
+    if (!currentGroup || !duplicateToKeep || !onResolveDuplicates || isSaving) return;
+    const keep = duplicateToKeep;
+    const rest = currentGroup.documents.filter((d) => d.id !== keep.id);
+
+    setIsSaving(true);
+    try {
+      if (!(await onResolveDuplicates(keep, rest))) return;
+      const keepIndex = documents.findIndex((d) => d.id === keep.id);
+      if (keepIndex !== -1) setCurrentIndex(keepIndex);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Keyboard triage
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't handle if user is typing in an input
@@ -122,7 +255,32 @@ export function QuickReviewModal({
         // Only handle Enter in inputs to submit
         if (e.key === 'Enter' && !e.shiftKey) {
           e.preventDefault();
-          handleSaveAndNext();
+          if (!showSummary) handleSaveAndNext();
+        }
+        // Escape leaves the field so shortcuts work again
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          e.target.blur();
+        }
+        return;
+      }
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        handleUndo();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      // Number keys file into the folder with that number; 0 saves without filing
+      if (/^[0-9]$/.test(e.key) && !showSummary) {
+        const number = Number(e.key);
+        if (number === 0) {
+          e.preventDefault();
+          handleSaveAndNext(null);
+        } else if (number <= Math.min(folders.length, FOLDER_SHORTCUT_COUNT)) {
+          e.preventDefault();
+          handleSaveAndNext(folders[number - 1].id);
         }
         return;
       }
@@ -142,7 +300,33 @@ export function QuickReviewModal({
           break;
         case 'Enter':
           e.preventDefault();
-          handleSaveAndNext();
+          if (showSummary) onClose();
+          else handleSaveAndNext();
+          break;
+        case 's':
+        case 'S':
+          e.preventDefault();
+          if (!showSummary) handleSkip();
+          break;
+        case 'r':
+        case 'R':
+          e.preventDefault();
+          if (!showSummary) handleReject();
+          break;
+        case 'u':
+        case 'U':
+          e.preventDefault();
+          handleUndo();
+          break;
+        case 'w':
+        case 'W':
+          e.preventDefault();
+          workerInputRef.current?.focus();
+          break;
+        case 'c':
+        case 'C':
+          e.preventDefault();
+          companyInputRef.current?.focus();
           break;
         case 'Escape':
           e.preventDefault();
@@ -153,12 +337,30 @@ export function QuickReviewModal({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [goPrev, goNext, handleSkip, handleSaveAndNext, onClose]);
+  }, [folders, showSummary, goPrev, goNext, handleSkip, handleSaveAndNext, handleReject, handleUndo, onClose]);
 
   if (!currentDoc) {
     return null;
   }
 
+  // Latest outcome per document this session
+  const outcomes = new Map(history.map((step) => [step.before.id, step.outcome]));
+  const currentOutcome = outcomes.get(currentDoc.id);
+  const sessionOutcomes = [...outcomes.values()];
+  const filedByFolder = folders
+    .map((folder) => ({
+      folder,
+      count: sessionOutcomes.filter((o) => o.action === 'filed' && o.folderId === folder.id).length,
+    }))
+    .filter((entry) => entry.count > 0);
+  const leftUnsorted = sessionOutcomes.filter((o) => o.action === 'filed' && o.folderId === null).length;
+  const rejectedCount = sessionOutcomes.filter((o) => o.action === 'rejected').length;
+  const skippedIndex = documents.findIndex((d) => outcomes.get(d.id)?.action === 'skipped');
+  const skippedCount = sessionOutcomes.filter((o) => o.action === 'skipped').length;
+  const untouchedCount = documents.filter((d) => !outcomes.has(d.id)).length;
+  const lastStep = history[history.length - 1];
+  const canUndo = !!lastStep && (lastStep.outcome.action === 'skipped' || !!onRestore);
+
   // Check if fields have AI-extracted values
   const aiMetadata = currentDoc.ai_extracted_data as DocumentMetadata;
   const hasAiWorkerName = Boolean(aiMetadata.workerName);
@@ -173,15 +375,24 @@ export function QuickReviewModal({
           <div className="flex items-center gap-4">
             <h2 className="text-lg font-semibold text-secondary-900">Quick Review</h2>
             <span className="text-sm text-secondary-500">
-              {currentIndex + 1} of {documents.length}
+              {showSummary ? `${history.length} actions` : `${currentIndex + 1} of ${documents.length}`}
             </span>
           </div>
           
           <div className="flex items-center gap-2">
+            <button
+              onClick={handleUndo}
+              disabled={!canUndo || isSaving}
+              className="px-3 py-2 text-sm rounded-lg bg-secondary-100 text-secondary-600 hover:bg-secondary-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Undo last action (U)"
+            >
+              Undo
+            </button>
+
             {/* Navigation */}
             <button
               onClick={goPrev}
-              disabled={!hasPrev}
+              disabled={!hasPrev || showSummary}
               className="p-2 rounded-lg bg-secondary-100 text-secondary-600 hover:bg-secondary-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               title="Previous (←)"
             >
@@ -191,7 +402,7 @@ export function QuickReviewModal({
             </button>
             <button
               onClick={goNext}
-              disabled={!hasNext}
+              disabled={!hasNext || showSummary}
               className="p-2 rounded-lg bg-secondary-100 text-secondary-600 hover:bg-secondary-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               title="Next (→)"
             >
@@ -213,7 +424,66 @@ export function QuickReviewModal({
           </div>
         </div>
 
-        {/* Content */}
+        {/* Session Summary */}
+        {showSummary ? (
+          <div className="flex-1 overflow-auto p-8">
+            <div className="max-w-md mx-auto">
+              <h3 className="text-lg font-semibold text-secondary-900 mb-1">Review complete</h3>
+              <p className="text-sm text-secondary-500 mb-6">
+                {documents.length - untouchedCount} of {documents.length} document{documents.length === 1 ? '' : 's'} handled this session.
+              </p>
+
+              <ul className="divide-y divide-secondary-100 border border-secondary-200 rounded-lg mb-6 text-sm">
+                {filedByFolder.map(({ folder, count }) => (
+                  <li key={folder.id} className="flex justify-between px-4 py-2">
+                    <span className="text-secondary-700">Filed to {folder.folder_name}</span>
+                    <span className="font-medium text-secondary-900">{count}</span>
+                  </li>
+                ))}
+                {leftUnsorted > 0 && (
+                  <li className="flex justify-between px-4 py-2">
+                    <span className="text-secondary-700">Saved, left unsorted</span>
+                    <span className="font-medium text-secondary-900">{leftUnsorted}</span>
+                  </li>
+                )}
+                <li className="flex justify-between px-4 py-2">
+                  <span className="text-secondary-700">Rejected</span>
+                  <span className="font-medium text-danger-600">{rejectedCount}</span>
+                </li>
+                <li className="flex justify-between px-4 py-2">
+                  <span className="text-secondary-700">Skipped</span>
+                  <span className="font-medium text-warning-700">{skippedCount}</span>
+                </li>
+                {untouchedCount > 0 && (
+                  <li className="flex justify-between px-4 py-2">
+                    <span className="text-secondary-700">Not reached</span>
+                    <span className="font-medium text-secondary-500">{untouchedCount}</span>
+                  </li>
+                )}
+              </ul>
+
+              <div className="flex gap-3">
+                {skippedIndex !== -1 && (
+                  <button
+                    onClick={() => {
+                      setCurrentIndex(skippedIndex);
+                      setShowSummary(false);
+                    }}
+                    className="flex-1 px-4 py-2 text-sm font-medium border border-secondary-300 text-secondary-700 hover:bg-secondary-50 rounded-lg transition-colors"
+                  >
+                    Review skipped
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="flex-1 px-4 py-2 text-sm font-medium bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+                >
+                  Close <span className="text-xs opacity-75">(Enter)</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
         <div className="flex-1 flex overflow-hidden">
           {/* Left: Document Preview */}
           <div className="flex-1 bg-secondary-100 p-4 overflow-auto">
@@ -228,20 +498,8 @@ export function QuickReviewModal({
                 </div>
               </div>
             ) : previewUrl ? (
-              currentDoc.mime_type?.includes('pdf') ? (
-                <iframe
-                  src={previewUrl}
-                  className="w-full h-full min-h-[60vh] rounded-lg bg-white shadow-lg"
-                  title="Document Preview"
-                />
-              ) : currentDoc.mime_type?.includes('image') ? (
-                <div className="flex items-center justify-center h-full">
-                  <img
-                    src={previewUrl}
-                    alt={currentDoc.original_filename ?? 'Document'}
-                    className="max-w-full max-h-[60vh] object-contain rounded-lg shadow-lg"
-                  />
-                </div>
+              currentDoc.mime_type?.includes('pdf') || currentDoc.mime_type?.includes('image') ? (
+                <DocumentViewer key={currentDoc.id} document={currentDoc} url={previewUrl} compact />
               ) : (
                 <div className="flex items-center justify-center h-full text-secondary-500">
                   <div className="text-center">
@@ -273,6 +531,15 @@ export function QuickReviewModal({
               <p className="text-xs text-secondary-500">
                 Received: {new Date(currentDoc.received_at).toLocaleDateString()}
               </p>
+              {currentOutcome && (
+                <span className="inline-block mt-2 px-2 py-1 text-xs font-medium rounded bg-secondary-100 text-secondary-600">
+                  {currentOutcome.action === 'filed'
+                    ? `Filed ${folders.find((f) => f.id === currentOutcome.folderId)?.folder_name ?? 'unsorted'} this session`
+                    : currentOutcome.action === 'rejected'
+                      ? 'Rejected this session'
+                      : 'Skipped this session'}
+                </span>
+              )}
               {currentDoc.ai_classification && currentDoc.ai_classification !== 'Unknown' && (
                 <div className="mt-2 flex items-center gap-2">
                   <span className="px-2 py-1 text-xs font-medium rounded bg-primary-100 text-primary-700">
@@ -280,7 +547,7 @@ export function QuickReviewModal({
                   </span>
                   {currentDoc.confidence_score !== null && (
                     <span className={`px-2 py-1 text-xs font-medium rounded ${
-                      currentDoc.confidence_score >= 70 
+                      currentDoc.confidence_score >= autoFileThreshold
                         ? 'bg-success-100 text-success-700' 
                         : 'bg-warning-100 text-warning-700'
                     }`}>
@@ -291,6 +558,47 @@ export function QuickReviewModal({
               )}
             </div>
 
+            {/* Duplicate Copies */}
+            {currentGroup && (
+              <div className="mb-6 p-3 rounded-lg border border-warning-300 bg-warning-50">
+                <p className="text-sm font-medium text-warning-800 mb-2">
+                  {currentGroup.reason === 'identical' ? 'Identical copies' : 'Possible duplicates'} ({currentGroup.documents.length})
+                </p>
+                <ul className="space-y-1 mb-3">
+                  {currentGroup.documents.map((doc, i) => {
+                    const index = documents.findIndex((d) => d.id === doc.id);
+                    return (
+                      <li key={doc.id}>
+                        <button
+                          onClick={() => index !== -1 && setCurrentIndex(index)}
+                          disabled={index === -1}
+                          className={`w-full text-left px-2 py-1 rounded text-xs flex items-center justify-between gap-2 ${
+                            doc.id === currentDoc.id ? 'bg-white text-secondary-900' : 'text-secondary-600 hover:bg-white/60'
+                          }`}
+                        >
+                          <span className="truncate">{doc.original_filename ?? 'Unnamed Document'}</span>
+                          <span className="flex-shrink-0">
+                            {new Date(doc.received_at).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                            {i === 0 && <span className="ml-1 font-medium text-secondary-700">newest</span>}
+                            {doc.id === duplicateToKeep?.id && <span className="ml-1 font-medium text-success-700">keep</span>}
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+                {onResolveDuplicates && (
+                  <button
+                    onClick={handleResolveDuplicates}
+                    disabled={isSaving}
+                    className="w-full px-3 py-2 text-sm font-medium bg-warning-600 hover:bg-warning-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {duplicateToKeep?.id === currentGroup.id ? 'Keep newest, reject the rest' : 'Keep the filed copy, reject the rest'}
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Metadata Form */}
             <div className="space-y-4">
               {/* Worker Name */}
@@ -302,7 +610,9 @@ export function QuickReviewModal({
                   )}
                 </label>
                 <input
+                  ref={workerInputRef}
                   type="text"
+                  list="quick-review-workers"
                   value={workerName}
                   onChange={(e) => setWorkerName(e.target.value)}
                   placeholder="Enter worker name..."
@@ -312,6 +622,11 @@ export function QuickReviewModal({
                       : 'border-secondary-300 focus:border-primary-500 focus:ring-2 focus:ring-primary-200'
                   }`}
                 />
+                <datalist id="quick-review-workers">
+                  {workerSuggestions.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
               </div>
 
               {/* Company Name */}
@@ -323,7 +638,9 @@ export function QuickReviewModal({
                   )}
                 </label>
                 <input
+                  ref={companyInputRef}
                   type="text"
+                  list="quick-review-companies"
                   value={companyName}
                   onChange={(e) => setCompanyName(e.target.value)}
                   placeholder="Enter company name..."
@@ -333,6 +650,11 @@ export function QuickReviewModal({
                       : 'border-secondary-300 focus:border-primary-500 focus:ring-2 focus:ring-primary-200'
                   }`}
                 />
+                <datalist id="quick-review-companies">
+                  {companySuggestions.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
               </div>
 
               {/* Document Date */}
@@ -372,13 +694,32 @@ export function QuickReviewModal({
                     </option>
                   ))}
                 </select>
+                {folders.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {folders.slice(0, FOLDER_SHORTCUT_COUNT).map((folder, i) => (
+                      <button
+                        key={folder.id}
+                        onClick={() => handleSaveAndNext(folder.id)}
+                        disabled={isSaving}
+                        className="px-2 py-1 text-xs rounded border border-secondary-200 text-secondary-600 hover:bg-secondary-100 disabled:opacity-50 transition-colors"
+                        title={`File to ${folder.folder_name} (${i + 1})`}
+                      >
+                        <span className="font-mono font-medium text-secondary-400 mr-1">{i + 1}</span>
+                        {folder.folder_name}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
             {/* Actions */}
             <div className="mt-8 space-y-3">
+              {actionError && (
+                <p className="text-sm text-danger-600">{actionError}</p>
+              )}
               <button
-                onClick={handleSaveAndNext}
+                onClick={() => handleSaveAndNext()}
                 disabled={isSaving}
                 className="w-full px-4 py-3 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
@@ -395,29 +736,47 @@ export function QuickReviewModal({
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                     </svg>
-                    {hasNext ? 'Save & Next' : 'Save & Close'}
+                    {hasNext ? 'Save & Next' : 'Save & Finish'}
                     <span className="text-xs opacity-75">(Enter)</span>
                   </>
                 )}
               </button>
               
-              <button
-                onClick={handleSkip}
-                disabled={isSaving}
-                className="w-full px-4 py-2 text-secondary-600 hover:bg-secondary-100 rounded-lg transition-colors disabled:opacity-50"
-              >
-                {hasNext ? 'Skip' : 'Close'} <span className="text-xs opacity-75">(Shift+→)</span>
-              </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSkip}
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 text-secondary-600 hover:bg-secondary-100 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Skip <span className="text-xs opacity-75">(S)</span>
+                </button>
+                {onReject && (
+                  <button
+                    onClick={handleReject}
+                    disabled={isSaving || currentDoc.status === 'rejected'}
+                    className="flex-1 px-4 py-2 text-danger-600 hover:bg-danger-50 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Reject <span className="text-xs opacity-75">(R)</span>
+                  </button>
+                )}
+              </div>
             </div>
 
             {/* Keyboard Hints */}
-            <div className="mt-6 pt-4 border-t border-secondary-200">
+            <div className="mt-6 pt-4 border-t border-secondary-200 space-y-1">
+              <p className="text-xs text-secondary-400 text-center">
+                1–9 File to folder • 0 Leave unsorted • Enter Save
+              </p>
+              <p className="text-xs text-secondary-400 text-center">
+                R Reject • S Skip • U Undo • W / C Edit worker / company
+              </p>
               <p className="text-xs text-secondary-400 text-center">
-                ← → Navigate • Enter Save • Esc Close
+                ← → Navigate • Esc Close
               </p>
             </div>
           </div>
         </div>
+        )}
       </div>
     </div>
   );
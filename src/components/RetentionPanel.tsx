@@ -0,0 +1,319 @@
+import { useEffect, useState } from 'react';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { RetentionAnchor, RetentionPurgeCandidate } from '@/types/supervisor';
+import { hasProjectPermission } from '@/types/supervisor';
+import { describeRetentionPolicy, getPurgePreview, PURGE_PREVIEW_DAYS } from '@/utils/retention';
+
+interface RetentionPanelProps {
+  projectId: string;
+}
+
+function formatDate(date: string): string {
+  return new Date(date.length === 10 ? date + 'T00:00:00' : date).toLocaleDateString();
+}
+
+function CandidateList({ candidates, emptyText }: { candidates: RetentionPurgeCandidate[]; emptyText: string }) {
+  if (candidates.length === 0) {
+    return <p className="text-sm text-secondary-500 py-2">{emptyText}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-secondary-100 max-h-64 overflow-y-auto">
+      {candidates.map(({ document, expires_on }) => (
+        <li key={document.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+          <span className="truncate text-secondary-800">{document.original_filename ?? 'Unnamed document'}</span>
+          <span className="flex-shrink-0 text-xs text-secondary-500">
+            {document.ai_classification ?? 'Unclassified'} • expires {formatDate(expires_on)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function RetentionPanel({ projectId }: RetentionPanelProps) {
+  const project = useSupervisorStore((s) => s.projects.find((p) => p.id === projectId) ?? s.currentProject);
+  const folders = useSupervisorStore((s) => s.folders);
+  const documents = useSupervisorStore((s) => s.documents);
+  const retentionPolicies = useSupervisorStore((s) => s.retentionPolicies);
+  const error = useSupervisorStore((s) => s.error);
+  const loading = useSupervisorStore((s) => s.loading);
+  const fetchRetentionPolicies = useSupervisorStore((s) => s.fetchRetentionPolicies);
+  const createRetentionPolicy = useSupervisorStore((s) => s.createRetentionPolicy);
+  const deleteRetentionPolicy = useSupervisorStore((s) => s.deleteRetentionPolicy);
+  const setDocumentLegalHold = useSupervisorStore((s) => s.setDocumentLegalHold);
+  const setProjectLegalHold = useSupervisorStore((s) => s.setProjectLegalHold);
+  const setProjectClosed = useSupervisorStore((s) => s.setProjectClosed);
+  const purgeExpiredDocuments = useSupervisorStore((s) => s.purgeExpiredDocuments);
+  const role = useSupervisorStore((s) => s.getProjectRole(projectId));
+
+  const [folderId, setFolderId] = useState('');
+  const [formType, setFormType] = useState('');
+  const [retainFor, setRetainFor] = useState(3);
+  const [retainUnit, setRetainUnit] = useState<'years' | 'months'>('years');
+  const [anchor, setAnchor] = useState<RetentionAnchor>('project_close');
+  const [showPolicyForm, setShowPolicyForm] = useState(false);
+
+  const canManage = hasProjectPermission(role, 'project.manage');
+  const projectDocuments = documents.filter((d) => d.project_id === projectId);
+  const policies = retentionPolicies.filter((p) => p.project_id === projectId);
+  const heldDocuments = projectDocuments.filter((d) => d.legal_hold);
+  const preview = getPurgePreview(projectDocuments, policies, project);
+  const formTypes = [...new Set(projectDocuments.map((d) => d.ai_classification).filter((t): t is string => !!t && t !== 'Unknown'))].sort();
+
+  useEffect(() => {
+    fetchRetentionPolicies(projectId);
+  }, [projectId, fetchRetentionPolicies]);
+
+  const handleAddPolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await createRetentionPolicy({
+      project_id: projectId,
+      folder_id: folderId || null,
+      form_type: formType || null,
+      retain_months: retainUnit === 'years' ? retainFor * 12 : retainFor,
+      anchor,
+    });
+    if (created) {
+      setShowPolicyForm(false);
+      setFolderId('');
+      setFormType('');
+    }
+  };
+
+  const handleToggleProjectHold = async () => {
+    if (!project) return;
+    if (project.legal_hold) {
+      if (!confirm('Release the legal hold? Documents on this project can be deleted and purged again.')) return;
+      await setProjectLegalHold(projectId, false);
+    } else {
+      const reason = prompt('Reason for the legal hold (e.g. claim or case number):');
+      if (reason === null) return;
+      await setProjectLegalHold(projectId, true, reason);
+    }
+  };
+
+  const handleToggleClosed = async () => {
+    if (!project) return;
+    const closing = !project.closed_at;
+    const message = closing
+      ? 'Close this project? "After project close" retention periods start today.'
+      : 'Reopen this project? "After project close" retention periods stop until it is closed again.';
+    if (confirm(message)) await setProjectClosed(projectId, closing);
+  };
+
+  const handlePurge = async () => {
+    const count = preview.due.length;
+    if (!confirm(`Permanently delete ${count} expired document${count === 1 ? '' : 's'}? Files are removed from storage and can't be recovered.`)) return;
+    const purged = await purgeExpiredDocuments(projectId);
+    alert(`Purged ${purged} document${purged === 1 ? '' : 's'}.`);
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-secondary-300 rounded-lg focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-secondary-900">Retention & Legal Hold</h3>
+        <p className="text-xs text-secondary-500">
+          Documents past their retention period are listed here for a manual purge; nothing is deleted until a manager clicks Purge. A legal hold on the project or a document blocks deleting and purging.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-danger-600">{error}</p>}
+
+      {/* Project status & hold */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="p-4 border border-secondary-200 rounded-lg">
+          <p className="text-sm font-medium text-secondary-900">Project status</p>
+          <p className="text-xs text-secondary-500 mt-1">
+            {project?.closed_at ? `Closed ${formatDate(project.closed_at)}` : 'Open — "after project close" rules have not started'}
+          </p>
+          {canManage && (
+            <button
+              onClick={handleToggleClosed}
+              disabled={loading}
+              className="mt-3 px-3 py-1.5 text-sm border border-secondary-300 text-secondary-700 hover:bg-secondary-50 rounded-lg disabled:opacity-50"
+            >
+              {project?.closed_at ? 'Reopen Project' : 'Close Project'}
+            </button>
+          )}
+        </div>
+        <div className={`p-4 border rounded-lg ${project?.legal_hold ? 'border-danger-300 bg-danger-50' : 'border-secondary-200'}`}>
+          <p className="text-sm font-medium text-secondary-900">Project legal hold</p>
+          <p className="text-xs text-secondary-500 mt-1">
+            {project?.legal_hold
+              ? `On hold${project.legal_hold_reason ? `: ${project.legal_hold_reason}` : ''}. No document on this project can be deleted or purged.`
+              : 'Not on hold'}
+          </p>
+          {canManage && (
+            <button
+              onClick={handleToggleProjectHold}
+              disabled={loading}
+              className={`mt-3 px-3 py-1.5 text-sm rounded-lg disabled:opacity-50 ${
+                project?.legal_hold
+                  ? 'border border-secondary-300 text-secondary-700 hover:bg-white'
+                  : 'bg-danger-600 hover:bg-danger-700 text-white'
+              }`}
+            >
+              {project?.legal_hold ? 'Release Hold' : 'Place Project on Hold'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Retention rules */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <p className="text-sm font-medium text-secondary-900">Retention rules</p>
+          {canManage && !showPolicyForm && (
+            <button onClick={() => setShowPolicyForm(true)} className="text-sm text-primary-600 hover:text-primary-700">
+              + Add Rule
+            </button>
+          )}
+        </div>
+
+        {showPolicyForm && (
+          <form onSubmit={handleAddPolicy} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 p-4 mb-3 bg-secondary-50 border border-secondary-200 rounded-lg">
+            <label className="text-xs font-medium text-secondary-600">
+              Folder
+              <select value={folderId} onChange={(e) => setFolderId(e.target.value)} className={`mt-1 ${inputClass}`}>
+                <option value="">Any folder</option>
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>{folder.folder_name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-secondary-600">
+              Form type
+              <input
+                value={formType}
+                onChange={(e) => setFormType(e.target.value)}
+                list="retention-form-types"
+                placeholder="Any type (e.g. FLRA)"
+                className={`mt-1 ${inputClass}`}
+              />
+              <datalist id="retention-form-types">
+                {formTypes.map((type) => (
+                  <option key={type} value={type} />
+                ))}
+              </datalist>
+            </label>
+            <div className="text-xs font-medium text-secondary-600">
+              Keep for
+              <div className="mt-1 flex gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={retainFor}
+                  onChange={(e) => setRetainFor(Math.max(1, Number(e.target.value) || 1))}
+                  className={inputClass}
+                />
+                <select value={retainUnit} onChange={(e) => setRetainUnit(e.target.value as 'years' | 'months')} className={inputClass}>
+                  <option value="years">years</option>
+                  <option value="months">months</option>
+                </select>
+              </div>
+            </div>
+            <label className="text-xs font-medium text-secondary-600">
+              Counting from
+              <select value={anchor} onChange={(e) => setAnchor(e.target.value as RetentionAnchor)} className={`mt-1 ${inputClass}`}>
+                <option value="project_close">Project close</option>
+                <option value="received">Date received</option>
+              </select>
+            </label>
+            <div className="sm:col-span-2 lg:col-span-4 flex justify-end gap-2">
+              <button type="button" onClick={() => setShowPolicyForm(false)} className="px-3 py-1.5 text-sm text-secondary-600 hover:text-secondary-800">
+                Cancel
+              </button>
+              <button type="submit" disabled={loading} className="px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg disabled:opacity-50">
+                Save Rule
+              </button>
+            </div>
+          </form>
+        )}
+
+        {policies.length === 0 ? (
+          <p className="text-sm text-secondary-500 py-2">No retention rules. Documents are kept until someone deletes them.</p>
+        ) : (
+          <ul className="border border-secondary-200 rounded-lg divide-y divide-secondary-100">
+            {policies.map((policy) => (
+              <li key={policy.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                <span className="text-secondary-800">{describeRetentionPolicy(policy, folders)}</span>
+                {canManage && (
+                  <button
+                    onClick={() => confirm('Delete this retention rule?') && deleteRetentionPolicy(policy.id)}
+                    className="text-danger-600 hover:text-danger-700"
+                  >
+                    Delete
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {policies.length > 1 && (
+          <p className="text-xs text-secondary-400 mt-1">
+            When several rules match a document, it is kept until the latest of their expiry dates.
+          </p>
+        )}
+      </div>
+
+      {/* Manual purge */}
+      <div className="p-4 border border-secondary-200 rounded-lg">
+        <div className="flex justify-between items-center mb-2">
+          <p className="text-sm font-medium text-secondary-900">
+            Ready to purge <span className="text-secondary-500 font-normal">({preview.due.length})</span>
+          </p>
+          {canManage && preview.due.length > 0 && (
+            <button
+              onClick={handlePurge}
+              disabled={loading}
+              className="px-3 py-1.5 text-sm bg-danger-600 hover:bg-danger-700 text-white rounded-lg disabled:opacity-50"
+            >
+              Purge {preview.due.length} Document{preview.due.length === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+        <CandidateList candidates={preview.due} emptyText="Nothing has passed its retention period." />
+
+        <p className="text-sm font-medium text-secondary-900 mt-4 mb-2">
+          Expiring in the next {PURGE_PREVIEW_DAYS} days <span className="text-secondary-500 font-normal">({preview.upcoming.length})</span>
+        </p>
+        <CandidateList candidates={preview.upcoming} emptyText="Nothing expires soon." />
+
+        {preview.held.length > 0 && (
+          <p className="text-xs text-danger-700 mt-3">
+            {preview.held.length} expired document{preview.held.length === 1 ? ' is' : 's are'} kept because of a legal hold.
+          </p>
+        )}
+      </div>
+
+      {/* Documents on hold */}
+      <div>
+        <p className="text-sm font-medium text-secondary-900 mb-2">
+          Documents on legal hold <span className="text-secondary-500 font-normal">({heldDocuments.length})</span>
+        </p>
+        {heldDocuments.length === 0 ? (
+          <p className="text-sm text-secondary-500 py-2">Use "Hold" on a document in the Received list to protect it individually.</p>
+        ) : (
+          <ul className="border border-secondary-200 rounded-lg divide-y divide-secondary-100">
+            {heldDocuments.map((doc) => (
+              <li key={doc.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate text-secondary-800">{doc.original_filename ?? 'Unnamed document'}</p>
+                  {doc.legal_hold_reason && <p className="text-xs text-secondary-500 truncate">{doc.legal_hold_reason}</p>}
+                </div>
+                {canManage && (
+                  <button onClick={() => setDocumentLegalHold([doc.id], false)} className="flex-shrink-0 text-primary-600 hover:text-primary-700">
+                    Release
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import { getFolderOverrideStats } from '@/utils/reviewLearning';
+
+interface RoutingOverrideReportProps {
+  projectId: string;
+}
+
+// Override rate worth a closer look at the folder's hint or a routing rule
+const HIGH_OVERRIDE_RATE = 0.25;
+
+export function RoutingOverrideReport({ projectId }: RoutingOverrideReportProps) {
+  const folders = useSupervisorStore((s) => s.folders);
+  const documents = useSupervisorStore((s) => s.documents);
+  const reviewExamples = useSupervisorStore((s) => s.reviewExamples);
+  const nameAliases = useSupervisorStore((s) => s.nameAliases);
+
+  const projectFolders = folders.filter((f) => f.project_id === projectId);
+  const examples = reviewExamples.filter((e) => e.project_id === projectId);
+  const aliases = nameAliases.filter((a) => a.project_id === projectId);
+  const stats = getFolderOverrideStats(
+    documents.filter((d) => d.project_id === projectId),
+    examples,
+    projectFolders
+  ).sort((a, b) => b.overridden / (b.ai_filed || 1) - a.overridden / (a.ai_filed || 1));
+  const nameCorrections = examples.filter(
+    (e) => e.overridden && (e.ai_worker_name !== e.worker_name || e.ai_company_name !== e.company_name)
+  ).length;
+
+  return (
+    <div className="p-4 border border-secondary-200 rounded-lg">
+      <p className="text-sm font-medium text-secondary-900">AI overrides</p>
+      <p className="text-xs text-secondary-500 mb-3">
+        How often supervisors moved documents out of the folder the AI chose. Each correction is kept as an example for future routing.
+      </p>
+
+      {projectFolders.length === 0 ? (
+        <p className="text-sm text-secondary-500 py-2">No folders yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-secondary-500 border-b border-secondary-200">
+              <th className="py-2 font-medium">Folder</th>
+              <th className="py-2 font-medium text-right">Auto-filed</th>
+              <th className="py-2 font-medium text-right">Moved out</th>
+              <th className="py-2 font-medium text-right">Override rate</th>
+              <th className="py-2 font-medium text-right">Filed from Unsorted</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-secondary-100">
+            {stats.map((stat) => {
+              const rate = stat.ai_filed > 0 ? stat.overridden / stat.ai_filed : null;
+              return (
+                <tr key={stat.folder_id}>
+                  <td className="py-2 text-secondary-800">
+                    {projectFolders.find((f) => f.id === stat.folder_id)?.folder_name}
+                  </td>
+                  <td className="py-2 text-right text-secondary-600">{stat.ai_filed}</td>
+                  <td className="py-2 text-right text-secondary-600">{stat.overridden}</td>
+                  <td className={`py-2 text-right font-medium ${
+                    rate !== null && rate >= HIGH_OVERRIDE_RATE ? 'text-danger-600' : 'text-secondary-800'
+                  }`}>
+                    {rate === null ? '—' : `${Math.round(rate * 100)}%`}
+                  </td>
+                  <td className="py-2 text-right text-secondary-600">{stat.filed_from_unsorted}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <p className="text-sm font-medium text-secondary-900 mt-4 mb-2">
+        Learned names <span className="text-secondary-500 font-normal">({aliases.length})</span>
+      </p>
+      {aliases.length === 0 ? (
+        <p className="text-sm text-secondary-500 py-2">
+          When you correct a worker or company name in Quick Review, the AI's spelling is remembered here.
+        </p>
+      ) : (
+        <ul className="divide-y divide-secondary-100 max-h-48 overflow-y-auto">
+          {aliases.map((alias) => (
+            <li key={alias.id} className="flex items-center justify-between gap-3 py-1.5 text-sm">
+              <span className="text-secondary-500 truncate">{alias.alias}</span>
+              <span className="flex-shrink-0 text-secondary-800">
+                → {alias.canonical}
+                <span className="ml-2 text-xs text-secondary-400">{alias.kind === 'worker' ? 'Worker' : 'Company'}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {nameCorrections > 0 && (
+        <p className="text-xs text-secondary-400 mt-1">
+          {nameCorrections} review{nameCorrections === 1 ? '' : 's'} corrected a name.
+        </p>
+      )}
+    </div>
+  );
+}
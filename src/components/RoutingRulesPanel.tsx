@@ -0,0 +1,332 @@
+import { useEffect, useState } from 'react';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { DocumentRoutingDecision, DocumentRoutingRuleType } from '@/types/supervisor';
+import { DEFAULT_AUTO_FILE_THRESHOLD, hasProjectPermission } from '@/types/supervisor';
+import {
+  describeRoutingRule,
+  getAutoFileThreshold,
+  previewDocumentRouting,
+  ROUTING_RULE_LABELS,
+} from '@/utils/documentRouting';
+import { RoutingOverrideReport } from './RoutingOverrideReport';
+
+interface RoutingRulesPanelProps {
+  projectId: string;
+}
+
+const SOURCE_LABELS: Record<DocumentRoutingDecision['source'], string> = {
+  rule: 'Rule',
+  ai: 'AI',
+  review: 'Review',
+};
+
+const PATTERN_PLACEHOLDERS: Record<Exclude<DocumentRoutingRuleType, 'subcontractor'>, string> = {
+  sender_domain: 'e.g. acme-electric.com',
+  subject_keyword: 'e.g. toolbox talk',
+};
+
+export function RoutingRulesPanel({ projectId }: RoutingRulesPanelProps) {
+  const project = useSupervisorStore((s) => s.projects.find((p) => p.id === projectId) ?? s.currentProject);
+  const folders = useSupervisorStore((s) => s.folders);
+  const subcontractors = useSupervisorStore((s) => s.subcontractors);
+  const documents = useSupervisorStore((s) => s.documents);
+  const routingRules = useSupervisorStore((s) => s.routingRules);
+  const reviewExamples = useSupervisorStore((s) => s.reviewExamples);
+  const nameAliases = useSupervisorStore((s) => s.nameAliases);
+  const error = useSupervisorStore((s) => s.error);
+  const loading = useSupervisorStore((s) => s.loading);
+  const fetchRoutingRules = useSupervisorStore((s) => s.fetchRoutingRules);
+  const fetchReviewLearning = useSupervisorStore((s) => s.fetchReviewLearning);
+  const createRoutingRule = useSupervisorStore((s) => s.createRoutingRule);
+  const deleteRoutingRule = useSupervisorStore((s) => s.deleteRoutingRule);
+  const updateAutoFileThreshold = useSupervisorStore((s) => s.updateAutoFileThreshold);
+  const reprocessDocumentsWithAI = useSupervisorStore((s) => s.reprocessDocumentsWithAI);
+  const role = useSupervisorStore((s) => s.getProjectRole(projectId));
+
+  const savedThreshold = getAutoFileThreshold(project);
+  const [draftThreshold, setDraftThreshold] = useState<number | null>(null);
+  const threshold = draftThreshold ?? savedThreshold;
+  const [ruleType, setRuleType] = useState<DocumentRoutingRuleType>('sender_domain');
+  const [pattern, setPattern] = useState('');
+  const [subcontractorId, setSubcontractorId] = useState('');
+  const [folderId, setFolderId] = useState('');
+  const [showRuleForm, setShowRuleForm] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyResult, setApplyResult] = useState<string | null>(null);
+
+  const canManage = hasProjectPermission(role, 'folders.manage');
+  const canReprocess = hasProjectPermission(role, 'documents.review');
+  const rules = routingRules.filter((r) => r.project_id === projectId);
+  const projectFolders = folders.filter((f) => f.project_id === projectId);
+  const projectSubcontractors = subcontractors.filter((sc) => sc.project_id === projectId && sc.status === 'active');
+
+  // The preview uses the threshold being edited so it can be tried before saving
+  const preview = previewDocumentRouting(
+    documents.filter((d) => d.project_id === projectId),
+    rules,
+    projectFolders,
+    subcontractors,
+    threshold,
+    reviewExamples.filter((e) => e.project_id === projectId),
+    nameAliases.filter((a) => a.project_id === projectId)
+  );
+  const countBy = (source: DocumentRoutingDecision['source']) => preview.filter((d) => d.source === source).length;
+
+  useEffect(() => {
+    fetchRoutingRules(projectId);
+    fetchReviewLearning(projectId);
+  }, [projectId, fetchRoutingRules, fetchReviewLearning]);
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await createRoutingRule({
+      project_id: projectId,
+      rule_type: ruleType,
+      pattern: ruleType === 'subcontractor' ? null : pattern,
+      subcontractor_id: ruleType === 'subcontractor' ? subcontractorId || null : null,
+      folder_id: folderId,
+    });
+    if (created) {
+      setShowRuleForm(false);
+      setPattern('');
+      setSubcontractorId('');
+    }
+  };
+
+  const handleSaveThreshold = async (value: number | null) => {
+    await updateAutoFileThreshold(projectId, value);
+    setDraftThreshold(null);
+  };
+
+  const handleApply = async () => {
+    if (threshold !== savedThreshold) {
+      if (!confirm(`Save the ${threshold}% threshold before reprocessing?`)) return;
+      await handleSaveThreshold(threshold);
+    }
+    setIsApplying(true);
+    setApplyResult(null);
+    const result = await reprocessDocumentsWithAI(projectId);
+    setApplyResult(
+      result.success
+        ? `Processed ${result.processed} document${result.processed === 1 ? '' : 's'}. ${result.filed} filed to folders.`
+        : result.message
+    );
+    setIsApplying(false);
+  };
+
+  const folderName = (id: string | null) =>
+    id ? projectFolders.find((f) => f.id === id)?.folder_name ?? 'Unknown folder' : 'Unsorted';
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-secondary-300 rounded-lg focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-secondary-900">Document Routing</h3>
+        <p className="text-xs text-secondary-500">
+          When you reprocess, rules file matching documents before the AI runs. Otherwise the AI files a document when its confidence reaches the threshold; the rest wait in Unsorted for review.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-danger-600">{error}</p>}
+
+      {/* Confidence threshold */}
+      <div className="p-4 border border-secondary-200 rounded-lg">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm font-medium text-secondary-900">Auto-file confidence threshold</p>
+          <span className="text-sm font-semibold text-secondary-900">{threshold}%</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={threshold}
+          onChange={(e) => setDraftThreshold(Number(e.target.value))}
+          disabled={!canManage}
+          className="w-full mt-2"
+        />
+        <p className="text-xs text-secondary-500">
+          Default is {DEFAULT_AUTO_FILE_THRESHOLD}%. Lower files more documents automatically; higher sends more to review.
+        </p>
+        {canManage && (
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={() => handleSaveThreshold(threshold)}
+              disabled={loading || threshold === savedThreshold}
+              className="px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg disabled:opacity-50"
+            >
+              Save Threshold
+            </button>
+            {project?.auto_file_threshold != null && (
+              <button
+                onClick={() => handleSaveThreshold(null)}
+                disabled={loading}
+                className="px-3 py-1.5 text-sm border border-secondary-300 text-secondary-700 hover:bg-secondary-50 rounded-lg disabled:opacity-50"
+              >
+                Reset to Default
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Rules */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <p className="text-sm font-medium text-secondary-900">Routing rules</p>
+          {canManage && !showRuleForm && projectFolders.length > 0 && (
+            <button onClick={() => setShowRuleForm(true)} className="text-sm text-primary-600 hover:text-primary-700">
+              + Add Rule
+            </button>
+          )}
+        </div>
+
+        {showRuleForm && (
+          <form onSubmit={handleAddRule} className="grid grid-cols-1 sm:grid-cols-3 gap-3 p-4 mb-3 bg-secondary-50 border border-secondary-200 rounded-lg">
+            <label className="text-xs font-medium text-secondary-600">
+              Match on
+              <select value={ruleType} onChange={(e) => setRuleType(e.target.value as DocumentRoutingRuleType)} className={`mt-1 ${inputClass}`}>
+                {(Object.keys(ROUTING_RULE_LABELS) as DocumentRoutingRuleType[]).map((type) => (
+                  <option key={type} value={type}>{ROUTING_RULE_LABELS[type]}</option>
+                ))}
+              </select>
+            </label>
+            {ruleType === 'subcontractor' ? (
+              <label className="text-xs font-medium text-secondary-600">
+                Subcontractor
+                <select value={subcontractorId} onChange={(e) => setSubcontractorId(e.target.value)} required className={`mt-1 ${inputClass}`}>
+                  <option value="">Choose...</option>
+                  {projectSubcontractors.map((sc) => (
+                    <option key={sc.id} value={sc.id}>{sc.company_name}</option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <label className="text-xs font-medium text-secondary-600">
+                {ruleType === 'sender_domain' ? 'Email domain' : 'Subject contains'}
+                <input
+                  value={pattern}
+                  onChange={(e) => setPattern(e.target.value)}
+                  placeholder={PATTERN_PLACEHOLDERS[ruleType]}
+                  required
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+            )}
+            <label className="text-xs font-medium text-secondary-600">
+              File into
+              <select value={folderId} onChange={(e) => setFolderId(e.target.value)} required className={`mt-1 ${inputClass}`}>
+                <option value="">Choose folder...</option>
+                {projectFolders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>{folder.folder_name}</option>
+                ))}
+              </select>
+            </label>
+            <div className="sm:col-span-3 flex justify-end gap-2">
+              <button type="button" onClick={() => setShowRuleForm(false)} className="px-3 py-1.5 text-sm text-secondary-600 hover:text-secondary-800">
+                Cancel
+              </button>
+              <button type="submit" disabled={loading} className="px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg disabled:opacity-50">
+                Save Rule
+              </button>
+            </div>
+          </form>
+        )}
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-secondary-500 py-2">No routing rules. Every document is routed by the AI.</p>
+        ) : (
+          <ol className="border border-secondary-200 rounded-lg divide-y divide-secondary-100">
+            {rules.map((rule, index) => (
+              <li key={rule.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                <span className="text-secondary-800">
+                  <span className="text-secondary-400 mr-2">{index + 1}.</span>
+                  {describeRoutingRule(rule, projectFolders, subcontractors)}
+                </span>
+                {canManage && (
+                  <button
+                    onClick={() => confirm('Delete this routing rule?') && deleteRoutingRule(rule.id)}
+                    className="text-danger-600 hover:text-danger-700"
+                  >
+                    Delete
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+        {rules.length > 1 && (
+          <p className="text-xs text-secondary-400 mt-1">The first matching rule wins.</p>
+        )}
+      </div>
+
+      {/* Dry run */}
+      <div className="p-4 border border-secondary-200 rounded-lg">
+        <div className="flex justify-between items-center gap-3">
+          <div>
+            <p className="text-sm font-medium text-secondary-900">Dry run</p>
+            <p className="text-xs text-secondary-500">
+              Where unsorted documents would go on the next reprocess. AI results use each document's current classification and the folders supervisors have filed that type into.
+            </p>
+          </div>
+          <button
+            onClick={() => setShowPreview(!showPreview)}
+            className="flex-shrink-0 px-3 py-1.5 text-sm border border-secondary-300 text-secondary-700 hover:bg-secondary-50 rounded-lg"
+          >
+            {showPreview ? 'Hide Preview' : 'Preview'}
+          </button>
+        </div>
+
+        {showPreview && (
+          <div className="mt-3">
+            <p className="text-xs text-secondary-600 mb-2">
+              {countBy('rule')} by rule • {countBy('ai')} by AI • {countBy('review')} left for review
+            </p>
+            {preview.length === 0 ? (
+              <p className="text-sm text-secondary-500 py-2">No unsorted documents.</p>
+            ) : (
+              <ul className="divide-y divide-secondary-100 max-h-72 overflow-y-auto">
+                {preview.map(({ document, folder_id, source, rule }) => (
+                  <li key={document.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate text-secondary-800">{document.original_filename ?? 'Unnamed document'}</p>
+                      <p className="text-xs text-secondary-500 truncate">
+                        {rule
+                          ? describeRoutingRule(rule, projectFolders, subcontractors)
+                          : `${document.ai_classification ?? 'Unclassified'}${document.confidence_score !== null ? ` • ${document.confidence_score}%` : ''}`}
+                      </p>
+                    </div>
+                    <span className={`flex-shrink-0 px-2 py-1 text-xs font-medium rounded ${
+                      source === 'rule' ? 'bg-primary-100 text-primary-700' :
+                      source === 'ai' ? 'bg-success-100 text-success-700' :
+                      'bg-warning-100 text-warning-700'
+                    }`}>
+                      {SOURCE_LABELS[source]} → {folderName(folder_id)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {canReprocess && (preview.length > 0 || applyResult) && (
+              <div className="mt-3 flex items-center justify-end gap-3">
+                {applyResult && <p className="text-sm text-secondary-600">{applyResult}</p>}
+                <button
+                  onClick={handleApply}
+                  disabled={isApplying || loading}
+                  className="px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg disabled:opacity-50"
+                >
+                  {isApplying ? 'Reprocessing...' : 'Apply — Reprocess with AI'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <RoutingOverrideReport projectId={projectId} />
+    </div>
+  );
+}
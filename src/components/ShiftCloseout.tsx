@@ -32,7 +32,7 @@ export function ShiftCloseout({ shift, workers, onClose, onComplete }: ShiftClos
 
   // Store actions
   const closeoutShift = useSupervisorStore((s) => s.closeoutShift);
-  const sendShiftNotifications = useSupervisorStore((s) => s.sendShiftNotifications);
+  const sendShiftReminders = useSupervisorStore((s) => s.sendShiftReminders);
 
   // Calculate submission stats
   const workersWithForms = workers.filter(w => w.form_submitted);
@@ -57,18 +57,12 @@ export function ShiftCloseout({ shift, workers, onClose, onComplete }: ShiftClos
 
   // Send reminders to workers without forms
   const [isSendingReminders, setIsSendingReminders] = useState(false);
+  const [reminderResult, setReminderResult] = useState<string | null>(null);
   const handleSendReminders = async () => {
     setIsSendingReminders(true);
-    try {
-      // Reset notification status for workers without forms so they get re-notified
-      // This is handled by the edge function which only sends to 'pending' status workers
-      // For now we'll just call the notification function
-      await sendShiftNotifications(shift.id);
-    } catch (error) {
-      console.error('Failed to send reminders:', error);
-    } finally {
-      setIsSendingReminders(false);
-    }
+    const result = await sendShiftReminders(shift.id);
+    setReminderResult(result.message);
+    setIsSendingReminders(false);
   };
 
   // Complete shift (with all forms)
@@ -187,6 +181,9 @@ export function ShiftCloseout({ shift, workers, onClose, onComplete }: ShiftClos
                     {isSendingReminders ? 'Sending...' : '📤 Send All Reminders'}
                   </button>
                 </div>
+                {reminderResult && (
+                  <p className="text-xs text-gray-600 mb-2">{reminderResult}</p>
+                )}
                 <div className="border border-yellow-200 rounded-lg bg-yellow-50 overflow-hidden">
                   <div className="divide-y divide-yellow-200">
                     {workersWithoutForms.map(worker => (
@@ -198,6 +195,11 @@ export function ShiftCloseout({ shift, workers, onClose, onComplete }: ShiftClos
                           )}
                         </div>
                         <div className="flex items-center gap-2">
+                          {worker.reminder_count + (worker.manual_reminder_count ?? 0) > 0 && (
+                            <span className="text-xs text-gray-500" title={worker.last_reminder_at ? `Last scheduled reminder ${new Date(worker.last_reminder_at).toLocaleTimeString()}` : undefined}>
+                              {worker.reminder_count + (worker.manual_reminder_count ?? 0)}× reminded{worker.escalated_at ? ' • escalated' : ''}
+                            </span>
+                          )}
                           {worker.phone && (
                             <span className="text-xs text-gray-400">📱</span>
                           )}
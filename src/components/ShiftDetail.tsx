@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { useSupervisorStore } from '@/stores/supervisorStore';
 import type { ProjectShiftWithStats } from '@/types/supervisor';
 import { ShiftDailyReport } from './ShiftDailyReport';
+import { ShiftRemindersPanel } from './ShiftRemindersPanel';
 
 interface ShiftDetailProps {
   shift: ProjectShiftWithStats;
@@ -19,6 +20,7 @@ export function ShiftDetail({ shift, onClose, onOpenCloseout, onDeleteShift }: S
   const shiftWorkers = useSupervisorStore((s) => s.shiftWorkers);
   const fetchShiftWorkers = useSupervisorStore((s) => s.fetchShiftWorkers);
   const sendShiftNotifications = useSupervisorStore((s) => s.sendShiftNotifications);
+  const sendShiftReminders = useSupervisorStore((s) => s.sendShiftReminders);
   const getDocumentsByShift = useSupervisorStore((s) => s.getDocumentsByShift);
   const currentProject = useSupervisorStore((s) => s.currentProject);
   
@@ -42,6 +44,7 @@ export function ShiftDetail({ shift, onClose, onOpenCloseout, onDeleteShift }: S
 
   // Calculate stats
   const pendingNotifications = shiftWorkers.filter(w => w.notification_status === 'pending').length;
+  const missingForms = shiftWorkers.filter(w => !w.form_submitted).length;
   const isReadOnly = shift.status === 'completed' || shift.status === 'cancelled';
 
   // Handle send notifications
@@ -67,6 +70,16 @@ export function ShiftDetail({ shift, onClose, onOpenCloseout, onDeleteShift }: S
     }
   };
 
+  // Remind everyone still missing a form (not just workers never notified)
+  const handleSendReminders = async () => {
+    setIsSendingNotifications(true);
+    setNotificationResult(null);
+
+    const result = await sendShiftReminders(shift.id);
+    setNotificationResult({ show: true, success: result.success, message: result.message });
+    setIsSendingNotifications(false);
+  };
+
   // Handle delete shift (only for draft shifts)
   const handleDeleteShift = async () => {
     if (!onDeleteShift) return;
@@ -154,6 +167,8 @@ export function ShiftDetail({ shift, onClose, onOpenCloseout, onDeleteShift }: S
           readOnly={isReadOnly}
           showQuickAdd={!isReadOnly}
         />
+
+        {shift.status !== 'draft' && <ShiftRemindersPanel shift={shift} workers={shiftWorkers} />}
       </div>
 
       {/* Action Buttons - Fixed Footer */}
@@ -205,13 +220,13 @@ export function ShiftDetail({ shift, onClose, onOpenCloseout, onDeleteShift }: S
             </button>
           )}
           
-          {shift.status === 'active' && pendingNotifications > 0 && (
+          {shift.status === 'active' && missingForms > 0 && (
             <button
-              onClick={handleSendNotifications}
+              onClick={handleSendReminders}
               disabled={isSendingNotifications}
               className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors disabled:opacity-50 font-medium"
             >
-              {isSendingNotifications ? 'Sending...' : `Send Reminders (${pendingNotifications})`}
+              {isSendingNotifications ? 'Sending...' : `Send Reminders (${missingForms})`}
             </button>
           )}
 
@@ -89,7 +89,12 @@ export function ShiftList({ shifts, onSelectShift, onCreateShift, onDeleteShift,
         {/* Header */}
         <div className="flex items-start justify-between mb-2">
           <div>
-            <h3 className="font-semibold text-gray-900">{shift.name}</h3>
+            <h3 className="font-semibold text-gray-900">
+              {shift.name}
+              {shift.template_id && (
+                <span className="ml-1.5 text-xs font-normal text-gray-400" title="Created from a recurring template">🔁</span>
+              )}
+            </h3>
             <p className="text-sm text-gray-500">
               {formatDate(shift.scheduled_date)}
               {shift.start_time && ` • ${formatTime(shift.start_time)}`}
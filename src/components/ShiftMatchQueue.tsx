@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { DocumentShiftMatch, ReceivedDocument } from '@/types/supervisor';
+import { getEffectiveMetadata } from '@/types/supervisor';
+
+interface ShiftMatchQueueProps {
+  projectId: string;
+  onViewDocument?: (document: ReceivedDocument) => void;
+}
+
+function MatchRow({ match, onViewDocument }: { match: DocumentShiftMatch; onViewDocument?: (document: ReceivedDocument) => void }) {
+  const document = useSupervisorStore((s) => s.documents.find((d) => d.id === match.document_id));
+  const confirmShiftMatch = useSupervisorStore((s) => s.confirmShiftMatch);
+  const dismissShiftMatch = useSupervisorStore((s) => s.dismissShiftMatch);
+  const [busy, setBusy] = useState(false);
+
+  const metadata = document ? getEffectiveMetadata(document.ai_extracted_data) : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    await action();
+    setBusy(false);
+  };
+
+  return (
+    <li className="py-3">
+      <div className="flex items-start justify-between gap-3 mb-2">
+        <div className="min-w-0">
+          <button
+            onClick={() => document && onViewDocument?.(document)}
+            className="text-sm font-medium text-secondary-900 hover:text-primary-600 truncate block max-w-full text-left"
+          >
+            {document?.original_filename ?? 'Document'}
+          </button>
+          <p className="text-xs text-secondary-500">
+            {metadata?.workerName ?? 'No worker name'}
+            {metadata?.documentDate && ` • ${new Date(metadata.documentDate + 'T00:00:00').toLocaleDateString()}`}
+            {document?.source_email && ` • from ${document.source_email}`}
+          </p>
+        </div>
+        <button
+          onClick={() => run(() => dismissShiftMatch(match.id))}
+          disabled={busy}
+          className="text-xs text-secondary-500 hover:text-secondary-700 whitespace-nowrap disabled:opacity-50"
+        >
+          Not on a shift
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {match.candidates.map((candidate) => (
+          <button
+            key={candidate.shift_worker_id}
+            onClick={() => run(() => confirmShiftMatch(match.id, candidate.shift_worker_id))}
+            disabled={busy}
+            title={candidate.reasons.join(' • ')}
+            className="px-3 py-1.5 text-left text-xs border border-secondary-300 rounded-lg hover:border-primary-500 hover:bg-primary-50 transition-colors disabled:opacity-50"
+          >
+            <span className="font-medium text-secondary-900">{candidate.worker_name}</span>
+            <span className="text-secondary-500"> • {candidate.shift_name}</span>
+            <span className="ml-1 text-secondary-400">{Math.round(candidate.score * 100)}%</span>
+          </button>
+        ))}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Documents the auto-matcher couldn't link to a shift worker on its own.
+ * Renders nothing when the queue is empty.
+ */
+export function ShiftMatchQueue({ projectId, onViewDocument }: ShiftMatchQueueProps) {
+  const shiftMatchQueue = useSupervisorStore((s) => s.shiftMatchQueue);
+  const [expanded, setExpanded] = useState(false);
+
+  const matches = shiftMatchQueue.filter((m) => m.project_id === projectId && m.status === 'pending');
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="mb-4 border border-warning-200 bg-warning-50 rounded-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="text-sm font-medium text-warning-800">
+          {matches.length} document{matches.length === 1 ? '' : 's'} may belong to a shift worker
+        </span>
+        <span className="text-xs text-warning-700">{expanded ? 'Hide' : 'Review matches'}</span>
+      </button>
+      {expanded && (
+        <ul className="px-4 pb-2 bg-white border-t border-warning-200 rounded-b-lg divide-y divide-secondary-100">
+          {matches.map((match) => (
+            <MatchRow key={match.id} match={match} onViewDocument={onViewDocument} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
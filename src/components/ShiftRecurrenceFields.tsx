@@ -0,0 +1,68 @@
+import type { ShiftRecurrence, ShiftRecurrenceFrequency } from '@/types/supervisor';
+import { WEEKDAY_LABELS } from '@/utils/shiftRecurrence';
+
+interface ShiftRecurrenceFieldsProps {
+  value: ShiftRecurrence;
+  onChange: (value: ShiftRecurrence) => void;
+}
+
+const FREQUENCY_OPTIONS: { value: ShiftRecurrenceFrequency; label: string }[] = [
+  { value: 'none', label: "Don't repeat" },
+  { value: 'weekdays', label: 'Every weekday (Mon–Fri)' },
+  { value: 'days', label: 'Specific days' },
+];
+
+export function ShiftRecurrenceFields({ value, onChange }: ShiftRecurrenceFieldsProps) {
+  const toggleDay = (day: number) => {
+    const days = value.days_of_week.includes(day)
+      ? value.days_of_week.filter((d) => d !== day)
+      : [...value.days_of_week, day].sort();
+    onChange({ ...value, days_of_week: days });
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={value.frequency}
+        onChange={(e) => onChange({ ...value, frequency: e.target.value as ShiftRecurrenceFrequency })}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {FREQUENCY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      {value.frequency === 'days' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors ${
+                value.days_of_week.includes(day)
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-600 hover:border-gray-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value.frequency !== 'none' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Until
+          <input
+            type="date"
+            value={value.until_date ?? ''}
+            onChange={(e) => onChange({ ...value, until_date: e.target.value || null })}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-xs text-gray-400">{value.until_date ? '' : 'No end date'}</span>
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { ProjectShiftWithStats, ShiftReminderSettings, ShiftWorker } from '@/types/supervisor';
+import { hasProjectPermission } from '@/types/supervisor';
+import { describeReminderSchedule, getNextReminderAt, getReminderSettings } from '@/utils/shiftReminders';
+
+interface ShiftRemindersPanelProps {
+  shift: ProjectShiftWithStats;
+  workers: ShiftWorker[];
+}
+
+function formatTime(date: Date | string): string {
+  return new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+function ScheduleEditor({ projectId, settings, onDone }: { projectId: string; settings: ShiftReminderSettings; onDone: () => void }) {
+  const updateProjectReminderSettings = useSupervisorStore((s) => s.updateProjectReminderSettings);
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [offsets, setOffsets] = useState(settings.offsets_minutes.join(', '));
+  const [escalateAfter, setEscalateAfter] = useState(settings.escalate_after);
+
+  const handleSave = async () => {
+    await updateProjectReminderSettings(projectId, {
+      enabled,
+      offsets_minutes: offsets.split(',').map((v) => parseInt(v.trim(), 10)).filter((v) => !isNaN(v)),
+      escalate_after: escalateAfter,
+    });
+    onDone();
+  };
+
+  return (
+    <div className="space-y-2 p-3 mb-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+      <label className="flex items-center gap-2 text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        Send reminders automatically
+      </label>
+      <label className="block text-xs text-gray-600">
+        Minutes after shift start (comma separated)
+        <input
+          value={offsets}
+          onChange={(e) => setOffsets(e.target.value)}
+          placeholder="30, 90"
+          className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+      <label className="block text-xs text-gray-600">
+        Email the subcontractor contact after this many reminders
+        <input
+          type="number"
+          min={1}
+          value={escalateAfter}
+          onChange={(e) => setEscalateAfter(Math.max(1, Number(e.target.value) || 1))}
+          className="mt-1 w-24 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+      <p className="text-xs text-gray-400">Applies to every shift on this project.</p>
+      <div className="flex justify-end gap-2">
+        <button onClick={onDone} className="px-3 py-1 text-gray-600 hover:text-gray-800">Cancel</button>
+        <button onClick={handleSave} className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700">Save</button>
+      </div>
+    </div>
+  );
+}
+
+export function ShiftRemindersPanel({ shift, workers }: ShiftRemindersPanelProps) {
+  const shiftReminders = useSupervisorStore((s) => s.shiftReminders);
+  const fetchShiftReminders = useSupervisorStore((s) => s.fetchShiftReminders);
+  const project = useSupervisorStore((s) => s.projects.find((p) => p.id === shift.project_id));
+  const role = useSupervisorStore((s) => s.getProjectRole(shift.project_id));
+  const [editingSchedule, setEditingSchedule] = useState(false);
+
+  const settings = getReminderSettings(project);
+  const canManage = hasProjectPermission(role, 'shifts.manage');
+  const reminders = shiftReminders.filter((r) => r.shift_id === shift.id);
+  const missing = workers.filter((w) => !w.form_submitted);
+  const workerName = (id: string) => workers.find((w) => w.id === id)?.name ?? 'Removed worker';
+
+  useEffect(() => {
+    fetchShiftReminders(shift.id);
+  }, [shift.id, fetchShiftReminders]);
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700">Form Reminders</h4>
+          <p className="text-xs text-gray-500">
+            {shift.start_time ? describeReminderSchedule(settings) : 'Add a start time to schedule reminders'}
+          </p>
+        </div>
+        {canManage && !editingSchedule && (
+          <button onClick={() => setEditingSchedule(true)} className="text-xs text-blue-600 hover:text-blue-700">
+            Edit schedule
+          </button>
+        )}
+      </div>
+
+      {editingSchedule && (
+        <ScheduleEditor projectId={shift.project_id} settings={settings} onDone={() => setEditingSchedule(false)} />
+      )}
+
+      {/* Workers still missing a form */}
+      {missing.length > 0 && (
+        <div className="divide-y divide-gray-100 mb-3">
+          {missing.map((worker) => {
+            const next = shift.status === 'active' ? getNextReminderAt(shift, worker, settings) : null;
+            return (
+              <div key={worker.id} className="flex items-center justify-between py-1.5 text-sm">
+                <span className="text-gray-800">{worker.name}</span>
+                <span className="text-xs text-gray-500">
+                  {worker.reminder_count} reminder{worker.reminder_count === 1 ? '' : 's'}
+                  {(worker.manual_reminder_count ?? 0) > 0 && ` + ${worker.manual_reminder_count} manual`}
+                  {worker.last_reminder_at && ` • last ${formatTime(worker.last_reminder_at)}`}
+                  {next && ` • next ${formatTime(next)}`}
+                  {worker.escalated_at && (
+                    <span className="ml-1 px-1.5 py-0.5 bg-red-100 text-red-700 rounded">Escalated</span>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Every reminder sent for this shift */}
+      {reminders.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">No reminders sent yet</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {reminders.map((reminder) => (
+            <li key={reminder.id} className="flex items-start gap-2 text-xs">
+              <span className="text-gray-400 whitespace-nowrap">{formatTime(reminder.sent_at)}</span>
+              <span className={reminder.status === 'failed' ? 'text-red-600' : 'text-gray-700'}>
+                {reminder.kind === 'escalation'
+                  ? `Escalated ${workerName(reminder.shift_worker_id)} to ${reminder.recipient ?? 'subcontractor'}`
+                  : `Reminded ${workerName(reminder.shift_worker_id)}${reminder.recipient ? ` (${reminder.recipient})` : ''}`}
+                {reminder.trigger === 'scheduled' && <span className="text-gray-400"> • auto</span>}
+                {reminder.status === 'failed' && ` — failed${reminder.error ? `: ${reminder.error}` : ''}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
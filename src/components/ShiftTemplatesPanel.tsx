@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { ShiftRecurrence, ShiftTemplate } from '@/types/supervisor';
+import { hasProjectPermission } from '@/types/supervisor';
+import { describeRecurrence } from '@/utils/shiftRecurrence';
+import { ShiftRecurrenceFields } from './ShiftRecurrenceFields';
+
+interface ShiftTemplatesPanelProps {
+  projectId: string;
+}
+
+function formatTime(timeStr: string | null): string {
+  if (!timeStr) return '';
+  const [hours, minutes] = timeStr.split(':');
+  const hour = parseInt(hours, 10);
+  return `${hour % 12 || 12}:${minutes} ${hour >= 12 ? 'PM' : 'AM'}`;
+}
+
+function TemplateEditor({ template, onDone }: { template: ShiftTemplate; onDone: () => void }) {
+  const updateShiftTemplate = useSupervisorStore((s) => s.updateShiftTemplate);
+  const [name, setName] = useState(template.name);
+  const [startTime, setStartTime] = useState(template.start_time?.slice(0, 5) ?? '');
+  const [endTime, setEndTime] = useState(template.end_time?.slice(0, 5) ?? '');
+  const [notes, setNotes] = useState(template.notes ?? '');
+  const [recurrence, setRecurrence] = useState<ShiftRecurrence>(template.recurrence);
+  const [startsOn, setStartsOn] = useState(template.starts_on);
+  const [leadDays, setLeadDays] = useState(template.lead_days);
+
+  const handleSave = async () => {
+    await updateShiftTemplate(template.id, {
+      name,
+      start_time: startTime || null,
+      end_time: endTime || null,
+      notes: notes || null,
+      recurrence,
+      starts_on: startsOn,
+      lead_days: leadDays,
+    });
+    onDone();
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-secondary-300 rounded-lg focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="space-y-3 p-4 bg-secondary-50 border-t border-secondary-200">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="text-xs font-medium text-secondary-600">
+          Name
+          <input value={name} onChange={(e) => setName(e.target.value)} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label className="text-xs font-medium text-secondary-600">
+          Start time
+          <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label className="text-xs font-medium text-secondary-600">
+          End time
+          <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={`mt-1 ${inputClass}`} />
+        </label>
+      </div>
+      <label className="block text-xs font-medium text-secondary-600">
+        Pre-shift safety notes
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className={`mt-1 ${inputClass}`} />
+      </label>
+      <div>
+        <p className="text-xs font-medium text-secondary-600 mb-1">Repeat</p>
+        <ShiftRecurrenceFields value={recurrence} onChange={setRecurrence} />
+      </div>
+      {recurrence.frequency !== 'none' && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs font-medium text-secondary-600">
+            Starting
+            <input type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} className={`mt-1 ${inputClass}`} />
+          </label>
+          <label className="text-xs font-medium text-secondary-600">
+            Create drafts this many days ahead
+            <input
+              type="number"
+              min={1}
+              max={30}
+              value={leadDays}
+              onChange={(e) => setLeadDays(Math.min(30, Math.max(1, Number(e.target.value) || 1)))}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+        </div>
+      )}
+      <p className="text-xs text-secondary-500">
+        Changes apply to shifts created from now on. Drafts already on the schedule keep their own details.
+      </p>
+      <div className="flex justify-end gap-2">
+        <button onClick={onDone} className="px-3 py-1.5 text-sm text-secondary-600 hover:text-secondary-800">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          Save Template
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function TemplateRow({ template, canManage }: { template: ShiftTemplate; canManage: boolean }) {
+  const updateShiftTemplate = useSupervisorStore((s) => s.updateShiftTemplate);
+  const deleteShiftTemplate = useSupervisorStore((s) => s.deleteShiftTemplate);
+  const [editing, setEditing] = useState(false);
+
+  const rosterCount = template.worker_ids.length + template.adhoc_workers.length;
+  const recurring = template.recurrence.frequency !== 'none';
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the "${template.name}" template? Shifts already created from it are kept.`)) return;
+    await deleteShiftTemplate(template.id);
+  };
+
+  return (
+    <div className="border border-secondary-200 rounded-lg overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3">
+        <div className="flex-1 min-w-[12rem]">
+          <p className="font-medium text-secondary-900">
+            {template.name}
+            {recurring && !template.is_active && (
+              <span className="ml-2 px-2 py-0.5 text-xs bg-secondary-100 text-secondary-600 rounded">Paused</span>
+            )}
+          </p>
+          <p className="text-xs text-secondary-500">
+            {template.start_time ? `${formatTime(template.start_time)}–${formatTime(template.end_time)} • ` : ''}
+            {describeRecurrence(template.recurrence)}
+            {` • ${rosterCount} worker${rosterCount === 1 ? '' : 's'}`}
+            {` • ${template.shift_tasks.length} task${template.shift_tasks.length === 1 ? '' : 's'}`}
+          </p>
+          {recurring && template.generated_through && (
+            <p className="text-xs text-secondary-400">
+              Drafts created through {new Date(template.generated_through + 'T00:00:00').toLocaleDateString()}
+            </p>
+          )}
+        </div>
+        {canManage && (
+          <div className="flex items-center gap-3 text-sm">
+            {recurring && (
+              <button
+                onClick={() => updateShiftTemplate(template.id, { is_active: !template.is_active })}
+                className="text-secondary-600 hover:text-secondary-800"
+              >
+                {template.is_active ? 'Pause' : 'Resume'}
+              </button>
+            )}
+            <button onClick={() => setEditing(!editing)} className="text-primary-600 hover:text-primary-700">
+              {editing ? 'Close' : 'Edit'}
+            </button>
+            <button onClick={handleDelete} className="text-danger-600 hover:text-danger-700">
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+      {editing && <TemplateEditor template={template} onDone={() => setEditing(false)} />}
+    </div>
+  );
+}
+
+export function ShiftTemplatesPanel({ projectId }: ShiftTemplatesPanelProps) {
+  const shiftTemplates = useSupervisorStore((s) => s.shiftTemplates);
+  const error = useSupervisorStore((s) => s.error);
+  const fetchShiftTemplates = useSupervisorStore((s) => s.fetchShiftTemplates);
+  const generateShiftsFromTemplates = useSupervisorStore((s) => s.generateShiftsFromTemplates);
+  const role = useSupervisorStore((s) => s.getProjectRole(projectId));
+  const [generating, setGenerating] = useState(false);
+
+  const canManage = hasProjectPermission(role, 'shifts.manage');
+  const templates = shiftTemplates.filter((t) => t.project_id === projectId);
+
+  useEffect(() => {
+    fetchShiftTemplates(projectId);
+  }, [projectId, fetchShiftTemplates]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    const created = await generateShiftsFromTemplates(projectId);
+    setGenerating(false);
+    alert(created.length > 0
+      ? `Created ${created.length} draft shift${created.length === 1 ? '' : 's'}.`
+      : 'All upcoming shifts are already on the schedule.');
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-secondary-900">Shift Templates</h3>
+          <p className="text-xs text-secondary-500">
+            Save a shift as a template from the Create Shift review step. Recurring templates add draft shifts ahead of time.
+          </p>
+        </div>
+        {canManage && templates.some((t) => t.is_active && t.recurrence.frequency !== 'none') && (
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="px-3 py-2 text-sm border border-primary-600 text-primary-600 hover:bg-primary-50 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {generating ? 'Creating...' : 'Create Upcoming Shifts'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-danger-600 mb-3">{error}</p>}
+
+      {templates.length === 0 ? (
+        <div className="text-center py-8 text-secondary-500 text-sm">No shift templates yet</div>
+      ) : (
+        <div className="space-y-3">
+          {templates.map((template) => (
+            <TemplateRow key={template.id} template={template} canManage={canManage} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,19 @@ import type {
   ProjectDailyLog,
   SiteIssueStatus,
   SiteIssueMetadata,
+  SiteIssueAssignee,
+  SiteIssuePhoto,
+  SiteIssueNotice,
   CreateDailyLogInput,
 } from '@/types/supervisor';
-import { SITE_ISSUE_STATUS_CONFIG } from '@/types/supervisor';
+import { SITE_ISSUE_STATUS_CONFIG, hasProjectPermission } from '@/types/supervisor';
+import {
+  formatSiteIssueAge,
+  getSiteIssueAgeDays,
+  getSiteIssueDaysOverdue,
+  getSiteIssueStatusOn,
+} from '@/utils/siteIssues';
+import { toLocalDate } from '@/utils/shiftRecurrence';
 
 interface SiteIssuesTrackerProps {
   projectId: string;
@@ -37,7 +47,101 @@ function formatDateTime(dateStr: string): string {
 }
 
 function getTodayDate(): string {
-  return new Date().toISOString().split('T')[0];
+  return toLocalDate(new Date());
+}
+
+// Select values look like "subcontractor:<id>" or "contact:<id>"
+function assigneeKey(assignee: SiteIssueAssignee | null | undefined): string {
+  return assignee ? `${assignee.kind}:${assignee.id}` : '';
+}
+
+// ============================================================================
+// Assignee Select
+// ============================================================================
+
+interface AssigneeSelectProps {
+  value: SiteIssueAssignee | null | undefined;
+  options: SiteIssueAssignee[];
+  onChange: (assignee: SiteIssueAssignee | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+function AssigneeSelect({ value, options, onChange, disabled, className }: AssigneeSelectProps) {
+  const subcontractors = options.filter((o) => o.kind === 'subcontractor');
+  const contacts = options.filter((o) => o.kind === 'contact');
+
+  return (
+    <select
+      value={assigneeKey(value)}
+      onChange={(e) => onChange(options.find((o) => assigneeKey(o) === e.target.value) ?? null)}
+      disabled={disabled}
+      className={className}
+    >
+      <option value="">Unassigned</option>
+      {subcontractors.length > 0 && (
+        <optgroup label="Subcontractors">
+          {subcontractors.map((o) => (
+            <option key={assigneeKey(o)} value={assigneeKey(o)}>{o.name}</option>
+          ))}
+        </optgroup>
+      )}
+      {contacts.length > 0 && (
+        <optgroup label="Contacts">
+          {contacts.map((o) => (
+            <option key={assigneeKey(o)} value={assigneeKey(o)}>{o.name}</option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+}
+
+// ============================================================================
+// Photo Strip
+// ============================================================================
+
+interface PhotoStripProps {
+  label: string;
+  photos: SiteIssuePhoto[];
+  onUpload?: (file: File) => void;
+  isUploading: boolean;
+}
+
+function PhotoStrip({ label, photos, onUpload, isUploading }: PhotoStripProps) {
+  if (photos.length === 0 && !onUpload) return null;
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-600 mb-1">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {photos.map((photo) => (
+          <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer" title={formatDateTime(photo.uploaded_at)}>
+            <img src={photo.url} alt={label} className="w-16 h-16 object-cover rounded border border-gray-200" />
+          </a>
+        ))}
+        {onUpload && (
+          <label className={`w-16 h-16 flex items-center justify-center rounded border border-dashed border-gray-300 text-gray-400 text-xs text-center ${
+            isUploading ? 'opacity-50' : 'cursor-pointer hover:border-gray-400 hover:text-gray-600'
+          }`}>
+            {isUploading ? '...' : '+ Photo'}
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              disabled={isUploading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onUpload(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
 }
 
 // ============================================================================
@@ -46,15 +150,39 @@ function getTodayDate(): string {
 
 interface IssueCardProps {
   issue: ProjectDailyLog;
-  onStatusChange: (issueId: string, newStatus: SiteIssueStatus) => void;
+  today: string;
+  canEdit: boolean;
+  assigneeOptions: SiteIssueAssignee[];
+  authorNames: Map<string, string>;
+  notices: SiteIssueNotice[];
   onDelete: (issueId: string) => void;
   isExpanded: boolean;
   onToggleExpand: () => void;
 }
 
-function IssueCard({ issue, onStatusChange, onDelete, isExpanded, onToggleExpand }: IssueCardProps) {
+function IssueCard({ issue, today, canEdit, assigneeOptions, authorNames, notices, onDelete, isExpanded, onToggleExpand }: IssueCardProps) {
+  const updateSiteIssue = useSupervisorStore((s) => s.updateSiteIssue);
+  const sendSiteIssueNotice = useSupervisorStore((s) => s.sendSiteIssueNotice);
+  const assignedSubcontractor = useSupervisorStore((s) => {
+    const assignee = (issue.metadata as SiteIssueMetadata).assignee;
+    return assignee?.kind === 'subcontractor' ? s.subcontractors.find((sc) => sc.id === assignee.id) : undefined;
+  });
+  const addSiteIssueComment = useSupervisorStore((s) => s.addSiteIssueComment);
+  const uploadSiteIssuePhoto = useSupervisorStore((s) => s.uploadSiteIssuePhoto);
+  const [comment, setComment] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [uploadingStage, setUploadingStage] = useState<SiteIssuePhoto['stage'] | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
   const metadata = issue.metadata as SiteIssueMetadata;
-  const statusConfig = SITE_ISSUE_STATUS_CONFIG[issue.status];
+  const status = getSiteIssueStatusOn(issue, today);
+  const statusConfig = SITE_ISSUE_STATUS_CONFIG[status];
+  const ageDays = getSiteIssueAgeDays(issue, today);
+  const daysOverdue = getSiteIssueDaysOverdue(issue, today);
+  const photos = metadata.photos ?? [];
+  const activity = metadata.activity ?? [];
+  const response = status !== 'resolved' ? metadata.contractor_response : null;
 
   const priorityColors = {
     low: 'bg-gray-100 text-gray-700',
@@ -62,10 +190,36 @@ function IssueCard({ issue, onStatusChange, onDelete, isExpanded, onToggleExpand
     high: 'bg-red-100 text-red-700',
   };
 
+  const handleUpload = async (file: File, stage: SiteIssuePhoto['stage']) => {
+    setUploadingStage(stage);
+    await uploadSiteIssuePhoto(issue.id, file, stage);
+    setUploadingStage(null);
+  };
+
+  const handleComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!comment.trim()) return;
+    await addSiteIssueComment(issue.id, comment);
+    setComment('');
+  };
+
+  const handleSendNotice = async () => {
+    setIsSending(true);
+    await sendSiteIssueNotice(issue.id);
+    setIsSending(false);
+  };
+
+  const handleResolve = async () => {
+    await updateSiteIssue(issue.id, { status: 'resolved', resolution_notes: resolutionNotes });
+    setIsResolving(false);
+    setResolutionNotes('');
+  };
+
   return (
     <div className={`border rounded-lg transition-all ${
-      issue.status === 'resolved' ? 'border-green-200 bg-green-50/50' :
-      issue.status === 'continued' ? 'border-yellow-200 bg-yellow-50/50' :
+      status === 'resolved' ? 'border-green-200 bg-green-50/50' :
+      daysOverdue > 0 ? 'border-red-300 bg-red-50/50' :
+      status === 'continued' ? 'border-yellow-200 bg-yellow-50/50' :
       'border-gray-200 bg-white'
     }`}>
       {/* Header */}
@@ -76,11 +230,11 @@ function IssueCard({ issue, onStatusChange, onDelete, isExpanded, onToggleExpand
         <div className="flex items-start gap-3">
           {/* Status indicator */}
           <div className={`w-3 h-3 rounded-full mt-1 flex-shrink-0 ${
-            issue.status === 'resolved' ? 'bg-green-500' :
-            issue.status === 'continued' ? 'bg-yellow-500' :
+            status === 'resolved' ? 'bg-green-500' :
+            status === 'continued' ? 'bg-yellow-500' :
             'bg-red-500'
           }`} />
-          
+
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 flex-wrap mb-1">
               {/* Priority badge */}
@@ -89,31 +243,51 @@ function IssueCard({ issue, onStatusChange, onDelete, isExpanded, onToggleExpand
                   {metadata.priority.charAt(0).toUpperCase() + metadata.priority.slice(1)}
                 </span>
               )}
-              
+
               {/* Status badge */}
               <span className={`px-2 py-0.5 text-xs font-medium rounded ${statusConfig.bgColor} ${statusConfig.color}`}>
                 {statusConfig.label}
               </span>
-              
-              {/* Date */}
+
+              {/* Contractor says it's fixed */}
+              {response && (
+                <span className="px-2 py-0.5 text-xs font-medium rounded bg-blue-100 text-blue-700">
+                  Ready for inspection
+                </span>
+              )}
+
+              {/* Overdue badge */}
+              {daysOverdue > 0 && (
+                <span className="px-2 py-0.5 text-xs font-medium rounded bg-red-600 text-white">
+                  Overdue {daysOverdue}d
+                </span>
+              )}
+
+              {/* Date and age */}
               <span className="text-xs text-gray-400">
-                {formatDate(issue.log_date)}
+                {formatDate(issue.log_date)} · {formatSiteIssueAge(ageDays)}
               </span>
             </div>
-            
+
             {/* Content */}
-            <p className={`text-sm ${issue.status === 'resolved' ? 'text-gray-500 line-through' : 'text-gray-800'}`}>
+            <p className={`text-sm ${status === 'resolved' ? 'text-gray-500 line-through' : 'text-gray-800'}`}>
               {issue.content}
             </p>
-            
-            {/* Assigned to */}
-            {metadata.assigned_to && (
+
+            {/* Assigned to / due */}
+            {(metadata.assigned_to || metadata.due_date) && (
               <p className="text-xs text-gray-500 mt-1">
-                Assigned to: {metadata.assigned_to}
+                {metadata.assigned_to && <>Assigned to: {metadata.assigned_to}</>}
+                {metadata.assigned_to && metadata.due_date && ' · '}
+                {metadata.due_date && (
+                  <span className={daysOverdue > 0 ? 'text-red-600 font-medium' : ''}>
+                    Due {formatDate(metadata.due_date)}
+                  </span>
+                )}
               </p>
             )}
           </div>
-          
+
           {/* Expand indicator */}
           <svg
             className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
@@ -133,33 +307,198 @@ function IssueCard({ issue, onStatusChange, onDelete, isExpanded, onToggleExpand
             {/* Metadata */}
             <div className="text-xs text-gray-500 space-y-1">
               <p><span className="font-medium">Created:</span> {formatDateTime(issue.created_at)}</p>
+              {metadata.resolved_date && status === 'resolved' && (
+                <p><span className="font-medium">Resolved:</span> {formatDate(metadata.resolved_date)}</p>
+              )}
               {metadata.resolution_notes && (
                 <p><span className="font-medium">Resolution:</span> {metadata.resolution_notes}</p>
               )}
             </div>
 
-            {/* Actions */}
-            <div className="flex items-center gap-2">
-              <select
-                value={issue.status}
-                onChange={(e) => onStatusChange(issue.id, e.target.value as SiteIssueStatus)}
-                className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
-              >
-                <option value="active">Open</option>
-                <option value="resolved">Resolved</option>
-                <option value="continued">Continued to Next Day</option>
-              </select>
-              
-              <button
-                onClick={() => onDelete(issue.id)}
-                className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
-                title="Delete"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-              </button>
+            {/* Contractor response */}
+            {response && (
+              <div className="p-2 rounded border border-blue-200 bg-blue-50 text-xs text-blue-800">
+                <p className="font-medium">
+                  {response.company_name} marked this fixed, ready for inspection · {formatDateTime(response.responded_at)}
+                </p>
+                {response.comment && <p className="mt-1 text-blue-700">"{response.comment}"</p>}
+              </div>
+            )}
+
+            {/* Assignment */}
+            {canEdit && (
+              <div className="grid grid-cols-3 gap-2">
+                <AssigneeSelect
+                  value={metadata.assignee}
+                  options={assigneeOptions}
+                  onChange={(assignee) => updateSiteIssue(issue.id, { assignee })}
+                  className="col-span-2 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                />
+                <input
+                  type="date"
+                  value={metadata.due_date ?? ''}
+                  onChange={(e) => updateSiteIssue(issue.id, { due_date: e.target.value || null })}
+                  className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+                  title="Due date"
+                />
+              </div>
+            )}
+
+            {/* Emails to the assigned subcontractor */}
+            {(notices.length > 0 || assignedSubcontractor) && (
+              <div>
+                <p className="text-xs font-medium text-gray-600 mb-1">Emails</p>
+                {notices.length === 0 ? (
+                  <p className="text-xs text-gray-400">Not emailed yet.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {notices.map((notice) => (
+                      <li key={notice.id} className="text-xs text-gray-600">
+                        {notice.email} · {formatDateTime(notice.sent_at)} ·{' '}
+                        {notice.delivery_status === 'failed' ? (
+                          <span className="text-red-600" title={notice.error ?? undefined}>Failed</span>
+                        ) : notice.responded_at ? (
+                          <span className="text-blue-700">Replied {formatDateTime(notice.responded_at)}</span>
+                        ) : notice.delivery_status === 'pending' ? (
+                          <span className="text-gray-400">Sending</span>
+                        ) : notice.delivery_status === 'logged' ? (
+                          <span className="text-amber-600" title="VITE_NOTIFIER=local">Logged only, not emailed</span>
+                        ) : (
+                          <span className="text-gray-400">Awaiting reply</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {canEdit && assignedSubcontractor && status !== 'resolved' && (
+                  assignedSubcontractor.contact_email ? (
+                    <button
+                      onClick={handleSendNotice}
+                      disabled={isSending}
+                      className="mt-1 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                      {isSending ? 'Sending...' : notices.length > 0 ? 'Resend email' : `Email ${assignedSubcontractor.company_name}`}
+                    </button>
+                  ) : (
+                    <p className="mt-1 text-xs text-yellow-700">
+                      Add a contact email for {assignedSubcontractor.company_name} to notify them.
+                    </p>
+                  )
+                )}
+              </div>
+            )}
+
+            {/* Photos */}
+            <PhotoStrip
+              label="Photos when raised"
+              photos={photos.filter((p) => p.stage === 'open')}
+              onUpload={canEdit && status !== 'resolved' ? (file) => handleUpload(file, 'open') : undefined}
+              isUploading={uploadingStage === 'open'}
+            />
+            <PhotoStrip
+              label="Close-out photos"
+              photos={photos.filter((p) => p.stage === 'close')}
+              onUpload={canEdit && (status === 'resolved' || isResolving) ? (file) => handleUpload(file, 'close') : undefined}
+              isUploading={uploadingStage === 'close'}
+            />
+
+            {/* Resolve */}
+            {isResolving && (
+              <div className="p-2 rounded border border-green-200 bg-green-50 space-y-2">
+                <textarea
+                  value={resolutionNotes}
+                  onChange={(e) => setResolutionNotes(e.target.value)}
+                  placeholder="How was it resolved?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded text-sm resize-none"
+                  rows={2}
+                  autoFocus
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleResolve}
+                    className="flex-1 py-1.5 px-3 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 transition-colors"
+                  >
+                    Mark Resolved
+                  </button>
+                  <button
+                    onClick={() => setIsResolving(false)}
+                    className="px-3 py-1.5 text-gray-600 hover:text-gray-800 text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Activity */}
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-1">Activity</p>
+              {activity.length === 0 ? (
+                <p className="text-xs text-gray-400">No comments yet.</p>
+              ) : (
+                <ul className="space-y-1.5 max-h-48 overflow-y-auto">
+                  {activity.map((entry) => (
+                    <li key={entry.id} className="text-xs">
+                      <span className={entry.kind === 'comment' ? 'text-gray-800' : 'text-gray-500 italic'}>
+                        {entry.text}
+                      </span>
+                      <span className="text-gray-400">
+                        {' '}— {(entry.author_id && authorNames.get(entry.author_id)) ?? 'Supervisor'}, {formatDateTime(entry.created_at)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canEdit && (
+                <form onSubmit={handleComment} className="flex gap-2 mt-2">
+                  <input
+                    type="text"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Add a comment..."
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!comment.trim()}
+                    className="px-3 py-1.5 bg-gray-800 text-white rounded text-sm font-medium hover:bg-gray-900 transition-colors disabled:opacity-50"
+                  >
+                    Post
+                  </button>
+                </form>
+              )}
             </div>
+
+            {/* Actions */}
+            {canEdit && (
+              <div className="flex items-center gap-2">
+                {status === 'resolved' ? (
+                  <button
+                    onClick={() => updateSiteIssue(issue.id, { status: 'active' })}
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Reopen
+                  </button>
+                ) : !isResolving && (
+                  <button
+                    onClick={() => setIsResolving(true)}
+                    className="flex-1 px-3 py-1.5 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 transition-colors"
+                  >
+                    Resolve
+                  </button>
+                )}
+
+                <button
+                  onClick={() => onDelete(issue.id)}
+                  className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                  title="Delete"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -173,15 +512,19 @@ function IssueCard({ issue, onStatusChange, onDelete, isExpanded, onToggleExpand
 
 interface AddIssueFormProps {
   projectId: string;
+  assigneeOptions: SiteIssueAssignee[];
   onSubmit: () => void;
   onCancel: () => void;
 }
 
-function AddIssueForm({ projectId, onSubmit, onCancel }: AddIssueFormProps) {
+function AddIssueForm({ projectId, assigneeOptions, onSubmit, onCancel }: AddIssueFormProps) {
   const addDailyLog = useSupervisorStore((s) => s.addDailyLog);
+  const uploadSiteIssuePhoto = useSupervisorStore((s) => s.uploadSiteIssuePhoto);
   const [content, setContent] = useState('');
   const [priority, setPriority] = useState<'low' | 'medium' | 'high'>('medium');
-  const [assignedTo, setAssignedTo] = useState('');
+  const [assignee, setAssignee] = useState<SiteIssueAssignee | null>(null);
+  const [dueDate, setDueDate] = useState('');
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -197,12 +540,17 @@ function AddIssueForm({ projectId, onSubmit, onCancel }: AddIssueFormProps) {
       content: content.trim(),
       metadata: {
         priority,
-        assigned_to: assignedTo.trim() || undefined,
+        assignee,
+        assigned_to: assignee?.name,
+        due_date: dueDate || null,
       } as SiteIssueMetadata,
       status: 'active',
     };
 
-    await addDailyLog(input);
+    const issue = await addDailyLog(input);
+    if (issue && photoFile) {
+      await uploadSiteIssuePhoto(issue.id, photoFile, 'open');
+    }
     setIsSubmitting(false);
     onSubmit();
   };
@@ -210,7 +558,7 @@ function AddIssueForm({ projectId, onSubmit, onCancel }: AddIssueFormProps) {
   return (
     <form onSubmit={handleSubmit} className="p-4 bg-gray-50 border-b border-gray-200">
       <h4 className="text-sm font-semibold text-gray-800 mb-3">Add Site Issue</h4>
-      
+
       <div className="space-y-3">
         <div>
           <label className="block text-xs font-medium text-gray-700 mb-1">Issue Description *</label>
@@ -224,7 +572,7 @@ function AddIssueForm({ projectId, onSubmit, onCancel }: AddIssueFormProps) {
             autoFocus
           />
         </div>
-        
+
         <div className="grid grid-cols-2 gap-3">
           <div>
             <label className="block text-xs font-medium text-gray-700 mb-1">Priority</label>
@@ -239,17 +587,38 @@ function AddIssueForm({ projectId, onSubmit, onCancel }: AddIssueFormProps) {
             </select>
           </div>
           <div>
-            <label className="block text-xs font-medium text-gray-700 mb-1">Assigned To</label>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Due Date</label>
             <input
-              type="text"
-              value={assignedTo}
-              onChange={(e) => setAssignedTo(e.target.value)}
-              placeholder="Optional"
+              type="date"
+              value={dueDate}
+              min={getTodayDate()}
+              onChange={(e) => setDueDate(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
             />
           </div>
         </div>
-        
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Assigned To</label>
+          <AssigneeSelect
+            value={assignee}
+            options={assigneeOptions}
+            onChange={setAssignee}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Photo</label>
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={(e) => setPhotoFile(e.target.files?.[0] ?? null)}
+            className="w-full text-sm text-gray-600"
+          />
+        </div>
+
         <div className="flex gap-2">
           <button
             type="submit"
@@ -278,50 +647,85 @@ function AddIssueForm({ projectId, onSubmit, onCancel }: AddIssueFormProps) {
 export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps) {
   const [showAddForm, setShowAddForm] = useState(false);
   const [expandedIssueId, setExpandedIssueId] = useState<string | null>(null);
-  const [filterStatus, setFilterStatus] = useState<SiteIssueStatus | 'all'>('all');
-  
-  const dailyLogs = useSupervisorStore((s) => s.dailyLogs);
-  const fetchDailyLogs = useSupervisorStore((s) => s.fetchDailyLogs);
+  const [filterStatus, setFilterStatus] = useState<SiteIssueStatus | 'overdue' | 'all'>('all');
+
+  const allSiteIssues = useSupervisorStore((s) => s.siteIssues);
+  const subcontractors = useSupervisorStore((s) => s.subcontractors);
+  const contacts = useSupervisorStore((s) => s.contacts);
+  const members = useSupervisorStore((s) => s.members);
+  const role = useSupervisorStore((s) => s.getProjectRole(projectId));
+  const siteIssueNotices = useSupervisorStore((s) => s.siteIssueNotices);
+  const error = useSupervisorStore((s) => s.error);
+  const fetchSiteIssues = useSupervisorStore((s) => s.fetchSiteIssues);
+  const fetchSiteIssueNotices = useSupervisorStore((s) => s.fetchSiteIssueNotices);
   const deleteDailyLog = useSupervisorStore((s) => s.deleteDailyLog);
-  const toggleSiteIssueStatus = useSupervisorStore((s) => s.toggleSiteIssueStatus);
 
-  // Fetch all logs (no date filter) to see all issues
+  const canEdit = hasProjectPermission(role, 'logs.edit');
+  const today = getTodayDate();
+
+  // Fetch every site issue on the project, whatever day it was raised
   useEffect(() => {
-    fetchDailyLogs(projectId);
-  }, [projectId, fetchDailyLogs]);
+    fetchSiteIssues(projectId);
+    fetchSiteIssueNotices(projectId);
+  }, [projectId, fetchSiteIssues, fetchSiteIssueNotices]);
+
+  const assigneeOptions = useMemo<SiteIssueAssignee[]>(() => [
+    ...subcontractors
+      .filter((sc) => sc.project_id === projectId && sc.status === 'active')
+      .map((sc) => ({ kind: 'subcontractor' as const, id: sc.id, name: sc.company_name })),
+    ...contacts.map((c) => ({
+      kind: 'contact' as const,
+      id: c.id,
+      name: c.company_name ? `${c.name} (${c.company_name})` : c.name,
+    })),
+  ], [subcontractors, contacts, projectId]);
+
+  const authorNames = useMemo(
+    () => new Map(members.filter((m) => m.user_id).map((m) => [m.user_id!, m.email])),
+    [members]
+  );
 
   // Filter to only site issues
   const siteIssues = useMemo(() => {
-    return dailyLogs
-      .filter((log) => log.log_type === 'site_issue')
-      .filter((log) => filterStatus === 'all' || log.status === filterStatus);
-  }, [dailyLogs, filterStatus]);
-
-  // Group by status
+    return allSiteIssues
+      .filter((log) => log.project_id === projectId)
+      .filter((log) => {
+        if (filterStatus === 'all') return true;
+        if (filterStatus === 'overdue') return getSiteIssueDaysOverdue(log, today) > 0;
+        return getSiteIssueStatusOn(log, today) === filterStatus;
+      });
+  }, [allSiteIssues, projectId, filterStatus, today]);
+
+  // Group by status (issues raised before today carry over as "continued")
   const groupedIssues = useMemo(() => {
     const groups: Record<SiteIssueStatus, ProjectDailyLog[]> = {
       active: [],
       continued: [],
       resolved: [],
     };
-    
-    siteIssues.forEach((issue) => {
-      groups[issue.status].push(issue);
-    });
-    
-    // Sort each group by date (newest first)
-    Object.keys(groups).forEach((status) => {
-      groups[status as SiteIssueStatus].sort(
-        (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
-    });
-    
+
+    allSiteIssues
+      .filter((log) => log.project_id === projectId)
+      .forEach((issue) => {
+        groups[getSiteIssueStatusOn(issue, today)].push(issue);
+      });
+
+    // Open issues: most overdue first, then oldest. Resolved: newest first.
+    const byUrgency = (a: ProjectDailyLog, b: ProjectDailyLog) =>
+      getSiteIssueDaysOverdue(b, today) - getSiteIssueDaysOverdue(a, today) ||
+      a.log_date.localeCompare(b.log_date);
+    groups.active.sort(byUrgency);
+    groups.continued.sort(byUrgency);
+    groups.resolved.sort(
+      (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+
     return groups;
-  }, [siteIssues]);
+  }, [allSiteIssues, projectId, today]);
 
-  const handleStatusChange = async (issueId: string, newStatus: SiteIssueStatus) => {
-    await toggleSiteIssueStatus(issueId, newStatus);
-  };
+  const overdueCount = [...groupedIssues.active, ...groupedIssues.continued].filter(
+    (issue) => getSiteIssueDaysOverdue(issue, today) > 0
+  ).length;
 
   const handleDelete = async (issueId: string) => {
     if (confirm('Delete this site issue?')) {
@@ -329,6 +733,21 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
     }
   };
 
+  const renderCard = (issue: ProjectDailyLog) => (
+    <IssueCard
+      key={issue.id}
+      issue={issue}
+      today={today}
+      canEdit={canEdit}
+      assigneeOptions={assigneeOptions}
+      authorNames={authorNames}
+      notices={siteIssueNotices.filter((n) => n.log_id === issue.id)}
+      onDelete={handleDelete}
+      isExpanded={expandedIssueId === issue.id}
+      onToggleExpand={() => setExpandedIssueId(expandedIssueId === issue.id ? null : issue.id)}
+    />
+  );
+
   const totalOpen = groupedIssues.active.length + groupedIssues.continued.length;
 
   return (
@@ -352,20 +771,26 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
               </span>
             )}
           </div>
-          <button
-            onClick={() => setShowAddForm(true)}
-            className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Add Issue
-          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowAddForm(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Issue
+            </button>
+          )}
         </div>
 
+        {error && (
+          <p className="mb-3 text-xs text-red-600">{error}</p>
+        )}
+
         {/* Filter */}
-        <div className="flex gap-2">
-          {(['all', 'active', 'continued', 'resolved'] as const).map((status) => (
+        <div className="flex gap-2 flex-wrap">
+          {(['all', 'active', 'continued', 'overdue', 'resolved'] as const).map((status) => (
             <button
               key={status}
               onClick={() => setFilterStatus(status)}
@@ -375,9 +800,9 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
                   : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
               }`}
             >
-              {status === 'all' ? 'All' : SITE_ISSUE_STATUS_CONFIG[status].label}
+              {status === 'all' ? 'All' : status === 'overdue' ? 'Overdue' : SITE_ISSUE_STATUS_CONFIG[status].label}
               {status !== 'all' && (
-                <span className="ml-1">({groupedIssues[status].length})</span>
+                <span className="ml-1">({status === 'overdue' ? overdueCount : groupedIssues[status].length})</span>
               )}
             </button>
           ))}
@@ -388,6 +813,7 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
       {showAddForm && (
         <AddIssueForm
           projectId={projectId}
+          assigneeOptions={assigneeOptions}
           onSubmit={() => setShowAddForm(false)}
           onCancel={() => setShowAddForm(false)}
         />
@@ -406,9 +832,11 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
             <p className="text-gray-500 mb-4">
               {filterStatus === 'all'
                 ? 'No site issues have been logged yet.'
-                : `No ${SITE_ISSUE_STATUS_CONFIG[filterStatus as SiteIssueStatus].label.toLowerCase()} issues.`}
+                : filterStatus === 'overdue'
+                  ? 'Nothing is past its due date.'
+                  : `No ${SITE_ISSUE_STATUS_CONFIG[filterStatus].label.toLowerCase()} issues.`}
             </p>
-            {filterStatus === 'all' && (
+            {filterStatus === 'all' && canEdit && (
               <button
                 onClick={() => setShowAddForm(true)}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
@@ -431,16 +859,7 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
                   Open ({groupedIssues.active.length})
                 </h3>
                 <div className="space-y-2">
-                  {groupedIssues.active.map((issue) => (
-                    <IssueCard
-                      key={issue.id}
-                      issue={issue}
-                      onStatusChange={handleStatusChange}
-                      onDelete={handleDelete}
-                      isExpanded={expandedIssueId === issue.id}
-                      onToggleExpand={() => setExpandedIssueId(expandedIssueId === issue.id ? null : issue.id)}
-                    />
-                  ))}
+                  {groupedIssues.active.map(renderCard)}
                 </div>
               </div>
             )}
@@ -453,16 +872,7 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
                   Continued ({groupedIssues.continued.length})
                 </h3>
                 <div className="space-y-2">
-                  {groupedIssues.continued.map((issue) => (
-                    <IssueCard
-                      key={issue.id}
-                      issue={issue}
-                      onStatusChange={handleStatusChange}
-                      onDelete={handleDelete}
-                      isExpanded={expandedIssueId === issue.id}
-                      onToggleExpand={() => setExpandedIssueId(expandedIssueId === issue.id ? null : issue.id)}
-                    />
-                  ))}
+                  {groupedIssues.continued.map(renderCard)}
                 </div>
               </div>
             )}
@@ -475,16 +885,7 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
                   Resolved ({groupedIssues.resolved.length})
                 </h3>
                 <div className="space-y-2">
-                  {groupedIssues.resolved.map((issue) => (
-                    <IssueCard
-                      key={issue.id}
-                      issue={issue}
-                      onStatusChange={handleStatusChange}
-                      onDelete={handleDelete}
-                      isExpanded={expandedIssueId === issue.id}
-                      onToggleExpand={() => setExpandedIssueId(expandedIssueId === issue.id ? null : issue.id)}
-                    />
-                  ))}
+                  {groupedIssues.resolved.map(renderCard)}
                 </div>
               </div>
             )}
@@ -492,16 +893,7 @@ export function SiteIssuesTracker({ projectId, onClose }: SiteIssuesTrackerProps
         ) : (
           // Show filtered list
           <div className="space-y-2">
-            {siteIssues.map((issue) => (
-              <IssueCard
-                key={issue.id}
-                issue={issue}
-                onStatusChange={handleStatusChange}
-                onDelete={handleDelete}
-                isExpanded={expandedIssueId === issue.id}
-                onToggleExpand={() => setExpandedIssueId(expandedIssueId === issue.id ? null : issue.id)}
-              />
-            ))}
+            {siteIssues.map(renderCard)}
           </div>
         )}
       </div>
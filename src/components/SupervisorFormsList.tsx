@@ -1,25 +1,33 @@
 import { useState } from 'react';
 import { useSupervisorStore } from '@/stores/supervisorStore';
 import type { SupervisorFormInstance } from '@/types/supervisorForms';
-import { getFormTypeConfig } from '@/types/supervisorForms';
+import { getFormTypeConfig, isFormLocked } from '@/types/supervisorForms';
+import { buildFormInstancePdf, getFormInstancePdfFilename } from '@/utils/formInstancePdf';
+import { downloadPdfBlob } from '@/utils/pdfLayout';
 
 interface SupervisorFormsListProps {
   projectId: string;
   onCreateForm: () => void;
   onEditForm: (formId: string) => void;
+  /** Hide create/archive/delete (roles without forms.edit) */
+  readOnly?: boolean;
 }
 
 export function SupervisorFormsList({
   projectId,
   onCreateForm,
   onEditForm,
+  readOnly = false,
 }: SupervisorFormsListProps) {
   const [showArchived, setShowArchived] = useState(false);
+  const [exportingFormId, setExportingFormId] = useState<string | null>(null);
 
   const supervisorForms = useSupervisorStore((s) => s.supervisorForms);
   const deleteSupervisorForm = useSupervisorStore((s) => s.deleteSupervisorForm);
   const archiveSupervisorForm = useSupervisorStore((s) => s.archiveSupervisorForm);
   const loading = useSupervisorStore((s) => s.loading);
+  const currentProject = useSupervisorStore((s) => s.currentProject);
+  const formDefinitions = useSupervisorStore((s) => s.formDefinitions);
 
   // Filter forms for this project
   const projectForms = supervisorForms.filter((f) => f.project_id === projectId);
@@ -58,8 +66,21 @@ export function SupervisorFormsList({
     await archiveSupervisorForm(form.id);
   };
 
+  const handleDownloadPdf = async (form: SupervisorFormInstance) => {
+    setExportingFormId(form.id);
+    try {
+      const blob = await buildFormInstancePdf({ form, projectName: currentProject?.name, formDefinitions });
+      downloadPdfBlob(blob, getFormInstancePdfFilename(form));
+    } catch (error) {
+      console.error('Failed to build form PDF:', error);
+      alert('Failed to generate PDF. Please try again.');
+    } finally {
+      setExportingFormId(null);
+    }
+  };
+
   const renderFormCard = (form: SupervisorFormInstance) => {
-    const config = getFormTypeConfig(form.template_id);
+    const config = getFormTypeConfig(form.template_id, formDefinitions);
     
     return (
       <div
@@ -122,15 +143,17 @@ export function SupervisorFormsList({
                   </svg>
                 </button>
                 
-                <button
-                  onClick={() => handleArchive(form)}
-                  className="p-2 text-gray-500 hover:text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors"
-                  title="Archive Form"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
-                  </svg>
-                </button>
+                {!readOnly && (
+                  <button
+                    onClick={() => handleArchive(form)}
+                    className="p-2 text-gray-500 hover:text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors"
+                    title="Archive Form"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                    </svg>
+                  </button>
+                )}
               </>
             )}
             
@@ -148,14 +171,31 @@ export function SupervisorFormsList({
             )}
             
             <button
-              onClick={() => handleDelete(form)}
-              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-              title="Delete Form"
+              onClick={() => handleDownloadPdf(form)}
+              disabled={exportingFormId === form.id}
+              className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+              title="Download PDF"
             >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-              </svg>
+              {exportingFormId === form.id ? (
+                <div className="w-4 h-4 border-2 border-gray-300 border-t-indigo-600 rounded-full animate-spin" />
+              ) : (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+              )}
             </button>
+
+            {!readOnly && !isFormLocked(form) && (
+              <button
+                onClick={() => handleDelete(form)}
+                className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Delete Form"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -187,15 +227,17 @@ export function SupervisorFormsList({
             </button>
           </div>
         </div>
-        <button
-          onClick={onCreateForm}
-          className="px-4 py-2 text-sm font-medium bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors flex items-center gap-2"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          New Form
-        </button>
+        {!readOnly && (
+          <button
+            onClick={onCreateForm}
+            className="px-4 py-2 text-sm font-medium bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            New Form
+          </button>
+        )}
       </div>
 
       {/* Forms List */}
@@ -213,7 +255,7 @@ export function SupervisorFormsList({
                 ? 'No archived forms yet' 
                 : 'No forms created yet'}
             </p>
-            {!showArchived && (
+            {!showArchived && !readOnly && (
               <button
                 onClick={onCreateForm}
                 className="text-sm text-primary-600 hover:text-primary-700 font-medium"
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { FormRevision } from '@/types/supervisorForms';
+import type { FormTemplate } from '@/types/formTemplates';
+import { diffFormData, getFormDataPath } from '@/utils/formData';
+
+interface FormHistoryPanelProps {
+  formId: string;
+  template?: FormTemplate;
+  isLocked: boolean;
+  hasUnsavedChanges: boolean;
+  onRestored: (formData: Record<string, unknown>) => void;
+}
+
+function formatTimestamp(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** "Section › Field" for a diff path, falling back to the raw path */
+function getPathLabel(template: FormTemplate | undefined, path: string): string {
+  const [sectionId, fieldId] = path.split('.');
+  const section = template?.sections.find((s) => s.id === sectionId);
+  if (!section) return path;
+  if ((section.kind ?? 'fields') !== 'fields') return section.title;
+  const field = section.fields?.find((f) => f.id === fieldId);
+  return field?.label ? `${section.title} › ${field.label}` : section.title;
+}
+
+function formatDiffValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    // Signatures and photos are arrays of objects; show something readable
+    const first = value[0] as Record<string, unknown>;
+    if (first && typeof first === 'object') {
+      if ('signerName' in first) return value.map((v) => (v as { signerName: string }).signerName).join(', ');
+      if ('storage_url' in first) return `${value.length} photo${value.length === 1 ? '' : 's'}`;
+      return `${value.length} row${value.length === 1 ? '' : 's'}`;
+    }
+    return value.join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function FormHistoryPanel({ formId, template, isLocked, hasUnsavedChanges, onRestored }: FormHistoryPanelProps) {
+  const allRevisions = useSupervisorStore((s) => s.formRevisions);
+  const fetchFormRevisions = useSupervisorStore((s) => s.fetchFormRevisions);
+  const restoreFormRevision = useSupervisorStore((s) => s.restoreFormRevision);
+
+  const revisions = useMemo(
+    () => allRevisions.filter((r) => r.form_instance_id === formId),
+    [allRevisions, formId]
+  );
+
+  // Compare selection; null means "use the default pair"
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchFormRevisions(formId);
+  }, [formId, fetchFormRevisions]);
+
+  const toRevision = revisions.find((r) => r.id === toId) ?? revisions[0];
+  const fromRevision = revisions.find((r) => r.id === fromId) ?? revisions[1];
+
+  const diff = useMemo(() => {
+    if (!toRevision) return [];
+    const before = fromRevision?.form_data ?? {};
+    return diffFormData(before, toRevision.form_data).map((path) => ({
+      path,
+      label: getPathLabel(template, path),
+      before: formatDiffValue(getFormDataPath(before, path)),
+      after: formatDiffValue(getFormDataPath(toRevision.form_data, path)),
+    }));
+  }, [fromRevision, toRevision, template]);
+
+  const handleRestore = async (revision: FormRevision) => {
+    const message = hasUnsavedChanges
+      ? 'Restore this version? Your unsaved changes will be lost.'
+      : 'Restore this version? The current data is kept in history.';
+    if (!confirm(message)) return;
+
+    setRestoringId(revision.id);
+    await restoreFormRevision(formId, revision.id);
+    setRestoringId(null);
+    onRestored(revision.form_data);
+  };
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+        <p className="text-sm text-gray-600">No saved revisions yet</p>
+        <p className="text-xs text-gray-500 mt-1">Each save records who changed what.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Revision list */}
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-700">Revisions ({revisions.length})</h3>
+          <span className="text-xs text-gray-500">Pick From / To to compare</span>
+        </div>
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {revisions.map((revision, index) => (
+            <div key={revision.id} className="px-3 py-2 flex items-center gap-3 text-sm">
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <label className="flex items-center gap-1" title="Compare from">
+                  <input
+                    type="radio"
+                    name="history-from"
+                    checked={fromRevision?.id === revision.id}
+                    onChange={() => setFromId(revision.id)}
+                  />
+                  From
+                </label>
+                <label className="flex items-center gap-1" title="Compare to">
+                  <input
+                    type="radio"
+                    name="history-to"
+                    checked={toRevision?.id === revision.id}
+                    onChange={() => setToId(revision.id)}
+                  />
+                  To
+                </label>
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-800">{formatTimestamp(revision.created_at)}</span>
+                  {index === 0 && (
+                    <span className="px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">Latest</span>
+                  )}
+                  {revision.restored_from && (
+                    <span className="px-1.5 py-0.5 text-xs bg-purple-100 text-purple-700 rounded">Restore</span>
+                  )}
+                </div>
+                <p
+                  className="text-xs text-gray-500 truncate"
+                  title={revision.changed_paths.map((p) => getPathLabel(template, p)).join(', ')}
+                >
+                  {revision.author_email ?? revision.author_id.slice(0, 8)} •{' '}
+                  {revision.changed_paths.length === 0
+                    ? 'No field changes'
+                    : `${revision.changed_paths.length} field${revision.changed_paths.length === 1 ? '' : 's'} changed`}
+                </p>
+              </div>
+              {index > 0 && !isLocked && (
+                <button
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoringId !== null}
+                  className="px-2 py-1 text-xs font-medium text-primary-700 hover:bg-primary-50 rounded transition-colors disabled:opacity-50"
+                >
+                  {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Field diff */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">
+          Changes {fromRevision ? `${formatTimestamp(fromRevision.created_at)} → ` : 'in first save → '}
+          {toRevision && formatTimestamp(toRevision.created_at)}
+        </h3>
+        {diff.length === 0 ? (
+          <p className="text-sm text-gray-500">No differences between these revisions.</p>
+        ) : (
+          <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Field</th>
+                <th className="px-3 py-2 text-left font-medium">Before</th>
+                <th className="px-3 py-2 text-left font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {diff.map((row) => (
+                <tr key={row.path} className="align-top">
+                  <td className="px-3 py-2 text-gray-700">{row.label}</td>
+                  <td className="px-3 py-2 text-red-700 bg-red-50/50 break-words">{row.before}</td>
+                  <td className="px-3 py-2 text-green-700 bg-green-50/50 break-words">{row.after}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+import { useState } from 'react';
+
+import { SignatureModule, type SignatureEntry } from '@/components/form/SignatureModule';
+import { RobustPhotoUpload } from '@/components/form/RobustPhotoUpload';
+import type {
+  FormTemplate,
+  TemplateColor,
+  TemplateField,
+  TemplateSection,
+} from '@/types/formTemplates';
+import { getFieldValue, getPhotosModule, getSignaturesModule } from '@/utils/formData';
+
+interface FormTemplateRendererProps {
+  template: FormTemplate;
+  formData: Record<string, unknown>;
+  updateField: (moduleName: string, fieldName: string, value: unknown) => void;
+  updateModule: (moduleName: string, data: unknown | ((prev: unknown) => unknown)) => void;
+  formId: string;
+  isLocked?: boolean;
+}
+
+// ============================================================================
+// Styling
+// ============================================================================
+
+// Full class names so Tailwind can see them at build time
+const COLOR_CLASSES: Record<TemplateColor, { badge: string; panel: string; stat: string }> = {
+  purple: { badge: 'bg-purple-100 text-purple-700', panel: 'bg-purple-50 border-purple-200', stat: 'text-purple-600' },
+  green: { badge: 'bg-green-100 text-green-700', panel: 'bg-green-50 border-green-200', stat: 'text-green-600' },
+  teal: { badge: 'bg-teal-100 text-teal-700', panel: 'bg-teal-50 border-teal-200', stat: 'text-teal-600' },
+  indigo: { badge: 'bg-indigo-100 text-indigo-700', panel: 'bg-indigo-50 border-indigo-200', stat: 'text-indigo-600' },
+  blue: { badge: 'bg-blue-100 text-blue-700', panel: 'bg-blue-50 border-blue-200', stat: 'text-blue-600' },
+  red: { badge: 'bg-red-100 text-red-700', panel: 'bg-red-50 border-red-200', stat: 'text-red-600' },
+  orange: { badge: 'bg-orange-100 text-orange-700', panel: 'bg-orange-50 border-orange-200', stat: 'text-orange-600' },
+  gray: { badge: 'bg-gray-100 text-gray-700', panel: 'bg-gray-50 border-gray-200', stat: 'text-gray-600' },
+};
+
+const STAT_GRID: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+};
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-50 read-only:bg-gray-50';
+
+const CHOICE_OPTIONS: Record<'yes_no' | 'yes_no_na' | 'pass_fail_na', { value: string; label: string; active: string }[]> = {
+  yes_no: [
+    { value: 'yes', label: 'YES', active: 'bg-green-100 text-green-700 font-medium' },
+    { value: 'no', label: 'NO', active: 'bg-red-100 text-red-700 font-medium' },
+  ],
+  yes_no_na: [
+    { value: 'yes', label: 'YES', active: 'bg-green-100 text-green-700 font-medium' },
+    { value: 'no', label: 'NO', active: 'bg-red-100 text-red-700 font-medium' },
+    { value: 'na', label: 'N/A', active: 'bg-gray-200 text-gray-700 font-medium' },
+  ],
+  pass_fail_na: [
+    { value: 'pass', label: 'Pass', active: 'bg-green-100 text-green-700' },
+    { value: 'fail', label: 'Fail', active: 'bg-red-100 text-red-700' },
+    { value: 'na', label: 'N/A', active: 'bg-gray-200 text-gray-700' },
+  ],
+};
+
+function isChoiceField(field: TemplateField): field is TemplateField & { type: keyof typeof CHOICE_OPTIONS } {
+  return field.type in CHOICE_OPTIONS;
+}
+
+function formatDateTime(dateStr: string): string {
+  if (!dateStr) return '';
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// ============================================================================
+// Field Components
+// ============================================================================
+
+function FieldLabel({ field }: { field: TemplateField }) {
+  if (!field.label) return null;
+  return (
+    <label className="block text-xs font-medium text-gray-600 mb-1">
+      {field.label}
+      {field.required && <span className="text-red-500 ml-0.5">*</span>}
+    </label>
+  );
+}
+
+interface InputProps {
+  field: TemplateField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  readOnly: boolean;
+}
+
+/** Single-value inputs shared by top-level fields and repeater rows */
+function TemplateInput({ field, value, onChange, readOnly }: InputProps) {
+  switch (field.type) {
+    case 'textarea':
+      return (
+        <textarea
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          rows={field.rows ?? 3}
+          readOnly={readOnly}
+          className={`${INPUT_CLASS} resize-none ${field.monospace ? 'font-mono' : ''}`}
+        />
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          placeholder={field.placeholder}
+          readOnly={readOnly}
+          className={INPUT_CLASS}
+        />
+      );
+    case 'select':
+      return (
+        <select
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={readOnly}
+          className={INPUT_CLASS}
+        >
+          {(field.options ?? []).map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    default:
+      return (
+        <input
+          type={field.type === 'date' || field.type === 'time' ? field.type : 'text'}
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          readOnly={readOnly}
+          className={INPUT_CLASS}
+        />
+      );
+  }
+}
+
+function ChoiceToggle({ field, value, onChange, readOnly }: InputProps) {
+  const options = isChoiceField(field) ? CHOICE_OPTIONS[field.type] : [];
+  return (
+    <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+      <span className="text-sm text-gray-700 flex-1 pr-2">
+        {field.label}
+        {field.required && <span className="text-red-500 ml-0.5">*</span>}
+      </span>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {options.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            disabled={readOnly}
+            onClick={() => onChange(option.value)}
+            className={`px-3 py-1 text-xs rounded transition-colors disabled:cursor-not-allowed ${
+              value === option.value ? option.active : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Comma-separated list input; commits on blur so typing ", " isn't swallowed */
+function TagsInput({ field, value, onChange, readOnly }: InputProps) {
+  const tags = Array.isArray(value) ? (value as string[]) : [];
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (readOnly) {
+    return (
+      <p className="text-sm text-gray-700 bg-white rounded p-2 min-h-[32px]">
+        {tags.join(', ') || field.emptyText || '—'}
+      </p>
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      value={draft ?? tags.join(', ')}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft === null) return;
+        onChange(draft.split(',').map((t) => t.trim()).filter(Boolean));
+        setDraft(null);
+      }}
+      placeholder={field.placeholder ?? field.emptyText ?? 'Separate items with commas'}
+      className={INPUT_CLASS}
+    />
+  );
+}
+
+function RepeaterField({ field, value, onChange, readOnly }: InputProps) {
+  const rows = Array.isArray(value) ? (value as Record<string, unknown>[]) : [];
+  const rowFields = field.fields ?? [];
+
+  const updateRow = (index: number, fieldId: string, fieldValue: unknown) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, [fieldId]: fieldValue } : row)));
+  };
+
+  const addRow = () => {
+    const emptyRow = Object.fromEntries(rowFields.map((f) => [f.id, f.defaultValue ?? null]));
+    onChange([...rows, emptyRow]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-4">{field.emptyText ?? 'No entries yet'}</p>
+      )}
+      {rows.map((row, index) => (
+        <div key={index} className="bg-white rounded-lg p-3 border border-gray-200">
+          <div className="grid grid-cols-2 gap-3">
+            {rowFields.map((rowField) => (
+              <div key={rowField.id} className={rowField.span === 2 ? 'col-span-2' : ''}>
+                <FieldLabel field={rowField} />
+                <TemplateInput
+                  field={rowField}
+                  value={row[rowField.id]}
+                  onChange={(v) => updateRow(index, rowField.id, v)}
+                  readOnly={readOnly}
+                />
+              </div>
+            ))}
+          </div>
+          {!readOnly && (
+            <div className="flex justify-end mt-2">
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                className="text-xs text-red-600 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          type="button"
+          onClick={addRow}
+          className="w-full px-3 py-2 text-sm text-gray-600 border border-dashed border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          + {field.addLabel ?? 'Add Entry'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Section Rendering
+// ============================================================================
+
+interface SectionProps extends Omit<FormTemplateRendererProps, 'template'> {
+  section: TemplateSection;
+  number: number;
+  accent: TemplateColor;
+}
+
+function TemplateSectionView({ section, number, accent, formData, updateField, updateModule, formId, isLocked = false }: SectionProps) {
+  const color = COLOR_CLASSES[section.color ?? accent];
+  const kind = section.kind ?? 'fields';
+
+  const heading = (
+    <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+      <span className={`w-6 h-6 rounded-full ${color.badge} flex items-center justify-center text-xs`}>{number}</span>
+      {section.title}
+      {section.required && <span className="text-red-500">*</span>}
+      {section.subtitle && <span className="text-xs font-normal text-gray-500 ml-2">{section.subtitle}</span>}
+    </h3>
+  );
+
+  if (kind === 'photos') {
+    return (
+      <section>
+        {heading}
+        <RobustPhotoUpload
+          formId={formId}
+          moduleData={getPhotosModule(formData, section.id)}
+          onChange={(data) => updateModule(section.id, data)}
+          isLocked={isLocked}
+        />
+      </section>
+    );
+  }
+
+  if (kind === 'signatures') {
+    return (
+      <section>
+        {heading}
+        <SignatureModule
+          moduleData={getSignaturesModule<SignatureEntry>(formData, section.id)}
+          onChange={(data) => updateModule(section.id, data)}
+          formId={formId}
+          isLocked={isLocked}
+        />
+      </section>
+    );
+  }
+
+  const fields = section.fields ?? [];
+  const twoColumn = section.columns === 2;
+
+  const isReadOnly = (field: TemplateField) =>
+    isLocked ||
+    (field.readOnlyWhen
+      ? Boolean(getFieldValue(formData, field.readOnlyWhen.section, field.readOnlyWhen.field, false))
+      : false);
+
+  // Group consecutive stat counters into one row
+  const blocks: (TemplateField | TemplateField[])[] = [];
+  for (const field of fields) {
+    const last = blocks[blocks.length - 1];
+    if (field.type === 'stat' && Array.isArray(last)) {
+      last.push(field);
+    } else {
+      blocks.push(field.type === 'stat' ? [field] : field);
+    }
+  }
+
+  const renderField = (field: TemplateField) => {
+    const value = getFieldValue(formData, section.id, field.id, field.defaultValue ?? null);
+    const onChange = (v: unknown) => updateField(section.id, field.id, v);
+    const readOnly = isReadOnly(field);
+    const fullWidth = !twoColumn || field.span === 2 || !['text', 'number', 'date', 'time', 'select'].includes(field.type);
+
+    let content;
+    if (isChoiceField(field)) {
+      content = <ChoiceToggle field={field} value={value} onChange={onChange} readOnly={readOnly} />;
+    } else if (field.type === 'static_text') {
+      content = (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 text-xs text-gray-600 space-y-3">
+          {(field.paragraphs ?? []).map((paragraph, i) => (
+            <p key={i}>{paragraph}</p>
+          ))}
+        </div>
+      );
+    } else if (field.type === 'tags') {
+      content = (
+        <>
+          <FieldLabel field={field} />
+          <TagsInput field={field} value={value} onChange={onChange} readOnly={readOnly} />
+        </>
+      );
+    } else if (field.type === 'repeater') {
+      content = (
+        <>
+          <FieldLabel field={field} />
+          <RepeaterField field={field} value={value} onChange={onChange} readOnly={readOnly} />
+        </>
+      );
+    } else {
+      content = (
+        <>
+          <FieldLabel field={field} />
+          <TemplateInput field={field} value={value} onChange={onChange} readOnly={readOnly} />
+          {field.helpText && <p className="text-xs text-gray-500 mt-1">{field.helpText}</p>}
+        </>
+      );
+    }
+
+    return (
+      <div key={field.id} className={twoColumn && fullWidth ? 'col-span-2' : ''}>
+        {content}
+      </div>
+    );
+  };
+
+  const renderStats = (stats: TemplateField[]) => (
+    <div key={stats.map((s) => s.id).join('-')} className={`grid ${STAT_GRID[Math.min(stats.length, 4)]} gap-4 ${twoColumn ? 'col-span-2' : ''}`}>
+      {stats.map((stat) => (
+        <div key={stat.id} className="text-center p-3 bg-white rounded-lg">
+          <p className={`text-2xl font-bold ${COLOR_CLASSES[stat.color ?? 'gray'].stat}`}>
+            {getFieldValue(formData, section.id, stat.id, 0) as number}
+          </p>
+          <p className="text-xs text-gray-500">{stat.label}</p>
+        </div>
+      ))}
+    </div>
+  );
+
+  const onlyChoices = fields.every((f) => isChoiceField(f));
+  const layout = twoColumn ? 'grid grid-cols-2 gap-4' : onlyChoices ? 'space-y-2' : 'space-y-4';
+  const panel = section.panel ? `${COLOR_CLASSES[section.panel].panel} border rounded-lg p-4` : '';
+
+  return (
+    <section>
+      {heading}
+      <div className={`${layout} ${panel}`}>
+        {blocks.map((block) => (Array.isArray(block) ? renderStats(block) : renderField(block)))}
+      </div>
+    </section>
+  );
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+/**
+ * Renders any supervisor form from its FormTemplate definition.
+ * Reads and writes form_data through the editor's updateField/updateModule.
+ */
+export function FormTemplateRenderer({ template, formData, updateField, updateModule, formId, isLocked = false }: FormTemplateRendererProps) {
+  const notice = template.generatedNotice;
+  const showNotice = notice
+    ? Boolean(getFieldValue(formData, notice.flag.section, notice.flag.field, false))
+    : false;
+  const generatedAt = notice?.timestamp
+    ? (getFieldValue(formData, notice.timestamp.section, notice.timestamp.field, '') as string)
+    : '';
+
+  return (
+    <div className="space-y-6">
+      {notice && showNotice && (
+        <div className="bg-gradient-to-r from-indigo-50 to-purple-50 border border-indigo-200 rounded-lg p-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="text-lg">🤖</span>
+              <span className="text-sm font-semibold text-indigo-800">{notice.title}</span>
+            </div>
+            {generatedAt && (
+              <span className="text-xs text-indigo-600">Generated: {formatDateTime(generatedAt)}</span>
+            )}
+          </div>
+          <p className="text-xs text-indigo-700 mt-1">{notice.description}</p>
+        </div>
+      )}
+
+      {template.sections.map((section, index) => (
+        <TemplateSectionView
+          key={section.id}
+          section={section}
+          number={index + 1}
+          accent={template.accent}
+          formData={formData}
+          updateField={updateField}
+          updateModule={updateModule}
+          formId={formId}
+          isLocked={isLocked}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+/**
+ * Supervisor Form Templates
+ *
+ * JSON-serializable definitions rendered by FormTemplateRenderer.
+ * Section and field ids are the form_data module/field keys, so changing an id
+ * orphans data already saved under the old key - add new ids instead.
+ *
+ * Templates published in form_definitions take precedence; the ones below are
+ * the fallback when a form type has no published definition or it can't be
+ * loaded (e.g. offline).
+ *
+ * To add a form: publish a definition with a formType entry to
+ * form_definitions, or register the type in supervisorForms.ts and add a
+ * template here. No component code is needed.
+ */
+
+import type { FormDefinitionRow, FormTemplate, TemplateField, TemplateFormType, TemplateOption } from '@/types/formTemplates';
+
+// ============================================================================
+// Shared Options
+// ============================================================================
+
+const WEATHER_OPTIONS: TemplateOption[] = [
+  { value: 'sunny', label: '☀️ Sunny' },
+  { value: 'partly_cloudy', label: '⛅ Partly Cloudy' },
+  { value: 'cloudy', label: '☁️ Cloudy' },
+  { value: 'rain', label: '🌧️ Rain' },
+  { value: 'snow', label: '❄️ Snow' },
+  { value: 'fog', label: '🌫️ Fog' },
+  { value: 'windy', label: '💨 Windy' },
+  { value: 'storm', label: '⛈️ Storm' },
+  { value: 'not_recorded', label: '❓ Not Recorded' },
+];
+
+/** Build a list of yes/no questions from [id, label] pairs */
+function yesNoItems(items: [string, string][]): TemplateField[] {
+  return items.map(([id, label]) => ({ id, type: 'yes_no', label }));
+}
+
+/** Build a pass/fail/N-A checklist from [id, label] pairs, defaulting to N/A */
+function passFailItems(items: [string, string][]): TemplateField[] {
+  return items.map(([id, label]) => ({ id, type: 'pass_fail_na', label, defaultValue: 'na' }));
+}
+
+// ============================================================================
+// Toolbox Talk
+// ============================================================================
+
+const TOOLBOX_TALK: FormTemplate = {
+  id: 'toolbox_talk',
+  version: 1,
+  accent: 'purple',
+  sections: [
+    {
+      id: 'header',
+      title: 'Meeting Details',
+      columns: 2,
+      fields: [
+        { id: 'date', type: 'date', label: 'Date', required: true },
+        { id: 'time', type: 'time', label: 'Time' },
+        { id: 'location', type: 'text', label: 'Location', placeholder: 'Meeting location', span: 2 },
+        { id: 'conductor', type: 'text', label: 'Conducted By', placeholder: 'Your name', span: 2, required: true },
+      ],
+    },
+    {
+      id: 'topic',
+      title: 'Topic Discussed',
+      fields: [
+        { id: 'title', type: 'text', label: 'Topic Title', placeholder: 'Topic title', required: true },
+        {
+          id: 'description',
+          type: 'textarea',
+          label: 'Description / Key Points',
+          placeholder: 'Describe the topic discussed and key points covered...',
+          rows: 4,
+        },
+      ],
+    },
+    {
+      id: 'attendees',
+      title: 'Attendees',
+      fields: [
+        {
+          id: 'list',
+          type: 'textarea',
+          label: 'List attendees (one per line)',
+          placeholder: 'John Smith - ABC Company\nJane Doe - XYZ Corp\n...',
+          helpText: 'Format: Name - Company (optional)',
+          rows: 6,
+          monospace: true,
+        },
+      ],
+    },
+    {
+      id: 'notes',
+      title: 'Additional Notes',
+      fields: [
+        {
+          id: 'content',
+          type: 'textarea',
+          label: '',
+          placeholder: 'Any additional notes, follow-up items, or observations...',
+          rows: 3,
+        },
+      ],
+    },
+    { id: 'photos', title: 'Photos', kind: 'photos' },
+    { id: 'signatures', title: 'Signatures', kind: 'signatures' },
+  ],
+};
+
+// ============================================================================
+// Weekly Inspection
+// ============================================================================
+
+const WEEKLY_INSPECTION: FormTemplate = {
+  id: 'weekly_inspection',
+  version: 1,
+  accent: 'green',
+  sections: [
+    {
+      id: 'header',
+      title: 'Inspection Details',
+      columns: 2,
+      fields: [
+        { id: 'date', type: 'date', label: 'Inspection Date', required: true },
+        { id: 'inspector', type: 'text', label: 'Inspector', placeholder: 'Your name', required: true },
+        { id: 'area', type: 'text', label: 'Area Inspected', placeholder: 'Building A, Floor 2, etc.', span: 2, required: true },
+      ],
+    },
+    {
+      id: 'checklist',
+      title: 'Safety Checklist',
+      fields: passFailItems([
+        ['ppe', 'PPE being worn correctly'],
+        ['housekeeping', 'Work areas clean and organized'],
+        ['fire_safety', 'Fire extinguishers accessible'],
+        ['electrical', 'Electrical panels accessible (3ft clearance)'],
+        ['exits', 'Emergency exits clear and marked'],
+        ['first_aid', 'First aid kit stocked and accessible'],
+        ['scaffolding', 'Scaffolding/ladders inspected'],
+        ['tools', 'Tools in good working condition'],
+      ]),
+    },
+    {
+      id: 'issues',
+      title: 'Issues Found',
+      fields: [
+        {
+          id: 'description',
+          type: 'textarea',
+          label: '',
+          placeholder: 'Describe any issues found during the inspection...',
+          rows: 4,
+        },
+      ],
+    },
+    {
+      id: 'actions',
+      title: 'Corrective Actions Required',
+      fields: [
+        { id: 'required', type: 'textarea', label: '', placeholder: 'List corrective actions needed...', rows: 3 },
+      ],
+    },
+    {
+      id: 'summary',
+      title: 'Overall Rating',
+      fields: [
+        {
+          id: 'rating',
+          type: 'select',
+          label: '',
+          defaultValue: 'satisfactory',
+          options: [
+            { value: 'satisfactory', label: 'Satisfactory' },
+            { value: 'needs_improvement', label: 'Needs Improvement' },
+            { value: 'unsatisfactory', label: 'Unsatisfactory' },
+          ],
+        },
+      ],
+    },
+    { id: 'photos', title: 'Inspection Photos', kind: 'photos' },
+    { id: 'signatures', title: 'Signatures', kind: 'signatures' },
+  ],
+};
+
+// ============================================================================
+// Worker Orientation (Subcontractor Site Orientation)
+// ============================================================================
+
+const WORKER_ORIENTATION: FormTemplate = {
+  id: 'worker_orientation',
+  version: 1,
+  accent: 'teal',
+  sections: [
+    {
+      id: 'header',
+      title: 'Worker Information',
+      columns: 2,
+      fields: [
+        { id: 'date', type: 'date', label: 'Date', required: true },
+        { id: 'project', type: 'text', label: 'Project', placeholder: 'Project name' },
+        { id: 'worker_name', type: 'text', label: 'Worker Name', placeholder: 'Full name of worker', span: 2, required: true },
+        { id: 'subcontractor', type: 'text', label: 'Subcontractor Name (if applicable)', placeholder: 'Company name', span: 2 },
+      ],
+    },
+    {
+      id: 'safeWorkPractices',
+      title: 'Safe Work Practices',
+      subtitle: 'Do you understand?',
+      fields: yesNoItems([
+        ['over_under_work', 'Over / Under Work'],
+        ['ladders_platforms', 'Ladders / Work Platforms (incl sawhorses – 32" requirement; scaffolds, stilts)'],
+        ['fall_protection', 'Fall Protection (if required)'],
+        ['dust_control', 'Dust Control (Silica Exposure Control)'],
+        ['access_to_site', 'Access to site, work areas'],
+        ['guardrails_handrails', 'Guardrails / Handrails (stairs etc)'],
+        ['housekeeping', 'Housekeeping'],
+        ['hand_power_tools', 'Hand Tools / Power Tools'],
+        ['manual_lifting', 'Manual Lifting'],
+        ['mobile_equipment', 'Mobile equipment (Boom / Scissor etc)'],
+        ['material_storage', 'Material Storage (areas, requirements)'],
+        ['electrical', 'Electrical'],
+      ]),
+    },
+    {
+      id: 'ppe',
+      title: 'Personal Protective Equipment',
+      subtitle: 'Do you understand?',
+      fields: yesNoItems([
+        ['hard_hat', 'Hard Hat'],
+        ['safety_boots', 'Safety Boots'],
+        ['safety_glasses', 'Safety Glasses'],
+        ['hearing_protection', 'Hearing Protection'],
+        ['respiratory_protection', "Respiratory Protection (Fit test req'd?)"],
+        ['gloves', 'Gloves'],
+        ['reflective_vests', 'Reflective Vests'],
+        ['caution_danger_tape', 'Caution / Danger tape'],
+      ]),
+    },
+    {
+      id: 'generalSafetyRules',
+      title: 'General Site Safety Rules',
+      subtitle: 'Do you understand?',
+      fields: yesNoItems([
+        ['toolbox_meeting', 'Tool Box Meeting Requirements'],
+        ['prime_contractor', 'Prime Contractor Orientated?'],
+        ['reporting_unsafe', 'Reporting Unsafe Acts/Conditions to Alpha'],
+        ['first_aid_location', 'First Aid and Location'],
+        ['emergency_procedures', 'Site Emergency Procedures (incl injury / incident reporting to Prime AND Alpha)'],
+        ['whmis_sds', 'WHMIS - SDS Location and Requirements'],
+        ['drugs_alcohol', 'Drugs & Alcohol (Zero Tolerance)'],
+        ['disciplinary_policy', 'Alpha Disciplinary Policy'],
+        ['worker_responsibilities', 'Worker Safety Responsibilities'],
+        ['after_hours_work', 'After Site Hours Work'],
+        ['safe_access', 'Safe Access to work areas'],
+      ]),
+    },
+    {
+      id: 'acknowledgmentQuestions',
+      title: 'Acknowledgment Questions',
+      fields: [
+        ...yesNoItems([
+          ['first_aid_ticket', '1. Have a Valid First Aid Ticket?'],
+          ['whmis_training', '2. Have WHMIS 2015 Training?'],
+          ['fall_protection_training', '3. Possess valid fall protection or mobile equipment training? If yes, note:'],
+          ['right_to_refuse', '4. Understand that you have the right and responsibility to refuse unsafe work?'],
+          ['working_safely_condition', '5. Understand that working safely is a condition of working on all Alpha Projects?'],
+          ['understand_orientation', '6. Understand the contents of this orientation? If no, please explain on back.'],
+        ]),
+        {
+          id: 'training_notes',
+          type: 'text',
+          label: 'Fall Protection / Mobile Equipment Training Notes',
+          placeholder: 'List certifications or training details...',
+        },
+      ],
+    },
+    {
+      id: 'acknowledgment',
+      title: 'Worker Acknowledgment',
+      fields: [
+        {
+          id: 'statement',
+          type: 'static_text',
+          label: '',
+          paragraphs: [
+            'I have received a subcontractor orientation with instruction regarding acceptable work standards that I am required to follow while on this worksite. I understand my responsibilities and agree to follow all policies and procedures of the Prime Contractor and Alpha Drywall and all pertinent requirements of Worksafe BC that pertain to the performance of my work activities.',
+            "I have been given proper instruction with regards the safe performance of my duties while on this site and understand that failure to follow safety procedures, disciplinary action up to and including dismissal from this worksite in accordance with Alpha Drywall's safety policies may be exercised.",
+            'I fully understand that if, at any time, I am unable to understand a certain activity or requirements to perform that activity in a safe manner I can request further instruction from my immediate supervisor or other company representative.',
+          ],
+        },
+      ],
+    },
+    { id: 'signatures', title: 'Signatures', kind: 'signatures', required: true },
+    { id: 'photos', title: 'Documentation Photos', kind: 'photos' },
+    {
+      id: 'notes',
+      title: 'Additional Notes',
+      fields: [
+        {
+          id: 'content',
+          type: 'textarea',
+          label: '',
+          placeholder: 'Any additional notes, explanations, or comments...',
+          rows: 3,
+        },
+      ],
+    },
+  ],
+};
+
+// ============================================================================
+// Daily Report (AI-Generated)
+// ============================================================================
+
+const DAILY_REPORT: FormTemplate = {
+  id: 'daily_report',
+  version: 1,
+  accent: 'indigo',
+  generatedNotice: {
+    flag: { section: 'header', field: 'ai_generated' },
+    timestamp: { section: 'header', field: 'generated_at' },
+    title: 'AI-Generated Report',
+    description: 'This report was generated by AI. Review and edit as needed before finalizing.',
+  },
+  sections: [
+    {
+      id: 'header',
+      title: 'Report Details',
+      columns: 2,
+      fields: [
+        {
+          id: 'report_date',
+          type: 'date',
+          label: 'Report Date',
+          required: true,
+          readOnlyWhen: { section: 'header', field: 'ai_generated' },
+        },
+        {
+          id: 'project_name',
+          type: 'text',
+          label: 'Project',
+          readOnlyWhen: { section: 'header', field: 'ai_generated' },
+        },
+      ],
+    },
+    {
+      id: 'weather',
+      title: 'Weather Conditions',
+      color: 'blue',
+      panel: 'blue',
+      columns: 2,
+      fields: [
+        { id: 'conditions', type: 'select', label: 'Conditions', options: WEATHER_OPTIONS, defaultValue: 'not_recorded' },
+        { id: 'temperature', type: 'number', label: 'Temperature', placeholder: '°F' },
+        {
+          id: 'temperature_unit',
+          type: 'select',
+          label: 'Unit',
+          defaultValue: 'F',
+          options: [
+            { value: 'F', label: '°F' },
+            { value: 'C', label: '°C' },
+          ],
+        },
+        { id: 'notes', type: 'text', label: 'Weather Notes', placeholder: 'Additional weather notes...' },
+      ],
+    },
+    {
+      id: 'work_summary',
+      title: 'Work Summary',
+      color: 'green',
+      panel: 'green',
+      fields: [
+        { id: 'tasks_completed', type: 'stat', label: 'Tasks Completed', color: 'green' },
+        { id: 'tasks_total', type: 'stat', label: 'Total Tasks', color: 'gray' },
+        { id: 'content', type: 'textarea', label: '', placeholder: 'Summary of work accomplished today...', rows: 3 },
+      ],
+    },
+    {
+      id: 'safety_summary',
+      title: 'Safety Summary',
+      color: 'red',
+      panel: 'red',
+      fields: [
+        { id: 'incidents', type: 'stat', label: 'Incidents', color: 'red' },
+        { id: 'near_misses', type: 'stat', label: 'Near Misses', color: 'orange' },
+        { id: 'content', type: 'textarea', label: '', placeholder: 'Safety observations and any incidents...', rows: 3 },
+      ],
+    },
+    {
+      id: 'manpower_summary',
+      title: 'Manpower Summary',
+      color: 'purple',
+      panel: 'purple',
+      fields: [
+        { id: 'total_workers', type: 'stat', label: 'Total Workers', color: 'purple' },
+        { id: 'total_hours', type: 'stat', label: 'Total Hours', color: 'purple' },
+        { id: 'companies', type: 'tags', label: 'Companies on Site', emptyText: 'No companies recorded' },
+        { id: 'content', type: 'textarea', label: '', placeholder: 'Manpower details and crew information...', rows: 3 },
+      ],
+    },
+    {
+      id: 'visitors_summary',
+      title: 'Visitors',
+      color: 'purple',
+      panel: 'purple',
+      fields: [
+        {
+          id: 'visitors',
+          type: 'repeater',
+          label: '',
+          addLabel: 'Add Visitor',
+          emptyText: 'No visitors logged for this day',
+          fields: [
+            { id: 'name', type: 'text', label: 'Name' },
+            { id: 'company', type: 'text', label: 'Company' },
+            { id: 'time_in', type: 'time', label: 'Time In' },
+            { id: 'time_out', type: 'time', label: 'Time Out' },
+            { id: 'purpose', type: 'text', label: 'Purpose', span: 2 },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'issues_summary',
+      title: 'Issues & Delays',
+      color: 'orange',
+      panel: 'orange',
+      fields: [
+        { id: 'open_issues', type: 'stat', label: 'Open Issues', color: 'orange' },
+        { id: 'resolved_today', type: 'stat', label: 'Resolved Today', color: 'green' },
+        { id: 'content', type: 'textarea', label: '', placeholder: 'Site issues, delays, and problems encountered...', rows: 3 },
+      ],
+    },
+    {
+      id: 'forms_summary',
+      title: 'Forms Submitted',
+      color: 'blue',
+      panel: 'blue',
+      fields: [
+        { id: 'flra_count', type: 'stat', label: 'FLRA', color: 'blue' },
+        { id: 'hot_work_count', type: 'stat', label: 'Hot Work', color: 'red' },
+        { id: 'other_count', type: 'stat', label: 'Other', color: 'gray' },
+        { id: 'content', type: 'textarea', label: '', placeholder: 'Summary of forms submitted today...', rows: 3 },
+      ],
+    },
+    {
+      id: 'supervisor_notes',
+      title: 'Supervisor Notes',
+      color: 'gray',
+      panel: 'gray',
+      fields: [
+        {
+          id: 'content',
+          type: 'textarea',
+          label: '',
+          placeholder: 'Add any additional notes, observations, or comments...',
+          rows: 4,
+        },
+      ],
+    },
+  ],
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const FORM_TEMPLATES: FormTemplate[] = [
+  TOOLBOX_TALK,
+  WEEKLY_INSPECTION,
+  WORKER_ORIENTATION,
+  DAILY_REPORT,
+];
+
+/**
+ * Template for a form type. A form that recorded its form_definition_version
+ * gets that version, so publishing a new one doesn't change how existing forms
+ * render; otherwise the newest loaded version, then the built-in template.
+ */
+export function getFormTemplate(
+  templateId: string,
+  definitions: FormTemplate[] = [],
+  version?: number | null
+): FormTemplate | undefined {
+  const builtIn = FORM_TEMPLATES.find((t) => t.id === templateId);
+  const published = definitions.filter((t) => t.id === templateId);
+
+  if (version != null) {
+    const recorded = published.find((t) => t.version === version) ?? (builtIn?.version === version ? builtIn : undefined);
+    if (recorded) return recorded;
+  }
+
+  const newest = published.reduce<FormTemplate | undefined>((best, t) => (!best || t.version > best.version ? t : best), undefined);
+  return newest ?? builtIn;
+}
+
+/** Whether a definition's formType entry is usable as a picker entry */
+function isTemplateFormType(value: unknown): value is TemplateFormType {
+  if (!value || typeof value !== 'object') return false;
+  const type = value as Partial<TemplateFormType>;
+  return typeof type.name === 'string' && (type.category === undefined || type.category === 'worker' || type.category === 'supervisor');
+}
+
+/**
+ * Template from a form_definitions row, or null when the definition isn't
+ * shaped like one (so the built-in template is used instead of a broken form)
+ */
+export function parseFormDefinition(row: FormDefinitionRow): FormTemplate | null {
+  const definition = row.definition as Partial<FormTemplate> | null;
+  if (!definition || typeof definition !== 'object' || typeof definition.accent !== 'string') return null;
+
+  const sections = definition.sections;
+  if (!Array.isArray(sections) || sections.length === 0) return null;
+  if (!sections.every((s) => typeof s?.id === 'string' && typeof s.title === 'string' && (!s.fields || Array.isArray(s.fields)))) {
+    return null;
+  }
+
+  // A malformed picker entry is dropped; the template itself is still usable
+  const formType = isTemplateFormType(definition.formType) ? definition.formType : undefined;
+
+  return { ...definition, id: row.template_id, version: row.version, accent: definition.accent, formType, sections };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useRef } from 'react';
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { ReceivedDocument } from '@/types/supervisor';
+import { getEffectiveMetadata } from '@/types/supervisor';
+
+/**
+ * Hook that files incoming documents by the project's routing rules.
+ *
+ * Returns a routeDocument callback for useDocumentRealtime's INSERT/UPDATE
+ * callbacks, so intake no longer waits for "Reprocess All with AI" to apply
+ * rules. Sender and subject are known on arrival; a document is tried again
+ * when its company name changes (subcontractor rules), and otherwise only
+ * once per visit. Documents that are already filed are left alone.
+ *
+ * @example
+ * ```tsx
+ * const { routeDocument } = useDocumentRouter(projectId, can('documents.review'));
+ * useDocumentRealtime(projectId, { onNewDocument: routeDocument });
+ * ```
+ */
+export function useDocumentRouter(projectId: string | undefined, enabled = true) {
+  const attemptedRef = useRef(new Map<string, string>());
+  const routeDocuments = useSupervisorStore((s) => s.routeDocuments);
+
+  const routeDocument = useCallback(
+    (document: ReceivedDocument) => {
+      if (!projectId || !enabled || document.folder_id || document.status === 'rejected') return;
+
+      const key = getEffectiveMetadata(document.ai_extracted_data).companyName ?? '';
+      if (attemptedRef.current.get(document.id) === key) return;
+      attemptedRef.current.set(document.id, key);
+
+      void routeDocuments(projectId, [document.id]);
+    },
+    [projectId, enabled, routeDocuments]
+  );
+
+  return { routeDocument };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { ReceivedDocument } from '@/types/supervisor';
+import { getEffectiveMetadata } from '@/types/supervisor';
+
+/**
+ * Hook that links incoming documents to workers on the project's active
+ * shifts.
+ *
+ * Returns a matchDocument callback for useDocumentRealtime's INSERT/UPDATE
+ * callbacks. A document is retried whenever its worker name, date or sender
+ * changes (e.g. once AI extraction finishes or a supervisor corrects the
+ * name), and otherwise only tried once per visit. Ambiguous documents land in
+ * the store's shiftMatchQueue, which this hook loads on mount.
+ *
+ * @example
+ * ```tsx
+ * const { matchDocument } = useDocumentShiftMatcher(projectId, can('documents.review'));
+ * useDocumentRealtime(projectId, { onNewDocument: matchDocument });
+ * ```
+ */
+export function useDocumentShiftMatcher(projectId: string | undefined, enabled = true) {
+  const attemptedRef = useRef(new Map<string, string>());
+  const autoMatchDocuments = useSupervisorStore((s) => s.autoMatchDocuments);
+  const fetchShiftMatchQueue = useSupervisorStore((s) => s.fetchShiftMatchQueue);
+
+  useEffect(() => {
+    if (projectId && enabled) fetchShiftMatchQueue(projectId);
+  }, [projectId, enabled, fetchShiftMatchQueue]);
+
+  const matchDocument = useCallback(
+    (document: ReceivedDocument) => {
+      if (!projectId || !enabled || document.shift_id || document.status === 'rejected') return;
+
+      const { workerName, documentDate } = getEffectiveMetadata(document.ai_extracted_data);
+      if (!workerName && !document.source_email) return;
+
+      const key = [workerName, documentDate, document.source_email].join('|');
+      if (attemptedRef.current.get(document.id) === key) return;
+      attemptedRef.current.set(document.id, key);
+
+      void autoMatchDocuments(projectId, [document.id]);
+    },
+    [projectId, enabled, autoMatchDocuments]
+  );
+
+  return { matchDocument };
+}
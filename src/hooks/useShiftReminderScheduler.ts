@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+
+/** How often active shifts are checked for due reminders */
+const CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Hook that sends scheduled missing-form reminders for a project's active
+ * shifts while the project is open.
+ *
+ * Each minute it asks the store to send reminders for every active shift
+ * with a start time; the store decides who is actually due (see
+ * getDueReminderWorkers), so checks that find nobody are cheap no-ops.
+ * Every project member with the page open runs this; the store claims each
+ * reminder in the database before sending it, so only one of them sends.
+ *
+ * @example
+ * ```tsx
+ * useShiftReminderScheduler(projectId, can('shifts.manage'));
+ * ```
+ */
+export function useShiftReminderScheduler(projectId: string | undefined, enabled = true) {
+  const runningRef = useRef(false);
+  const sendShiftReminders = useSupervisorStore((s) => s.sendShiftReminders);
+
+  useEffect(() => {
+    if (!projectId || !enabled) return;
+
+    const check = async () => {
+      if (runningRef.current || !navigator.onLine) return;
+      runningRef.current = true;
+
+      try {
+        const activeShifts = useSupervisorStore
+          .getState()
+          .shifts.filter((s) => s.project_id === projectId && s.status === 'active' && s.start_time);
+
+        for (const shift of activeShifts) {
+          await sendShiftReminders(shift.id, 'scheduled');
+        }
+      } finally {
+        runningRef.current = false;
+      }
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [projectId, enabled, sendShiftReminders]);
+}
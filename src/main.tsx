@@ -2,8 +2,15 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 
 import App from './App';
+import { installSupervisorPermissions } from './stores/supervisorPermissions';
+import { installSupervisorAudit } from './stores/supervisorAudit';
 import './index.css';
 
+// Refuse store mutations the user's project role doesn't allow
+installSupervisorPermissions();
+// Record store mutations in the project audit log
+installSupervisorAudit();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
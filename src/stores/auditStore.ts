@@ -0,0 +1,135 @@
+import { create } from 'zustand';
+
+import { supabase } from '@/config/supabaseClient';
+import { useAuthStore } from '@/stores/authStore';
+import { useOfflineSyncStore } from '@/stores/offlineSyncStore';
+import { isNetworkError } from '@/utils/offlineQueue';
+import type { AuditLogEntry, AuditLogFilters } from '@/types/audit';
+import { DEFAULT_AUDIT_FILTERS } from '@/types/audit';
+
+export type RecordAuditInput = Omit<AuditLogEntry, 'id' | 'actor_id' | 'actor_email' | 'created_at'>;
+
+// Keep the audit view responsive on busy projects
+const AUDIT_FETCH_LIMIT = 1000;
+
+/** Local calendar day (YYYY-MM-DD) of an ISO timestamp */
+function localDay(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+interface AuditState {
+  entries: AuditLogEntry[];
+  filters: AuditLogFilters;
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchAuditLog: (projectId: string) => Promise<void>;
+  recordAuditEntry: (input: RecordAuditInput) => Promise<void>;
+  setFilters: (filters: Partial<AuditLogFilters>) => void;
+  resetFilters: () => void;
+
+  // Helpers
+  getFilteredEntries: () => AuditLogEntry[];
+}
+
+export const useAuditStore = create<AuditState>((set, get) => ({
+  entries: [],
+  filters: DEFAULT_AUDIT_FILTERS,
+  loading: false,
+  error: null,
+
+  fetchAuditLog: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('project_audit_log')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_FETCH_LIMIT);
+
+      if (error) throw error;
+
+      set({ entries: (data ?? []) as AuditLogEntry[], loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch audit log';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // Never throws - a failed audit write must not fail the change it describes
+  recordAuditEntry: async (input) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+
+    const entry: AuditLogEntry = {
+      ...input,
+      id: crypto.randomUUID(),
+      actor_id: user.id,
+      actor_email: user.email ?? null,
+      created_at: new Date().toISOString(),
+    };
+
+    // Show it immediately if the audit view for this project is loaded
+    set((state) => ({
+      entries: state.entries.length === 0 || state.entries[0].project_id === entry.project_id
+        ? [entry, ...state.entries]
+        : state.entries,
+    }));
+
+    try {
+      if (navigator.onLine) {
+        const { error } = await supabase.from('project_audit_log').insert(entry);
+        if (!error) return;
+        if (!isNetworkError(error)) throw error;
+      }
+
+      await useOfflineSyncStore.getState().enqueueMutation({
+        table: 'project_audit_log',
+        operation: 'insert',
+        record_id: entry.id,
+        project_id: entry.project_id,
+        payload: { ...entry },
+        label: `Audit: ${entry.action}`,
+      });
+    } catch (error) {
+      console.error('Failed to record audit entry:', entry.action, error);
+    }
+  },
+
+  setFilters: (filters) => {
+    set((state) => ({ filters: { ...state.filters, ...filters } }));
+  },
+
+  resetFilters: () => {
+    set({ filters: DEFAULT_AUDIT_FILTERS });
+  },
+
+  getFilteredEntries: () => {
+    const { entries, filters } = get();
+    const search = filters.search.trim().toLowerCase();
+
+    return entries.filter((entry) => {
+      if (filters.entityType !== 'all' && entry.entity_type !== filters.entityType) return false;
+      if (filters.action !== 'all' && entry.action !== filters.action) return false;
+      if (filters.actor !== 'all' && entry.actor_id !== filters.actor) return false;
+
+      const day = localDay(entry.created_at);
+      if (filters.startDate && day < filters.startDate) return false;
+      if (filters.endDate && day > filters.endDate) return false;
+
+      if (search) {
+        const haystack = [entry.entity_id, entry.action, entry.actor_email, JSON.stringify(entry.before), JSON.stringify(entry.after)]
+          .join(' ')
+          .toLowerCase();
+        if (!haystack.includes(search)) return false;
+      }
+
+      return true;
+    });
+  },
+}));
@@ -0,0 +1,117 @@
+import { create } from 'zustand';
+
+import { supabase } from '@/config/supabaseClient';
+import type { DocumentFilterView, SaveDocumentFilterViewInput } from '@/types/supervisor';
+import { sanitizeObject, sanitizeString } from '@/utils/sanitize';
+
+interface DocumentFilterViewState {
+  views: DocumentFilterView[];
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchFilterViews: (projectId: string) => Promise<void>;
+  saveFilterView: (input: SaveDocumentFilterViewInput) => Promise<DocumentFilterView | null>;
+  deleteFilterView: (viewId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useDocumentFilterViewStore = create<DocumentFilterViewState>((set, get) => ({
+  views: [],
+  loading: false,
+  error: null,
+
+  // Views saved for this project plus the supervisor's all-project views
+  fetchFilterViews: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('document_filter_views')
+        .select('*')
+        .eq('supervisor_id', user.id)
+        .or(`project_id.eq.${projectId},project_id.is.null`)
+        .order('name');
+
+      if (error) throw error;
+
+      set({ views: data ?? [], loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load saved views';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // Saving under an existing name in the same scope overwrites that view
+  saveFilterView: async (input) => {
+    set({ error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const name = sanitizeString(input.name.trim());
+      if (!name) throw new Error('View name is required');
+
+      const row = {
+        supervisor_id: user.id,
+        project_id: input.project_id,
+        name,
+        filters: sanitizeObject({ ...input.filters }),
+        sort_by: input.sort_by,
+        date_range: input.date_range,
+      };
+
+      const existing = get().views.find(
+        (v) => v.project_id === input.project_id && v.name.toLowerCase() === name.toLowerCase()
+      );
+
+      const { data, error } = existing
+        ? await supabase
+            .from('document_filter_views')
+            .update({ ...row, updated_at: new Date().toISOString() })
+            .eq('id', existing.id)
+            .select()
+            .single()
+        : await supabase.from('document_filter_views').insert(row).select().single();
+
+      if (error) throw error;
+
+      set((state) => ({
+        views: [...state.views.filter((v) => v.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      console.log('💾 Saved filter view:', data.name);
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save view';
+      set({ error: message });
+      return null;
+    }
+  },
+
+  deleteFilterView: async (viewId) => {
+    set({ error: null });
+
+    try {
+      const { error } = await supabase.from('document_filter_views').delete().eq('id', viewId);
+
+      if (error) throw error;
+
+      set((state) => ({ views: state.views.filter((v) => v.id !== viewId) }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete view';
+      set({ error: message });
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
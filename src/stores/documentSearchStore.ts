@@ -0,0 +1,153 @@
+import { create } from 'zustand';
+
+import { supabase } from '@/config/supabaseClient';
+import type { DocumentSearchResult } from '@/types/search';
+import { fetchAllPages } from '@/utils/pagedQuery';
+import { extractPdfText, loadPdfDocument } from '@/utils/pdfViewer';
+
+// Ranked results beyond this aren't worth scrolling through
+const SEARCH_RESULT_LIMIT = 50;
+
+// PDFs are parsed in the browser, so index a handful per run
+const INDEX_BATCH_SIZE = 20;
+
+interface UnindexedDocument {
+  id: string;
+  project_id: string;
+  storage_path: string;
+}
+
+interface DocumentSearchState {
+  query: string;
+  results: DocumentSearchResult[];
+  unindexed: UnindexedDocument[];
+  loading: boolean;
+  indexing: boolean;
+  error: string | null;
+
+  // Actions
+  searchDocuments: (query: string, projectIds: string[]) => Promise<void>;
+  clearSearch: () => void;
+  fetchUnindexedDocuments: (projectIds: string[]) => Promise<void>;
+  indexDocumentText: (projectIds: string[]) => Promise<number>;
+}
+
+export const useDocumentSearchStore = create<DocumentSearchState>((set, get) => ({
+  query: '',
+  results: [],
+  unindexed: [],
+  loading: false,
+  indexing: false,
+  error: null,
+
+  searchDocuments: async (query, projectIds) => {
+    const trimmed = query.trim();
+    if (!trimmed || projectIds.length === 0) {
+      set({ query: trimmed, results: [], error: null });
+      return;
+    }
+
+    set({ query: trimmed, loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase.rpc('search_documents', {
+        search_query: trimmed,
+        project_ids: projectIds,
+        result_limit: SEARCH_RESULT_LIMIT,
+      });
+
+      if (error) throw error;
+
+      // Ignore responses for a query the user has already replaced
+      if (get().query !== trimmed) return;
+      set({ results: (data ?? []) as DocumentSearchResult[], loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Search failed';
+      set({ error: message, loading: false });
+    }
+  },
+
+  clearSearch: () => {
+    set({ query: '', results: [], error: null });
+  },
+
+  fetchUnindexedDocuments: async (projectIds) => {
+    if (projectIds.length === 0) return;
+
+    try {
+      // Projects with more than one page of documents are read in full
+      const pdfs = await fetchAllPages<UnindexedDocument>(() =>
+        supabase
+          .from('received_documents')
+          .select('id, project_id, storage_path')
+          .in('project_id', projectIds)
+          .ilike('mime_type', '%pdf%')
+          .order('id')
+      );
+
+      const indexed = await fetchAllPages<{ document_id: string }>(() =>
+        supabase
+          .from('document_search_index')
+          .select('document_id')
+          .in('project_id', projectIds)
+          .not('text_extracted_at', 'is', null)
+          .order('document_id')
+      );
+
+      const done = new Set(indexed.map((row) => row.document_id));
+      set({ unindexed: pdfs.filter((doc) => !done.has(doc.id)) });
+    } catch (error) {
+      console.error('Failed to check search index:', error);
+    }
+  },
+
+  // Extract text from PDFs the search index hasn't read yet. Returns how many were indexed.
+  indexDocumentText: async (projectIds) => {
+    set({ indexing: true, error: null });
+    let indexed = 0;
+
+    try {
+      for (const doc of get().unindexed.slice(0, INDEX_BATCH_SIZE)) {
+        try {
+          // A failed download is thrown, not recorded, so the document is retried next run
+          const { data: file, error: downloadError } = await supabase.storage
+            .from('document-intake')
+            .download(doc.storage_path);
+
+          if (downloadError) throw downloadError;
+
+          // Only a file pdf.js could parse is recorded; a scanned one has no text and
+          // is stored empty so it isn't retried every run
+          const pdf = await loadPdfDocument(await file.arrayBuffer());
+          let content: string;
+          try {
+            content = await extractPdfText(pdf);
+          } finally {
+            void pdf.destroy();
+          }
+
+          const { error } = await supabase.from('document_search_index').upsert({
+            document_id: doc.id,
+            project_id: doc.project_id,
+            content,
+            text_extracted_at: new Date().toISOString(),
+          });
+
+          if (error) throw error;
+          indexed++;
+        } catch (error) {
+          console.error('Failed to index document text:', doc.id, error);
+        }
+      }
+
+      console.log(`🔎 Indexed text for ${indexed} document(s)`);
+      await get().fetchUnindexedDocuments(projectIds);
+      set({ indexing: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to index documents';
+      set({ error: message, indexing: false });
+    }
+
+    return indexed;
+  },
+}));
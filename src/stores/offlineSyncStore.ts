@@ -0,0 +1,425 @@
+import { create } from 'zustand';
+
+import { supabase } from '@/config/supabaseClient';
+import {
+  loadQueuedMutations,
+  saveQueuedMutation,
+  removeQueuedMutation,
+  isNetworkError,
+} from '@/utils/offlineQueue';
+import type {
+  QueuedMutation,
+  EnqueueMutationInput,
+  ReplayResult,
+} from '@/types/offlineSync';
+
+/**
+ * Event emitted when a queued mutation leaves the queue, so the data stores
+ * can refresh timestamps (applied) or reload server state (discarded).
+ */
+export interface SyncEvent {
+  kind: 'applied' | 'discarded';
+  mutation: QueuedMutation;
+  updatedAt: string | null;
+}
+
+type SyncListener = (event: SyncEvent) => void;
+
+const syncListeners = new Set<SyncListener>();
+
+/**
+ * Subscribe to mutations leaving the queue. Returns an unsubscribe function.
+ */
+export function onSyncEvent(listener: SyncListener): () => void {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+}
+
+function emitSyncEvent(event: SyncEvent) {
+  syncListeners.forEach((listener) => listener(event));
+}
+
+// Postgres unique_violation - the insert already reached the server
+const UNIQUE_VIOLATION = '23505';
+
+// Mutations currently being sent. They leave the queue once the send
+// finishes, so new edits must queue behind them rather than merge in.
+const inFlight = new Set<string>();
+
+function sameTimestamp(a: string | null, b: string | null): boolean {
+  if (!a || !b) return a === b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Apply one mutation against Supabase, marked in flight while it's sent.
+ * Updates and deletes are checked against the row's updated_at first; if the
+ * server copy changed since the edit was made we report a conflict instead of
+ * overwriting someone else's work. Pass force to skip the check.
+ */
+async function applyMutation(
+  mutation: QueuedMutation,
+  force = false
+): Promise<{ conflict: boolean; updatedAt: string | null }> {
+  inFlight.add(mutation.id);
+  try {
+    return await sendMutation(mutation, force);
+  } finally {
+    inFlight.delete(mutation.id);
+  }
+}
+
+async function sendMutation(
+  mutation: QueuedMutation,
+  force: boolean
+): Promise<{ conflict: boolean; updatedAt: string | null }> {
+  const { table, operation, record_id, payload, base_updated_at } = mutation;
+
+  if (operation !== 'insert' && base_updated_at && !force) {
+    const { data: current, error } = await supabase
+      .from(table)
+      .select('updated_at')
+      .eq('id', record_id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!current) {
+      // Row is gone - nothing left to delete, but an update has nowhere to land
+      return { conflict: operation === 'update', updatedAt: null };
+    }
+
+    if (!sameTimestamp(current.updated_at, base_updated_at)) {
+      return { conflict: true, updatedAt: current.updated_at };
+    }
+  }
+
+  if (operation === 'insert') {
+    const { data, error } = await supabase
+      .from(table)
+      .insert(payload)
+      .select()
+      .single();
+
+    if (error && error.code !== UNIQUE_VIOLATION) throw error;
+    // Append-only tables (revisions) have no updated_at
+    return { conflict: false, updatedAt: data?.updated_at ?? null };
+  }
+
+  if (operation === 'update') {
+    const { data, error } = await supabase
+      .from(table)
+      .update(payload)
+      .eq('id', record_id)
+      .select('updated_at')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { conflict: true, updatedAt: null };
+    return { conflict: false, updatedAt: data.updated_at };
+  }
+
+  const { error } = await supabase.from(table).delete().eq('id', record_id);
+  if (error) throw error;
+  return { conflict: false, updatedAt: null };
+}
+
+/**
+ * Edits queued behind a mutation that was just applied were made against the
+ * row as it was before that write. Move their base timestamp forward so the
+ * write they queued behind doesn't register as a conflict.
+ */
+function rebaseFollowers(
+  queue: QueuedMutation[],
+  applied: QueuedMutation,
+  updatedAt: string | null
+): QueuedMutation[] {
+  if (!updatedAt) return [];
+  return queue
+    .filter(
+      (m) =>
+        m.id !== applied.id &&
+        m.table === applied.table &&
+        m.record_id === applied.record_id &&
+        m.status === 'pending' &&
+        (applied.operation === 'insert' || sameTimestamp(m.base_updated_at, applied.base_updated_at))
+    )
+    .map((m) => ({ ...m, base_updated_at: updatedAt }));
+}
+
+/**
+ * Fold a new mutation into what is already queued for the same record so
+ * replay sends one write per record and keeps the original base timestamp.
+ * Entries being sent are left alone; the new one queues behind them.
+ * Returns the updated queue plus the entries that changed or were dropped.
+ */
+function coalesce(
+  queue: QueuedMutation[],
+  incoming: QueuedMutation
+): { queue: QueuedMutation[]; upserted: QueuedMutation[]; removed: string[] } {
+  const existing = queue.filter(
+    (m) =>
+      m.table === incoming.table &&
+      m.record_id === incoming.record_id &&
+      m.status === 'pending' &&
+      !inFlight.has(m.id)
+  );
+  const pendingInsert = existing.find((m) => m.operation === 'insert');
+  const pendingUpdate = existing.find((m) => m.operation === 'update');
+
+  if (incoming.operation === 'update' && (pendingInsert ?? pendingUpdate)) {
+    const target = (pendingInsert ?? pendingUpdate)!;
+    const merged = { ...target, payload: { ...target.payload, ...incoming.payload }, label: incoming.label };
+    return {
+      queue: queue.map((m) => (m.id === target.id ? merged : m)),
+      upserted: [merged],
+      removed: [],
+    };
+  }
+
+  if (incoming.operation === 'delete' && existing.length > 0) {
+    const removed = existing.map((m) => m.id);
+    const remaining = queue.filter((m) => !removed.includes(m.id));
+
+    // Record never reached the server - dropping the insert is enough
+    if (pendingInsert) {
+      return { queue: remaining, upserted: [], removed };
+    }
+
+    const withBase = { ...incoming, base_updated_at: pendingUpdate?.base_updated_at ?? incoming.base_updated_at };
+    return { queue: [...remaining, withBase], upserted: [withBase], removed };
+  }
+
+  return { queue: [...queue, incoming], upserted: [incoming], removed: [] };
+}
+
+/**
+ * Drop an applied mutation from the queue and rebase anything queued behind it
+ */
+async function removeApplied(mutation: QueuedMutation, updatedAt: string | null) {
+  const rebased = rebaseFollowers(useOfflineSyncStore.getState().queue, mutation, updatedAt);
+  useOfflineSyncStore.setState((state) => ({
+    queue: state.queue
+      .filter((m) => m.id !== mutation.id)
+      .map((m) => rebased.find((r) => r.id === m.id) ?? m),
+  }));
+  await Promise.all([
+    removeQueuedMutation(mutation.id),
+    ...rebased.map((m) => saveQueuedMutation(m)),
+  ]).catch(() => undefined);
+  emitSyncEvent({ kind: 'applied', mutation, updatedAt });
+}
+
+interface OfflineSyncState {
+  queue: QueuedMutation[];
+  isOnline: boolean;
+  syncing: boolean;
+  initialized: boolean;
+  lastSyncedAt: string | null;
+
+  // Actions
+  initialize: () => Promise<void>;
+  enqueueMutation: (input: EnqueueMutationInput) => Promise<void>;
+  replayQueue: () => Promise<ReplayResult | null>;
+  keepLocalChange: (mutationId: string) => Promise<void>;
+  discardMutation: (mutationId: string) => Promise<void>;
+  retryMutation: (mutationId: string) => Promise<void>;
+
+  // Helpers
+  getPendingCount: () => number;
+  getConflicts: () => QueuedMutation[];
+  hasQueuedWrites: (table: QueuedMutation['table'], recordId: string) => boolean;
+}
+
+export const useOfflineSyncStore = create<OfflineSyncState>((set, get) => ({
+  queue: [],
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  initialized: false,
+  lastSyncedAt: null,
+
+  initialize: async () => {
+    if (get().initialized) return;
+    set({ initialized: true });
+
+    window.addEventListener('online', () => {
+      set({ isOnline: true });
+      get().replayQueue();
+    });
+    window.addEventListener('offline', () => set({ isOnline: false }));
+
+    try {
+      const stored = await loadQueuedMutations();
+      // Keep anything queued in memory before the database finished loading
+      set((state) => ({
+        queue: [...stored, ...state.queue.filter((m) => !stored.some((s) => s.id === m.id))],
+      }));
+    } catch (error) {
+      console.error('Failed to load offline queue:', error);
+    }
+
+    if (navigator.onLine && get().queue.length > 0) {
+      await get().replayQueue();
+    }
+  },
+
+  enqueueMutation: async (input) => {
+    const mutation: QueuedMutation = {
+      id: crypto.randomUUID(),
+      table: input.table,
+      operation: input.operation,
+      record_id: input.record_id,
+      project_id: input.project_id ?? null,
+      payload: input.payload ?? {},
+      base_updated_at: input.base_updated_at ?? null,
+      label: input.label,
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      created_at: new Date().toISOString(),
+    };
+
+    const { queue, upserted, removed } = coalesce(get().queue, mutation);
+    set({ queue });
+
+    console.log('📴 Queued offline write:', mutation.label);
+
+    try {
+      await Promise.all([
+        ...upserted.map((m) => saveQueuedMutation(m)),
+        ...removed.map((id) => removeQueuedMutation(id)),
+      ]);
+    } catch (error) {
+      // The queue still lives in memory; it just won't survive a reload
+      console.error('Failed to persist offline queue:', error);
+    }
+  },
+
+  replayQueue: async () => {
+    if (get().syncing || !navigator.onLine) return null;
+
+    set({ syncing: true });
+
+    const result: ReplayResult = { applied: 0, conflicts: 0, failed: 0, remaining: 0 };
+    // Later writes to a record stay queued behind an unresolved earlier one
+    const blocked = new Set<string>();
+    const passIds = get().queue.map((m) => m.id);
+
+    for (const id of passIds) {
+      // Read the latest copy; an edit may have been merged in since the pass began
+      const mutation = get().queue.find((m) => m.id === id);
+      if (!mutation) continue;
+      const recordKey = `${mutation.table}:${mutation.record_id}`;
+
+      if (mutation.status !== 'pending' || blocked.has(recordKey)) {
+        blocked.add(recordKey);
+        continue;
+      }
+
+      try {
+        const outcome = await applyMutation(mutation);
+
+        if (outcome.conflict) {
+          const updated: QueuedMutation = {
+            ...mutation,
+            status: 'conflict',
+            last_error: 'This record was changed by someone else while you were offline',
+          };
+          set((state) => ({ queue: state.queue.map((m) => (m.id === mutation.id ? updated : m)) }));
+          await saveQueuedMutation(updated).catch(() => undefined);
+          blocked.add(recordKey);
+          result.conflicts++;
+          continue;
+        }
+
+        await removeApplied(mutation, outcome.updatedAt);
+        result.applied++;
+      } catch (error) {
+        if (isNetworkError(error)) {
+          // Connection dropped mid-replay; try again on the next online event
+          break;
+        }
+
+        const message = error instanceof Error
+          ? error.message
+          : typeof error === 'object' && error !== null && 'message' in error
+            ? String((error as { message: unknown }).message)
+            : 'Sync failed';
+        const updated: QueuedMutation = {
+          ...mutation,
+          status: 'failed',
+          attempts: mutation.attempts + 1,
+          last_error: message,
+        };
+        set((state) => ({ queue: state.queue.map((m) => (m.id === mutation.id ? updated : m)) }));
+        await saveQueuedMutation(updated).catch(() => undefined);
+        blocked.add(recordKey);
+        result.failed++;
+      }
+    }
+
+    result.remaining = get().queue.length;
+    set({ syncing: false, lastSyncedAt: new Date().toISOString() });
+
+    if (result.applied > 0 || result.conflicts > 0 || result.failed > 0) {
+      console.log('🔁 Offline replay:', result);
+    }
+
+    // Edits queued behind a write that was in flight go out on the next pass
+    const queuedDuringPass = get().queue.some((m) => m.status === 'pending' && !passIds.includes(m.id));
+    if (queuedDuringPass && result.applied > 0) {
+      void get().replayQueue();
+    }
+
+    return result;
+  },
+
+  keepLocalChange: async (mutationId) => {
+    const mutation = get().queue.find((m) => m.id === mutationId);
+    if (!mutation) return;
+
+    try {
+      const outcome = await applyMutation(mutation, true);
+      await removeApplied(mutation, outcome.updatedAt);
+
+      // Unblock anything queued behind this record
+      await get().replayQueue();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to apply change';
+      set((state) => ({
+        queue: state.queue.map((m) => (m.id === mutationId ? { ...m, last_error: message } : m)),
+      }));
+    }
+  },
+
+  discardMutation: async (mutationId) => {
+    const mutation = get().queue.find((m) => m.id === mutationId);
+    if (!mutation) return;
+
+    set((state) => ({ queue: state.queue.filter((m) => m.id !== mutationId) }));
+    await removeQueuedMutation(mutationId).catch(() => undefined);
+    emitSyncEvent({ kind: 'discarded', mutation, updatedAt: null });
+
+    await get().replayQueue();
+  },
+
+  retryMutation: async (mutationId) => {
+    const mutation = get().queue.find((m) => m.id === mutationId);
+    if (!mutation) return;
+
+    const updated: QueuedMutation = { ...mutation, status: 'pending', last_error: null };
+    set((state) => ({ queue: state.queue.map((m) => (m.id === mutationId ? updated : m)) }));
+    await saveQueuedMutation(updated).catch(() => undefined);
+
+    await get().replayQueue();
+  },
+
+  getPendingCount: () => get().queue.length,
+
+  getConflicts: () => get().queue.filter((m) => m.status === 'conflict'),
+
+  // Includes conflicts and failures: they still hold the record's earlier edits
+  hasQueuedWrites: (table, recordId) => get().queue.some((m) => m.table === table && m.record_id === recordId),
+}));
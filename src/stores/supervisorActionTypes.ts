@@ -0,0 +1,15 @@
+/**
+ * Type helpers for code that wraps supervisor store actions
+ * (audit trail, permission guards).
+ */
+
+import type { useSupervisorStore } from '@/stores/supervisorStore';
+
+export type SupervisorState = ReturnType<typeof useSupervisorStore.getState>;
+
+export type AsyncActionName = {
+  [K in keyof SupervisorState]: SupervisorState[K] extends (...args: never[]) => Promise<unknown> ? K : never;
+}[keyof SupervisorState];
+
+export type ActionArgs<K extends AsyncActionName> = SupervisorState[K] extends (...args: infer A) => Promise<unknown> ? A : never;
+export type ActionResult<K extends AsyncActionName> = SupervisorState[K] extends (...args: never[]) => Promise<infer R> ? R : never;
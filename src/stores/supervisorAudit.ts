@@ -0,0 +1,377 @@
+/**
+ * Supervisor Store Audit Trail
+ *
+ * Wraps the supervisor store's mutating actions so each successful call is
+ * written to the project audit log with before/after snapshots of the
+ * entities it touched. Rules live here rather than inside each action so the
+ * store stays readable and new actions only need one line of config.
+ */
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import { useAuditStore } from '@/stores/auditStore';
+import type { SupervisorState, AsyncActionName, ActionArgs, ActionResult } from '@/stores/supervisorActionTypes';
+import type { AuditEntityType } from '@/types/audit';
+
+interface AuditRule<K extends AsyncActionName> {
+  action: string;
+  entityType: AuditEntityType;
+  /** Ids of the entities the call touched */
+  targets: (args: ActionArgs<K>, result: ActionResult<K>, before: SupervisorState, after: SupervisorState) => (string | null | undefined)[];
+  metadata?: (args: ActionArgs<K>, result: ActionResult<K>) => Record<string, unknown>;
+  /** Record without entity snapshots (server-side jobs that don't change local state) */
+  withoutSnapshot?: boolean;
+}
+
+type AuditRules = { [K in AsyncActionName]?: AuditRule<K> };
+
+// ============================================================================
+// Entity Snapshots
+// ============================================================================
+
+const SNAPSHOTS: Record<AuditEntityType, (state: SupervisorState, id: string) => unknown> = {
+  project: (s, id) => s.projects.find((p) => p.id === id) ?? (s.currentProject?.id === id ? s.currentProject : undefined),
+  member: (s, id) => s.members.find((m) => m.id === id),
+  folder: (s, id) => s.folders.find((f) => f.id === id),
+  worker: (s, id) => s.workers.find((w) => w.id === id),
+  subcontractor: (s, id) => s.subcontractors.find((sc) => sc.id === id),
+  document: (s, id) => s.documents.find((d) => d.id === id),
+  document_annotation: (s, id) => s.documentAnnotations.find((a) => a.id === id),
+  retention_policy: (s, id) => s.retentionPolicies.find((p) => p.id === id),
+  routing_rule: (s, id) => s.routingRules.find((r) => r.id === id),
+  shift: (s, id) => s.shifts.find((sh) => sh.id === id) ?? (s.currentShift?.id === id ? s.currentShift : undefined),
+  shift_template: (s, id) => s.shiftTemplates.find((t) => t.id === id),
+  shift_worker: (s, id) => s.shiftWorkers.find((w) => w.id === id),
+  contact: (s, id) => s.contacts.find((c) => c.id === id),
+  daily_log: (s, id) => s.dailyLogs.find((l) => l.id === id) ?? s.siteIssues.find((l) => l.id === id),
+  daily_report: (s, id) => s.dailyReports.find((r) => r.id === id),
+  form: (s, id) => s.supervisorForms.find((f) => f.id === id),
+};
+
+const newIds = <T extends { id: string }>(before: T[], after: T[]) =>
+  after.filter((item) => !before.some((b) => b.id === item.id)).map((item) => item.id);
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+const AUDIT_RULES: AuditRules = {
+  // Projects
+  createProject: { action: 'project.create', entityType: 'project', targets: (_a, result) => [result?.id] },
+  createProjectWithSetup: { action: 'project.create', entityType: 'project', targets: (_a, result) => [result?.project.id] },
+  updateProjectEmail: { action: 'project.update_email', entityType: 'project', targets: ([projectId]) => [projectId] },
+  updateProjectReminderSettings: { action: 'project.update_reminders', entityType: 'project', targets: ([projectId]) => [projectId] },
+  setProjectLegalHold: {
+    action: 'project.legal_hold',
+    entityType: 'project',
+    targets: ([projectId]) => [projectId],
+    metadata: ([, hold, reason]) => ({ hold, reason: reason ?? null }),
+  },
+  setProjectClosed: {
+    action: 'project.close',
+    entityType: 'project',
+    targets: ([projectId]) => [projectId],
+    metadata: ([, closed]) => ({ closed }),
+  },
+
+  // Retention
+  createRetentionPolicy: { action: 'retention.create', entityType: 'retention_policy', targets: (_a, result) => [result?.id] },
+  deleteRetentionPolicy: { action: 'retention.delete', entityType: 'retention_policy', targets: ([id]) => [id] },
+
+  // Document routing
+  createRoutingRule: { action: 'routing.create', entityType: 'routing_rule', targets: (_a, result) => [result?.id] },
+  deleteRoutingRule: { action: 'routing.delete', entityType: 'routing_rule', targets: ([id]) => [id] },
+  updateAutoFileThreshold: {
+    action: 'project.update_threshold',
+    entityType: 'project',
+    targets: ([projectId]) => [projectId],
+    metadata: ([, threshold]) => ({ threshold }),
+  },
+
+  // Members
+  inviteProjectMember: {
+    action: 'member.invite',
+    entityType: 'member',
+    targets: (_a, result) => [result?.id],
+    metadata: ([, email, role]) => ({ email, role }),
+  },
+  updateProjectMemberRole: { action: 'member.update_role', entityType: 'member', targets: ([id]) => [id] },
+  removeProjectMember: { action: 'member.remove', entityType: 'member', targets: ([id]) => [id] },
+
+  // Folders
+  createFolder: { action: 'folder.create', entityType: 'folder', targets: (_a, result) => [result?.id] },
+  createBulkFolders: { action: 'folder.create', entityType: 'folder', targets: (_a, result) => result.map((f) => f.id) },
+  deleteFolder: { action: 'folder.delete', entityType: 'folder', targets: ([folderId]) => [folderId] },
+
+  // Workers
+  addWorker: { action: 'worker.add', entityType: 'worker', targets: (_a, _r, before, after) => newIds(before.workers, after.workers) },
+  removeWorker: { action: 'worker.remove', entityType: 'worker', targets: ([workerId]) => [workerId] },
+  updateWorkerSubcontractor: { action: 'worker.update', entityType: 'worker', targets: ([workerId]) => [workerId] },
+  resendWorkerInvite: { action: 'worker.invite_send', entityType: 'worker', targets: ([workerId]) => [workerId] },
+  revokeWorkerInvite: { action: 'worker.invite_revoke', entityType: 'worker', targets: ([workerId]) => [workerId] },
+
+  // Subcontractors
+  createSubcontractor: { action: 'subcontractor.create', entityType: 'subcontractor', targets: (_a, result) => [result?.id] },
+  updateSubcontractor: { action: 'subcontractor.update', entityType: 'subcontractor', targets: ([id]) => [id] },
+  deleteSubcontractor: { action: 'subcontractor.delete', entityType: 'subcontractor', targets: ([id]) => [id] },
+
+  // Documents
+  moveDocumentToFolder: {
+    action: 'document.move',
+    entityType: 'document',
+    targets: ([documentId]) => [documentId],
+    metadata: ([, folderId]) => ({ folder_id: folderId }),
+  },
+  moveDocumentsToFolder: {
+    action: 'document.move',
+    entityType: 'document',
+    targets: ([documentIds]) => documentIds,
+    metadata: ([, folderId]) => ({ folder_id: folderId }),
+  },
+  updateDocumentMetadata: { action: 'document.update', entityType: 'document', targets: ([documentId]) => [documentId] },
+  deleteDocument: {
+    action: 'document.delete',
+    entityType: 'document',
+    targets: ([documentId]) => [documentId],
+    metadata: ([, reason]) => ({ reason: reason ?? null }),
+  },
+  deleteDocuments: {
+    action: 'document.delete',
+    entityType: 'document',
+    targets: ([documentIds]) => documentIds,
+    metadata: ([, reason]) => ({ reason: reason ?? null }),
+  },
+  resolveDuplicateDocuments: {
+    action: 'document.resolve_duplicates',
+    entityType: 'document',
+    targets: ([keepId]) => [keepId],
+    metadata: ([, rejectIds]) => ({ rejected: rejectIds }),
+  },
+  routeDocuments: {
+    action: 'document.move',
+    entityType: 'document',
+    targets: ([, documentIds]) => documentIds,
+    metadata: () => ({ filing_source: 'rule' }),
+  },
+  restoreDocumentReview: { action: 'document.undo_review', entityType: 'document', targets: ([snapshot]) => [snapshot.id] },
+  addDocumentAnnotation: {
+    action: 'document.annotate',
+    entityType: 'document_annotation',
+    targets: (_a, result) => [result?.id],
+    metadata: ([input]) => ({ document_id: input.document_id, kind: input.kind, page: input.page }),
+  },
+  updateDocumentAnnotation: { action: 'document.annotation_update', entityType: 'document_annotation', targets: ([id]) => [id] },
+  deleteDocumentAnnotation: { action: 'document.annotation_delete', entityType: 'document_annotation', targets: ([id]) => [id] },
+  setDocumentLegalHold: {
+    action: 'document.legal_hold',
+    entityType: 'document',
+    targets: ([documentIds]) => documentIds,
+    metadata: ([, hold, reason]) => ({ hold, reason: reason ?? null }),
+  },
+  purgeExpiredDocuments: {
+    action: 'document.purge',
+    entityType: 'document',
+    targets: (_a, _r, before, after) => before.documents.filter((d) => !after.documents.some((a) => a.id === d.id)).map((d) => d.id),
+    metadata: (_a, purged) => ({ purged }),
+  },
+  reprocessDocumentsWithAI: {
+    action: 'document.reprocess',
+    entityType: 'project',
+    targets: ([projectId]) => [projectId],
+    metadata: (_a, result) => ({ ...result }),
+    withoutSnapshot: true,
+  },
+
+  // Shifts
+  createShift: { action: 'shift.create', entityType: 'shift', targets: (_a, result) => [result?.id] },
+  updateShift: { action: 'shift.update', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  deleteShift: { action: 'shift.delete', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  activateShift: { action: 'shift.activate', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  closeoutShift: {
+    action: 'shift.closeout',
+    entityType: 'shift',
+    targets: ([input]) => [input.shift_id],
+    metadata: ([input]) => ({ incomplete_reason: input.incomplete_reason ?? null }),
+  },
+  sendShiftNotifications: {
+    action: 'shift.notify',
+    entityType: 'shift',
+    targets: ([shiftId]) => [shiftId],
+    metadata: (_a, result) => ({ ...result }),
+    withoutSnapshot: true,
+  },
+  sendShiftReminders: {
+    action: 'shift.remind',
+    entityType: 'shift',
+    // Scheduled checks that found nobody due aren't worth a record
+    targets: ([shiftId], result) => (result.sent + result.failed + result.escalated > 0 ? [shiftId] : []),
+    metadata: ([, trigger], result) => ({ trigger: trigger ?? 'manual', ...result }),
+    withoutSnapshot: true,
+  },
+  addShiftTask: { action: 'shift.task_add', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  toggleShiftTask: { action: 'shift.task_toggle', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  removeShiftTask: { action: 'shift.task_remove', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  addShiftNote: { action: 'shift.note_add', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  updateShiftNote: { action: 'shift.note_update', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  removeShiftNote: { action: 'shift.note_remove', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  addCustomCategory: { action: 'shift.category_add', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+  removeCustomCategory: { action: 'shift.category_remove', entityType: 'shift', targets: ([shiftId]) => [shiftId] },
+
+  // Shift templates (generated shifts are audited through createShift)
+  createShiftTemplate: { action: 'shift_template.create', entityType: 'shift_template', targets: (_a, result) => [result?.id] },
+  updateShiftTemplate: { action: 'shift_template.update', entityType: 'shift_template', targets: ([templateId]) => [templateId] },
+  deleteShiftTemplate: { action: 'shift_template.delete', entityType: 'shift_template', targets: ([templateId]) => [templateId] },
+
+  // Shift workers
+  addShiftWorker: { action: 'shift_worker.add', entityType: 'shift_worker', targets: (_a, result) => [result?.id] },
+  addExistingWorkersToShift: { action: 'shift_worker.add', entityType: 'shift_worker', targets: (_a, result) => result.map((w) => w.id) },
+  removeShiftWorker: { action: 'shift_worker.remove', entityType: 'shift_worker', targets: ([id]) => [id] },
+  updateShiftWorkerNotificationStatus: { action: 'shift_worker.notification', entityType: 'shift_worker', targets: ([id]) => [id] },
+  markShiftWorkerFormSubmitted: {
+    action: 'shift_worker.form_submitted',
+    entityType: 'shift_worker',
+    targets: ([id]) => [id],
+    metadata: ([, documentId]) => ({ document_id: documentId }),
+  },
+
+  // Document → shift worker matching (confirmations are audited through linkDocumentToShiftWorker)
+  linkDocumentToShiftWorker: {
+    action: 'document.link_shift_worker',
+    entityType: 'document',
+    targets: ([documentId]) => [documentId],
+    metadata: ([, shiftWorkerId, matchedBy]) => ({ shift_worker_id: shiftWorkerId, matched_by: matchedBy ?? 'supervisor' }),
+  },
+  dismissShiftMatch: {
+    action: 'document.shift_match_dismiss',
+    entityType: 'document',
+    targets: ([matchId], _r, before) => [before.shiftMatchQueue.find((m) => m.id === matchId)?.document_id],
+    withoutSnapshot: true,
+  },
+
+  // Contacts (supervisor-wide)
+  addContact: { action: 'contact.add', entityType: 'contact', targets: (_a, result) => [result?.id] },
+  removeContact: { action: 'contact.remove', entityType: 'contact', targets: ([id]) => [id] },
+
+  // Daily logs & reports
+  addDailyLog: { action: 'daily_log.create', entityType: 'daily_log', targets: (_a, result) => [result?.id] },
+  updateDailyLog: { action: 'daily_log.update', entityType: 'daily_log', targets: ([id]) => [id] },
+  deleteDailyLog: { action: 'daily_log.delete', entityType: 'daily_log', targets: ([id]) => [id] },
+  toggleSiteIssueStatus: { action: 'daily_log.status', entityType: 'daily_log', targets: ([id]) => [id] },
+  updateSiteIssue: {
+    action: 'site_issue.update',
+    entityType: 'daily_log',
+    targets: ([id]) => [id],
+    metadata: ([, input]) => ({ fields: Object.keys(input) }),
+  },
+  addSiteIssueComment: { action: 'site_issue.comment', entityType: 'daily_log', targets: ([id]) => [id] },
+  uploadSiteIssuePhoto: {
+    action: 'site_issue.photo',
+    entityType: 'daily_log',
+    targets: ([id]) => [id],
+    metadata: ([, , stage]) => ({ stage }),
+  },
+  sendSiteIssueNotice: {
+    action: 'site_issue.notify',
+    entityType: 'daily_log',
+    targets: ([id]) => [id],
+    metadata: (_a, notice) => ({ email: notice?.email ?? null, delivery_status: notice?.delivery_status ?? null }),
+  },
+  generateDailyReport: { action: 'daily_report.create', entityType: 'daily_report', targets: (_a, result) => [result?.id] },
+  updateDailyReport: { action: 'daily_report.update', entityType: 'daily_report', targets: ([id]) => [id] },
+  deleteDailyReport: { action: 'daily_report.delete', entityType: 'daily_report', targets: ([id]) => [id] },
+  uploadDailyReportPdf: { action: 'daily_report.export_pdf', entityType: 'daily_report', targets: ([id]) => [id] },
+  generateAIDailyReport: {
+    action: 'form.generate_daily_report',
+    entityType: 'form',
+    targets: (_a, result) => [result],
+    metadata: ([, reportDate]) => ({ report_date: reportDate }),
+    withoutSnapshot: true,
+  },
+
+  // Supervisor forms
+  createSupervisorForm: { action: 'form.create', entityType: 'form', targets: (_a, result) => [result?.id] },
+  saveSupervisorForm: {
+    action: 'form.update',
+    entityType: 'form',
+    targets: ([formId]) => [formId],
+    metadata: ([, , restoredFrom]) => (restoredFrom ? { restored_from: restoredFrom } : {}),
+  },
+  deleteSupervisorForm: { action: 'form.delete', entityType: 'form', targets: ([id]) => [id] },
+  archiveSupervisorForm: { action: 'form.archive', entityType: 'form', targets: ([id]) => [id] },
+  finalizeSupervisorForm: { action: 'form.finalize', entityType: 'form', targets: ([id], ok) => (ok ? [id] : []) },
+  startFormAmendment: {
+    action: 'form.amend',
+    entityType: 'form',
+    targets: ([id], ok) => (ok ? [id] : []),
+    metadata: ([, reason]) => ({ reason }),
+  },
+};
+
+// ============================================================================
+// Installation
+// ============================================================================
+
+function projectIdOf(snapshot: unknown, entityType: AuditEntityType, entityId: string, state: SupervisorState): string | null {
+  if (entityType === 'project') return entityId;
+  if (entityType === 'contact') return null;
+  const fromSnapshot = (snapshot as { project_id?: string | null } | undefined)?.project_id;
+  return fromSnapshot ?? state.currentProject?.id ?? null;
+}
+
+let installed = false;
+
+/**
+ * Wrap the audited supervisor store actions. Call once at startup.
+ */
+export function installSupervisorAudit() {
+  if (installed) return;
+  installed = true;
+
+  const state = useSupervisorStore.getState();
+  const wrapped: Partial<Record<AsyncActionName, unknown>> = {};
+
+  for (const name of Object.keys(AUDIT_RULES) as AsyncActionName[]) {
+    const rule = AUDIT_RULES[name] as AuditRule<AsyncActionName> | undefined;
+    const original = state[name] as unknown as (...args: unknown[]) => Promise<unknown>;
+    if (!rule || typeof original !== 'function') continue;
+
+    wrapped[name] = async (...args: unknown[]) => {
+      const before = useSupervisorStore.getState();
+      const result = await original(...args);
+      const after = useSupervisorStore.getState();
+
+      // Actions report failure through the shared error field
+      if (after.error !== null && after.error !== before.error) return result;
+
+      try {
+        const ids = rule
+          .targets(args as never, result as never, before, after)
+          .filter((id): id is string => typeof id === 'string' && id.length > 0);
+        const metadata = rule.metadata?.(args as never, result as never) ?? {};
+
+        for (const entityId of ids) {
+          const beforeSnapshot = rule.withoutSnapshot ? null : SNAPSHOTS[rule.entityType](before, entityId) ?? null;
+          const afterSnapshot = rule.withoutSnapshot ? null : SNAPSHOTS[rule.entityType](after, entityId) ?? null;
+
+          // Nothing changed locally (no-op or swallowed failure)
+          if (!rule.withoutSnapshot && JSON.stringify(beforeSnapshot) === JSON.stringify(afterSnapshot)) continue;
+
+          void useAuditStore.getState().recordAuditEntry({
+            project_id: projectIdOf(afterSnapshot ?? beforeSnapshot, rule.entityType, entityId, after),
+            action: rule.action,
+            entity_type: rule.entityType,
+            entity_id: entityId,
+            before: beforeSnapshot,
+            after: afterSnapshot,
+            metadata,
+          });
+        }
+      } catch (error) {
+        console.error('Failed to build audit entry for', name, error);
+      }
+
+      return result;
+    };
+  }
+
+  useSupervisorStore.setState(wrapped as Partial<SupervisorState>);
+}
@@ -0,0 +1,241 @@
+/**
+ * Supervisor Store Permission Guards
+ *
+ * Wraps the supervisor store's mutating actions so a call the user's project
+ * role does not allow fails with a readable error instead of reaching the
+ * database. Screens hide these actions too (see canPerform); this is the
+ * backstop for anything that slips through.
+ */
+
+import { useSupervisorStore } from '@/stores/supervisorStore';
+import type { SupervisorState, AsyncActionName, ActionArgs, ActionResult } from '@/stores/supervisorActionTypes';
+import type { ProjectPermission } from '@/types/supervisor';
+import { PROJECT_ROLE_CONFIG } from '@/types/supervisor';
+
+interface PermissionRule<K extends AsyncActionName> {
+  permission: ProjectPermission;
+  /** Project the call acts on; undefined when it can't be resolved locally */
+  projectId: (args: ActionArgs<K>, state: SupervisorState) => string | null | undefined;
+  /** Value to return when the call is refused (defaults to undefined) */
+  denied?: (message: string) => ActionResult<K>;
+}
+
+type PermissionRules = { [K in AsyncActionName]?: PermissionRule<K> };
+
+const PERMISSION_LABELS: Record<ProjectPermission, string> = {
+  'project.manage': 'change project settings',
+  'members.manage': 'manage project members',
+  'folders.manage': 'manage folders',
+  'workers.manage': 'manage workers and subcontractors',
+  'documents.review': 'file or edit documents',
+  'documents.delete': 'delete documents',
+  'shifts.manage': 'manage shifts',
+  'shifts.closeout': 'close out shifts',
+  'logs.edit': 'edit daily logs and reports',
+  'forms.edit': 'edit supervisor forms',
+};
+
+// ============================================================================
+// Project Lookups
+// ============================================================================
+
+const projectOf = {
+  folder: (s: SupervisorState, id: string) => s.folders.find((f) => f.id === id)?.project_id,
+  worker: (s: SupervisorState, id: string) => s.workers.find((w) => w.id === id)?.project_id,
+  subcontractor: (s: SupervisorState, id: string) => s.subcontractors.find((sc) => sc.id === id)?.project_id,
+  document: (s: SupervisorState, id: string | undefined) => s.documents.find((d) => d.id === id)?.project_id,
+  shift: (s: SupervisorState, id: string | undefined) =>
+    (s.shifts.find((sh) => sh.id === id) ?? (s.currentShift?.id === id ? s.currentShift : undefined))?.project_id,
+  shiftTemplate: (s: SupervisorState, id: string) => s.shiftTemplates.find((t) => t.id === id)?.project_id,
+  shiftWorker: (s: SupervisorState, id: string) => projectOf.shift(s, s.shiftWorkers.find((w) => w.id === id)?.shift_id),
+  shiftMatch: (s: SupervisorState, id: string) => s.shiftMatchQueue.find((m) => m.id === id)?.project_id,
+  member: (s: SupervisorState, id: string) => s.members.find((m) => m.id === id)?.project_id,
+  dailyLog: (s: SupervisorState, id: string) =>
+    (s.dailyLogs.find((l) => l.id === id) ?? s.siteIssues.find((l) => l.id === id))?.project_id,
+  dailyReport: (s: SupervisorState, id: string) => s.dailyReports.find((r) => r.id === id)?.project_id,
+  form: (s: SupervisorState, id: string) => s.supervisorForms.find((f) => f.id === id)?.project_id,
+  annotation: (s: SupervisorState, id: string) => s.documentAnnotations.find((a) => a.id === id)?.project_id,
+  retentionPolicy: (s: SupervisorState, id: string) => s.retentionPolicies.find((p) => p.id === id)?.project_id,
+  routingRule: (s: SupervisorState, id: string) => s.routingRules.find((r) => r.id === id)?.project_id,
+};
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+const PERMISSION_RULES: PermissionRules = {
+  // Project settings & members
+  updateProjectEmail: { permission: 'project.manage', projectId: ([projectId]) => projectId },
+  inviteProjectMember: { permission: 'members.manage', projectId: ([projectId]) => projectId, denied: () => null },
+  updateProjectMemberRole: { permission: 'members.manage', projectId: ([id], s) => projectOf.member(s, id) },
+  removeProjectMember: { permission: 'members.manage', projectId: ([id], s) => projectOf.member(s, id) },
+
+  // Folders
+  createFolder: { permission: 'folders.manage', projectId: ([input]) => input.project_id, denied: () => null },
+  createBulkFolders: { permission: 'folders.manage', projectId: ([projectId]) => projectId, denied: () => [] },
+  deleteFolder: { permission: 'folders.manage', projectId: ([id], s) => projectOf.folder(s, id) },
+
+  // Workers & subcontractors
+  addWorker: {
+    permission: 'workers.manage',
+    projectId: ([projectId]) => projectId,
+    // addWorker reports failure by throwing
+    denied: (message) => {
+      throw new Error(message);
+    },
+  },
+  removeWorker: { permission: 'workers.manage', projectId: ([id], s) => projectOf.worker(s, id) },
+  updateWorkerSubcontractor: { permission: 'workers.manage', projectId: ([id], s) => projectOf.worker(s, id) },
+  resendWorkerInvite: { permission: 'workers.manage', projectId: ([id], s) => projectOf.worker(s, id) },
+  revokeWorkerInvite: { permission: 'workers.manage', projectId: ([id], s) => projectOf.worker(s, id) },
+  createSubcontractor: { permission: 'workers.manage', projectId: ([input]) => input.project_id, denied: () => null },
+  updateSubcontractor: { permission: 'workers.manage', projectId: ([id], s) => projectOf.subcontractor(s, id) },
+  deleteSubcontractor: { permission: 'workers.manage', projectId: ([id], s) => projectOf.subcontractor(s, id) },
+
+  // Documents
+  moveDocumentToFolder: { permission: 'documents.review', projectId: ([id], s) => projectOf.document(s, id) },
+  moveDocumentsToFolder: { permission: 'documents.review', projectId: ([ids], s) => projectOf.document(s, ids[0]) },
+  updateDocumentMetadata: { permission: 'documents.review', projectId: ([id], s) => projectOf.document(s, id) },
+  deleteDocument: { permission: 'documents.delete', projectId: ([id], s) => projectOf.document(s, id) },
+  deleteDocuments: { permission: 'documents.delete', projectId: ([ids], s) => projectOf.document(s, ids[0]) },
+  resolveDuplicateDocuments: { permission: 'documents.delete', projectId: ([id], s) => projectOf.document(s, id) },
+  restoreDocumentReview: { permission: 'documents.review', projectId: ([snapshot]) => snapshot.project_id },
+  reprocessDocumentsWithAI: {
+    permission: 'documents.review',
+    projectId: ([projectId]) => projectId,
+    denied: (message) => ({ success: false, processed: 0, filed: 0, message }),
+  },
+  hashDocumentContents: { permission: 'documents.review', projectId: ([projectId]) => projectId, denied: () => 0 },
+  addDocumentAnnotation: { permission: 'documents.review', projectId: ([input]) => input.project_id, denied: () => null },
+  updateDocumentAnnotation: { permission: 'documents.review', projectId: ([id], s) => projectOf.annotation(s, id) },
+  deleteDocumentAnnotation: { permission: 'documents.review', projectId: ([id], s) => projectOf.annotation(s, id) },
+
+  // Retention & legal hold
+  createRetentionPolicy: { permission: 'project.manage', projectId: ([input]) => input.project_id, denied: () => null },
+  deleteRetentionPolicy: { permission: 'project.manage', projectId: ([id], s) => projectOf.retentionPolicy(s, id) },
+  setDocumentLegalHold: { permission: 'project.manage', projectId: ([ids], s) => projectOf.document(s, ids[0]) },
+  setProjectLegalHold: { permission: 'project.manage', projectId: ([projectId]) => projectId },
+  setProjectClosed: { permission: 'project.manage', projectId: ([projectId]) => projectId },
+  purgeExpiredDocuments: { permission: 'project.manage', projectId: ([projectId]) => projectId, denied: () => 0 },
+
+  // Document routing
+  createRoutingRule: { permission: 'folders.manage', projectId: ([input]) => input.project_id, denied: () => null },
+  deleteRoutingRule: { permission: 'folders.manage', projectId: ([id], s) => projectOf.routingRule(s, id) },
+  updateAutoFileThreshold: { permission: 'folders.manage', projectId: ([projectId]) => projectId },
+
+  // Shifts
+  createShift: { permission: 'shifts.manage', projectId: ([input]) => input.project_id, denied: () => null },
+  updateShift: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  deleteShift: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  activateShift: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  closeoutShift: { permission: 'shifts.closeout', projectId: ([input], s) => projectOf.shift(s, input.shift_id) },
+  sendShiftNotifications: {
+    permission: 'shifts.manage',
+    projectId: ([id], s) => projectOf.shift(s, id),
+    denied: (message) => ({ success: false, sent: 0, failed: 0, message }),
+  },
+  sendShiftReminders: {
+    permission: 'shifts.manage',
+    projectId: ([id], s) => projectOf.shift(s, id),
+    denied: (message) => ({ success: false, sent: 0, failed: 0, escalated: 0, message }),
+  },
+  updateProjectReminderSettings: { permission: 'shifts.manage', projectId: ([projectId]) => projectId },
+  addShiftTask: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  toggleShiftTask: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  removeShiftTask: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  addShiftNote: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  updateShiftNote: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  removeShiftNote: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  addCustomCategory: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+  removeCustomCategory: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id) },
+
+  // Shift templates
+  createShiftTemplate: { permission: 'shifts.manage', projectId: ([input]) => input.project_id, denied: () => null },
+  updateShiftTemplate: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shiftTemplate(s, id) },
+  deleteShiftTemplate: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shiftTemplate(s, id) },
+  generateShiftsFromTemplates: { permission: 'shifts.manage', projectId: ([projectId]) => projectId, denied: () => [] },
+
+  // Shift workers
+  addShiftWorker: { permission: 'shifts.manage', projectId: ([input], s) => projectOf.shift(s, input.shift_id), denied: () => null },
+  addExistingWorkersToShift: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shift(s, id), denied: () => [] },
+  removeShiftWorker: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shiftWorker(s, id) },
+  updateShiftWorkerNotificationStatus: { permission: 'shifts.manage', projectId: ([id], s) => projectOf.shiftWorker(s, id) },
+  markShiftWorkerFormSubmitted: { permission: 'documents.review', projectId: ([id], s) => projectOf.shiftWorker(s, id) },
+
+  // Document → shift worker matching
+  autoMatchDocuments: {
+    permission: 'documents.review',
+    projectId: ([projectId]) => projectId,
+    denied: () => ({ matched: 0, queued: 0 }),
+  },
+  routeDocuments: { permission: 'documents.review', projectId: ([projectId]) => projectId, denied: () => 0 },
+  linkDocumentToShiftWorker: { permission: 'documents.review', projectId: ([id], s) => projectOf.document(s, id), denied: () => false },
+  confirmShiftMatch: { permission: 'documents.review', projectId: ([id], s) => projectOf.shiftMatch(s, id) },
+  dismissShiftMatch: { permission: 'documents.review', projectId: ([id], s) => projectOf.shiftMatch(s, id) },
+
+  // Daily logs & reports
+  addDailyLog: { permission: 'logs.edit', projectId: ([input]) => input.project_id, denied: () => null },
+  updateDailyLog: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyLog(s, id) },
+  deleteDailyLog: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyLog(s, id) },
+  toggleSiteIssueStatus: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyLog(s, id) },
+  updateSiteIssue: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyLog(s, id) },
+  addSiteIssueComment: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyLog(s, id) },
+  uploadSiteIssuePhoto: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyLog(s, id), denied: () => null },
+  sendSiteIssueNotice: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyLog(s, id), denied: () => null },
+  generateDailyReport: { permission: 'logs.edit', projectId: ([input]) => input.project_id, denied: () => null },
+  updateDailyReport: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyReport(s, id) },
+  deleteDailyReport: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyReport(s, id) },
+  uploadDailyReportPdf: { permission: 'logs.edit', projectId: ([id], s) => projectOf.dailyReport(s, id), denied: () => null },
+  generateAIDailyReport: { permission: 'forms.edit', projectId: ([projectId]) => projectId, denied: () => null },
+
+  // Supervisor forms
+  createSupervisorForm: { permission: 'forms.edit', projectId: ([input]) => input.project_id, denied: () => null },
+  saveSupervisorForm: { permission: 'forms.edit', projectId: ([id], s) => projectOf.form(s, id) },
+  deleteSupervisorForm: { permission: 'forms.edit', projectId: ([id], s) => projectOf.form(s, id) },
+  archiveSupervisorForm: { permission: 'forms.edit', projectId: ([id], s) => projectOf.form(s, id) },
+  finalizeSupervisorForm: { permission: 'forms.edit', projectId: ([id], s) => projectOf.form(s, id), denied: () => false },
+  startFormAmendment: { permission: 'forms.edit', projectId: ([id], s) => projectOf.form(s, id), denied: () => false },
+  restoreFormRevision: { permission: 'forms.edit', projectId: ([id], s) => projectOf.form(s, id) },
+};
+
+// ============================================================================
+// Installation
+// ============================================================================
+
+let installed = false;
+
+/**
+ * Wrap the guarded supervisor store actions. Call once at startup, before
+ * installSupervisorAudit so refused calls are never audited.
+ */
+export function installSupervisorPermissions() {
+  if (installed) return;
+  installed = true;
+
+  const state = useSupervisorStore.getState();
+  const wrapped: Partial<Record<AsyncActionName, unknown>> = {};
+
+  for (const name of Object.keys(PERMISSION_RULES) as AsyncActionName[]) {
+    const rule = PERMISSION_RULES[name] as PermissionRule<AsyncActionName> | undefined;
+    const original = state[name] as unknown as (...args: unknown[]) => Promise<unknown>;
+    if (!rule || typeof original !== 'function') continue;
+
+    wrapped[name] = async (...args: unknown[]) => {
+      const current = useSupervisorStore.getState();
+      const targetProjectId = rule.projectId(args as never, current) ?? current.currentProject?.id;
+
+      if (!current.canPerform(targetProjectId, rule.permission)) {
+        const role = current.getProjectRole(targetProjectId);
+        const roleLabel = role ? PROJECT_ROLE_CONFIG[role].label : 'Your role';
+        const message = `${roleLabel} access can't ${PERMISSION_LABELS[rule.permission]} on this project`;
+        console.warn('🔒 Blocked', name, '-', message);
+        useSupervisorStore.setState({ error: message, loading: false });
+        return rule.denied?.(message);
+      }
+
+      return original(...args);
+    };
+  }
+
+  useSupervisorStore.setState(wrapped as Partial<SupervisorState>);
+}
@@ -6,19 +6,30 @@ import type {
   SupervisorFormInstance,
   CreateSupervisorFormInput,
   CombinedFormItem,
-  FormTypeId,
+  FormSubmissionSnapshot,
+  FormRevision,
 } from '@/types/supervisorForms';
-import { getFormTypeConfig } from '@/types/supervisorForms';
+import type { FormDefinitionRow, FormTemplate } from '@/types/formTemplates';
+import { getFormTypeConfig, isFormLocked } from '@/types/supervisorForms';
+import { getFormTemplate, parseFormDefinition } from '@/config/formTemplates';
+import { getMissingRequiredFields, hashFormData, diffFormData } from '@/utils/formData';
+import { fetchAllPages } from '@/utils/pagedQuery';
 import type {
   SupervisorProject,
   ProjectFolder,
   ProjectWorker,
   ProjectSubcontractor,
   ReceivedDocument,
+  DocumentAnnotation,
+  CreateDocumentAnnotationInput,
   CreateProjectInput,
   CreateFolderInput,
   CreateSubcontractorInput,
   UpdateSubcontractorInput,
+  // Member types
+  ProjectMember,
+  ProjectRole,
+  ProjectPermission,
   // Shift types
   ProjectShift,
   ProjectShiftWithStats,
@@ -28,6 +39,25 @@ import type {
   AddShiftWorkerInput,
   CloseoutShiftInput,
   CloseoutChecklistItem,
+  // Shift reminder types
+  ShiftReminder,
+  // Document matching types
+  DocumentShiftMatch,
+  // Retention types
+  RetentionPolicy,
+  CreateRetentionPolicyInput,
+  // Routing types
+  DocumentRoutingRule,
+  CreateDocumentRoutingRuleInput,
+  // Review learning types
+  DocumentMetadata,
+  DocumentReviewExample,
+  DocumentNameAlias,
+  ShiftReminderSettings,
+  // Shift template types
+  ShiftTemplate,
+  CreateShiftTemplateInput,
+  UpdateShiftTemplateInput,
   // Shift tasks/notes types
   ShiftTask,
   ShiftNote,
@@ -46,8 +76,30 @@ import type {
   UpdateDailyLogInput,
   CreateDailyReportInput,
   SiteIssueStatus,
+  SiteIssueMetadata,
+  SiteIssueActivity,
+  SiteIssueActivityKind,
+  SiteIssuePhoto,
+  UpdateSiteIssueInput,
+  SiteIssueNotice,
+  SiteIssueNoticeView,
+  AnalyticsData,
+  AnalyticsDocument,
+  AnalyticsShift,
 } from '@/types/supervisor';
-import { getEffectiveMetadata } from '@/types/supervisor';
+import { getEffectiveMetadata, DAILY_LOG_TYPE_CONFIG, SITE_ISSUE_STATUS_CONFIG, hasProjectPermission } from '@/types/supervisor';
+import type { EnqueueMutationInput, OfflineTable } from '@/types/offlineSync';
+import { useOfflineSyncStore, onSyncEvent } from '@/stores/offlineSyncStore';
+import { isNetworkError } from '@/utils/offlineQueue';
+import { getWorkerInviteUrl } from '@/utils/hrdhatLinks';
+import { getDueReminderWorkers, getReminderEscalations, getReminderSettings } from '@/utils/shiftReminders';
+import { DEFAULT_RECURRENCE, getGeneratedShiftName, getPendingTemplateDates, toLocalDate } from '@/utils/shiftRecurrence';
+import { getPurgePreview, isDocumentOnLegalHold } from '@/utils/retention';
+import { countDistinctDocuments, getContentHash } from '@/utils/duplicateDetection';
+import { findRoutingRule, getAutoFileThreshold, normalizeEmailDomain } from '@/utils/documentRouting';
+import { buildReviewExample, getFewShotExamples, getNameCorrections } from '@/utils/reviewLearning';
+import { decideShiftMatch, isHazardAssessment, rankShiftMatches } from '@/utils/shiftMatching';
+import { getNotifier, getSiteIssueResponseUrl } from '@/utils/notifier';
 
 // Form type presets for the setup wizard
 export const FORM_TYPE_PRESETS = [
@@ -61,6 +113,577 @@ export const FORM_TYPE_PRESETS = [
   { name: 'Lockout/Tagout', hint: 'Energy isolation, LOTO procedures', color: '#0EA5E9' },
 ] as const;
 
+// Intake doesn't hash files, so the browser hashes them a batch at a time
+const HASH_BATCH_SIZE = 25;
+
+// ============================================================================
+// Offline Write Helpers
+// Field-facing writes (daily logs, shifts, supervisor forms) go through these
+// so they are queued for replay when there is no connection instead of failing.
+// ============================================================================
+
+interface OfflineWriteOptions {
+  projectId: string | null;
+  label: string;
+  baseUpdatedAt?: string | null;
+}
+
+/**
+ * Resolve the signed-in user's id. getUser() needs the auth server, so when
+ * offline fall back to the locally persisted session.
+ */
+async function getWriterId(): Promise<string | null> {
+  if (!navigator.onLine) {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user?.id ?? null;
+}
+
+/**
+ * Copy the server's updated_at onto the matching local record so the next
+ * queued edit uses the right base timestamp for conflict detection.
+ */
+function patchLocalUpdatedAt(table: OfflineTable, recordId: string, updatedAt: string) {
+  useSupervisorStore.setState((state) => {
+    switch (table) {
+      case 'project_daily_logs':
+        return patchDailyLog(state, recordId, { updated_at: updatedAt });
+      case 'project_shifts':
+        return {
+          shifts: state.shifts.map((s) => (s.id === recordId ? { ...s, updated_at: updatedAt } : s)),
+          currentShift: state.currentShift?.id === recordId
+            ? { ...state.currentShift, updated_at: updatedAt }
+            : state.currentShift,
+        };
+      case 'form_instances':
+        return {
+          supervisorForms: state.supervisorForms.map((form) =>
+            form.id === recordId ? { ...form, updated_at: updatedAt } : form
+          ),
+        };
+      case 'form_instance_revisions':
+      case 'project_audit_log':
+        return {};
+    }
+  });
+}
+
+/**
+ * Whether a write can go straight to Supabase. Online writes to a record that
+ * still has queued writes would land before them, so they queue behind instead.
+ */
+function canWriteDirectly(table: OfflineTable, recordId: string): boolean {
+  return navigator.onLine && !useOfflineSyncStore.getState().hasQueuedWrites(table, recordId);
+}
+
+/**
+ * Queue a write, and start a replay when online so it doesn't wait for the
+ * next reconnect
+ */
+async function enqueueWrite(input: EnqueueMutationInput) {
+  const sync = useOfflineSyncStore.getState();
+  await sync.enqueueMutation(input);
+  if (navigator.onLine) void sync.replayQueue();
+}
+
+/**
+ * Lay queued writes over freshly fetched rows so offline edits don't vanish
+ * from the UI on refetch or reload. include decides whether a queued insert
+ * belongs in this result (same project, date range, ...).
+ */
+function overlayQueuedWrites<T extends { id: string }>(
+  table: OfflineTable,
+  rows: T[],
+  include: (row: Record<string, unknown>) => boolean
+): T[] {
+  const queued = useOfflineSyncStore.getState().queue.filter((m) => m.table === table);
+  if (queued.length === 0) return rows;
+
+  let result = [...rows];
+  for (const mutation of queued) {
+    if (mutation.operation === 'insert') {
+      const row = { created_at: mutation.created_at, updated_at: mutation.created_at, ...mutation.payload };
+      if (include(row) && !result.some((r) => r.id === mutation.record_id)) result = [row as unknown as T, ...result];
+    } else if (mutation.operation === 'update') {
+      result = result.map((r) => (r.id === mutation.record_id ? { ...r, ...mutation.payload } : r));
+    } else {
+      result = result.filter((r) => r.id !== mutation.record_id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Insert a row, or queue it when offline. The row must carry a client-generated
+ * id so the optimistic record and the replayed insert line up.
+ * Returns the stored row (online) or the optimistic row (queued).
+ */
+async function persistInsert(
+  table: OfflineTable,
+  row: Record<string, unknown> & { id: string },
+  options: OfflineWriteOptions
+): Promise<Record<string, unknown>> {
+  const now = new Date().toISOString();
+  const optimisticRow = { created_at: now, updated_at: now, ...row };
+
+  if (canWriteDirectly(table, row.id)) {
+    const { data, error } = await supabase.from(table).insert(row).select().single();
+
+    if (!error) return data;
+    if (!isNetworkError(error)) throw error;
+  }
+
+  await enqueueWrite({
+    table,
+    operation: 'insert',
+    record_id: row.id,
+    project_id: options.projectId,
+    payload: row,
+    label: options.label,
+  });
+
+  return optimisticRow;
+}
+
+/**
+ * Update a row, or queue the change when offline
+ */
+async function persistUpdate(
+  table: OfflineTable,
+  recordId: string,
+  changes: Record<string, unknown>,
+  options: OfflineWriteOptions
+): Promise<void> {
+  if (canWriteDirectly(table, recordId)) {
+    const { data, error } = await supabase
+      .from(table)
+      .update(changes)
+      .eq('id', recordId)
+      .select('updated_at')
+      .maybeSingle();
+
+    if (!error) {
+      // No row matched: deleted, or not visible to this user
+      if (!data) throw new Error('This record no longer exists');
+      if (data.updated_at) patchLocalUpdatedAt(table, recordId, data.updated_at);
+      return;
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  await enqueueWrite({
+    table,
+    operation: 'update',
+    record_id: recordId,
+    project_id: options.projectId,
+    payload: changes,
+    base_updated_at: options.baseUpdatedAt ?? null,
+    label: options.label,
+  });
+}
+
+/**
+ * Delete a row, or queue the delete when offline
+ */
+async function persistDelete(
+  table: OfflineTable,
+  recordId: string,
+  options: OfflineWriteOptions
+): Promise<void> {
+  if (canWriteDirectly(table, recordId)) {
+    const { error } = await supabase.from(table).delete().eq('id', recordId);
+
+    if (!error) return;
+    if (!isNetworkError(error)) throw error;
+  }
+
+  await enqueueWrite({
+    table,
+    operation: 'delete',
+    record_id: recordId,
+    project_id: options.projectId,
+    base_updated_at: options.baseUpdatedAt ?? null,
+    label: options.label,
+  });
+}
+
+// ============================================================================
+// Project Member Helpers
+// ============================================================================
+
+/**
+ * Record the creator as the project's owner. Not fatal: the creator is still
+ * treated as owner through supervisor_id if this insert fails.
+ */
+async function insertOwnerMembership(projectId: string, userId: string, email: string | undefined) {
+  const { error } = await supabase.from('project_members').insert({
+    project_id: projectId,
+    user_id: userId,
+    email: (email ?? '').toLowerCase(),
+    role: 'owner',
+    status: 'active',
+    invited_by: userId,
+    accepted_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('Failed to create owner membership:', error);
+  }
+}
+
+/** Per-recipient outcome returned by the send-shift-reminders Edge Function */
+interface ReminderSendResponse {
+  reminders?: { shift_worker_id: string; status: 'sent' | 'failed'; recipient?: string; error?: string }[];
+  escalations?: { subcontractor_id: string; status: 'sent' | 'failed'; error?: string }[];
+}
+
+/**
+ * Claim a shift worker's next reminder or escalation before sending it. The
+ * update only lands if the counter still holds the value we read, so when
+ * several supervisors have the project open exactly one of them sends it.
+ */
+async function claimShiftWorker(
+  workerId: string,
+  counter: 'reminder_count' | 'manual_reminder_count' | 'escalation_attempts',
+  expected: number,
+  update: Partial<ShiftWorker>
+): Promise<boolean> {
+  let query = supabase.from('shift_workers').update(update).eq('id', workerId).eq(counter, expected);
+  if (counter === 'escalation_attempts') query = query.is('escalated_at', null);
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Fill in JSONB defaults on a project_shift_templates row
+ */
+function normalizeShiftTemplate(row: ShiftTemplate): ShiftTemplate {
+  return {
+    ...row,
+    shift_tasks: row.shift_tasks ?? [],
+    shift_notes: row.shift_notes ?? [],
+    custom_categories: row.custom_categories ?? [],
+    worker_ids: row.worker_ids ?? [],
+    adhoc_workers: row.adhoc_workers ?? [],
+    recurrence: { ...DEFAULT_RECURRENCE, ...row.recurrence },
+  };
+}
+
+function findProject(state: SupervisorState, projectId: string): SupervisorProject | null {
+  return state.projects.find((p) => p.id === projectId) ?? (state.currentProject?.id === projectId ? state.currentProject : null);
+}
+
+/**
+ * Error message when any of the documents is under a legal hold, else null
+ */
+function getLegalHoldError(state: SupervisorState, documentIds: string[]): string | null {
+  const held = state.documents.filter(
+    (d) => documentIds.includes(d.id) && isDocumentOnLegalHold(d, findProject(state, d.project_id))
+  );
+  if (held.length === 0) return null;
+  return documentIds.length === 1
+    ? `"${held[0].original_filename ?? 'This document'}" is on legal hold and can't be deleted`
+    : `${held.length} of the selected documents are on legal hold and can't be deleted`;
+}
+
+// How many past reviews to load as routing examples
+const REVIEW_EXAMPLE_LIMIT = 500;
+
+async function queryReviewLearning(
+  projectId: string
+): Promise<{ examples: DocumentReviewExample[]; aliases: DocumentNameAlias[] }> {
+  const [examplesResult, aliasesResult] = await Promise.all([
+    supabase
+      .from('document_review_examples')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(REVIEW_EXAMPLE_LIMIT),
+    supabase.from('document_name_aliases').select('*').eq('project_id', projectId),
+  ]);
+
+  if (examplesResult.error) throw examplesResult.error;
+  if (aliasesResult.error) throw aliasesResult.error;
+
+  return { examples: examplesResult.data ?? [], aliases: aliasesResult.data ?? [] };
+}
+
+/**
+ * Save what the supervisor changed on each document's first review as a
+ * routing example, and respelled names as aliases. Never fails the review
+ * itself; returns what was saved so callers can merge it into state.
+ */
+async function recordReviewExamples(
+  documents: ReceivedDocument[],
+  folderId: string | null,
+  userId: string,
+  metadata?: Partial<DocumentMetadata>
+): Promise<{ examples: DocumentReviewExample[]; aliases: DocumentNameAlias[] }> {
+  const drafts = documents
+    .map((doc) => buildReviewExample(doc, folderId, metadata))
+    .filter((draft): draft is NonNullable<typeof draft> => draft !== null);
+
+  if (drafts.length === 0) return { examples: [], aliases: [] };
+
+  try {
+    const { data: examples, error } = await supabase
+      .from('document_review_examples')
+      .insert(drafts.map((draft) => ({ ...draft, created_by: userId })))
+      .select();
+
+    if (error) throw error;
+
+    const corrections = drafts.flatMap((draft) =>
+      getNameCorrections(draft).map((c) => ({ ...c, project_id: draft.project_id, updated_at: new Date().toISOString() }))
+    );
+
+    let aliases: DocumentNameAlias[] = [];
+    if (corrections.length > 0) {
+      const { data, error: aliasError } = await supabase
+        .from('document_name_aliases')
+        .upsert(corrections, { onConflict: 'project_id,kind,alias' })
+        .select();
+
+      if (aliasError) throw aliasError;
+      aliases = data ?? [];
+    }
+
+    if (drafts.some((d) => d.overridden)) console.log(`🎓 Recorded ${drafts.length} review example(s)`);
+    return { examples: examples ?? [], aliases };
+  } catch (error) {
+    console.error('❌ Failed to record review examples:', error);
+    return { examples: [], aliases: [] };
+  }
+}
+
+function mergeReviewLearning(
+  state: SupervisorState,
+  learned: { examples: DocumentReviewExample[]; aliases: DocumentNameAlias[] }
+): Pick<SupervisorState, 'reviewExamples' | 'nameAliases'> {
+  return {
+    reviewExamples: [...learned.examples, ...state.reviewExamples],
+    nameAliases: [...state.nameAliases.filter((a) => !learned.aliases.some((n) => n.id === a.id)), ...learned.aliases],
+  };
+}
+
+/**
+ * File unsorted documents that match one of the project's routing rules, or
+ * only the given ones. Returns the ids filed per folder; the rest are left for
+ * the AI.
+ */
+async function fileDocumentsByRoutingRules(
+  state: SupervisorState,
+  projectId: string,
+  aliases: DocumentNameAlias[],
+  documentIds?: string[]
+): Promise<Map<string, string[]>> {
+  const filed = new Map<string, string[]>();
+  const { data: rules, error } = await supabase
+    .from('document_routing_rules')
+    .select('*')
+    .eq('project_id', projectId);
+
+  if (error) throw error;
+  if (!rules || rules.length === 0) return filed;
+
+  const subcontractors = state.subcontractors.filter((sc) => sc.project_id === projectId);
+  const byFolder = new Map<string, string[]>();
+  for (const doc of state.documents) {
+    if (doc.project_id !== projectId || doc.folder_id !== null || doc.status === 'rejected') continue;
+    if (documentIds && !documentIds.includes(doc.id)) continue;
+    const rule = findRoutingRule(doc, rules, subcontractors, aliases);
+    if (!rule || !state.folders.some((f) => f.id === rule.folder_id)) continue;
+    byFolder.set(rule.folder_id, [...(byFolder.get(rule.folder_id) ?? []), doc.id]);
+  }
+
+  for (const [folderId, ids] of byFolder) {
+    // Leave documents someone else filed in the meantime where they are
+    const { data, error: updateError } = await supabase
+      .from('received_documents')
+      .update({ folder_id: folderId, status: 'filed', filing_source: 'rule', processed_at: new Date().toISOString() })
+      .in('id', ids)
+      .is('folder_id', null)
+      .select('id');
+
+    if (updateError) throw updateError;
+    if (data?.length) filed.set(folderId, data.map((row: { id: string }) => row.id));
+  }
+
+  return filed;
+}
+
+/**
+ * Number of documents in a fileDocumentsByRoutingRules result
+ */
+function countFiled(filed: Map<string, string[]>): number {
+  return [...filed.values()].reduce((count, ids) => count + ids.length, 0);
+}
+
+// Distinct counts per folder for one documents array; the store replaces the
+// array on every change, so a new array means the counts are stale
+let distinctCountCache: { documents: ReceivedDocument[]; counts: Map<string | null, number> } | null = null;
+
+function getDistinctCount(documents: ReceivedDocument[], folderId: string | null): number {
+  if (distinctCountCache?.documents !== documents) {
+    distinctCountCache = { documents, counts: new Map() };
+  }
+  const cached = distinctCountCache.counts.get(folderId);
+  if (cached !== undefined) return cached;
+
+  const count = countDistinctDocuments(
+    documents.filter((doc) => doc.folder_id === folderId && doc.status !== 'rejected')
+  );
+  distinctCountCache.counts.set(folderId, count);
+  return count;
+}
+
+// Private bucket for exported daily report PDFs; members read them through short-lived signed URLs
+const DAILY_REPORT_PDF_BUCKET = 'daily-reports';
+const DAILY_REPORT_PDF_URL_SECONDS = 300;
+
+// Latest fetchDailyLogs/fetchDailyLogsForDateRange call. Both replace
+// dailyLogs, so a response that arrives after a newer request is dropped.
+let dailyLogsRequestId = 0;
+
+function findSiteIssue(state: SupervisorState, issueId: string): ProjectDailyLog | undefined {
+  return (
+    state.siteIssues.find((log) => log.id === issueId) ??
+    state.dailyLogs.find((log) => log.id === issueId && log.log_type === 'site_issue')
+  );
+}
+
+/**
+ * Apply changes to a log in both the loaded day's logs and the site issue list
+ */
+function patchDailyLog(
+  state: SupervisorState,
+  logId: string,
+  changes: Partial<ProjectDailyLog>
+): Pick<SupervisorState, 'dailyLogs' | 'siteIssues'> {
+  const patch = (log: ProjectDailyLog) => (log.id === logId ? { ...log, ...changes } : log);
+  return { dailyLogs: state.dailyLogs.map(patch), siteIssues: state.siteIssues.map(patch) };
+}
+
+// Times a site issue write re-reads the row after losing a race
+const SITE_ISSUE_WRITE_ATTEMPTS = 3;
+
+type SiteIssueChanges = Partial<Pick<ProjectDailyLog, 'status' | 'metadata'>>;
+
+/**
+ * Read-modify-write a site issue. Online, build runs against the latest row
+ * and the update only lands if updated_at hasn't moved since, re-reading on a
+ * race, so a subcontractor's response or another supervisor's change made in
+ * between isn't overwritten. Offline (or with writes already queued for the
+ * issue) build runs against the local copy and the queue's updated_at check
+ * catches conflicts on replay.
+ * Returns the row build ran against and the changes to apply locally.
+ */
+async function writeSiteIssue(
+  state: SupervisorState,
+  issueId: string,
+  build: (issue: ProjectDailyLog) => SiteIssueChanges,
+  label: string
+): Promise<{ issue: ProjectDailyLog; changes: Partial<ProjectDailyLog> }> {
+  const local = findSiteIssue(state, issueId);
+  if (!local) throw new Error('Site issue not found');
+
+  if (canWriteDirectly('project_daily_logs', issueId)) {
+    try {
+      for (let attempt = 0; attempt < SITE_ISSUE_WRITE_ATTEMPTS; attempt++) {
+        const { data: issue, error } = await supabase
+          .from('project_daily_logs')
+          .select('*')
+          .eq('id', issueId)
+          .single();
+
+        if (error) throw error;
+
+        const changes = build(issue);
+        const { data, error: updateError } = await supabase
+          .from('project_daily_logs')
+          .update(changes)
+          .eq('id', issueId)
+          .eq('updated_at', issue.updated_at)
+          .select('updated_at');
+
+        if (updateError) throw updateError;
+        if (data && data.length > 0) {
+          return { issue, changes: { ...changes, metadata: changes.metadata ?? issue.metadata, updated_at: data[0].updated_at } };
+        }
+      }
+      throw new Error('This site issue is being changed by someone else. Try again in a moment.');
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const changes = build(local);
+  await persistUpdate('project_daily_logs', issueId, changes, {
+    baseUpdatedAt: local.updated_at,
+    projectId: local.project_id,
+    label,
+  });
+  return { issue: local, changes };
+}
+
+function siteIssueActivity(kind: SiteIssueActivityKind, text: string, authorId: string | null): SiteIssueActivity {
+  return { id: crypto.randomUUID(), kind, text, author_id: authorId, created_at: new Date().toISOString() };
+}
+
+/**
+ * Punch-list changes for a site issue, with each change noted in its activity thread
+ */
+function buildSiteIssueUpdate(
+  issue: ProjectDailyLog,
+  input: UpdateSiteIssueInput,
+  authorId: string | null
+): { status: SiteIssueStatus; metadata: SiteIssueMetadata } {
+  const current = issue.metadata as SiteIssueMetadata;
+  const metadata: SiteIssueMetadata = { ...current };
+  const activity: SiteIssueActivity[] = [];
+  let status = issue.status;
+
+  if (input.priority !== undefined) metadata.priority = input.priority;
+  if (input.resolution_notes !== undefined) metadata.resolution_notes = input.resolution_notes.trim() || undefined;
+
+  const sameAssignee =
+    (input.assignee?.kind ?? null) === (current.assignee?.kind ?? null) &&
+    (input.assignee?.id ?? null) === (current.assignee?.id ?? null);
+  if (input.assignee !== undefined && !sameAssignee) {
+    metadata.assignee = input.assignee;
+    metadata.assigned_to = input.assignee?.name;
+    activity.push(siteIssueActivity('assignment', input.assignee ? `Assigned to ${input.assignee.name}` : 'Unassigned', authorId));
+  }
+
+  if (input.due_date !== undefined && input.due_date !== (current.due_date ?? null)) {
+    metadata.due_date = input.due_date;
+    activity.push(siteIssueActivity('due_date', input.due_date ? `Due date set to ${input.due_date}` : 'Due date removed', authorId));
+  }
+
+  if (input.status !== undefined && input.status !== issue.status) {
+    status = input.status;
+    metadata.resolved_date = status === 'resolved' ? toLocalDate(new Date()) : null;
+    const label = SITE_ISSUE_STATUS_CONFIG[status].label.toLowerCase();
+    activity.push(siteIssueActivity(
+      'status',
+      status === 'resolved' && metadata.resolution_notes ? `Marked ${label}: ${metadata.resolution_notes}` : `Marked ${label}`,
+      authorId
+    ));
+  }
+
+  metadata.activity = [...(current.activity ?? []), ...activity];
+  return { status, metadata };
+}
+
 interface SupervisorState {
   // Data
   projects: SupervisorProject[];
@@ -69,9 +692,17 @@ interface SupervisorState {
   workers: ProjectWorker[];
   subcontractors: ProjectSubcontractor[];
   documents: ReceivedDocument[];
+  documentAnnotations: DocumentAnnotation[];
+  retentionPolicies: RetentionPolicy[];
+  routingRules: DocumentRoutingRule[];
+  reviewExamples: DocumentReviewExample[];
+  nameAliases: DocumentNameAlias[];
   shifts: ProjectShiftWithStats[];
+  shiftTemplates: ShiftTemplate[];
   currentShift: ProjectShiftWithStats | null;
   shiftWorkers: ShiftWorker[];
+  shiftReminders: ShiftReminder[];
+  shiftMatchQueue: DocumentShiftMatch[];
   contacts: SupervisorContact[];
 
   // UI State
@@ -88,6 +719,19 @@ interface SupervisorState {
   setCurrentProject: (project: SupervisorProject | null) => void;
   updateProjectEmail: (projectId: string, email: string) => Promise<void>;
 
+  // Project Member Actions
+  members: ProjectMember[];
+  myInvites: ProjectMember[];
+  fetchProjectMembers: (projectId: string) => Promise<void>;
+  inviteProjectMember: (projectId: string, email: string, role: ProjectRole) => Promise<ProjectMember | null>;
+  updateProjectMemberRole: (memberId: string, role: ProjectRole) => Promise<void>;
+  removeProjectMember: (memberId: string) => Promise<void>;
+  fetchMyInvites: () => Promise<void>;
+  acceptProjectInvite: (memberId: string) => Promise<void>;
+  declineProjectInvite: (memberId: string) => Promise<void>;
+  getProjectRole: (projectId: string | null | undefined) => ProjectRole | null;
+  canPerform: (projectId: string | null | undefined, permission: ProjectPermission) => boolean;
+
   // Folder Actions
   fetchFolders: (projectId: string) => Promise<void>;
   createFolder: (input: CreateFolderInput) => Promise<ProjectFolder | null>;
@@ -96,8 +740,10 @@ interface SupervisorState {
 
   // Worker Actions
   fetchWorkers: (projectId: string) => Promise<void>;
-  addWorker: (projectId: string, userEmail: string, subcontractorId?: string) => Promise<void>;
+  addWorker: (projectId: string, userEmail: string, subcontractorId?: string) => Promise<ProjectWorker>;
   removeWorker: (workerId: string) => Promise<void>;
+  resendWorkerInvite: (workerId: string) => Promise<void>;
+  revokeWorkerInvite: (workerId: string) => Promise<void>;
   updateWorkerSubcontractor: (workerId: string, subcontractorId: string | null) => Promise<void>;
 
   // Subcontractor Actions
@@ -115,12 +761,37 @@ interface SupervisorState {
   updateDocumentMetadata: (documentId: string, folderId: string | null, metadata: Record<string, unknown>) => Promise<void>;
   deleteDocument: (documentId: string, reason?: string) => Promise<void>;
   deleteDocuments: (documentIds: string[], reason?: string) => Promise<void>;
+  resolveDuplicateDocuments: (keepId: string, rejectIds: string[], reason?: string) => Promise<void>;
+  restoreDocumentReview: (snapshot: ReceivedDocument) => Promise<void>;
   reprocessDocumentsWithAI: (projectId: string) => Promise<{ success: boolean; processed: number; filed: number; message: string }>;
   getUnsortedDocuments: () => ReceivedDocument[];
   getDocumentsByFolder: (folderId: string) => ReceivedDocument[];
   getDocumentCountByFolder: (folderId: string | null) => number;
   getDocumentDownloadUrl: (storagePath: string) => Promise<string | null>;
   downloadDocument: (document: ReceivedDocument) => Promise<void>;
+  hashDocumentContents: (projectId: string, documentIds?: string[]) => Promise<number>;
+
+  // Document Annotation Actions
+  fetchDocumentAnnotations: (documentId: string) => Promise<void>;
+  addDocumentAnnotation: (input: CreateDocumentAnnotationInput) => Promise<DocumentAnnotation | null>;
+  updateDocumentAnnotation: (annotationId: string, comment: string | null) => Promise<void>;
+  deleteDocumentAnnotation: (annotationId: string) => Promise<void>;
+
+  // Retention & Legal Hold Actions
+  fetchRetentionPolicies: (projectId: string) => Promise<void>;
+  createRetentionPolicy: (input: CreateRetentionPolicyInput) => Promise<RetentionPolicy | null>;
+  deleteRetentionPolicy: (policyId: string) => Promise<void>;
+  setDocumentLegalHold: (documentIds: string[], hold: boolean, reason?: string) => Promise<void>;
+  setProjectLegalHold: (projectId: string, hold: boolean, reason?: string) => Promise<void>;
+  setProjectClosed: (projectId: string, closed: boolean) => Promise<void>;
+  purgeExpiredDocuments: (projectId: string) => Promise<number>;
+
+  // Document Routing Actions
+  fetchRoutingRules: (projectId: string) => Promise<void>;
+  createRoutingRule: (input: CreateDocumentRoutingRuleInput) => Promise<DocumentRoutingRule | null>;
+  deleteRoutingRule: (ruleId: string) => Promise<void>;
+  updateAutoFileThreshold: (projectId: string, threshold: number | null) => Promise<void>;
+  fetchReviewLearning: (projectId: string) => Promise<void>;
   
   // Realtime Document Actions (for subscription handlers)
   addDocumentRealtime: (document: ReceivedDocument) => void;
@@ -134,6 +805,13 @@ interface SupervisorState {
   deleteShift: (shiftId: string) => Promise<void>;
   activateShift: (shiftId: string) => Promise<void>;
   setCurrentShift: (shift: ProjectShiftWithStats | null) => void;
+
+  // Shift Template Actions
+  fetchShiftTemplates: (projectId: string) => Promise<void>;
+  createShiftTemplate: (input: CreateShiftTemplateInput) => Promise<ShiftTemplate | null>;
+  updateShiftTemplate: (templateId: string, input: UpdateShiftTemplateInput) => Promise<void>;
+  deleteShiftTemplate: (templateId: string) => Promise<void>;
+  generateShiftsFromTemplates: (projectId: string) => Promise<ProjectShift[]>;
   
   // Shift Worker Actions
   fetchShiftWorkers: (shiftId: string) => Promise<void>;
@@ -142,12 +820,28 @@ interface SupervisorState {
   removeShiftWorker: (shiftWorkerId: string) => Promise<void>;
   updateShiftWorkerNotificationStatus: (shiftWorkerId: string, status: ShiftWorker['notification_status'], error?: string) => Promise<void>;
   markShiftWorkerFormSubmitted: (shiftWorkerId: string, documentId: string) => Promise<void>;
+
+  // Document → Shift Worker Matching
+  autoMatchDocuments: (projectId: string, documentIds?: string[]) => Promise<{ matched: number; queued: number }>;
+  routeDocuments: (projectId: string, documentIds: string[]) => Promise<number>;
+  linkDocumentToShiftWorker: (documentId: string, shiftWorkerId: string, matchedBy?: 'auto' | 'supervisor') => Promise<boolean>;
+  fetchShiftMatchQueue: (projectId: string) => Promise<void>;
+  confirmShiftMatch: (matchId: string, shiftWorkerId: string) => Promise<void>;
+  dismissShiftMatch: (matchId: string) => Promise<void>;
   
   // Shift Closeout Actions
   closeoutShift: (input: CloseoutShiftInput) => Promise<void>;
   
   // Shift Notification Actions
   sendShiftNotifications: (shiftId: string) => Promise<{ success: boolean; sent: number; failed: number; message: string }>;
+
+  // Shift Reminder Actions (missing forms)
+  fetchShiftReminders: (shiftId: string) => Promise<void>;
+  sendShiftReminders: (
+    shiftId: string,
+    trigger?: ShiftReminder['trigger']
+  ) => Promise<{ success: boolean; sent: number; failed: number; escalated: number; message: string }>;
+  updateProjectReminderSettings: (projectId: string, settings: ShiftReminderSettings) => Promise<void>;
   
   // Shift Helpers
   getShiftById: (shiftId: string) => ProjectShiftWithStats | undefined;
@@ -186,6 +880,21 @@ interface SupervisorState {
   updateDailyLog: (logId: string, input: UpdateDailyLogInput) => Promise<void>;
   deleteDailyLog: (logId: string) => Promise<void>;
   toggleSiteIssueStatus: (logId: string, newStatus: SiteIssueStatus) => Promise<void>;
+
+  // Site Issue (punch list) Actions
+  siteIssues: ProjectDailyLog[];
+  fetchSiteIssues: (projectId: string) => Promise<void>;
+  updateSiteIssue: (issueId: string, input: UpdateSiteIssueInput) => Promise<void>;
+  addSiteIssueComment: (issueId: string, text: string) => Promise<void>;
+  uploadSiteIssuePhoto: (issueId: string, file: File, stage: SiteIssuePhoto['stage']) => Promise<SiteIssuePhoto | null>;
+
+  // Site Issue Notice Actions (emails to assigned subcontractors)
+  siteIssueNotices: SiteIssueNotice[];
+  fetchSiteIssueNotices: (projectId: string) => Promise<void>;
+  sendSiteIssueNotice: (issueId: string) => Promise<SiteIssueNotice | null>;
+  // Public response page (no sign-in; the token is the credential)
+  fetchSiteIssueNoticeByToken: (token: string) => Promise<SiteIssueNoticeView | null>;
+  respondToSiteIssueNotice: (token: string, comment: string) => Promise<boolean>;
   getDailyLogsByDate: (date: string) => ProjectDailyLog[];
   getDailyLogsByType: (date: string, logType: DailyLogType) => ProjectDailyLog[];
   getOpenSiteIssues: () => ProjectDailyLog[];
@@ -196,18 +905,32 @@ interface SupervisorState {
   generateDailyReport: (input: CreateDailyReportInput) => Promise<ProjectDailyReport | null>;
   updateDailyReport: (reportId: string, weather?: CreateDailyReportInput['weather'], summaryNotes?: string) => Promise<void>;
   deleteDailyReport: (reportId: string) => Promise<void>;
+  uploadDailyReportPdf: (reportId: string, pdf: Blob) => Promise<string | null>;
+  getDailyReportPdfUrl: (reportId: string) => Promise<string | null>;
   getDailyReportByDate: (date: string) => ProjectDailyReport | undefined;
   
   // AI Daily Report Actions
   generateAIDailyReport: (projectId: string, reportDate: string) => Promise<string | null>;
 
+  // Analytics Actions
+  fetchAnalyticsData: (projectIds: string[], startDate: string, endDate: string) => Promise<AnalyticsData | null>;
+
   // Supervisor Forms State & Actions
   supervisorForms: SupervisorFormInstance[];
+  formDefinitions: FormTemplate[]; // Every valid published template version, newest first
+  fetchFormDefinitions: () => Promise<void>;
   fetchSupervisorForms: (projectId: string) => Promise<void>;
   createSupervisorForm: (input: CreateSupervisorFormInput) => Promise<SupervisorFormInstance | null>;
-  saveSupervisorForm: (formId: string, formData: Record<string, unknown>) => Promise<void>;
+  saveSupervisorForm: (formId: string, formData: Record<string, unknown>, restoredFrom?: string) => Promise<void>;
   deleteSupervisorForm: (formId: string) => Promise<void>;
   archiveSupervisorForm: (formId: string) => Promise<void>;
+  finalizeSupervisorForm: (formId: string, formData: Record<string, unknown>) => Promise<boolean>;
+  startFormAmendment: (formId: string, reason: string) => Promise<boolean>;
+  formSubmissions: FormSubmissionSnapshot[];
+  fetchFormSubmissions: (formId: string) => Promise<void>;
+  formRevisions: FormRevision[];
+  fetchFormRevisions: (formId: string) => Promise<void>;
+  restoreFormRevision: (formId: string, revisionId: string) => Promise<void>;
   getSupervisorFormById: (formId: string) => SupervisorFormInstance | undefined;
   getCombinedFormItems: (projectId: string) => CombinedFormItem[];
 
@@ -220,16 +943,31 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
   // Initial State
   projects: [],
   currentProject: null,
+  members: [],
+  myInvites: [],
   supervisorForms: [],
+  formDefinitions: [],
+  formSubmissions: [],
+  formRevisions: [],
   folders: [],
   workers: [],
   subcontractors: [],
   documents: [],
+  documentAnnotations: [],
+  retentionPolicies: [],
+  routingRules: [],
+  reviewExamples: [],
+  nameAliases: [],
   shifts: [],
+  shiftTemplates: [],
   currentShift: null,
   shiftWorkers: [],
+  shiftReminders: [],
+  shiftMatchQueue: [],
   contacts: [],
   dailyLogs: [],
+  siteIssues: [],
+  siteIssueNotices: [],
   dailyReports: [],
   loading: false,
   error: null,
@@ -242,6 +980,10 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
       const { data, error } = await supabase
         .from('supervisor_projects')
         .select('*')
@@ -249,7 +991,26 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (error) throw error;
 
-      set({ projects: data ?? [], loading: false });
+      // Resolve this user's role on each project
+      const roles = new Map<string, ProjectRole>();
+      if (user) {
+        const { data: memberships, error: membershipError } = await supabase
+          .from('project_members')
+          .select('project_id, role')
+          .eq('user_id', user.id)
+          .eq('status', 'active');
+
+        if (membershipError) throw membershipError;
+        (memberships ?? []).forEach((m: { project_id: string; role: ProjectRole }) => roles.set(m.project_id, m.role));
+      }
+
+      const projects = (data ?? []).map((project: SupervisorProject) => ({
+        ...project,
+        // Projects created before memberships existed have no owner row
+        my_role: roles.get(project.id) ?? (project.supervisor_id === user?.id ? 'owner' : undefined),
+      }));
+
+      set({ projects, loading: false });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to fetch projects';
       set({ error: message, loading: false });
@@ -278,9 +1039,11 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (error) throw error;
 
+      await insertOwnerMembership(data.id, user.id, user.email);
+
       // Add to local state
       set((state) => ({
-        projects: [data, ...state.projects],
+        projects: [{ ...data, my_role: 'owner' }, ...state.projects],
         loading: false,
       }));
 
@@ -293,7 +1056,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
   },
 
   setCurrentProject: (project) => {
-    set({ currentProject: project, folders: [], workers: [], subcontractors: [], documents: [], shifts: [], currentShift: null, shiftWorkers: [], contacts: [], dailyLogs: [], dailyReports: [], supervisorForms: [] });
+    set({ currentProject: project, members: [], folders: [], workers: [], subcontractors: [], documents: [], retentionPolicies: [], routingRules: [], reviewExamples: [], nameAliases: [], shifts: [], shiftTemplates: [], currentShift: null, shiftWorkers: [], shiftReminders: [], contacts: [], dailyLogs: [], siteIssues: [], siteIssueNotices: [], dailyReports: [], supervisorForms: [] });
   },
 
   createProjectWithSetup: async (input, selectedFormTypes) => {
@@ -323,6 +1086,8 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (projectError) throw projectError;
 
+      await insertOwnerMembership(project.id, user.id, user.email);
+
       // Create folders for selected form types
       if (selectedFormTypes.length > 0) {
         const foldersToCreate = selectedFormTypes.map((formType, index) => {
@@ -346,7 +1111,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       // Add to local state
       set((state) => ({
-        projects: [project, ...state.projects],
+        projects: [{ ...project, my_role: 'owner' as const }, ...state.projects],
         loading: false,
       }));
 
@@ -384,6 +1149,210 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
+  // ============================================================================
+  // Project Member Actions
+  // ============================================================================
+
+  fetchProjectMembers: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      set({ members: data ?? [], loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch project members';
+      set({ error: message, loading: false });
+    }
+  },
+
+  inviteProjectMember: async (projectId, email, role) => {
+    set({ loading: true, error: null });
+
+    try {
+      const normalizedEmail = sanitizeString(email).toLowerCase();
+      if (!normalizedEmail.includes('@')) throw new Error('Enter a valid email address');
+      if (role === 'owner') throw new Error('A project can only have one owner');
+
+      if (get().members.some((m) => m.project_id === projectId && m.email === normalizedEmail)) {
+        throw new Error(`${normalizedEmail} is already a member or has a pending invite`);
+      }
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('project_members')
+        .insert({
+          project_id: projectId,
+          email: normalizedEmail,
+          role,
+          status: 'pending',
+          invited_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      console.log('✉️ Invited', normalizedEmail, 'as', role);
+
+      set((state) => ({
+        members: [...state.members, data],
+        loading: false,
+      }));
+
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to invite member';
+      set({ error: message, loading: false });
+      return null;
+    }
+  },
+
+  updateProjectMemberRole: async (memberId, role) => {
+    set({ loading: true, error: null });
+
+    try {
+      const member = get().members.find((m) => m.id === memberId);
+      if (member?.role === 'owner' || role === 'owner') {
+        throw new Error('The project owner cannot be changed');
+      }
+
+      const { error } = await supabase
+        .from('project_members')
+        .update({ role })
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        members: state.members.map((m) => (m.id === memberId ? { ...m, role } : m)),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update member role';
+      set({ error: message, loading: false });
+    }
+  },
+
+  removeProjectMember: async (memberId) => {
+    set({ loading: true, error: null });
+
+    try {
+      if (get().members.find((m) => m.id === memberId)?.role === 'owner') {
+        throw new Error('The project owner cannot be removed');
+      }
+
+      const { error } = await supabase.from('project_members').delete().eq('id', memberId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        members: state.members.filter((m) => m.id !== memberId),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to remove member';
+      set({ error: message, loading: false });
+    }
+  },
+
+  fetchMyInvites: async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user?.email) return;
+
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('*, supervisor_projects(name)')
+        .eq('email', user.email.toLowerCase())
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      type InviteRow = ProjectMember & { supervisor_projects: { name: string } | null };
+      const invites = (data ?? []).map(({ supervisor_projects, ...invite }: InviteRow) => ({
+        ...invite,
+        project_name: supervisor_projects?.name,
+      }));
+
+      set({ myInvites: invites });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch invitations';
+      set({ error: message });
+    }
+  },
+
+  acceptProjectInvite: async (memberId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('project_members')
+        .update({ user_id: user.id, status: 'active', accepted_at: new Date().toISOString() })
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      set((state) => ({ myInvites: state.myInvites.filter((i) => i.id !== memberId) }));
+
+      // Load the newly shared project with its role
+      await get().fetchProjects();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to accept invitation';
+      set({ error: message, loading: false });
+    }
+  },
+
+  declineProjectInvite: async (memberId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { error } = await supabase.from('project_members').delete().eq('id', memberId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        myInvites: state.myInvites.filter((i) => i.id !== memberId),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to decline invitation';
+      set({ error: message, loading: false });
+    }
+  },
+
+  getProjectRole: (projectId) => {
+    if (!projectId) return null;
+    const { projects, currentProject } = get();
+    const project = projects.find((p) => p.id === projectId) ?? (currentProject?.id === projectId ? currentProject : null);
+    return project?.my_role ?? null;
+  },
+
+  canPerform: (projectId, permission) => {
+    return hasProjectPermission(get().getProjectRole(projectId), permission);
+  },
+
   // ============================================================================
   // Folder Actions
   // ============================================================================
@@ -517,7 +1486,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
       // Flatten the joined data
       const workersWithUserInfo = (data ?? []).map((worker: any) => ({
         ...worker,
-        user_email: worker.user_profiles?.email ?? null,
+        user_email: worker.user_profiles?.email ?? worker.invite_email ?? null,
         user_full_name: worker.user_profiles?.full_name ?? null,
         subcontractor_name: worker.project_subcontractors?.company_name ?? null,
       }));
@@ -533,16 +1502,20 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
+      const email = sanitizeString(userEmail).toLowerCase();
+
+      if (get().workers.some((w) => w.project_id === projectId && w.status !== 'removed' && w.user_email?.toLowerCase() === email)) {
+        throw new Error(`${email} is already on this project`);
+      }
+
       // First, find the user by email
       const { data: userData, error: userError } = await supabase
         .from('user_profiles')
         .select('id')
-        .eq('email', userEmail)
-        .single();
+        .eq('email', email)
+        .maybeSingle();
 
-      if (userError || !userData) {
-        throw new Error('User not found with that email address');
-      }
+      if (userError) throw userError;
 
       const {
         data: { user },
@@ -550,16 +1523,28 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (!user) throw new Error('Not authenticated');
 
-      // Add worker to project
+      // No HrdHat account yet: add as a pending invite with a signup link
       const { data, error } = await supabase
         .from('project_workers')
-        .insert({
-          project_id: projectId,
-          user_id: userData.id,
-          added_by: user.id,
-          status: 'active',
-          subcontractor_id: subcontractorId ?? null,
-        })
+        .insert(
+          userData
+            ? {
+                project_id: projectId,
+                user_id: userData.id,
+                added_by: user.id,
+                status: 'active',
+                subcontractor_id: subcontractorId ?? null,
+              }
+            : {
+                project_id: projectId,
+                user_id: null,
+                added_by: user.id,
+                status: 'pending',
+                subcontractor_id: subcontractorId ?? null,
+                invite_email: email,
+                invite_token: crypto.randomUUID(),
+              }
+        )
         .select()
         .single();
 
@@ -572,11 +1557,21 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
         subcontractorName = sub?.company_name ?? null;
       }
 
+      const worker: ProjectWorker = { ...data, user_email: email, subcontractor_name: subcontractorName };
+
       // Add to local state
       set((state) => ({
-        workers: [{ ...data, user_email: userEmail, subcontractor_name: subcontractorName }, ...state.workers],
+        workers: [worker, ...state.workers],
         loading: false,
       }));
+
+      if (!userData) {
+        // The invite row stays even if the email fails; it can be resent
+        await get().resendWorkerInvite(worker.id);
+        return get().workers.find((w) => w.id === worker.id) ?? worker;
+      }
+
+      return worker;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to add worker';
       set({ error: message, loading: false });
@@ -607,18 +1602,98 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
-  updateWorkerSubcontractor: async (workerId, subcontractorId) => {
+  resendWorkerInvite: async (workerId) => {
     set({ loading: true, error: null });
 
     try {
-      const { error } = await supabase
-        .from('project_workers')
-        .update({ subcontractor_id: subcontractorId })
-        .eq('id', workerId);
-
-      if (error) throw error;
+      const worker = get().workers.find((w) => w.id === workerId);
+      if (!worker?.invite_token || !worker.invite_email) throw new Error('No pending invitation for this worker');
 
-      // Get subcontractor name if applicable
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) throw new Error('Not authenticated');
+
+      console.log('📧 Sending worker invite to:', worker.invite_email);
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-worker-invite`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            worker_id: workerId,
+            email: worker.invite_email,
+            signup_url: getWorkerInviteUrl(worker.invite_token),
+            project_name: get().projects.find((p) => p.id === worker.project_id)?.name ?? null,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const sentAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('project_workers')
+        .update({ invite_sent_at: sentAt })
+        .eq('id', workerId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        workers: state.workers.map((w) => (w.id === workerId ? { ...w, invite_sent_at: sentAt } : w)),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send invitation';
+      set({ error: `Invitation not sent: ${message}`, loading: false });
+    }
+  },
+
+  revokeWorkerInvite: async (workerId) => {
+    set({ loading: true, error: null });
+
+    try {
+      // Clearing the token kills the signup link
+      const { error } = await supabase
+        .from('project_workers')
+        .update({ status: 'removed', invite_token: null })
+        .eq('id', workerId)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+
+      set((state) => ({
+        workers: state.workers.map((w) =>
+          w.id === workerId ? { ...w, status: 'removed' as const, invite_token: null } : w
+        ),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to revoke invitation';
+      set({ error: message, loading: false });
+    }
+  },
+
+  updateWorkerSubcontractor: async (workerId, subcontractorId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { error } = await supabase
+        .from('project_workers')
+        .update({ subcontractor_id: subcontractorId })
+        .eq('id', workerId);
+
+      if (error) throw error;
+
+      // Get subcontractor name if applicable
       let subcontractorName = null;
       if (subcontractorId) {
         const sub = get().subcontractors.find(s => s.id === subcontractorId);
@@ -824,6 +1899,12 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (error) throw error;
 
+      const learned = await recordReviewExamples(
+        get().documents.filter((doc) => doc.id === documentId),
+        folderId,
+        user.id
+      );
+
       // Update local state
       set((state) => ({
         documents: state.documents.map((doc) =>
@@ -831,6 +1912,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
             ? { ...doc, folder_id: folderId, status: 'filed' as const, reviewed_by: user.id, reviewed_at: new Date().toISOString() }
             : doc
         ),
+        ...mergeReviewLearning(state, learned),
         loading: false,
       }));
     } catch (error) {
@@ -861,6 +1943,12 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (error) throw error;
 
+      const learned = await recordReviewExamples(
+        get().documents.filter((doc) => documentIds.includes(doc.id)),
+        folderId,
+        user.id
+      );
+
       // Update local state
       set((state) => ({
         documents: state.documents.map((doc) =>
@@ -868,6 +1956,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
             ? { ...doc, folder_id: folderId, status: 'filed' as const, reviewed_by: user.id, reviewed_at: new Date().toISOString() }
             : doc
         ),
+        ...mergeReviewLearning(state, learned),
         loading: false,
       }));
     } catch (error) {
@@ -912,8 +2001,13 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (error) throw error;
 
+      const learned = currentDoc
+        ? await recordReviewExamples([currentDoc], folderId, user.id, metadata as Partial<DocumentMetadata>)
+        : { examples: [], aliases: [] };
+
       // Update local state
       set((state) => ({
+        ...mergeReviewLearning(state, learned),
         documents: state.documents.map((doc) =>
           doc.id === documentId
             ? {
@@ -939,6 +2033,9 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
+      const holdError = getLegalHoldError(get(), [documentId]);
+      if (holdError) throw new Error(holdError);
+
       const {
         data: { user },
       } = await supabase.auth.getUser();
@@ -972,10 +2069,58 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
+  // Undo a review (filing, metadata edit or rejection) by writing back the document as it was
+  restoreDocumentReview: async (snapshot) => {
+    set({ loading: true, error: null });
+
+    try {
+      const restored = {
+        folder_id: snapshot.folder_id,
+        status: snapshot.status,
+        ai_extracted_data: snapshot.ai_extracted_data,
+        rejection_reason: snapshot.rejection_reason,
+        reviewed_by: snapshot.reviewed_by,
+        reviewed_at: snapshot.reviewed_at,
+      };
+
+      const { error } = await supabase
+        .from('received_documents')
+        .update(restored)
+        .eq('id', snapshot.id);
+
+      if (error) throw error;
+
+      // An undone first review shouldn't teach routing anything
+      const wasUnreviewed = !snapshot.reviewed_by;
+      if (wasUnreviewed) {
+        const { error: exampleError } = await supabase
+          .from('document_review_examples')
+          .delete()
+          .eq('document_id', snapshot.id);
+
+        if (exampleError) console.error('❌ Failed to remove review example:', exampleError);
+      }
+
+      set((state) => ({
+        documents: state.documents.map((doc) => (doc.id === snapshot.id ? { ...doc, ...restored } : doc)),
+        reviewExamples: wasUnreviewed
+          ? state.reviewExamples.filter((e) => e.document_id !== snapshot.id)
+          : state.reviewExamples,
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to undo review';
+      set({ error: message, loading: false });
+    }
+  },
+
   deleteDocuments: async (documentIds, reason) => {
     set({ loading: true, error: null });
 
     try {
+      const holdError = getLegalHoldError(get(), documentIds);
+      if (holdError) throw new Error(holdError);
+
       const {
         data: { user },
       } = await supabase.auth.getUser();
@@ -1009,8 +2154,59 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
+  resolveDuplicateDocuments: async (keepId, rejectIds, reason) => {
+    set({ loading: true, error: null });
+
+    try {
+      const holdError = getLegalHoldError(get(), rejectIds);
+      if (holdError) throw new Error(holdError);
+
+      const keep = get().documents.find((d) => d.id === keepId);
+      if (!keep) throw new Error('Document not found');
+      const rejected = get().documents.filter((d) => rejectIds.includes(d.id));
+
+      // Carry the folder and shift over from a rejected copy so they aren't lost with it
+      const folderId = keep.folder_id ?? rejected.find((d) => d.folder_id)?.folder_id ?? null;
+      const shiftId = keep.shift_id ?? rejected.find((d) => d.shift_id)?.shift_id ?? null;
+      if (folderId !== keep.folder_id || shiftId !== keep.shift_id) {
+        const { error } = await supabase
+          .from('received_documents')
+          .update({ folder_id: folderId, shift_id: shiftId })
+          .eq('id', keepId);
+
+        if (error) throw error;
+
+        set((state) => ({
+          documents: state.documents.map((doc) =>
+            doc.id === keepId ? { ...doc, folder_id: folderId, shift_id: shiftId } : doc
+          ),
+        }));
+      }
+
+      // Workers whose form was a rejected copy now point at the kept one
+      const { error: workerError } = await supabase
+        .from('shift_workers')
+        .update({ document_id: keepId })
+        .in('document_id', rejectIds);
+
+      if (workerError) throw workerError;
+
+      set((state) => ({
+        shiftWorkers: state.shiftWorkers.map((w) =>
+          w.document_id && rejectIds.includes(w.document_id) ? { ...w, document_id: keepId } : w
+        ),
+      }));
+
+      await get().deleteDocuments(rejectIds, reason);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to resolve duplicate documents';
+      set({ error: message, loading: false });
+    }
+  },
+
   reprocessDocumentsWithAI: async (projectId) => {
     set({ loading: true, error: null });
+    let rulesApplied = false;
 
     try {
       const {
@@ -1019,6 +2215,14 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (!session) throw new Error('Not authenticated');
 
+      // Supervisor corrections feed both the rules (name aliases) and the AI (few-shot examples)
+      const learning = await queryReviewLearning(projectId);
+
+      // Routing rules are deterministic, so they run before the AI sees anything
+      rulesApplied = true;
+      const ruleFiled = countFiled(await fileDocumentsByRoutingRules(get(), projectId, learning.aliases));
+      if (ruleFiled > 0) console.log(`📏 Filed ${ruleFiled} document(s) by routing rules`);
+
       console.log('🔄 Calling reprocess-documents edge function...');
 
       const response = await fetch(
@@ -1029,7 +2233,12 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${session.access_token}`,
           },
-          body: JSON.stringify({ project_id: projectId }),
+          body: JSON.stringify({
+            project_id: projectId,
+            confidence_threshold: getAutoFileThreshold(findProject(get(), projectId)),
+            examples: getFewShotExamples(learning.examples, get().folders.filter((f) => f.project_id === projectId)),
+            aliases: learning.aliases.map(({ kind, alias, canonical }) => ({ kind, alias, canonical })),
+          }),
         }
       );
 
@@ -1059,17 +2268,22 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
       // Refresh documents after reprocessing
       await get().fetchDocuments(projectId);
 
+      // Fresh metadata may now identify the worker on an active shift
+      await get().autoMatchDocuments(projectId);
+
       set({ loading: false });
 
       return {
         success: true,
-        processed: result.processed ?? 0,
-        filed: result.filed ?? 0,
+        processed: (result.processed ?? 0) + ruleFiled,
+        filed: (result.filed ?? 0) + ruleFiled,
         message: result.message ?? 'Processing complete',
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to reprocess documents';
       console.error('❌ Reprocess error:', message);
+      // Rules may have filed documents before the failure; show where they went
+      if (rulesApplied) await get().fetchDocuments(projectId);
       set({ error: message, loading: false });
       return {
         success: false,
@@ -1094,18 +2308,8 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     );
   },
 
-  getDocumentCountByFolder: (folderId) => {
-    const state = get();
-    if (folderId === null) {
-      // Unsorted count
-      return state.documents.filter(
-        (doc) => doc.folder_id === null && doc.status !== 'rejected'
-      ).length;
-    }
-    return state.documents.filter(
-      (doc) => doc.folder_id === folderId && doc.status !== 'rejected'
-    ).length;
-  },
+  // Duplicate copies of a document count once; null is the unsorted count
+  getDocumentCountByFolder: (folderId) => getDistinctCount(get().documents, folderId),
 
   getDocumentDownloadUrl: async (storagePath) => {
     try {
@@ -1149,91 +2353,103 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
-  // ============================================================================
-  // Realtime Document Actions (for subscription handlers)
-  // ============================================================================
+  // Record content hashes for documents that don't have one yet. Without ids,
+  // works through every unhashed document on the project, newest first.
+  // Returns how many were hashed.
+  hashDocumentContents: async (projectId, documentIds) => {
+    try {
+      let hashed = 0;
+      const failed: string[] = [];
+
+      // Hashed documents drop out of the query and failed ones are excluded,
+      // so every batch is new until nothing unhashed is left
+      for (;;) {
+        let query = supabase
+          .from('received_documents')
+          .select('id, storage_path')
+          .eq('project_id', projectId)
+          .is('content_hash', null)
+          .neq('status', 'rejected');
+
+        if (failed.length > 0) query = query.not('id', 'in', `(${failed.join(',')})`);
+        query = documentIds
+          ? query.in('id', documentIds)
+          : query.order('received_at', { ascending: false }).limit(HASH_BATCH_SIZE);
+
+        const { data: unhashed, error } = await query;
+
+        if (error) throw error;
+
+        const batch = new Map<string, string>();
+        for (const doc of (unhashed ?? []) as { id: string; storage_path: string }[]) {
+          try {
+            const { data: file, error: downloadError } = await supabase.storage
+              .from('document-intake')
+              .download(doc.storage_path);
+
+            if (downloadError) throw downloadError;
+
+            const hash = await getContentHash(await file.arrayBuffer());
+            const { error: updateError } = await supabase
+              .from('received_documents')
+              .update({ content_hash: hash })
+              .eq('id', doc.id);
+
+            if (updateError) throw updateError;
+            batch.set(doc.id, hash);
+          } catch (error) {
+            console.error('Failed to hash document:', doc.id, error);
+            failed.push(doc.id);
+          }
+        }
 
-  addDocumentRealtime: (document) => {
-    console.log('📡 Realtime: New document received:', document.id, document.original_filename);
-    set((state) => {
-      // Check if document already exists (prevent duplicates)
-      if (state.documents.some((doc) => doc.id === document.id)) {
-        console.log('📡 Realtime: Document already exists, skipping');
-        return state;
+        hashed += batch.size;
+        if (batch.size > 0) {
+          set((state) => ({
+            documents: state.documents.map((d) => (batch.has(d.id) ? { ...d, content_hash: batch.get(d.id)! } : d)),
+          }));
+        }
+
+        if (documentIds || (unhashed ?? []).length < HASH_BATCH_SIZE) break;
       }
-      // Add to beginning of list (newest first)
-      return { documents: [document, ...state.documents] };
-    });
-  },
 
-  updateDocumentRealtime: (documentId, changes) => {
-    console.log('📡 Realtime: Document updated:', documentId, changes);
-    set((state) => ({
-      documents: state.documents.map((doc) =>
-        doc.id === documentId ? { ...doc, ...changes } : doc
-      ),
-    }));
-  },
+      if (hashed > 0) console.log(`#️⃣ Hashed ${hashed} document(s) for duplicate detection`);
 
-  removeDocumentRealtime: (documentId) => {
-    console.log('📡 Realtime: Document removed:', documentId);
-    set((state) => ({
-      documents: state.documents.filter((doc) => doc.id !== documentId),
-    }));
+      return hashed;
+    } catch (error) {
+      console.error('❌ Document hashing error:', error);
+      return 0;
+    }
   },
 
   // ============================================================================
-  // Shift Actions
+  // Document Annotation Actions
   // ============================================================================
 
-  fetchShifts: async (projectId) => {
-    set({ loading: true, error: null });
-
+  fetchDocumentAnnotations: async (documentId) => {
     try {
-      // Fetch shifts with worker counts
-      const { data: shiftsData, error: shiftsError } = await supabase
-        .from('project_shifts')
+      const { data, error } = await supabase
+        .from('document_annotations')
         .select('*')
-        .eq('project_id', projectId)
-        .order('scheduled_date', { ascending: false });
-
-      if (shiftsError) throw shiftsError;
-
-      // For each shift, get worker counts
-      const shiftsWithStats: ProjectShiftWithStats[] = await Promise.all(
-        (shiftsData ?? []).map(async (shift) => {
-          const { count: workerCount } = await supabase
-            .from('shift_workers')
-            .select('*', { count: 'exact', head: true })
-            .eq('shift_id', shift.id);
-
-          const { count: submittedCount } = await supabase
-            .from('shift_workers')
-            .select('*', { count: 'exact', head: true })
-            .eq('shift_id', shift.id)
-            .eq('form_submitted', true);
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: true });
 
-          return {
-            ...shift,
-            closeout_checklist: (shift.closeout_checklist as CloseoutChecklistItem[]) ?? [],
-            shift_tasks: (shift.shift_tasks as ShiftTask[]) ?? [],
-            shift_notes: (shift.shift_notes as ShiftNote[]) ?? [],
-            custom_categories: (shift.custom_categories as CustomCategory[]) ?? [],
-            worker_count: workerCount ?? 0,
-            forms_submitted: submittedCount ?? 0,
-          };
-        })
-      );
+      if (error) throw error;
 
-      set({ shifts: shiftsWithStats, loading: false });
+      set((state) => ({
+        documentAnnotations: [
+          ...state.documentAnnotations.filter((a) => a.document_id !== documentId),
+          ...(data ?? []),
+        ],
+      }));
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to fetch shifts';
-      set({ error: message, loading: false });
+      const message = error instanceof Error ? error.message : 'Failed to fetch annotations';
+      set({ error: message });
     }
   },
 
-  createShift: async (input) => {
-    set({ loading: true, error: null });
+  addDocumentAnnotation: async (input) => {
+    set({ error: null });
 
     try {
       const {
@@ -1243,74 +2459,592 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
       if (!user) throw new Error('Not authenticated');
 
       const { data, error } = await supabase
-        .from('project_shifts')
+        .from('document_annotations')
         .insert({
+          document_id: input.document_id,
           project_id: input.project_id,
-          name: sanitizeString(input.name),
-          scheduled_date: input.scheduled_date,
-          start_time: input.start_time ?? null,
-          end_time: input.end_time ?? null,
-          notes: sanitizeNullableString(input.notes),
-          shift_tasks: input.shift_tasks ?? [],
-          shift_notes: input.shift_notes ?? [],
-          custom_categories: input.custom_categories ?? [],
-          status: 'draft',
+          page: input.page,
+          kind: input.kind,
+          x: input.x,
+          y: input.y,
+          width: input.width ?? 0,
+          height: input.height ?? 0,
+          color: input.color ?? '#FACC15',
+          comment: sanitizeNullableString(input.comment ?? null),
           created_by: user.id,
+          created_by_email: user.email ?? null,
         })
         .select()
         .single();
 
       if (error) throw error;
 
-      const shiftWithStats: ProjectShiftWithStats = {
-        ...data,
-        closeout_checklist: (data.closeout_checklist as CloseoutChecklistItem[]) ?? [],
-        shift_tasks: (data.shift_tasks as ShiftTask[]) ?? [],
-        shift_notes: (data.shift_notes as ShiftNote[]) ?? [],
-        custom_categories: (data.custom_categories as CustomCategory[]) ?? [],
-        worker_count: 0,
-        forms_submitted: 0,
-      };
-
-      // Add to local state
-      set((state) => ({
-        shifts: [shiftWithStats, ...state.shifts],
-        loading: false,
-      }));
-
+      set((state) => ({ documentAnnotations: [...state.documentAnnotations, data] }));
       return data;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to create shift';
-      set({ error: message, loading: false });
+      const message = error instanceof Error ? error.message : 'Failed to save annotation';
+      set({ error: message });
       return null;
     }
   },
 
-  updateShift: async (shiftId, input) => {
-    set({ loading: true, error: null });
+  updateDocumentAnnotation: async (annotationId, comment) => {
+    set({ error: null });
 
     try {
-      const updateData: Record<string, unknown> = {};
+      const { data, error } = await supabase
+        .from('document_annotations')
+        .update({ comment: sanitizeNullableString(comment), updated_at: new Date().toISOString() })
+        .eq('id', annotationId)
+        .select()
+        .single();
 
-      if (input.name !== undefined) updateData.name = sanitizeString(input.name);
-      if (input.scheduled_date !== undefined) updateData.scheduled_date = input.scheduled_date;
-      if (input.start_time !== undefined) updateData.start_time = input.start_time;
-      if (input.end_time !== undefined) updateData.end_time = input.end_time;
-      if (input.status !== undefined) updateData.status = input.status;
-      if (input.notes !== undefined) updateData.notes = sanitizeNullableString(input.notes);
-      if (input.shift_tasks !== undefined) updateData.shift_tasks = input.shift_tasks;
-      if (input.shift_notes !== undefined) updateData.shift_notes = input.shift_notes;
-      if (input.custom_categories !== undefined) updateData.custom_categories = input.custom_categories;
-      if (input.closeout_checklist !== undefined) updateData.closeout_checklist = input.closeout_checklist;
-      if (input.closeout_notes !== undefined) updateData.closeout_notes = sanitizeNullableString(input.closeout_notes);
-      if (input.incomplete_reason !== undefined) updateData.incomplete_reason = sanitizeNullableString(input.incomplete_reason);
+      if (error) throw error;
 
-      const { error } = await supabase
-        .from('project_shifts')
-        .update(updateData)
-        .eq('id', shiftId);
+      set((state) => ({
+        documentAnnotations: state.documentAnnotations.map((a) => (a.id === annotationId ? data : a)),
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update annotation';
+      set({ error: message });
+    }
+  },
+
+  deleteDocumentAnnotation: async (annotationId) => {
+    set({ error: null });
+
+    try {
+      const { error } = await supabase.from('document_annotations').delete().eq('id', annotationId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        documentAnnotations: state.documentAnnotations.filter((a) => a.id !== annotationId),
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete annotation';
+      set({ error: message });
+    }
+  },
+
+  // ============================================================================
+  // Retention & Legal Hold Actions
+  // ============================================================================
+
+  fetchRetentionPolicies: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('document_retention_policies')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      set({ retentionPolicies: data ?? [], loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch retention policies';
+      set({ error: message, loading: false });
+    }
+  },
+
+  createRetentionPolicy: async (input) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('document_retention_policies')
+        .insert({
+          project_id: input.project_id,
+          folder_id: input.folder_id ?? null,
+          form_type: sanitizeNullableString(input.form_type?.trim() || null),
+          retain_months: Math.max(1, Math.round(input.retain_months)),
+          anchor: input.anchor,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      set((state) => ({ retentionPolicies: [...state.retentionPolicies, data], loading: false }));
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save retention policy';
+      set({ error: message, loading: false });
+      return null;
+    }
+  },
+
+  deleteRetentionPolicy: async (policyId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { error } = await supabase
+        .from('document_retention_policies')
+        .delete()
+        .eq('id', policyId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        retentionPolicies: state.retentionPolicies.filter((p) => p.id !== policyId),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete retention policy';
+      set({ error: message, loading: false });
+    }
+  },
+
+  setDocumentLegalHold: async (documentIds, hold, reason) => {
+    set({ loading: true, error: null });
+
+    try {
+      const changes = {
+        legal_hold: hold,
+        legal_hold_reason: hold ? sanitizeNullableString(reason?.trim() || null) : null,
+      };
+
+      const { error } = await supabase
+        .from('received_documents')
+        .update(changes)
+        .in('id', documentIds);
+
+      if (error) throw error;
+
+      set((state) => ({
+        documents: state.documents.map((doc) => (documentIds.includes(doc.id) ? { ...doc, ...changes } : doc)),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update legal hold';
+      set({ error: message, loading: false });
+    }
+  },
+
+  setProjectLegalHold: async (projectId, hold, reason) => {
+    set({ loading: true, error: null });
+
+    try {
+      const changes = {
+        legal_hold: hold,
+        legal_hold_reason: hold ? sanitizeNullableString(reason?.trim() || null) : null,
+      };
+
+      const { error } = await supabase
+        .from('supervisor_projects')
+        .update(changes)
+        .eq('id', projectId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        projects: state.projects.map((p) => (p.id === projectId ? { ...p, ...changes } : p)),
+        currentProject:
+          state.currentProject?.id === projectId ? { ...state.currentProject, ...changes } : state.currentProject,
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update legal hold';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // Closing starts the clock on "after project close" retention rules
+  setProjectClosed: async (projectId, closed) => {
+    set({ loading: true, error: null });
+
+    try {
+      const changes = {
+        is_active: !closed,
+        closed_at: closed ? new Date().toISOString() : null,
+      };
+
+      const { error } = await supabase
+        .from('supervisor_projects')
+        .update(changes)
+        .eq('id', projectId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        projects: state.projects.map((p) => (p.id === projectId ? { ...p, ...changes } : p)),
+        currentProject:
+          state.currentProject?.id === projectId ? { ...state.currentProject, ...changes } : state.currentProject,
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update project status';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // Permanently removes expired documents (rows and files). Returns how many were purged.
+  purgeExpiredDocuments: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      // Read from the database rather than the store: the loaded list may be
+      // stale, and a hold or close date may have changed since it was fetched
+      const [documentsResult, policiesResult, projectResult] = await Promise.all([
+        supabase.from('received_documents').select('*').eq('project_id', projectId),
+        supabase.from('document_retention_policies').select('*').eq('project_id', projectId),
+        supabase.from('supervisor_projects').select('*').eq('id', projectId).single(),
+      ]);
+
+      if (documentsResult.error) throw documentsResult.error;
+      if (policiesResult.error) throw policiesResult.error;
+      if (projectResult.error) throw projectResult.error;
+
+      const { due } = getPurgePreview(documentsResult.data ?? [], policiesResult.data ?? [], projectResult.data);
+
+      if (due.length === 0) {
+        set({ loading: false });
+        return 0;
+      }
+
+      // legal_hold is checked again in the query in case a hold was set since the last fetch
+      const { data, error } = await supabase
+        .from('received_documents')
+        .delete()
+        .in('id', due.map((c) => c.document.id))
+        .eq('legal_hold', false)
+        .select('id, storage_path');
+
+      if (error) throw error;
+
+      const purged: { id: string; storage_path: string }[] = data ?? [];
+
+      if (purged.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from('document-intake')
+          .remove(purged.map((d) => d.storage_path));
+
+        // The rows are gone either way; orphaned files are only a storage cost
+        if (storageError) console.error('❌ Failed to remove purged files:', storageError);
+      }
+
+      const purgedIds = new Set(purged.map((d) => d.id));
+      set((state) => ({
+        documents: state.documents.filter((d) => !purgedIds.has(d.id)),
+        loading: false,
+      }));
+
+      console.log(`🗑️ Purged ${purged.length} expired document(s)`);
+      return purged.length;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to purge expired documents';
+      set({ error: message, loading: false });
+      return 0;
+    }
+  },
+
+  // ============================================================================
+  // Document Routing Actions
+  // ============================================================================
+
+  fetchRoutingRules: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('document_routing_rules')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('sort_order');
+
+      if (error) throw error;
+
+      set({ routingRules: data ?? [], loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch routing rules';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // New rules go to the end, so earlier rules keep winning
+  createRoutingRule: async (input) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const isSubcontractorRule = input.rule_type === 'subcontractor';
+      const pattern = isSubcontractorRule
+        ? null
+        : input.rule_type === 'sender_domain'
+          ? normalizeEmailDomain(input.pattern ?? '')
+          : sanitizeString(input.pattern?.trim() ?? '');
+
+      if (isSubcontractorRule ? !input.subcontractor_id : !pattern) {
+        throw new Error(isSubcontractorRule ? 'Choose a subcontractor' : 'Enter a domain or keyword to match');
+      }
+
+      const existing = get().routingRules.filter((r) => r.project_id === input.project_id);
+      const { data, error } = await supabase
+        .from('document_routing_rules')
+        .insert({
+          project_id: input.project_id,
+          rule_type: input.rule_type,
+          pattern,
+          subcontractor_id: isSubcontractorRule ? input.subcontractor_id : null,
+          folder_id: input.folder_id,
+          sort_order: existing.reduce((max, r) => Math.max(max, r.sort_order + 1), 0),
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      set((state) => ({ routingRules: [...state.routingRules, data], loading: false }));
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save routing rule';
+      set({ error: message, loading: false });
+      return null;
+    }
+  },
+
+  deleteRoutingRule: async (ruleId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { error } = await supabase
+        .from('document_routing_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        routingRules: state.routingRules.filter((r) => r.id !== ruleId),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete routing rule';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // null restores the default threshold
+  updateAutoFileThreshold: async (projectId, threshold) => {
+    set({ loading: true, error: null });
+
+    try {
+      const autoFileThreshold = threshold === null ? null : Math.min(100, Math.max(0, Math.round(threshold)));
+
+      const { error } = await supabase
+        .from('supervisor_projects')
+        .update({ auto_file_threshold: autoFileThreshold })
+        .eq('id', projectId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        projects: state.projects.map((p) => (p.id === projectId ? { ...p, auto_file_threshold: autoFileThreshold } : p)),
+        currentProject:
+          state.currentProject?.id === projectId
+            ? { ...state.currentProject, auto_file_threshold: autoFileThreshold }
+            : state.currentProject,
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update confidence threshold';
+      set({ error: message, loading: false });
+    }
+  },
+
+  fetchReviewLearning: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { examples, aliases } = await queryReviewLearning(projectId);
+      set({ reviewExamples: examples, nameAliases: aliases, loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch review history';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // ============================================================================
+  // Realtime Document Actions (for subscription handlers)
+  // ============================================================================
+
+  addDocumentRealtime: (document) => {
+    console.log('📡 Realtime: New document received:', document.id, document.original_filename);
+    set((state) => {
+      // Check if document already exists (prevent duplicates)
+      if (state.documents.some((doc) => doc.id === document.id)) {
+        console.log('📡 Realtime: Document already exists, skipping');
+        return state;
+      }
+      // Add to beginning of list (newest first)
+      return { documents: [document, ...state.documents] };
+    });
+  },
+
+  updateDocumentRealtime: (documentId, changes) => {
+    console.log('📡 Realtime: Document updated:', documentId, changes);
+    set((state) => ({
+      documents: state.documents.map((doc) =>
+        doc.id === documentId ? { ...doc, ...changes } : doc
+      ),
+    }));
+  },
+
+  removeDocumentRealtime: (documentId) => {
+    console.log('📡 Realtime: Document removed:', documentId);
+    set((state) => ({
+      documents: state.documents.filter((doc) => doc.id !== documentId),
+    }));
+  },
+
+  // ============================================================================
+  // Shift Actions
+  // ============================================================================
+
+  fetchShifts: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      // Fetch shifts with worker counts
+      const { data: shiftsData, error: shiftsError } = await supabase
+        .from('project_shifts')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('scheduled_date', { ascending: false });
+
+      if (shiftsError) throw shiftsError;
+
+      const shiftRows = overlayQueuedWrites('project_shifts', shiftsData ?? [], (row) => row.project_id === projectId);
+
+      // For each shift, get worker counts
+      const shiftsWithStats: ProjectShiftWithStats[] = await Promise.all(
+        shiftRows.map(async (shift) => {
+          const { count: workerCount } = await supabase
+            .from('shift_workers')
+            .select('*', { count: 'exact', head: true })
+            .eq('shift_id', shift.id);
+
+          const { count: submittedCount } = await supabase
+            .from('shift_workers')
+            .select('*', { count: 'exact', head: true })
+            .eq('shift_id', shift.id)
+            .eq('form_submitted', true);
+
+          return {
+            ...shift,
+            closeout_checklist: (shift.closeout_checklist as CloseoutChecklistItem[]) ?? [],
+            shift_tasks: (shift.shift_tasks as ShiftTask[]) ?? [],
+            shift_notes: (shift.shift_notes as ShiftNote[]) ?? [],
+            custom_categories: (shift.custom_categories as CustomCategory[]) ?? [],
+            worker_count: workerCount ?? 0,
+            forms_submitted: submittedCount ?? 0,
+          };
+        })
+      );
+
+      set({ shifts: shiftsWithStats, loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch shifts';
+      set({ error: message, loading: false });
+    }
+  },
+
+  createShift: async (input) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('project_shifts')
+        .insert({
+          project_id: input.project_id,
+          name: sanitizeString(input.name),
+          scheduled_date: input.scheduled_date,
+          start_time: input.start_time ?? null,
+          end_time: input.end_time ?? null,
+          notes: sanitizeNullableString(input.notes),
+          shift_tasks: input.shift_tasks ?? [],
+          shift_notes: input.shift_notes ?? [],
+          custom_categories: input.custom_categories ?? [],
+          template_id: input.template_id ?? null,
+          status: 'draft',
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const shiftWithStats: ProjectShiftWithStats = {
+        ...data,
+        closeout_checklist: (data.closeout_checklist as CloseoutChecklistItem[]) ?? [],
+        shift_tasks: (data.shift_tasks as ShiftTask[]) ?? [],
+        shift_notes: (data.shift_notes as ShiftNote[]) ?? [],
+        custom_categories: (data.custom_categories as CustomCategory[]) ?? [],
+        worker_count: 0,
+        forms_submitted: 0,
+      };
+
+      // Add to local state
+      set((state) => ({
+        shifts: [shiftWithStats, ...state.shifts],
+        loading: false,
+      }));
+
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create shift';
+      set({ error: message, loading: false });
+      return null;
+    }
+  },
+
+  updateShift: async (shiftId, input) => {
+    set({ loading: true, error: null });
+
+    try {
+      const updateData: Record<string, unknown> = {};
 
-      if (error) throw error;
+      if (input.name !== undefined) updateData.name = sanitizeString(input.name);
+      if (input.scheduled_date !== undefined) updateData.scheduled_date = input.scheduled_date;
+      if (input.start_time !== undefined) updateData.start_time = input.start_time;
+      if (input.end_time !== undefined) updateData.end_time = input.end_time;
+      if (input.status !== undefined) updateData.status = input.status;
+      if (input.notes !== undefined) updateData.notes = sanitizeNullableString(input.notes);
+      if (input.shift_tasks !== undefined) updateData.shift_tasks = input.shift_tasks;
+      if (input.shift_notes !== undefined) updateData.shift_notes = input.shift_notes;
+      if (input.custom_categories !== undefined) updateData.custom_categories = input.custom_categories;
+      if (input.closeout_checklist !== undefined) updateData.closeout_checklist = input.closeout_checklist;
+      if (input.closeout_notes !== undefined) updateData.closeout_notes = sanitizeNullableString(input.closeout_notes);
+      if (input.incomplete_reason !== undefined) updateData.incomplete_reason = sanitizeNullableString(input.incomplete_reason);
+
+      const shift = get().shifts.find((s) => s.id === shiftId);
+      await persistUpdate('project_shifts', shiftId, updateData, {
+        baseUpdatedAt: shift?.updated_at,
+        projectId: shift?.project_id ?? null,
+        label: `Update ${shift?.name ?? 'shift'}`,
+      });
 
       // Update local state
       set((state) => ({
@@ -1612,19 +3346,20 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
-      const worker = get().shiftWorkers.find(w => w.id === shiftWorkerId);
-      const shiftId = worker?.shift_id;
-
-      const { error } = await supabase
+      // The worker may not be loaded locally (e.g. another shift), so take the shift from the row
+      const { data, error } = await supabase
         .from('shift_workers')
         .update({
           form_submitted: true,
           form_submitted_at: new Date().toISOString(),
           document_id: documentId,
         })
-        .eq('id', shiftWorkerId);
+        .eq('id', shiftWorkerId)
+        .select('shift_id')
+        .single();
 
       if (error) throw error;
+      const shiftId: string = data.shift_id;
 
       // Update local state
       set((state) => {
@@ -1656,58 +3391,313 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
   },
 
   // ============================================================================
-  // Shift Closeout Actions
+  // Document → Shift Worker Matching
   // ============================================================================
 
-  closeoutShift: async (input) => {
+  // Runs in the background (realtime inserts, reprocessing), so failures are
+  // logged rather than surfaced as a page error
+  routeDocuments: async (projectId, documentIds) => {
+    try {
+      const { data: aliases, error } = await supabase
+        .from('document_name_aliases')
+        .select('*')
+        .eq('project_id', projectId);
+
+      if (error) throw error;
+
+      const filed = await fileDocumentsByRoutingRules(get(), projectId, aliases ?? [], documentIds);
+      if (filed.size === 0) return 0;
+
+      const folderByDocument = new Map([...filed].flatMap(([folderId, ids]) => ids.map((id) => [id, folderId] as const)));
+      set((state) => ({
+        documents: state.documents.map((doc) => {
+          const folderId = folderByDocument.get(doc.id);
+          return folderId ? { ...doc, folder_id: folderId, status: 'filed' as const, filing_source: 'rule' as const } : doc;
+        }),
+      }));
+
+      console.log(`📏 Filed ${folderByDocument.size} incoming document(s) by routing rules`);
+      return folderByDocument.size;
+    } catch (error) {
+      console.error('Failed to apply routing rules:', error);
+      return 0;
+    }
+  },
+
+  autoMatchDocuments: async (projectId, documentIds) => {
+    try {
+      const candidates = get().documents.filter(
+        (d) =>
+          d.project_id === projectId &&
+          !d.shift_id &&
+          d.status !== 'rejected' &&
+          isHazardAssessment(d) &&
+          (!documentIds || documentIds.includes(d.id))
+      );
+      if (candidates.length === 0) return { matched: 0, queued: 0 };
+
+      const { data: activeShifts, error: shiftsError } = await supabase
+        .from('project_shifts')
+        .select('id, name, scheduled_date')
+        .eq('project_id', projectId)
+        .eq('status', 'active');
+
+      if (shiftsError) throw shiftsError;
+      if (!activeShifts?.length) return { matched: 0, queued: 0 };
+
+      const { data: openWorkers, error: workersError } = await supabase
+        .from('shift_workers')
+        .select('*')
+        .in('shift_id', activeShifts.map((s: { id: string }) => s.id))
+        .eq('form_submitted', false);
+
+      if (workersError) throw workersError;
+
+      // A supervisor's answer is final; pending rows are re-ranked since the
+      // document may have gained a worker name since it was queued
+      const { data: existing, error: queueError } = await supabase
+        .from('document_shift_matches')
+        .select('*')
+        .in('document_id', candidates.map((d) => d.id));
+
+      if (queueError) throw queueError;
+      const existingMatches: DocumentShiftMatch[] = existing ?? [];
+
+      let pool: ShiftWorker[] = openWorkers ?? [];
+      let matched = 0;
+      const queuedMatches: DocumentShiftMatch[] = [];
+
+      for (const document of candidates) {
+        const existingMatch = existingMatches.find((m) => m.document_id === document.id);
+        if (existingMatch && existingMatch.status !== 'pending') continue;
+
+        const decision = decideShiftMatch(rankShiftMatches(document, activeShifts, pool));
+
+        if (decision.kind === 'confident') {
+          const linked = await get().linkDocumentToShiftWorker(document.id, decision.candidate.shift_worker_id, 'auto');
+          if (!linked) continue;
+
+          matched++;
+          // One form per worker per shift
+          pool = pool.filter((w) => w.id !== decision.candidate.shift_worker_id);
+
+          if (existingMatch) {
+            await supabase
+              .from('document_shift_matches')
+              .update({ status: 'confirmed', resolved_at: new Date().toISOString() })
+              .eq('id', existingMatch.id);
+          }
+        } else if (decision.kind === 'ambiguous') {
+          const { data, error } = existingMatch
+            ? await supabase
+                .from('document_shift_matches')
+                .update({ candidates: decision.candidates })
+                .eq('id', existingMatch.id)
+                .select()
+                .single()
+            : await supabase
+                .from('document_shift_matches')
+                .insert({
+                  project_id: projectId,
+                  document_id: document.id,
+                  candidates: decision.candidates,
+                  status: 'pending',
+                })
+                .select()
+                .single();
+
+          if (error) {
+            console.error('Failed to queue shift match for', document.id, error);
+            continue;
+          }
+          queuedMatches.push(data);
+        }
+      }
+
+      if (queuedMatches.length > 0) {
+        set((state) => ({
+          shiftMatchQueue: [
+            ...queuedMatches,
+            ...state.shiftMatchQueue.filter((m) => !queuedMatches.some((q) => q.id === m.id)),
+          ],
+        }));
+      }
+      if (matched > 0 || queuedMatches.length > 0) {
+        console.log(`🔗 Auto-matched ${matched} document(s), ${queuedMatches.length} waiting for confirmation`);
+      }
+
+      return { matched, queued: queuedMatches.length };
+    } catch (error) {
+      console.error('❌ Auto-match error:', error);
+      return { matched: 0, queued: 0 };
+    }
+  },
+
+  linkDocumentToShiftWorker: async (documentId, shiftWorkerId, matchedBy = 'supervisor') => {
+    set({ error: null });
+
+    try {
+      const submittedAt = new Date().toISOString();
+
+      // Only claim a worker whose form is still outstanding
+      const { data: worker, error: workerError } = await supabase
+        .from('shift_workers')
+        .update({ form_submitted: true, form_submitted_at: submittedAt, document_id: documentId })
+        .eq('id', shiftWorkerId)
+        .eq('form_submitted', false)
+        .select()
+        .maybeSingle();
+
+      if (workerError) throw workerError;
+      if (!worker) throw new Error('That worker has already submitted a form for this shift');
+
+      const { error: documentError } = await supabase
+        .from('received_documents')
+        .update({ shift_id: worker.shift_id })
+        .eq('id', documentId);
+
+      if (documentError) throw documentError;
+
+      console.log(`🔗 Linked document ${documentId.substring(0, 8)} to ${worker.name} (${matchedBy})`);
+
+      set((state) => ({
+        documents: state.documents.map((d) => (d.id === documentId ? { ...d, shift_id: worker.shift_id } : d)),
+        shiftWorkers: state.shiftWorkers.map((w) => (w.id === shiftWorkerId ? { ...w, ...worker } : w)),
+        shifts: state.shifts.map((s) =>
+          s.id === worker.shift_id ? { ...s, forms_submitted: s.forms_submitted + 1 } : s
+        ),
+        currentShift: state.currentShift && state.currentShift.id === worker.shift_id
+          ? { ...state.currentShift, forms_submitted: (state.currentShift.forms_submitted ?? 0) + 1 }
+          : state.currentShift,
+        // A document only needs confirming once
+        shiftMatchQueue: state.shiftMatchQueue.filter((m) => m.document_id !== documentId),
+      }));
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to link document to worker';
+      set({ error: message });
+      return false;
+    }
+  },
+
+  fetchShiftMatchQueue: async (projectId) => {
+    try {
+      const { data, error } = await supabase
+        .from('document_shift_matches')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      set((state) => ({
+        shiftMatchQueue: [
+          ...(data ?? []),
+          ...state.shiftMatchQueue.filter((m) => m.project_id !== projectId),
+        ],
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch match queue';
+      set({ error: message });
+    }
+  },
+
+  confirmShiftMatch: async (matchId, shiftWorkerId) => {
+    const match = get().shiftMatchQueue.find((m) => m.id === matchId);
+    if (!match) return;
+
     set({ loading: true, error: null });
 
     try {
+      const linked = await get().linkDocumentToShiftWorker(match.document_id, shiftWorkerId);
+      if (!linked) {
+        set({ loading: false });
+        return;
+      }
+
       const {
         data: { user },
       } = await supabase.auth.getUser();
 
-      if (!user) throw new Error('Not authenticated');
+      const { error } = await supabase
+        .from('document_shift_matches')
+        .update({ status: 'confirmed', resolved_by: user?.id ?? null, resolved_at: new Date().toISOString() })
+        .eq('id', matchId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        shiftMatchQueue: state.shiftMatchQueue.filter((m) => m.id !== matchId),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to confirm match';
+      set({ error: message, loading: false });
+    }
+  },
+
+  dismissShiftMatch: async (matchId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
 
       const { error } = await supabase
-        .from('project_shifts')
-        .update({
-          status: 'completed',
-          closeout_checklist: input.closeout_checklist,
-          closeout_notes: sanitizeNullableString(input.closeout_notes),
-          incomplete_reason: sanitizeNullableString(input.incomplete_reason),
-          closed_at: new Date().toISOString(),
-          closed_by: user.id,
-        })
-        .eq('id', input.shift_id);
+        .from('document_shift_matches')
+        .update({ status: 'dismissed', resolved_by: user?.id ?? null, resolved_at: new Date().toISOString() })
+        .eq('id', matchId);
 
       if (error) throw error;
 
+      set((state) => ({
+        shiftMatchQueue: state.shiftMatchQueue.filter((m) => m.id !== matchId),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to dismiss match';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // ============================================================================
+  // Shift Closeout Actions
+  // ============================================================================
+
+  closeoutShift: async (input) => {
+    set({ loading: true, error: null });
+
+    try {
+      const userId = await getWriterId();
+      if (!userId) throw new Error('Not authenticated');
+
+      const closeout = {
+        status: 'completed' as const,
+        closeout_checklist: input.closeout_checklist,
+        closeout_notes: sanitizeNullableString(input.closeout_notes),
+        incomplete_reason: sanitizeNullableString(input.incomplete_reason),
+        closed_at: new Date().toISOString(),
+        closed_by: userId,
+      };
+
+      const shift = get().shifts.find((s) => s.id === input.shift_id) ??
+        (get().currentShift?.id === input.shift_id ? get().currentShift : undefined);
+      await persistUpdate('project_shifts', input.shift_id, closeout, {
+        baseUpdatedAt: shift?.updated_at,
+        projectId: shift?.project_id ?? null,
+        label: `Close out ${shift?.name ?? 'shift'}`,
+      });
+
       // Update local state
       set((state) => ({
         shifts: state.shifts.map((s) =>
-          s.id === input.shift_id
-            ? {
-                ...s,
-                status: 'completed' as const,
-                closeout_checklist: input.closeout_checklist,
-                closeout_notes: input.closeout_notes ?? null,
-                incomplete_reason: input.incomplete_reason ?? null,
-                closed_at: new Date().toISOString(),
-                closed_by: user.id,
-              }
-            : s
+          s.id === input.shift_id ? { ...s, ...closeout } : s
         ),
         currentShift: state.currentShift?.id === input.shift_id
-          ? {
-              ...state.currentShift,
-              status: 'completed' as const,
-              closeout_checklist: input.closeout_checklist,
-              closeout_notes: input.closeout_notes ?? null,
-              incomplete_reason: input.incomplete_reason ?? null,
-              closed_at: new Date().toISOString(),
-              closed_by: user.id,
-            }
+          ? { ...state.currentShift, ...closeout }
           : state.currentShift,
         loading: false,
       }));
@@ -1717,76 +3707,325 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
-  // ============================================================================
-  // Shift Notification Actions
-  // ============================================================================
+  // ============================================================================
+  // Shift Notification Actions
+  // ============================================================================
+
+  sendShiftNotifications: async (shiftId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) throw new Error('Not authenticated');
+
+      console.log('📧 Sending shift notifications for:', shiftId);
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-shift-notifications`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ shift_id: shiftId }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const result = await response.json();
+      console.log('✅ Notification result:', result);
+
+      // Refresh shift workers to get updated notification statuses
+      await get().fetchShiftWorkers(shiftId);
+
+      // Update shift status to active if it was in draft
+      const shift = get().shifts.find(s => s.id === shiftId);
+      if (shift?.status === 'draft') {
+        set((state) => ({
+          shifts: state.shifts.map((s) =>
+            s.id === shiftId ? { ...s, status: 'active' as const } : s
+          ),
+          currentShift: state.currentShift?.id === shiftId
+            ? { ...state.currentShift, status: 'active' as const }
+            : state.currentShift,
+        }));
+      }
+
+      set({ loading: false });
+
+      return {
+        success: true,
+        sent: result.sent ?? 0,
+        failed: result.failed ?? 0,
+        message: result.message ?? 'Notifications sent',
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send notifications';
+      console.error('❌ Notification error:', message);
+      set({ error: message, loading: false });
+      return {
+        success: false,
+        sent: 0,
+        failed: 0,
+        message,
+      };
+    }
+  },
+
+  // ============================================================================
+  // Shift Reminder Actions (missing forms)
+  // ============================================================================
+
+  fetchShiftReminders: async (shiftId) => {
+    try {
+      const { data, error } = await supabase
+        .from('shift_worker_reminders')
+        .select('*')
+        .eq('shift_id', shiftId)
+        .order('sent_at', { ascending: false });
+
+      if (error) throw error;
+
+      set((state) => ({
+        shiftReminders: [
+          ...(data ?? []),
+          ...state.shiftReminders.filter((r) => r.shift_id !== shiftId),
+        ],
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch reminders';
+      set({ error: message });
+    }
+  },
+
+  // Scheduled runs only remind workers whose next reminder time has passed;
+  // manual runs remind everyone still missing a form
+  sendShiftReminders: async (shiftId, trigger = 'manual') => {
+    const scheduled = trigger === 'scheduled';
+    if (!scheduled) set({ loading: true, error: null });
+
+    try {
+      const shift = get().shifts.find((s) => s.id === shiftId) ?? (get().currentShift?.id === shiftId ? get().currentShift : null);
+      if (!shift) throw new Error('Shift not found');
+
+      // Read from the database so shifts that aren't open still get reminders
+      const { data: workerRows, error: workersError } = await supabase
+        .from('shift_workers')
+        .select('*')
+        .eq('shift_id', shiftId)
+        .eq('form_submitted', false);
+
+      if (workersError) throw workersError;
+
+      const missing = (workerRows ?? []) as ShiftWorker[];
+      const settings = getReminderSettings(get().projects.find((p) => p.id === shift.project_id));
+      const now = new Date();
+      const due = scheduled ? getDueReminderWorkers(shift, missing, settings, now) : missing;
 
-  sendShiftNotifications: async (shiftId) => {
-    set({ loading: true, error: null });
+      if (due.length === 0 && getReminderEscalations(missing, get().subcontractors, settings, new Set(), now).length === 0) {
+        if (!scheduled) set({ loading: false });
+        return { success: true, sent: 0, failed: 0, escalated: 0, message: 'Every worker has submitted a form' };
+      }
 
-    try {
       const {
         data: { session },
       } = await supabase.auth.getSession();
 
       if (!session) throw new Error('Not authenticated');
 
-      console.log('📧 Sending shift notifications for:', shiftId);
-
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-shift-notifications`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${session.access_token}`,
-          },
-          body: JSON.stringify({ shift_id: shiftId }),
-        }
+      // Claim every send before making it. A failed send still uses up its
+      // slot, so the schedule moves on instead of retrying every minute.
+      // Manual sends have their own counter and don't use up scheduled slots.
+      const claimedAt = now.toISOString();
+      const changes = new Map<string, Partial<ShiftWorker>>();
+
+      const reminderClaims = await Promise.all(
+        due.map(async (worker) => {
+          const update: Partial<ShiftWorker> = scheduled
+            ? { reminder_count: worker.reminder_count + 1, last_reminder_at: claimedAt }
+            : { manual_reminder_count: (worker.manual_reminder_count ?? 0) + 1, last_manual_reminder_at: claimedAt };
+          const claimed = scheduled
+            ? await claimShiftWorker(worker.id, 'reminder_count', worker.reminder_count, update)
+            : await claimShiftWorker(worker.id, 'manual_reminder_count', worker.manual_reminder_count ?? 0, update);
+          if (!claimed) return null;
+          changes.set(worker.id, update);
+          return worker;
+        })
       );
+      const toRemind = reminderClaims.filter((w): w is ShiftWorker => w !== null);
+      const remindedIds = new Set(toRemind.map((w) => w.id));
+
+      // Only scheduled reminders count as misses toward escalation
+      const escalationClaims = await Promise.all(
+        getReminderEscalations(missing, get().subcontractors, settings, scheduled ? remindedIds : new Set(), now).map(async (group) => {
+          const workers = await Promise.all(
+            group.workers.map(async (worker) => {
+              const attempts = worker.escalation_attempts ?? 0;
+              const update = { escalation_attempts: attempts + 1, last_escalation_attempt_at: claimedAt };
+              if (!(await claimShiftWorker(worker.id, 'escalation_attempts', attempts, update))) return null;
+              changes.set(worker.id, { ...changes.get(worker.id), ...update });
+              return worker;
+            })
+          );
+          return { ...group, workers: workers.filter((w): w is ShiftWorker => w !== null) };
+        })
+      );
+      const escalations = escalationClaims.filter((group) => group.workers.length > 0);
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(errorData.error || `HTTP ${response.status}`);
+      if (toRemind.length === 0 && escalations.length === 0) {
+        if (!scheduled) set({ loading: false });
+        return { success: true, sent: 0, failed: 0, escalated: 0, message: 'Reminders are already being sent by another supervisor' };
       }
 
-      const result = await response.json();
-      console.log('✅ Notification result:', result);
+      console.log('⏰ Sending', trigger, 'reminders for shift:', shiftId, toRemind.length, 'worker(s),', escalations.length, 'escalation(s)');
+
+      let result: ReminderSendResponse;
+      try {
+        const response = await fetch(
+          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-shift-reminders`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${session.access_token}`,
+            },
+            body: JSON.stringify({
+              shift_id: shiftId,
+              shift_worker_ids: [...remindedIds],
+              escalations: escalations.map((e) => ({
+                subcontractor_id: e.subcontractor.id,
+                contact_email: e.subcontractor.contact_email,
+                contact_name: e.subcontractor.contact_name,
+                shift_worker_ids: e.workers.map((w) => w.id),
+              })),
+            }),
+          }
+        );
 
-      // Refresh shift workers to get updated notification statuses
-      await get().fetchShiftWorkers(shiftId);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+          throw new Error(errorData.error || `HTTP ${response.status}`);
+        }
 
-      // Update shift status to active if it was in draft
-      const shift = get().shifts.find(s => s.id === shiftId);
-      if (shift?.status === 'draft') {
-        set((state) => ({
-          shifts: state.shifts.map((s) =>
-            s.id === shiftId ? { ...s, status: 'active' as const } : s
-          ),
-          currentShift: state.currentShift?.id === shiftId
-            ? { ...state.currentShift, status: 'active' as const }
-            : state.currentShift,
+        result = await response.json();
+      } catch (sendError) {
+        // The slots are already claimed, so log every send as failed
+        const message = sendError instanceof Error ? sendError.message : 'Failed to send reminders';
+        result = {
+          reminders: toRemind.map((w) => ({ shift_worker_id: w.id, status: 'failed' as const, error: message })),
+          escalations: escalations.map((e) => ({ subcontractor_id: e.subcontractor.id, status: 'failed' as const, error: message })),
+        };
+      }
+
+      const sentAt = new Date().toISOString();
+
+      const reminderRecords: ShiftReminder[] = (result.reminders ?? []).map((r) => ({
+        id: crypto.randomUUID(),
+        shift_id: shiftId,
+        shift_worker_id: r.shift_worker_id,
+        kind: 'reminder',
+        trigger,
+        recipient: r.recipient ?? null,
+        status: r.status,
+        error: r.error ?? null,
+        sent_by: session.user.id,
+        sent_at: sentAt,
+      }));
+      const escalationRecords: ShiftReminder[] = (result.escalations ?? []).flatMap((e) => {
+        const group = escalations.find((g) => g.subcontractor.id === e.subcontractor_id);
+        return (group?.workers ?? []).map((worker) => ({
+          id: crypto.randomUUID(),
+          shift_id: shiftId,
+          shift_worker_id: worker.id,
+          kind: 'escalation' as const,
+          trigger,
+          recipient: group?.subcontractor.contact_email ?? null,
+          status: e.status,
+          error: e.error ?? null,
+          sent_by: session.user.id,
+          sent_at: sentAt,
         }));
+      });
+      const records = [...reminderRecords, ...escalationRecords];
+
+      if (records.length > 0) {
+        const { error: recordError } = await supabase.from('shift_worker_reminders').insert(records);
+        if (recordError) throw recordError;
       }
 
-      set({ loading: false });
+      const escalatedIds = escalationRecords.filter((r) => r.status === 'sent').map((r) => r.shift_worker_id);
+      if (escalatedIds.length > 0) {
+        const { error: escalatedError } = await supabase
+          .from('shift_workers')
+          .update({ escalated_at: sentAt })
+          .in('id', escalatedIds);
+        if (escalatedError) throw escalatedError;
+        for (const id of escalatedIds) changes.set(id, { ...changes.get(id), escalated_at: sentAt });
+      }
+
+      set((state) => ({
+        shiftWorkers: state.shiftWorkers.map((w) => (changes.has(w.id) ? { ...w, ...changes.get(w.id) } : w)),
+        shiftReminders: [...records, ...state.shiftReminders],
+        ...(scheduled ? {} : { loading: false }),
+      }));
+
+      const sent = reminderRecords.filter((r) => r.status === 'sent').length;
+      const failed = records.length - sent - escalationRecords.filter((r) => r.status === 'sent').length;
+      const escalated = (result.escalations ?? []).filter((e) => e.status === 'sent').length;
 
       return {
-        success: true,
-        sent: result.sent ?? 0,
-        failed: result.failed ?? 0,
-        message: result.message ?? 'Notifications sent',
+        success: failed === 0,
+        sent,
+        failed,
+        escalated,
+        message: `Sent ${sent} reminder${sent === 1 ? '' : 's'}` +
+          (escalated > 0 ? `, notified ${escalated} subcontractor${escalated === 1 ? '' : 's'}` : '') +
+          (failed > 0 ? ` (${failed} failed)` : ''),
       };
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to send notifications';
-      console.error('❌ Notification error:', message);
-      set({ error: message, loading: false });
-      return {
-        success: false,
-        sent: 0,
-        failed: 0,
-        message,
+      const message = error instanceof Error ? error.message : 'Failed to send reminders';
+      console.error('❌ Reminder error:', message);
+      set(scheduled ? {} : { error: message, loading: false });
+      return { success: false, sent: 0, failed: 0, escalated: 0, message };
+    }
+  },
+
+  updateProjectReminderSettings: async (projectId, settings) => {
+    set({ loading: true, error: null });
+
+    try {
+      const reminderSettings: ShiftReminderSettings = {
+        ...settings,
+        offsets_minutes: [...new Set(settings.offsets_minutes.filter((m) => m >= 0))].sort((a, b) => a - b),
+        escalate_after: Math.max(1, settings.escalate_after),
       };
+
+      const { error } = await supabase
+        .from('supervisor_projects')
+        .update({ reminder_settings: reminderSettings })
+        .eq('id', projectId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        projects: state.projects.map((p) => (p.id === projectId ? { ...p, reminder_settings: reminderSettings } : p)),
+        currentProject:
+          state.currentProject?.id === projectId
+            ? { ...state.currentProject, reminder_settings: reminderSettings }
+            : state.currentProject,
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update reminder schedule';
+      set({ error: message, loading: false });
     }
   },
 
@@ -1836,12 +4075,11 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     const updatedTasks = [...(shift.shift_tasks ?? []), newTask];
 
     try {
-      const { error } = await supabase
-        .from('project_shifts')
-        .update({ shift_tasks: updatedTasks })
-        .eq('id', shiftId);
-
-      if (error) throw error;
+      await persistUpdate('project_shifts', shiftId, { shift_tasks: updatedTasks }, {
+        baseUpdatedAt: shift.updated_at,
+        projectId: shift.project_id,
+        label: `Add task on ${shift.name}`,
+      });
 
       set((state) => ({
         shifts: state.shifts.map((s) =>
@@ -1865,12 +4103,11 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     );
 
     try {
-      const { error } = await supabase
-        .from('project_shifts')
-        .update({ shift_tasks: updatedTasks })
-        .eq('id', shiftId);
-
-      if (error) throw error;
+      await persistUpdate('project_shifts', shiftId, { shift_tasks: updatedTasks }, {
+        baseUpdatedAt: shift.updated_at,
+        projectId: shift.project_id,
+        label: `Update task on ${shift.name}`,
+      });
 
       set((state) => ({
         shifts: state.shifts.map((s) =>
@@ -1892,12 +4129,11 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     const updatedTasks = (shift.shift_tasks ?? []).filter((t) => t.id !== taskId);
 
     try {
-      const { error } = await supabase
-        .from('project_shifts')
-        .update({ shift_tasks: updatedTasks })
-        .eq('id', shiftId);
-
-      if (error) throw error;
+      await persistUpdate('project_shifts', shiftId, { shift_tasks: updatedTasks }, {
+        baseUpdatedAt: shift.updated_at,
+        projectId: shift.project_id,
+        label: `Remove task on ${shift.name}`,
+      });
 
       set((state) => ({
         shifts: state.shifts.map((s) =>
@@ -1926,12 +4162,11 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     const updatedNotes = [...(shift.shift_notes ?? []), newNote];
 
     try {
-      const { error } = await supabase
-        .from('project_shifts')
-        .update({ shift_notes: updatedNotes })
-        .eq('id', shiftId);
-
-      if (error) throw error;
+      await persistUpdate('project_shifts', shiftId, { shift_notes: updatedNotes }, {
+        baseUpdatedAt: shift.updated_at,
+        projectId: shift.project_id,
+        label: `Add note on ${shift.name}`,
+      });
 
       set((state) => ({
         shifts: state.shifts.map((s) =>
@@ -1955,12 +4190,11 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     );
 
     try {
-      const { error } = await supabase
-        .from('project_shifts')
-        .update({ shift_notes: updatedNotes })
-        .eq('id', shiftId);
-
-      if (error) throw error;
+      await persistUpdate('project_shifts', shiftId, { shift_notes: updatedNotes }, {
+        baseUpdatedAt: shift.updated_at,
+        projectId: shift.project_id,
+        label: `Edit note on ${shift.name}`,
+      });
 
       set((state) => ({
         shifts: state.shifts.map((s) =>
@@ -1982,12 +4216,11 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     const updatedNotes = (shift.shift_notes ?? []).filter((n) => n.id !== noteId);
 
     try {
-      const { error } = await supabase
-        .from('project_shifts')
-        .update({ shift_notes: updatedNotes })
-        .eq('id', shiftId);
-
-      if (error) throw error;
+      await persistUpdate('project_shifts', shiftId, { shift_notes: updatedNotes }, {
+        baseUpdatedAt: shift.updated_at,
+        projectId: shift.project_id,
+        label: `Remove note on ${shift.name}`,
+      });
 
       set((state) => ({
         shifts: state.shifts.map((s) =>
@@ -1998,99 +4231,331 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
           : state.currentShift,
       }));
     } catch (error) {
-      console.error('Failed to remove shift note:', error);
+      console.error('Failed to remove shift note:', error);
+    }
+  },
+
+  addCustomCategory: async (shiftId, category) => {
+    const shift = get().shifts.find((s) => s.id === shiftId);
+    if (!shift) return;
+
+    const newCategory: CustomCategory = {
+      id: crypto.randomUUID(),
+      name: sanitizeString(category.name),
+      color: category.color,
+    };
+
+    const updatedCategories = [...(shift.custom_categories ?? []), newCategory];
+
+    try {
+      await persistUpdate('project_shifts', shiftId, { custom_categories: updatedCategories }, {
+        baseUpdatedAt: shift.updated_at,
+        projectId: shift.project_id,
+        label: `Add category on ${shift.name}`,
+      });
+
+      set((state) => ({
+        shifts: state.shifts.map((s) =>
+          s.id === shiftId ? { ...s, custom_categories: updatedCategories } : s
+        ),
+        currentShift: state.currentShift?.id === shiftId
+          ? { ...state.currentShift, custom_categories: updatedCategories }
+          : state.currentShift,
+      }));
+    } catch (error) {
+      console.error('Failed to add custom category:', error);
+    }
+  },
+
+  removeCustomCategory: async (shiftId, categoryId) => {
+    const shift = get().shifts.find((s) => s.id === shiftId);
+    if (!shift) return;
+
+    const updatedCategories = (shift.custom_categories ?? []).filter((c) => c.id !== categoryId);
+
+    try {
+      await persistUpdate('project_shifts', shiftId, { custom_categories: updatedCategories }, {
+        baseUpdatedAt: shift.updated_at,
+        projectId: shift.project_id,
+        label: `Remove category on ${shift.name}`,
+      });
+
+      set((state) => ({
+        shifts: state.shifts.map((s) =>
+          s.id === shiftId ? { ...s, custom_categories: updatedCategories } : s
+        ),
+        currentShift: state.currentShift?.id === shiftId
+          ? { ...state.currentShift, custom_categories: updatedCategories }
+          : state.currentShift,
+      }));
+    } catch (error) {
+      console.error('Failed to remove custom category:', error);
+    }
+  },
+
+  getTasksByCategory: (shiftId, category) => {
+    const shift = get().shifts.find((s) => s.id === shiftId);
+    if (!shift) return [];
+    return (shift.shift_tasks ?? []).filter((t) => t.category === category);
+  },
+
+  getNotesByCategory: (shiftId, category) => {
+    const shift = get().shifts.find((s) => s.id === shiftId);
+    if (!shift) return [];
+    return (shift.shift_notes ?? []).filter((n) => n.category === category);
+  },
+
+  getTaskCompletionByCategory: (shiftId) => {
+    const shift = get().shifts.find((s) => s.id === shiftId);
+    if (!shift) return {};
+
+    const result: Record<string, { total: number; completed: number }> = {};
+    
+    for (const task of shift.shift_tasks ?? []) {
+      if (!result[task.category]) {
+        result[task.category] = { total: 0, completed: 0 };
+      }
+      result[task.category].total++;
+      if (task.checked) {
+        result[task.category].completed++;
+      }
+    }
+
+    return result;
+  },
+
+  // ============================================================================
+  // Shift Template Actions
+  // ============================================================================
+
+  fetchShiftTemplates: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('project_shift_templates')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('name');
+
+      if (error) throw error;
+
+      set({ shiftTemplates: (data ?? []).map(normalizeShiftTemplate), loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch shift templates';
+      set({ error: message, loading: false });
+    }
+  },
+
+  createShiftTemplate: async (input) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('project_shift_templates')
+        .insert({
+          project_id: input.project_id,
+          name: sanitizeString(input.name),
+          start_time: input.start_time || null,
+          end_time: input.end_time || null,
+          notes: sanitizeNullableString(input.notes),
+          shift_tasks: input.shift_tasks ?? [],
+          shift_notes: input.shift_notes ?? [],
+          custom_categories: input.custom_categories ?? [],
+          worker_ids: input.worker_ids ?? [],
+          adhoc_workers: (input.adhoc_workers ?? []).map((w) => ({ ...w, name: sanitizeString(w.name) })),
+          recurrence: input.recurrence ?? { ...DEFAULT_RECURRENCE, frequency: 'none' },
+          starts_on: input.starts_on,
+          lead_days: input.lead_days ?? 7,
+          generated_through: input.generated_through ?? null,
+          is_active: true,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const template = normalizeShiftTemplate(data);
+
+      set((state) => ({
+        shiftTemplates: [...state.shiftTemplates, template].sort((a, b) => a.name.localeCompare(b.name)),
+        loading: false,
+      }));
+
+      return template;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save shift template';
+      set({ error: message, loading: false });
+      return null;
     }
   },
 
-  addCustomCategory: async (shiftId, category) => {
-    const shift = get().shifts.find((s) => s.id === shiftId);
-    if (!shift) return;
-
-    const newCategory: CustomCategory = {
-      id: crypto.randomUUID(),
-      name: sanitizeString(category.name),
-      color: category.color,
-    };
-
-    const updatedCategories = [...(shift.custom_categories ?? []), newCategory];
+  // Changes apply to shifts generated from now on; existing drafts are left alone
+  updateShiftTemplate: async (templateId, input) => {
+    set({ loading: true, error: null });
 
     try {
+      const updateData: Record<string, unknown> = { ...input };
+      if (input.name !== undefined) updateData.name = sanitizeString(input.name);
+      if (input.notes !== undefined) updateData.notes = sanitizeNullableString(input.notes);
+
       const { error } = await supabase
-        .from('project_shifts')
-        .update({ custom_categories: updatedCategories })
-        .eq('id', shiftId);
+        .from('project_shift_templates')
+        .update(updateData)
+        .eq('id', templateId);
 
       if (error) throw error;
 
       set((state) => ({
-        shifts: state.shifts.map((s) =>
-          s.id === shiftId ? { ...s, custom_categories: updatedCategories } : s
+        shiftTemplates: state.shiftTemplates.map((t) =>
+          t.id === templateId ? { ...t, ...(updateData as Partial<ShiftTemplate>), updated_at: new Date().toISOString() } : t
         ),
-        currentShift: state.currentShift?.id === shiftId
-          ? { ...state.currentShift, custom_categories: updatedCategories }
-          : state.currentShift,
+        loading: false,
       }));
     } catch (error) {
-      console.error('Failed to add custom category:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update shift template';
+      set({ error: message, loading: false });
     }
   },
 
-  removeCustomCategory: async (shiftId, categoryId) => {
-    const shift = get().shifts.find((s) => s.id === shiftId);
-    if (!shift) return;
-
-    const updatedCategories = (shift.custom_categories ?? []).filter((c) => c.id !== categoryId);
+  // Generated shifts stay; their template_id is cleared by the FK
+  deleteShiftTemplate: async (templateId) => {
+    set({ loading: true, error: null });
 
     try {
       const { error } = await supabase
-        .from('project_shifts')
-        .update({ custom_categories: updatedCategories })
-        .eq('id', shiftId);
+        .from('project_shift_templates')
+        .delete()
+        .eq('id', templateId);
 
       if (error) throw error;
 
       set((state) => ({
-        shifts: state.shifts.map((s) =>
-          s.id === shiftId ? { ...s, custom_categories: updatedCategories } : s
-        ),
-        currentShift: state.currentShift?.id === shiftId
-          ? { ...state.currentShift, custom_categories: updatedCategories }
-          : state.currentShift,
+        shiftTemplates: state.shiftTemplates.filter((t) => t.id !== templateId),
+        shifts: state.shifts.map((s) => (s.template_id === templateId ? { ...s, template_id: null } : s)),
+        loading: false,
       }));
     } catch (error) {
-      console.error('Failed to remove custom category:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete shift template';
+      set({ error: message, loading: false });
     }
   },
 
-  getTasksByCategory: (shiftId, category) => {
-    const shift = get().shifts.find((s) => s.id === shiftId);
-    if (!shift) return [];
-    return (shift.shift_tasks ?? []).filter((t) => t.category === category);
-  },
+  generateShiftsFromTemplates: async (projectId) => {
+    const today = toLocalDate(new Date());
+    const templates = get().shiftTemplates.filter((t) => t.project_id === projectId);
+    const created: ProjectShift[] = [];
 
-  getNotesByCategory: (shiftId, category) => {
-    const shift = get().shifts.find((s) => s.id === shiftId);
-    if (!shift) return [];
-    return (shift.shift_notes ?? []).filter((n) => n.category === category);
-  },
+    try {
+      for (const template of templates) {
+        const dates = getPendingTemplateDates(template, today);
+        if (dates.length === 0) continue;
+
+        // Dates another supervisor (or an earlier run) already generated
+        const { data: existing, error: existingError } = await supabase
+          .from('project_shifts')
+          .select('scheduled_date')
+          .eq('template_id', template.id)
+          .in('scheduled_date', dates);
+
+        if (existingError) throw existingError;
+
+        const taken = new Set((existing ?? []).map((s: { scheduled_date: string }) => s.scheduled_date));
+
+        // Skip roster workers removed from the project since the template was saved
+        let workerIds: string[] = [];
+        if (template.worker_ids.length > 0) {
+          const { data: activeWorkers, error: workersError } = await supabase
+            .from('project_workers')
+            .select('id')
+            .in('id', template.worker_ids)
+            .eq('status', 'active');
+
+          if (workersError) throw workersError;
+          workerIds = (activeWorkers ?? []).map((w: { id: string }) => w.id);
+        }
 
-  getTaskCompletionByCategory: (shiftId) => {
-    const shift = get().shifts.find((s) => s.id === shiftId);
-    if (!shift) return {};
+        for (const date of dates) {
+          if (taken.has(date)) continue;
+
+          const now = new Date().toISOString();
+          const shift = await get().createShift({
+            project_id: projectId,
+            name: getGeneratedShiftName(template.name, date),
+            scheduled_date: date,
+            start_time: template.start_time ?? undefined,
+            end_time: template.end_time ?? undefined,
+            notes: template.notes ?? undefined,
+            shift_tasks: template.shift_tasks.map((t) => ({ ...t, id: crypto.randomUUID(), checked: false, created_at: now })),
+            shift_notes: template.shift_notes.map((n) => ({ ...n, id: crypto.randomUUID(), created_at: now })),
+            custom_categories: template.custom_categories,
+            template_id: template.id,
+          });
 
-    const result: Record<string, { total: number; completed: number }> = {};
-    
-    for (const task of shift.shift_tasks ?? []) {
-      if (!result[task.category]) {
-        result[task.category] = { total: 0, completed: 0 };
+          if (!shift) {
+            // Another supervisor generated this day first (UNIQUE template_id, scheduled_date)
+            const { data: generated } = await supabase
+              .from('project_shifts')
+              .select('id')
+              .eq('template_id', template.id)
+              .eq('scheduled_date', date)
+              .maybeSingle();
+
+            if (!generated) throw new Error(get().error ?? 'Failed to create shift');
+            set({ error: null });
+            continue;
+          }
+
+          if (workerIds.length > 0) {
+            await get().addExistingWorkersToShift(shift.id, workerIds);
+          }
+          for (const worker of template.adhoc_workers) {
+            await get().addShiftWorker({
+              shift_id: shift.id,
+              worker_type: 'adhoc',
+              name: worker.name,
+              phone: worker.phone ?? undefined,
+              email: worker.email ?? undefined,
+              subcontractor_id: worker.subcontractor_id ?? undefined,
+              notification_method: worker.notification_method,
+            });
+          }
+
+          created.push(shift);
+        }
+
+        // Remember how far we got so deleted drafts aren't generated again
+        const generatedThrough = dates[dates.length - 1];
+        const { error: updateError } = await supabase
+          .from('project_shift_templates')
+          .update({ generated_through: generatedThrough })
+          .eq('id', template.id);
+
+        if (updateError) throw updateError;
+
+        set((state) => ({
+          shiftTemplates: state.shiftTemplates.map((t) =>
+            t.id === template.id ? { ...t, generated_through: generatedThrough } : t
+          ),
+        }));
       }
-      result[task.category].total++;
-      if (task.checked) {
-        result[task.category].completed++;
+
+      if (created.length > 0) {
+        console.log('🔁 Generated', created.length, 'shift(s) from templates');
       }
+      return created;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to generate shifts from templates';
+      set({ error: message, loading: false });
+      return created;
     }
-
-    return result;
   },
 
   // ============================================================================
@@ -2322,6 +4787,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
   fetchDailyLogs: async (projectId, date) => {
     set({ loading: true, error: null });
+    const requestId = ++dailyLogsRequestId;
 
     try {
       let query = supabase
@@ -2339,8 +4805,15 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (error) throw error;
 
-      set({ dailyLogs: data ?? [], loading: false });
+      const dailyLogs = overlayQueuedWrites(
+        'project_daily_logs',
+        data ?? [],
+        (row) => row.project_id === projectId && (!date || row.log_date === date)
+      );
+      if (requestId !== dailyLogsRequestId) return;
+      set({ dailyLogs, loading: false });
     } catch (error) {
+      if (requestId !== dailyLogsRequestId) return;
       const message = error instanceof Error ? error.message : 'Failed to fetch daily logs';
       set({ error: message, loading: false });
     }
@@ -2348,6 +4821,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
   fetchDailyLogsForDateRange: async (projectId, startDate, endDate) => {
     set({ loading: true, error: null });
+    const requestId = ++dailyLogsRequestId;
 
     try {
       const { data, error } = await supabase
@@ -2361,8 +4835,15 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (error) throw error;
 
-      set({ dailyLogs: data ?? [], loading: false });
+      const dailyLogs = overlayQueuedWrites(
+        'project_daily_logs',
+        data ?? [],
+        (row) => row.project_id === projectId && String(row.log_date) >= startDate && String(row.log_date) <= endDate
+      );
+      if (requestId !== dailyLogsRequestId) return;
+      set({ dailyLogs, loading: false });
     } catch (error) {
+      if (requestId !== dailyLogsRequestId) return;
       const message = error instanceof Error ? error.message : 'Failed to fetch daily logs';
       set({ error: message, loading: false });
     }
@@ -2372,34 +4853,35 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const userId = await getWriterId();
 
-      if (!user) throw new Error('Not authenticated');
+      if (!userId) throw new Error('Not authenticated');
 
       // Use today's date if not provided
       const logDate = input.log_date ?? new Date().toISOString().split('T')[0];
 
-      const { data, error } = await supabase
-        .from('project_daily_logs')
-        .insert({
+      const data = await persistInsert(
+        'project_daily_logs',
+        {
+          id: crypto.randomUUID(),
           project_id: input.project_id,
           log_date: logDate,
           log_type: input.log_type,
           content: sanitizeString(input.content),
           metadata: input.metadata ? sanitizeObject(input.metadata as Record<string, unknown>) : {},
           status: input.status ?? 'active',
-          created_by: user.id,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+          created_by: userId,
+        },
+        {
+          projectId: input.project_id,
+          label: `Add ${DAILY_LOG_TYPE_CONFIG[input.log_type].label} entry`,
+        }
+      ) as unknown as ProjectDailyLog;
 
       // Add to local state
       set((state) => ({
         dailyLogs: [data, ...state.dailyLogs],
+        siteIssues: data.log_type === 'site_issue' ? [data, ...state.siteIssues] : state.siteIssues,
         loading: false,
       }));
 
@@ -2414,76 +4896,365 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
   updateDailyLog: async (logId, input) => {
     set({ loading: true, error: null });
 
-    try {
-      const updateData: Record<string, unknown> = {};
-      
-      if (input.content !== undefined) updateData.content = sanitizeString(input.content);
-      if (input.metadata !== undefined) updateData.metadata = sanitizeObject(input.metadata as Record<string, unknown>);
-      if (input.status !== undefined) updateData.status = input.status;
+    try {
+      const updateData: Record<string, unknown> = {};
+      
+      if (input.content !== undefined) updateData.content = sanitizeString(input.content);
+      if (input.metadata !== undefined) updateData.metadata = sanitizeObject(input.metadata as Record<string, unknown>);
+      if (input.status !== undefined) updateData.status = input.status;
+
+      const log = get().dailyLogs.find((l) => l.id === logId);
+      await persistUpdate('project_daily_logs', logId, updateData, {
+        baseUpdatedAt: log?.updated_at,
+        projectId: log?.project_id ?? null,
+        label: 'Edit log entry',
+      });
+
+      // Update local state
+      set((state) => ({
+        ...patchDailyLog(state, logId, updateData as Partial<ProjectDailyLog>),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update daily log';
+      set({ error: message, loading: false });
+    }
+  },
+
+  deleteDailyLog: async (logId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const log = get().dailyLogs.find((l) => l.id === logId);
+      await persistDelete('project_daily_logs', logId, {
+        baseUpdatedAt: log?.updated_at,
+        projectId: log?.project_id ?? null,
+        label: 'Delete log entry',
+      });
+
+      // Remove from local state
+      set((state) => ({
+        dailyLogs: state.dailyLogs.filter((log) => log.id !== logId),
+        siteIssues: state.siteIssues.filter((log) => log.id !== logId),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete daily log';
+      set({ error: message, loading: false });
+    }
+  },
+
+  toggleSiteIssueStatus: async (logId, newStatus) => {
+    set({ loading: true, error: null });
+
+    try {
+      const authorId = await getWriterId();
+      const { changes } = await writeSiteIssue(get(), logId, (latest) => {
+        const { status, metadata } = buildSiteIssueUpdate(latest, { status: newStatus }, authorId);
+        return { status, metadata: sanitizeObject(metadata as Record<string, unknown>) as SiteIssueMetadata };
+      }, `Mark site issue ${newStatus}`);
+
+      // Update local state
+      set((state) => ({
+        ...patchDailyLog(state, logId, changes),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update site issue status';
+      set({ error: message, loading: false });
+    }
+  },
+
+  // ============================================================================
+  // Site Issue (punch list) Actions
+  // ============================================================================
+
+  fetchSiteIssues: async (projectId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('project_daily_logs')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('log_type', 'site_issue')
+        .order('log_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const siteIssues = overlayQueuedWrites(
+        'project_daily_logs',
+        data ?? [],
+        (row) => row.project_id === projectId && row.log_type === 'site_issue'
+      );
+      set({ siteIssues, loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch site issues';
+      set({ error: message, loading: false });
+    }
+  },
+
+  updateSiteIssue: async (issueId, input) => {
+    set({ loading: true, error: null });
+
+    try {
+      const authorId = await getWriterId();
+      const { issue, changes } = await writeSiteIssue(get(), issueId, (latest) => {
+        const { status, metadata } = buildSiteIssueUpdate(latest, input, authorId);
+        return { status, metadata: sanitizeObject(metadata as Record<string, unknown>) as SiteIssueMetadata };
+      }, 'Update site issue');
+
+      set((state) => ({
+        ...patchDailyLog(state, issueId, changes),
+        loading: false,
+      }));
+
+      // Let a newly assigned subcontractor know by email
+      const previous = (issue.metadata as SiteIssueMetadata).assignee;
+      const metadata = changes.metadata as SiteIssueMetadata;
+      if (metadata.assignee?.kind === 'subcontractor' && metadata.assignee.id !== previous?.id) {
+        await get().sendSiteIssueNotice(issueId);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update site issue';
+      set({ error: message, loading: false });
+    }
+  },
+
+  addSiteIssueComment: async (issueId, text) => {
+    set({ loading: true, error: null });
+
+    try {
+      if (!text.trim()) throw new Error('Comment cannot be empty');
+
+      // Appended to the latest thread, so a comment posted meanwhile isn't lost
+      const comment = siteIssueActivity('comment', sanitizeString(text.trim()), await getWriterId());
+      const { changes } = await writeSiteIssue(get(), issueId, (latest) => {
+        const current = latest.metadata as SiteIssueMetadata;
+        return { metadata: { ...current, activity: [...(current.activity ?? []), comment] } as SiteIssueMetadata };
+      }, 'Comment on site issue');
+
+      set((state) => ({
+        ...patchDailyLog(state, issueId, changes),
+        loading: false,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to add comment';
+      set({ error: message, loading: false });
+    }
+  },
+
+  uploadSiteIssuePhoto: async (issueId, file, stage) => {
+    set({ loading: true, error: null });
+
+    try {
+      const issue = findSiteIssue(get(), issueId);
+      if (!issue) throw new Error('Site issue not found');
+
+      const fileExt = file.name.split('.').pop();
+      const filePath = `daily-logs/${issue.project_id}/issues/${issueId}/${Date.now()}-${stage}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('documents')
+        .upload(filePath, file);
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('documents')
+        .getPublicUrl(filePath);
+
+      const photo: SiteIssuePhoto = {
+        id: crypto.randomUUID(),
+        stage,
+        url: publicUrl,
+        storage_path: filePath,
+        uploaded_at: new Date().toISOString(),
+      };
+      const photoActivity = siteIssueActivity('photo', stage === 'close' ? 'Added a close-out photo' : 'Added a photo', await getWriterId());
+      const { changes } = await writeSiteIssue(get(), issueId, (latest) => {
+        const current = latest.metadata as SiteIssueMetadata;
+        return {
+          metadata: {
+            ...current,
+            photos: [...(current.photos ?? []), photo],
+            activity: [...(current.activity ?? []), photoActivity],
+          } as SiteIssueMetadata,
+        };
+      }, 'Add site issue photo');
+
+      set((state) => ({
+        ...patchDailyLog(state, issueId, changes),
+        loading: false,
+      }));
+
+      console.log('📷 Site issue photo uploaded:', filePath);
+      return photo;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to upload photo';
+      set({ error: message, loading: false });
+      return null;
+    }
+  },
+
+  // ============================================================================
+  // Site Issue Notice Actions
+  // ============================================================================
+
+  fetchSiteIssueNotices: async (projectId) => {
+    try {
+      const { data, error } = await supabase
+        .from('site_issue_notices')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('sent_at', { ascending: false });
+
+      if (error) throw error;
+
+      set({ siteIssueNotices: data ?? [] });
+    } catch (error) {
+      console.error('Failed to fetch site issue notices:', error);
+    }
+  },
+
+  sendSiteIssueNotice: async (issueId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const issue = findSiteIssue(get(), issueId);
+      if (!issue) throw new Error('Site issue not found');
+
+      const current = issue.metadata as SiteIssueMetadata;
+      if (current.assignee?.kind !== 'subcontractor') throw new Error('Issue is not assigned to a subcontractor');
+
+      const subcontractor = get().subcontractors.find((sc) => sc.id === current.assignee!.id);
+      if (!subcontractor?.contact_email) {
+        throw new Error(`No contact email on file for ${current.assignee.name}`);
+      }
+
+      const userId = await getWriterId();
+      if (!userId) throw new Error('Not authenticated');
+
+      // Store the token before sending so the link works as soon as the email lands
+      const token = crypto.randomUUID();
+      const { data: notice, error: insertError } = await supabase
+        .from('site_issue_notices')
+        .insert({
+          log_id: issueId,
+          project_id: issue.project_id,
+          subcontractor_id: subcontractor.id,
+          email: subcontractor.contact_email,
+          token,
+          sent_by: userId,
+          delivery_status: 'pending',
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      const notifier = getNotifier();
+      console.log('📧 Sending site issue notice to:', subcontractor.contact_email, 'via', notifier.name);
 
-      const { error } = await supabase
-        .from('project_daily_logs')
-        .update(updateData)
-        .eq('id', logId);
+      let deliveryError: string | null = null;
+      try {
+        await notifier.sendSiteIssueAssignment({
+          notice_id: notice.id,
+          to: subcontractor.contact_email,
+          company_name: subcontractor.company_name,
+          response_url: getSiteIssueResponseUrl(token),
+        });
+      } catch (error) {
+        deliveryError = error instanceof Error ? error.message : 'Unknown error';
+      }
 
-      if (error) throw error;
+      const delivery = {
+        delivery_status: deliveryError ? ('failed' as const) : notifier.deliveryStatus,
+        error: deliveryError,
+      };
+      const { error: statusError } = await supabase
+        .from('site_issue_notices')
+        .update(delivery)
+        .eq('id', notice.id);
+
+      if (statusError) throw statusError;
+
+      // Record the email on the log entry; a new notice replaces any earlier reply
+      const noticeActivity = siteIssueActivity(
+        'notice',
+        deliveryError
+          ? `Email to ${subcontractor.contact_email} failed: ${deliveryError}`
+          : delivery.delivery_status === 'logged'
+            ? `Email to ${subcontractor.company_name} (${subcontractor.contact_email}) logged locally, not sent`
+            : `Emailed ${subcontractor.company_name} (${subcontractor.contact_email})`,
+        userId
+      );
+      const { changes } = await writeSiteIssue(get(), issueId, (latest) => {
+        const latestMetadata = latest.metadata as SiteIssueMetadata;
+        return {
+          metadata: {
+            ...latestMetadata,
+            contractor_response: deliveryError ? latestMetadata.contractor_response : null,
+            activity: [...(latestMetadata.activity ?? []), noticeActivity],
+          } as SiteIssueMetadata,
+        };
+      }, 'Record site issue email');
 
-      // Update local state
+      const saved: SiteIssueNotice = { ...notice, ...delivery };
       set((state) => ({
-        dailyLogs: state.dailyLogs.map((log) =>
-          log.id === logId ? { ...log, ...updateData } as ProjectDailyLog : log
-        ),
+        ...patchDailyLog(state, issueId, changes),
+        siteIssueNotices: [saved, ...state.siteIssueNotices],
+        error: deliveryError ? `Email not sent: ${deliveryError}` : null,
         loading: false,
       }));
+
+      return saved;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to update daily log';
-      set({ error: message, loading: false });
+      const message = error instanceof Error ? error.message : 'Failed to send notice';
+      set({ error: `Email not sent: ${message}`, loading: false });
+      return null;
     }
   },
 
-  deleteDailyLog: async (logId) => {
+  fetchSiteIssueNoticeByToken: async (token) => {
     set({ loading: true, error: null });
 
     try {
-      const { error } = await supabase
-        .from('project_daily_logs')
-        .delete()
-        .eq('id', logId);
+      const { data, error } = await supabase.rpc('get_site_issue_notice', { p_token: token });
 
       if (error) throw error;
 
-      // Remove from local state
-      set((state) => ({
-        dailyLogs: state.dailyLogs.filter((log) => log.id !== logId),
-        loading: false,
-      }));
+      const view = (Array.isArray(data) ? data[0] : data) as SiteIssueNoticeView | undefined;
+      if (!view) throw new Error('This link is invalid or has expired');
+
+      set({ loading: false });
+      return view;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to delete daily log';
+      const message = error instanceof Error ? error.message : 'Failed to load issue';
       set({ error: message, loading: false });
+      return null;
     }
   },
 
-  toggleSiteIssueStatus: async (logId, newStatus) => {
+  respondToSiteIssueNotice: async (token, comment) => {
     set({ loading: true, error: null });
 
     try {
-      const { error } = await supabase
-        .from('project_daily_logs')
-        .update({ status: newStatus })
-        .eq('id', logId);
+      const { error } = await supabase.rpc('respond_to_site_issue', {
+        p_token: token,
+        p_comment: sanitizeString(comment.trim()) || null,
+      });
 
       if (error) throw error;
 
-      // Update local state
-      set((state) => ({
-        dailyLogs: state.dailyLogs.map((log) =>
-          log.id === logId ? { ...log, status: newStatus } : log
-        ),
-        loading: false,
-      }));
+      console.log('✅ Site issue marked ready for inspection');
+      set({ loading: false });
+      return true;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to update site issue status';
+      const message = error instanceof Error ? error.message : 'Failed to send response';
       set({ error: message, loading: false });
+      return false;
     }
   },
 
@@ -2652,7 +5423,68 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
-  getDailyReportByDate: (date) => {
+  uploadDailyReportPdf: async (reportId, pdf) => {
+    set({ loading: true, error: null });
+
+    try {
+      const report = get().dailyReports.find((r) => r.id === reportId);
+      if (!report) throw new Error('Daily report not found');
+
+      // One file per report date; re-exports overwrite the previous PDF. The bucket
+      // is private, so the path alone doesn't give access; open it with getDailyReportPdfUrl.
+      const storagePath = `${report.project_id}/${report.report_date}.pdf`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(DAILY_REPORT_PDF_BUCKET)
+        .upload(storagePath, pdf, { contentType: 'application/pdf', upsert: true });
+
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase
+        .from('project_daily_reports')
+        .update({ pdf_storage_path: storagePath })
+        .eq('id', reportId);
+
+      if (error) throw error;
+
+      set((state) => ({
+        dailyReports: state.dailyReports.map((r) =>
+          r.id === reportId ? { ...r, pdf_storage_path: storagePath } : r
+        ),
+        loading: false,
+      }));
+
+      console.log('📄 Daily report PDF uploaded:', storagePath);
+      return storagePath;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to upload daily report PDF';
+      set({ error: message, loading: false });
+      return null;
+    }
+  },
+
+  getDailyReportPdfUrl: async (reportId) => {
+    try {
+      const storagePath = get().dailyReports.find((r) => r.id === reportId)?.pdf_storage_path;
+      if (!storagePath) return null;
+
+      const { data, error } = await supabase.storage
+        .from(DAILY_REPORT_PDF_BUCKET)
+        .createSignedUrl(storagePath, DAILY_REPORT_PDF_URL_SECONDS);
+
+      if (error) {
+        console.error('Failed to get daily report PDF URL:', error);
+        return null;
+      }
+
+      return data.signedUrl;
+    } catch (error) {
+      console.error('Error getting daily report PDF URL:', error);
+      return null;
+    }
+  },
+
+    getDailyReportByDate: (date) => {
     return get().dailyReports.find((report) => report.report_date === date);
   },
 
@@ -2707,10 +5539,105 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
+  // ============================================================================
+  // Analytics Actions
+  // ============================================================================
+
+  fetchAnalyticsData: async (projectIds, startDate, endDate) => {
+    if (projectIds.length === 0) return { shifts: [], documents: [], dailyLogs: [] };
+
+    set({ loading: true, error: null });
+
+    try {
+      // Day bounds in local time, matching how log and shift dates are entered
+      const rangeStart = new Date(`${startDate}T00:00:00`).toISOString();
+      const rangeEnd = new Date(`${endDate}T23:59:59.999`).toISOString();
+
+      const [shifts, documents, logs, issues] = await Promise.all([
+        // Drafts (including unrun template days) and cancelled shifts expect no forms
+        fetchAllPages<AnalyticsShift>(() =>
+          supabase
+            .from('project_shifts')
+            .select('id, project_id, name, scheduled_date, start_time, status, shift_workers(id, form_submitted, form_submitted_at)')
+            .in('project_id', projectIds)
+            .in('status', ['active', 'completed'])
+            .gte('scheduled_date', startDate)
+            .lte('scheduled_date', endDate)
+            .order('id')
+        ),
+        fetchAllPages<AnalyticsDocument>(() =>
+          supabase
+            .from('received_documents')
+            .select('id, project_id, received_at, ai_extracted_data')
+            .in('project_id', projectIds)
+            .neq('status', 'rejected')
+            .gte('received_at', rangeStart)
+            .lte('received_at', rangeEnd)
+            .order('id')
+        ),
+        fetchAllPages<ProjectDailyLog>(() =>
+          supabase
+            .from('project_daily_logs')
+            .select('*')
+            .in('project_id', projectIds)
+            .in('log_type', ['manpower', 'schedule_delay'])
+            .gte('log_date', startDate)
+            .lte('log_date', endDate)
+            .order('id')
+        ),
+        // Issues raised before the range can still be open during it
+        fetchAllPages<ProjectDailyLog>(() =>
+          supabase
+            .from('project_daily_logs')
+            .select('*')
+            .in('project_id', projectIds)
+            .eq('log_type', 'site_issue')
+            .lte('log_date', endDate)
+            .order('id')
+        ),
+      ]);
+
+      set({ loading: false });
+      return { shifts, documents, dailyLogs: [...logs, ...issues] };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load analytics';
+      set({ error: message, loading: false });
+      return null;
+    }
+  },
+
   // ============================================================================
   // Supervisor Forms Actions
   // ============================================================================
 
+  // Failing to load isn't an error for the user: the built-in templates still work
+  fetchFormDefinitions: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('form_definitions')
+        .select('template_id, version, definition')
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      // Older versions are kept so forms render with the version they were created on;
+      // a malformed one is skipped and the version before it is used for new forms
+      const formDefinitions: FormTemplate[] = [];
+      for (const row of (data ?? []) as FormDefinitionRow[]) {
+        const template = parseFormDefinition(row);
+        if (template) {
+          formDefinitions.push(template);
+        } else {
+          console.error(`❌ Ignoring malformed form definition ${row.template_id} v${row.version}`);
+        }
+      }
+
+      set({ formDefinitions });
+    } catch (error) {
+      console.error('❌ Failed to load form definitions, using built-in templates:', error);
+    }
+  },
+
   fetchSupervisorForms: async (projectId) => {
     set({ loading: true, error: null });
 
@@ -2723,7 +5650,12 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
 
       if (error) throw error;
 
-      set({ supervisorForms: (data ?? []) as SupervisorFormInstance[], loading: false });
+      const supervisorForms = overlayQueuedWrites(
+        'form_instances',
+        (data ?? []) as SupervisorFormInstance[],
+        (row) => row.project_id === projectId
+      );
+      set({ supervisorForms, loading: false });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to fetch supervisor forms';
       set({ error: message, loading: false });
@@ -2781,9 +5713,13 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
       const formNumber = `${dateStr}-${nextNumber.toString().padStart(2, '0')}`;
 
       // Get form type config for title
-      const formTypeConfig = getFormTypeConfig(input.template_id);
+      const { formDefinitions } = get();
+      const formTypeConfig = getFormTypeConfig(input.template_id, formDefinitions);
       const title = sanitizeString(input.title ?? formTypeConfig?.name ?? input.template_id);
 
+      // Pin the template version so later publishes don't change how this form renders
+      const template = getFormTemplate(input.template_id, formDefinitions);
+
       // Create empty form data structure
       const emptyFormData = {
         modules: {},
@@ -2800,6 +5736,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
           created_by: user.id,
           project_id: input.project_id,
           form_data: emptyFormData,
+          form_definition_version: template?.version ?? null,
           status: 'active',
         })
         .select()
@@ -2823,37 +5760,66 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
-  saveSupervisorForm: async (formId, formData) => {
+  saveSupervisorForm: async (formId, formData, restoredFrom) => {
     set({ loading: true, error: null });
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const userId = await getWriterId();
 
-      if (!user) throw new Error('Not authenticated');
+      if (!userId) throw new Error('Not authenticated');
+
+      const form = get().supervisorForms.find((f) => f.id === formId);
+      if (form && isFormLocked(form)) {
+        throw new Error('This form is finalized. Start an amendment to make changes.');
+      }
 
       // Sanitize form data before storing
       const sanitizedFormData = sanitizeObject(formData as Record<string, unknown>);
+      const updatedAt = new Date().toISOString();
 
-      const { error } = await supabase
-        .from('form_instances')
-        .update({
+      await persistUpdate(
+        'form_instances',
+        formId,
+        {
           form_data: sanitizedFormData,
-          updated_by: user.id,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', formId);
+          updated_by: userId,
+          updated_at: updatedAt,
+        },
+        {
+          baseUpdatedAt: form?.updated_at,
+          projectId: form?.project_id ?? null,
+          label: `Save form ${form?.form_number ?? ''}`.trim(),
+        }
+      );
 
-      if (error) throw error;
+      // Record a revision alongside every save (queued with it when offline)
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const revision: FormRevision = {
+        id: crypto.randomUUID(),
+        form_instance_id: formId,
+        form_data: sanitizedFormData,
+        changed_paths: diffFormData(form?.form_data ?? {}, sanitizedFormData),
+        author_id: userId,
+        author_email: session?.user.email ?? null,
+        restored_from: restoredFrom ?? null,
+        created_at: updatedAt,
+      };
+      await persistInsert('form_instance_revisions', { ...revision }, {
+        projectId: form?.project_id ?? null,
+        label: `Revision for form ${form?.form_number ?? ''}`.trim(),
+      });
 
-      // Update local state
+      // Update local state (updated_at is synced from the server once the write lands)
       set((state) => ({
-        supervisorForms: state.supervisorForms.map((form) =>
-          form.id === formId
-            ? { ...form, form_data: formData, updated_at: new Date().toISOString() }
-            : form
+        supervisorForms: state.supervisorForms.map((f) =>
+          f.id === formId ? { ...f, form_data: formData, updated_by: userId } : f
         ),
+        // Only extend the loaded history when it belongs to this form
+        formRevisions: state.formRevisions.every((r) => r.form_instance_id === formId)
+          ? [revision, ...state.formRevisions]
+          : state.formRevisions,
         loading: false,
       }));
     } catch (error) {
@@ -2866,12 +5832,19 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
-      const { error } = await supabase
+      const form = get().supervisorForms.find((f) => f.id === formId);
+      if (form && isFormLocked(form)) throw new Error('Finalized forms cannot be deleted; archive it instead');
+
+      // Checked again in the query (same rule as isFormLocked) in case it was finalized since the last fetch
+      const { data, error } = await supabase
         .from('form_instances')
         .delete()
-        .eq('id', formId);
+        .eq('id', formId)
+        .or('submitted_at.is.null,submission_version.eq.0')
+        .select('id');
 
       if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Form could not be deleted; finalized forms can only be archived');
 
       // Remove from local state
       set((state) => ({
@@ -2892,19 +5865,16 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
         .from('form_instances')
         .update({
           status: 'archived',
-          submitted_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
         .eq('id', formId);
 
       if (error) throw error;
 
-      // Update local state
+      // Update local state (submitted_at is reserved for finalize)
       set((state) => ({
         supervisorForms: state.supervisorForms.map((form) =>
-          form.id === formId
-            ? { ...form, status: 'archived' as const, submitted_at: new Date().toISOString() }
-            : form
+          form.id === formId ? { ...form, status: 'archived' as const } : form
         ),
         loading: false,
       }));
@@ -2914,19 +5884,220 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     }
   },
 
+  finalizeSupervisorForm: async (formId, formData) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const form = get().supervisorForms.find((f) => f.id === formId);
+      if (!form) throw new Error('Form not found');
+      if (isFormLocked(form)) throw new Error('This form is already finalized');
+
+      // Queued offline saves would land on top of the locked form
+      if (useOfflineSyncStore.getState().queue.some((m) => m.record_id === formId)) {
+        throw new Error('This form has unsynced changes. Sync them before finalizing.');
+      }
+
+      const template = getFormTemplate(form.template_id, get().formDefinitions, form.form_definition_version);
+      const missing = template ? getMissingRequiredFields(template, formData) : [];
+      if (missing.length > 0) {
+        throw new Error(`Complete required fields before finalizing: ${missing.map((m) => m.label).join(', ')}`);
+      }
+
+      const sanitizedFormData = sanitizeObject(formData as Record<string, unknown>);
+      const contentHash = await hashFormData(sanitizedFormData);
+      const submittedAt = new Date().toISOString();
+      const version = (form.submission_version ?? 0) + 1;
+
+      const { data, error } = await supabase
+        .from('form_instances')
+        .update({
+          form_data: sanitizedFormData,
+          submitted_at: submittedAt,
+          updated_by: user.id,
+          updated_at: submittedAt,
+          content_hash: contentHash,
+          submission_version: version,
+          // Forms created before versions were recorded lock to the one they were finalized on
+          form_definition_version: form.form_definition_version ?? template?.version ?? null,
+        })
+        .eq('id', formId)
+        .select('updated_at')
+        .single();
+
+      if (error) throw error;
+
+      // Keep the finalized copy; earlier versions stay untouched when amended
+      const { error: snapshotError } = await supabase
+        .from('form_instance_submissions')
+        .insert({
+          form_instance_id: formId,
+          version,
+          form_data: sanitizedFormData,
+          content_hash: contentHash,
+          submitted_at: submittedAt,
+          submitted_by: user.id,
+          amendment_reason: form.amendment_reason,
+        });
+
+      if (snapshotError) {
+        // Unlock again so the form is never finalized without its snapshot
+        await supabase
+          .from('form_instances')
+          .update({ submitted_at: null, content_hash: form.content_hash, submission_version: form.submission_version })
+          .eq('id', formId);
+        throw snapshotError;
+      }
+
+      set((state) => ({
+        supervisorForms: state.supervisorForms.map((f) =>
+          f.id === formId
+            ? {
+                ...f,
+                form_data: sanitizedFormData,
+                submitted_at: submittedAt,
+                updated_by: user.id,
+                updated_at: (data as { updated_at: string }).updated_at,
+                content_hash: contentHash,
+                submission_version: version,
+                form_definition_version: form.form_definition_version ?? template?.version ?? null,
+              }
+            : f
+        ),
+        loading: false,
+      }));
+
+      console.log('🔒 Form finalized:', form.form_number, `v${version}`);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to finalize supervisor form';
+      set({ error: message, loading: false });
+      return false;
+    }
+  },
+
+  startFormAmendment: async (formId, reason) => {
+    set({ loading: true, error: null });
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error('Not authenticated');
+
+      const form = get().supervisorForms.find((f) => f.id === formId);
+      if (!form) throw new Error('Form not found');
+      if (!isFormLocked(form)) throw new Error('Only finalized forms can be amended');
+
+      const amendmentReason = sanitizeString(reason);
+      if (!amendmentReason) throw new Error('An amendment reason is required');
+
+      const updatedAt = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('form_instances')
+        .update({
+          submitted_at: null,
+          amendment_reason: amendmentReason,
+          updated_by: user.id,
+          updated_at: updatedAt,
+        })
+        .eq('id', formId)
+        .select('updated_at')
+        .single();
+
+      if (error) throw error;
+
+      set((state) => ({
+        supervisorForms: state.supervisorForms.map((f) =>
+          f.id === formId
+            ? {
+                ...f,
+                submitted_at: null,
+                amendment_reason: amendmentReason,
+                updated_by: user.id,
+                updated_at: (data as { updated_at: string }).updated_at,
+              }
+            : f
+        ),
+        loading: false,
+      }));
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to start amendment';
+      set({ error: message, loading: false });
+      return false;
+    }
+  },
+
+  fetchFormSubmissions: async (formId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('form_instance_submissions')
+        .select('*')
+        .eq('form_instance_id', formId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      set({ formSubmissions: (data ?? []) as FormSubmissionSnapshot[], loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch form submissions';
+      set({ error: message, loading: false });
+    }
+  },
+
+  fetchFormRevisions: async (formId) => {
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('form_instance_revisions')
+        .select('*')
+        .eq('form_instance_id', formId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      set({ formRevisions: (data ?? []) as FormRevision[], loading: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch form history';
+      set({ error: message, loading: false });
+    }
+  },
+
+  restoreFormRevision: async (formId, revisionId) => {
+    const revision = get().formRevisions.find((r) => r.id === revisionId && r.form_instance_id === formId);
+    if (!revision) {
+      set({ error: 'Revision not found' });
+      return;
+    }
+
+    // A restore is an ordinary save, so it gets its own revision and can be undone
+    await get().saveSupervisorForm(formId, revision.form_data, revision.id);
+  },
+
   getSupervisorFormById: (formId) => {
     return get().supervisorForms.find((form) => form.id === formId);
   },
 
   getCombinedFormItems: (projectId) => {
-    const { documents, supervisorForms } = get();
+    const { documents, supervisorForms, formDefinitions } = get();
     const combined: CombinedFormItem[] = [];
 
     // Add received documents (worker submissions)
     documents
       .filter((doc) => doc.project_id === projectId && doc.status !== 'rejected')
       .forEach((doc) => {
-        const formTypeConfig = doc.ai_classification ? getFormTypeConfig(doc.ai_classification as FormTypeId) : undefined;
+        const formTypeConfig = doc.ai_classification ? getFormTypeConfig(doc.ai_classification, formDefinitions) : undefined;
         combined.push({
           id: doc.id,
           type: 'received_document',
@@ -2947,7 +6118,7 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     supervisorForms
       .filter((form) => form.project_id === projectId)
       .forEach((form) => {
-        const formTypeConfig = getFormTypeConfig(form.template_id as FormTypeId);
+        const formTypeConfig = getFormTypeConfig(form.template_id, formDefinitions);
         combined.push({
           id: form.id,
           type: 'supervisor_form',
@@ -2988,3 +6159,28 @@ export const useSupervisorStore = create<SupervisorState>((set, get) => ({
     return `${slug}-${randomSuffix}@intake.hrdhat.site`;
   },
 }));
+
+// Keep local records in step with replayed offline writes. Applied writes bring
+// back the server's updated_at; discarded ones mean our optimistic state is
+// wrong, so reload that slice from the server.
+onSyncEvent(({ kind, mutation, updatedAt }) => {
+  if (kind === 'applied') {
+    if (updatedAt) patchLocalUpdatedAt(mutation.table, mutation.record_id, updatedAt);
+    return;
+  }
+
+  const { currentProject, fetchDailyLogs, fetchShifts, fetchSupervisorForms } = useSupervisorStore.getState();
+  if (!currentProject || mutation.project_id !== currentProject.id) return;
+
+  switch (mutation.table) {
+    case 'project_daily_logs':
+      fetchDailyLogs(currentProject.id);
+      break;
+    case 'project_shifts':
+      fetchShifts(currentProject.id);
+      break;
+    case 'form_instances':
+      fetchSupervisorForms(currentProject.id);
+      break;
+  }
+});
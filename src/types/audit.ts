@@ -0,0 +1,82 @@
+// ============================================================================
+// Audit Log Types
+// Project-wide trail of store mutations (who changed what, before and after)
+// ============================================================================
+
+export type AuditEntityType =
+  | 'project'
+  | 'member'
+  | 'folder'
+  | 'worker'
+  | 'subcontractor'
+  | 'document'
+  | 'document_annotation'
+  | 'retention_policy'
+  | 'routing_rule'
+  | 'shift'
+  | 'shift_template'
+  | 'shift_worker'
+  | 'contact'
+  | 'daily_log'
+  | 'daily_report'
+  | 'form';
+
+/**
+ * A single audit record. Stored in project_audit_log (insert-only).
+ */
+export interface AuditLogEntry {
+  id: string;
+  project_id: string | null; // null for supervisor-wide records (contacts)
+  actor_id: string;
+  actor_email: string | null;
+  action: string; // "<entity>.<verb>", e.g. "document.delete"
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  before: unknown; // Entity snapshot before the change (null on create)
+  after: unknown; // Entity snapshot after the change (null on delete)
+  metadata: Record<string, unknown>; // Extra context such as a delete reason
+  created_at: string;
+}
+
+/**
+ * Filters for the audit view
+ */
+export interface AuditLogFilters {
+  entityType: AuditEntityType | 'all';
+  action: string | 'all';
+  actor: string | 'all'; // actor_id
+  startDate: string | null; // YYYY-MM-DD, inclusive
+  endDate: string | null; // YYYY-MM-DD, inclusive
+  search: string; // Matches entity id or snapshot text
+}
+
+export const DEFAULT_AUDIT_FILTERS: AuditLogFilters = {
+  entityType: 'all',
+  action: 'all',
+  actor: 'all',
+  startDate: null,
+  endDate: null,
+  search: '',
+};
+
+/**
+ * Display labels for audit entity types
+ */
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  project: 'Project',
+  member: 'Member',
+  folder: 'Folder',
+  worker: 'Worker',
+  subcontractor: 'Subcontractor',
+  document: 'Document',
+  document_annotation: 'Annotation',
+  retention_policy: 'Retention Policy',
+  routing_rule: 'Routing Rule',
+  shift: 'Shift',
+  shift_template: 'Shift Template',
+  shift_worker: 'Shift Worker',
+  contact: 'Contact',
+  daily_log: 'Daily Log',
+  daily_report: 'Daily Report',
+  form: 'Form',
+};
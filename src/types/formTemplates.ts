@@ -0,0 +1,138 @@
+// ============================================================================
+// Form Template Schema
+// Data-driven definitions for supervisor forms. Templates are plain
+// JSON-serializable objects, loaded from form_definitions when published there.
+// Field values are stored as form_data.modules[section.id][field.id] = { value }
+// ============================================================================
+
+import type { FormCategory } from './supervisorForms';
+
+/** Accent colors available to sections (mapped to Tailwind classes by the renderer) */
+export type TemplateColor =
+  | 'purple'
+  | 'green'
+  | 'teal'
+  | 'indigo'
+  | 'blue'
+  | 'red'
+  | 'orange'
+  | 'gray';
+
+export type TemplateFieldType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'date'
+  | 'time'
+  | 'select'
+  | 'yes_no' // 'yes' | 'no'
+  | 'yes_no_na' // 'yes' | 'no' | 'na'
+  | 'pass_fail_na' // 'pass' | 'fail' | 'na'
+  | 'tags' // string[]
+  | 'stat' // read-only number counter
+  | 'static_text' // read-only paragraphs, stores nothing
+  | 'repeater'; // array of rows, each row keyed by child field ids
+
+export interface TemplateOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Reference to another field in the same form
+ */
+export interface TemplateFieldRef {
+  section: string;
+  field: string;
+}
+
+export interface TemplateField {
+  id: string;
+  type: TemplateFieldType;
+  label: string;
+  placeholder?: string;
+  helpText?: string;
+  required?: boolean;
+  defaultValue?: unknown;
+  options?: TemplateOption[]; // select
+  rows?: number; // textarea
+  span?: 1 | 2; // grid columns to occupy when the section uses two columns
+  monospace?: boolean;
+  color?: TemplateColor; // stat counters
+  paragraphs?: string[]; // static_text
+  fields?: TemplateField[]; // repeater row fields
+  addLabel?: string; // repeater add button
+  emptyText?: string; // repeater / tags when empty
+  readOnlyWhen?: TemplateFieldRef; // read-only while the referenced field is truthy
+}
+
+/**
+ * fields     - regular inputs
+ * photos     - RobustPhotoUpload, stored as modules[id] = { photos: [] }
+ * signatures - SignatureModule, stored as modules[id] = SignatureEntry[]
+ */
+export type TemplateSectionKind = 'fields' | 'photos' | 'signatures';
+
+export interface TemplateSection {
+  id: string; // Module key in form_data.modules
+  title: string;
+  subtitle?: string;
+  kind?: TemplateSectionKind; // Defaults to 'fields'
+  color?: TemplateColor; // Overrides the template accent for the number badge
+  panel?: TemplateColor; // Wrap fields in a tinted panel
+  columns?: 1 | 2;
+  required?: boolean; // photos/signatures: at least one entry
+  fields?: TemplateField[];
+}
+
+/**
+ * Banner shown when a form was generated (e.g. AI daily reports)
+ */
+export interface TemplateGeneratedNotice {
+  flag: TemplateFieldRef;
+  timestamp?: TemplateFieldRef;
+  title: string;
+  description: string;
+}
+
+/**
+ * Picker entry published with a form definition, so a new form type needs no
+ * code change. Omitted values fall back to the built-in config, if any.
+ */
+export interface TemplateFormType {
+  name: string;
+  shortName?: string;
+  icon?: string;
+  description?: string;
+  category?: FormCategory;
+  color?: string; // Tailwind text class
+  bgColor?: string; // Tailwind background class
+}
+
+export interface FormTemplate {
+  id: string; // Matches FormTypeId / form_instances.template_id
+  version: number;
+  accent: TemplateColor;
+  formType?: TemplateFormType;
+  generatedNotice?: TemplateGeneratedNotice;
+  sections: TemplateSection[];
+}
+
+/**
+ * Row of form_definitions. definition is a FormTemplate without id and version,
+ * which come from the row's own columns.
+ */
+export interface FormDefinitionRow {
+  template_id: string;
+  version: number;
+  definition: unknown;
+}
+
+/**
+ * A required field that has no value
+ */
+export interface MissingRequiredField {
+  section: string;
+  field: string | null; // null when a whole photos/signatures section is empty
+  label: string;
+}
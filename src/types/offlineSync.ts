@@ -0,0 +1,62 @@
+// ============================================================================
+// Offline Sync Types
+// IndexedDB-backed write queue so supervisors can keep working without signal
+// ============================================================================
+
+/** Tables whose writes may be queued while offline */
+export type OfflineTable =
+  | 'project_daily_logs'
+  | 'project_shifts'
+  | 'form_instances'
+  | 'form_instance_revisions'
+  | 'project_audit_log';
+
+export type QueuedOperation = 'insert' | 'update' | 'delete';
+
+/**
+ * pending  - waiting to be replayed
+ * conflict - server row changed since the edit was made (updated_at mismatch)
+ * failed   - server rejected the write for a non-network reason
+ */
+export type QueuedMutationStatus = 'pending' | 'conflict' | 'failed';
+
+/**
+ * A single write waiting to be replayed against Supabase
+ */
+export interface QueuedMutation {
+  id: string;
+  table: OfflineTable;
+  operation: QueuedOperation;
+  record_id: string;
+  project_id: string | null;
+  payload: Record<string, unknown>;
+  base_updated_at: string | null; // updated_at of the row when the edit was made
+  label: string; // Human-readable description for the sync panel
+  status: QueuedMutationStatus;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+}
+
+/**
+ * Input for queueing a mutation
+ */
+export interface EnqueueMutationInput {
+  table: OfflineTable;
+  operation: QueuedOperation;
+  record_id: string;
+  project_id?: string | null;
+  payload?: Record<string, unknown>;
+  base_updated_at?: string | null;
+  label: string;
+}
+
+/**
+ * Outcome of a replay pass
+ */
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+}
@@ -0,0 +1,35 @@
+// ============================================================================
+// Document Search Types
+// Full-text search over received documents across the supervisor's projects
+// ============================================================================
+
+/**
+ * Where in a document the search terms were found
+ */
+export type DocumentSearchSource = 'details' | 'summary' | 'hazards' | 'text' | 'annotations';
+
+/**
+ * One ranked hit from the search_documents RPC
+ */
+export interface DocumentSearchResult {
+  document_id: string;
+  project_id: string;
+  original_filename: string | null;
+  ai_classification: string | null;
+  worker_name: string | null;
+  received_at: string;
+  rank: number;
+  snippet: string | null; // Matches wrapped in [[ ]] (see parseSearchSnippet)
+  matched_in: DocumentSearchSource[];
+}
+
+/**
+ * Display labels for search sources
+ */
+export const SEARCH_SOURCE_LABELS: Record<DocumentSearchSource, string> = {
+  details: 'Details',
+  summary: 'AI summary',
+  hazards: 'Hazards',
+  text: 'PDF text',
+  annotations: 'Annotations',
+};
@@ -10,18 +10,29 @@ export interface SupervisorProject {
   site_address: string | null;
   processing_email: string | null;
   is_active: boolean;
+  reminder_settings: ShiftReminderSettings | null; // null = DEFAULT_SHIFT_REMINDER_SETTINGS
+  closed_at: string | null; // Set when the project is closed; starts "after project close" retention
+  legal_hold: boolean; // Blocks deleting and purging every document on the project
+  legal_hold_reason: string | null;
+  auto_file_threshold: number | null; // Minimum AI confidence (0-100) to auto-file; null = DEFAULT_AUTO_FILE_THRESHOLD
   created_at: string;
   updated_at: string;
+  // Computed on fetch (from project_members)
+  my_role?: ProjectRole;
 }
 
 export interface ProjectWorker {
   id: string;
   project_id: string;
-  user_id: string;
+  user_id: string | null; // null while an email invitation is pending
   subcontractor_id: string | null;
   added_at: string;
   added_by: string;
   status: 'active' | 'removed' | 'pending';
+  // Email invitation (people without a HrdHat account yet)
+  invite_email: string | null;
+  invite_token: string | null; // Carried in the signup link
+  invite_sent_at: string | null;
   // Joined fields (from user_profiles)
   user_email?: string;
   user_full_name?: string;
@@ -53,6 +64,94 @@ export interface ProjectSubcontractor {
   updated_at: string;
 }
 
+// ============================================================================
+// Project Members (multi-supervisor projects)
+// ============================================================================
+
+export type ProjectRole = 'owner' | 'supervisor' | 'safety_officer' | 'client';
+
+export type ProjectPermission =
+  | 'project.manage' // Intake email and other project settings
+  | 'members.manage' // Invite, change role, remove members
+  | 'folders.manage'
+  | 'workers.manage' // Workers and subcontractors
+  | 'documents.review' // Move, edit metadata, reprocess
+  | 'documents.delete'
+  | 'shifts.manage' // Create/edit shifts, crews, tasks, notifications
+  | 'shifts.closeout'
+  | 'logs.edit' // Daily logs and daily reports
+  | 'forms.edit'; // Supervisor forms
+
+/**
+ * A person with access to a project. Pending rows are invitations
+ * (matched to the invitee by email until they accept).
+ */
+export interface ProjectMember {
+  id: string;
+  project_id: string;
+  user_id: string | null; // null until the invite is accepted
+  email: string;
+  role: ProjectRole;
+  status: 'pending' | 'active';
+  invited_by: string;
+  created_at: string;
+  accepted_at: string | null;
+  // Joined fields (from supervisor_projects, for the invitee's list)
+  project_name?: string;
+}
+
+export const PROJECT_ROLE_CONFIG: Record<ProjectRole, { label: string; description: string; permissions: ProjectPermission[] }> = {
+  owner: {
+    label: 'Owner',
+    description: 'Full access, including project settings and members',
+    permissions: [
+      'project.manage',
+      'members.manage',
+      'folders.manage',
+      'workers.manage',
+      'documents.review',
+      'documents.delete',
+      'shifts.manage',
+      'shifts.closeout',
+      'logs.edit',
+      'forms.edit',
+    ],
+  },
+  supervisor: {
+    label: 'Supervisor',
+    description: 'Runs the site day to day; cannot change settings or members',
+    permissions: [
+      'folders.manage',
+      'workers.manage',
+      'documents.review',
+      'documents.delete',
+      'shifts.manage',
+      'shifts.closeout',
+      'logs.edit',
+      'forms.edit',
+    ],
+  },
+  safety_officer: {
+    label: 'Safety Officer',
+    description: 'Reviews forms, logs issues and closes out shifts',
+    permissions: ['documents.review', 'shifts.closeout', 'logs.edit', 'forms.edit'],
+  },
+  client: {
+    label: 'Read-only Client',
+    description: 'Can view and download, but not change anything',
+    permissions: [],
+  },
+};
+
+/**
+ * Whether a role allows an action. An unknown role (projects not loaded yet,
+ * or offline) is allowed; the database policies are the final check.
+ */
+export function hasProjectPermission(role: ProjectRole | null | undefined, permission: ProjectPermission): boolean {
+  if (!role) return true;
+  return PROJECT_ROLE_CONFIG[role].permissions.includes(permission);
+}
+
 // ============================================================================
 // Shift Types (Start of Shift feature - migration 009)
 // ============================================================================
@@ -139,6 +238,7 @@ export interface ProjectShift {
   end_time: string | null; // Time string (HH:MM:SS)
   status: ShiftStatus;
   notes: string | null; // Pre-shift safety notes (sent to workers)
+  template_id: string | null; // Set when generated from a recurring template
   
   // Tasks and Notes (supervisor-only, not sent to workers)
   shift_tasks: ShiftTask[];
@@ -187,6 +287,15 @@ export interface ShiftWorker {
   form_submitted: boolean;
   form_submitted_at: string | null;
   document_id: string | null; // Links to received_documents
+
+  // Missing-form reminders
+  reminder_count: number; // Scheduled reminders only; drives the schedule and escalation
+  last_reminder_at: string | null;
+  manual_reminder_count: number; // "Send Reminders" button sends, counted separately
+  last_manual_reminder_at: string | null;
+  escalated_at: string | null; // When the subcontractor contact was emailed
+  escalation_attempts: number; // Escalation sends claimed so far, including failed ones
+  last_escalation_attempt_at: string | null;
   
   // Audit fields
   created_at: string;
@@ -205,6 +314,130 @@ export interface ProjectShiftWithStats extends ProjectShift {
   workers?: ShiftWorker[];
 }
 
+// ============================================================================
+// Shift Reminders (missing forms)
+// ============================================================================
+
+/**
+ * Per-project schedule for reminding workers who haven't submitted a form
+ */
+export interface ShiftReminderSettings {
+  enabled: boolean; // Scheduled reminders; manual reminders always work
+  offsets_minutes: number[]; // Minutes after shift start, one reminder each
+  escalate_after: number; // Reminders without a form before the subcontractor contact is emailed
+}
+
+export const DEFAULT_SHIFT_REMINDER_SETTINGS: ShiftReminderSettings = {
+  enabled: true,
+  offsets_minutes: [30, 90],
+  escalate_after: 2,
+};
+
+export type ShiftReminderKind = 'reminder' | 'escalation';
+
+/**
+ * One reminder (to a worker) or escalation (to their subcontractor contact).
+ * Stored in shift_worker_reminders (insert-only).
+ */
+export interface ShiftReminder {
+  id: string;
+  shift_id: string;
+  shift_worker_id: string;
+  kind: ShiftReminderKind;
+  trigger: 'scheduled' | 'manual';
+  recipient: string | null; // Phone or email the message went to
+  status: 'sent' | 'failed';
+  error: string | null;
+  sent_by: string | null;
+  sent_at: string;
+}
+
+// ============================================================================
+// Document → Shift Worker Matching
+// ============================================================================
+
+/**
+ * A shift worker a received document might belong to, with how well it fits
+ */
+export interface ShiftMatchCandidate {
+  shift_id: string;
+  shift_worker_id: string;
+  shift_name: string;
+  worker_name: string;
+  score: number; // 0-1
+  reasons: string[]; // e.g. "Email matches", "Name 92% similar"
+}
+
+/**
+ * Document the auto-matcher couldn't link on its own, waiting for a supervisor.
+ * Stored in document_shift_matches.
+ */
+export interface DocumentShiftMatch {
+  id: string;
+  project_id: string;
+  document_id: string;
+  candidates: ShiftMatchCandidate[];
+  status: 'pending' | 'confirmed' | 'dismissed';
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// Shift Templates (recurring shifts)
+// ============================================================================
+
+/**
+ * How often a template generates shifts.
+ * 'none' = saved for manual reuse only
+ */
+export type ShiftRecurrenceFrequency = 'none' | 'weekdays' | 'days';
+
+export interface ShiftRecurrence {
+  frequency: ShiftRecurrenceFrequency;
+  days_of_week: number[]; // 0 = Sunday … 6 = Saturday; used when frequency is 'days'
+  until_date: string | null; // ISO date (YYYY-MM-DD), inclusive; null = no end
+}
+
+/**
+ * Worker on a template roster who isn't a project worker
+ * (ad-hoc workers and contacts picked in CreateShiftModal)
+ */
+export interface ShiftTemplateAdHocWorker {
+  name: string;
+  phone: string | null;
+  email: string | null;
+  subcontractor_id: string | null;
+  notification_method: NotificationMethod;
+}
+
+/**
+ * Saved shift setup that can pre-fill CreateShiftModal and, with a
+ * recurrence, generate draft shifts ahead of time. Generated shifts are
+ * independent rows; editing one never changes the template or its siblings.
+ */
+export interface ShiftTemplate {
+  id: string;
+  project_id: string;
+  name: string;
+  start_time: string | null; // Time string (HH:MM:SS)
+  end_time: string | null;
+  notes: string | null; // Pre-shift safety notes
+  shift_tasks: ShiftTask[];
+  shift_notes: ShiftNote[];
+  custom_categories: CustomCategory[];
+  worker_ids: string[]; // project_workers ids
+  adhoc_workers: ShiftTemplateAdHocWorker[];
+  recurrence: ShiftRecurrence;
+  starts_on: string; // First date the recurrence may generate
+  lead_days: number; // How many days ahead drafts are generated
+  generated_through: string | null; // Last date already generated (deleted drafts stay deleted)
+  is_active: boolean; // Paused templates don't generate
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================================================
 // Document Metadata (extracted by AI)
 // ============================================================================
@@ -252,6 +485,7 @@ export interface ReceivedDocument {
   storage_path: string;
   file_size: number | null;
   mime_type: string | null;
+  content_hash: string | null; // SHA-256 of the file, for duplicate detection
   source_email: string | null;
   email_subject: string | null;
   ai_classification: string | null;
@@ -262,10 +496,191 @@ export interface ReceivedDocument {
   reviewed_by: string | null;
   reviewed_at: string | null;
   rejection_reason: string | null;
+  filing_source: 'ai' | 'rule'; // What filed it; intake and the AI leave 'ai'
+  legal_hold: boolean; // Blocks deleteDocument and retention purges
+  legal_hold_reason: string | null;
   received_at: string;
   processed_at: string | null;
 }
 
+// ============================================================================
+// Document Retention
+// ============================================================================
+
+/**
+ * When a retention period starts counting
+ */
+export type RetentionAnchor = 'received' | 'project_close';
+
+/**
+ * How long a project keeps documents before they're purged. folder_id and
+ * form_type narrow the rule; when both are null it applies to every document.
+ */
+export interface RetentionPolicy {
+  id: string;
+  project_id: string;
+  folder_id: string | null;
+  form_type: string | null; // Matches ai_classification
+  retain_months: number;
+  anchor: RetentionAnchor;
+  created_by: string;
+  created_at: string;
+}
+
+export interface CreateRetentionPolicyInput {
+  project_id: string;
+  folder_id?: string | null;
+  form_type?: string | null;
+  retain_months: number;
+  anchor: RetentionAnchor;
+}
+
+/**
+ * A document with the retention rule that applies to it
+ */
+export interface RetentionPurgeCandidate {
+  document: ReceivedDocument;
+  policy: RetentionPolicy;
+  expires_on: string; // YYYY-MM-DD; purged on or after this date
+}
+
+// ============================================================================
+// Document Routing
+// ============================================================================
+
+// AI confidence needed to auto-file when the project doesn't set its own
+export const DEFAULT_AUTO_FILE_THRESHOLD = 70;
+
+export type DocumentRoutingRuleType = 'sender_domain' | 'subject_keyword' | 'subcontractor';
+
+/**
+ * Deterministic routing evaluated before the AI: a matching document is
+ * filed straight into the rule's folder. Rules run in sort_order.
+ */
+export interface DocumentRoutingRule {
+  id: string;
+  project_id: string;
+  rule_type: DocumentRoutingRuleType;
+  pattern: string | null; // Email domain or subject keyword; null for subcontractor rules
+  subcontractor_id: string | null; // Only for subcontractor rules
+  folder_id: string;
+  sort_order: number;
+  created_by: string;
+  created_at: string;
+}
+
+export interface CreateDocumentRoutingRuleInput {
+  project_id: string;
+  rule_type: DocumentRoutingRuleType;
+  pattern?: string | null;
+  subcontractor_id?: string | null;
+  folder_id: string;
+}
+
+/**
+ * Where a document would land on the next reprocess, and why
+ */
+export interface DocumentRoutingDecision {
+  document: ReceivedDocument;
+  folder_id: string | null; // null = stays unsorted for review
+  source: 'rule' | 'ai' | 'review';
+  rule: DocumentRoutingRule | null;
+}
+
+// ============================================================================
+// Review Learning (supervisor corrections fed back into routing)
+// ============================================================================
+
+/**
+ * What the AI decided next to what the supervisor kept, recorded on a
+ * document's first review. Used as labelled examples for routing.
+ */
+export interface DocumentReviewExample {
+  id: string;
+  project_id: string;
+  document_id: string;
+  original_filename: string | null;
+  email_subject: string | null;
+  source_email: string | null;
+  ai_classification: string | null;
+  confidence_score: number | null;
+  ai_folder_id: string | null; // Where the AI left it; null = unsorted
+  folder_id: string | null; // Where the supervisor filed it
+  ai_worker_name: string | null;
+  worker_name: string | null;
+  ai_company_name: string | null;
+  company_name: string | null;
+  overridden: boolean; // Supervisor moved it out of the AI's folder or corrected a name
+  created_by: string;
+  created_at: string;
+}
+
+export type DocumentNameAliasKind = 'worker' | 'company';
+
+/**
+ * A name as the AI read it, mapped to the supervisor's correction
+ */
+export interface DocumentNameAlias {
+  id: string;
+  project_id: string;
+  kind: DocumentNameAliasKind;
+  alias: string; // Normalized (lowercase, trimmed)
+  canonical: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * How often supervisors moved documents out of a folder the AI chose
+ */
+export interface FolderOverrideStat {
+  folder_id: string;
+  ai_filed: number; // Documents the AI auto-filed here
+  overridden: number; // Of those, moved elsewhere by a supervisor
+  filed_from_unsorted: number; // Left unsorted by the AI, filed here by a supervisor
+}
+
+// ============================================================================
+// Document Annotations (viewer highlights and pins)
+// ============================================================================
+
+export type DocumentAnnotationKind = 'highlight' | 'pin';
+
+/**
+ * Supervisor markup on a received document, shared with every reviewer.
+ * Positions are fractions (0-1) of the unrotated page so they survive zoom and rotation.
+ */
+export interface DocumentAnnotation {
+  id: string;
+  document_id: string;
+  project_id: string;
+  page: number; // 1-based; images are always page 1
+  kind: DocumentAnnotationKind;
+  x: number;
+  y: number;
+  width: number; // 0 for pins
+  height: number; // 0 for pins
+  color: string;
+  comment: string | null;
+  created_by: string;
+  created_by_email: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateDocumentAnnotationInput {
+  document_id: string;
+  project_id: string;
+  page: number;
+  kind: DocumentAnnotationKind;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  color?: string;
+  comment?: string | null;
+}
+
 // ============================================================================
 // Form types (for viewing worker forms)
 // ============================================================================
@@ -350,6 +765,7 @@ export interface CreateShiftInput {
   shift_tasks?: ShiftTask[];
   shift_notes?: ShiftNote[];
   custom_categories?: CustomCategory[];
+  template_id?: string;
 }
 
 export interface UpdateShiftInput {
@@ -394,6 +810,34 @@ export interface AddExistingWorkersToShiftInput {
   worker_ids: string[]; // IDs from project_workers table
 }
 
+export interface CreateShiftTemplateInput {
+  project_id: string;
+  name: string;
+  start_time?: string;
+  end_time?: string;
+  notes?: string;
+  shift_tasks?: ShiftTask[];
+  shift_notes?: ShiftNote[];
+  custom_categories?: CustomCategory[];
+  worker_ids?: string[];
+  adhoc_workers?: ShiftTemplateAdHocWorker[];
+  recurrence?: ShiftRecurrence;
+  starts_on: string;
+  lead_days?: number;
+  generated_through?: string; // Set when the template is saved alongside a shift for that date
+}
+
+export interface UpdateShiftTemplateInput {
+  name?: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  notes?: string | null;
+  recurrence?: ShiftRecurrence;
+  starts_on?: string;
+  lead_days?: number;
+  is_active?: boolean;
+}
+
 /**
  * Input for shift closeout
  */
@@ -443,6 +887,40 @@ export interface DocumentFilters {
   documentType: string | null; // AI classification
 }
 
+/**
+ * Sort order for document list
+ */
+export type DocumentSortOption = 'date_desc' | 'date_asc' | 'name_asc' | 'name_desc' | 'company' | 'worker';
+
+/**
+ * Date range a saved view recalculates each time it's applied.
+ * 'fixed' keeps the dateFrom/dateTo stored with the view.
+ */
+export type DocumentDateRangePreset = 'fixed' | 'today' | 'this_week' | 'last_7_days' | 'this_month';
+
+/**
+ * Named filter + sort combination saved by a supervisor
+ */
+export interface DocumentFilterView {
+  id: string;
+  supervisor_id: string;
+  project_id: string | null; // null = available on all the supervisor's projects
+  name: string;
+  filters: DocumentFilters;
+  sort_by: DocumentSortOption;
+  date_range: DocumentDateRangePreset;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveDocumentFilterViewInput {
+  project_id: string | null;
+  name: string;
+  filters: DocumentFilters;
+  sort_by: DocumentSortOption;
+  date_range: DocumentDateRangePreset;
+}
+
 /**
  * Filter state for shift list
  */
@@ -583,13 +1061,101 @@ export interface ManpowerMetadata {
   personnel?: ManpowerPersonnelEntry[]; // List of workers/subcontractors on site
 }
 
+/**
+ * Who a site issue is assigned to: a project subcontractor or a contact
+ */
+export interface SiteIssueAssignee {
+  kind: 'subcontractor' | 'contact';
+  id: string;
+  name: string;
+}
+
+/**
+ * Photo evidence on a site issue, taken when it was raised or closed
+ */
+export interface SiteIssuePhoto {
+  id: string;
+  stage: 'open' | 'close';
+  url: string;
+  storage_path: string;
+  uploaded_at: string;
+}
+
+export type SiteIssueActivityKind = 'comment' | 'status' | 'assignment' | 'due_date' | 'photo' | 'notice' | 'response';
+
+/**
+ * Entry in a site issue's comment/activity thread
+ */
+export interface SiteIssueActivity {
+  id: string;
+  kind: SiteIssueActivityKind;
+  text: string;
+  author_id: string | null;
+  created_at: string;
+}
+
 /**
  * Metadata for site issue log entries
  */
 export interface SiteIssueMetadata {
   priority?: 'low' | 'medium' | 'high';
-  assigned_to?: string;
+  assigned_to?: string; // Display name; mirrors assignee.name when assigned from the project
+  assignee?: SiteIssueAssignee | null;
+  due_date?: string | null; // YYYY-MM-DD
+  resolved_date?: string | null; // YYYY-MM-DD, set when the issue is resolved
   resolution_notes?: string;
+  photos?: SiteIssuePhoto[];
+  activity?: SiteIssueActivity[];
+  contractor_response?: SiteIssueContractorResponse | null; // Latest "fixed" reply from the emailed link
+}
+
+/**
+ * A subcontractor's "fixed, ready for inspection" reply, written onto the
+ * log entry by respond_to_site_issue()
+ */
+export interface SiteIssueContractorResponse {
+  notice_id: string;
+  company_name: string;
+  comment: string | null;
+  responded_at: string;
+}
+
+// logged - kept by the local (development) notifier, never emailed
+export type SiteIssueNoticeDeliveryStatus = 'pending' | 'sent' | 'logged' | 'failed';
+
+/**
+ * Email sent to a subcontractor when a site issue is assigned to them. The
+ * token is their link back to mark the issue fixed.
+ */
+export interface SiteIssueNotice {
+  id: string;
+  log_id: string;
+  project_id: string;
+  subcontractor_id: string | null;
+  email: string;
+  token: string;
+  sent_by: string;
+  sent_at: string;
+  delivery_status: SiteIssueNoticeDeliveryStatus;
+  error: string | null;
+  responded_at: string | null;
+  response_comment: string | null;
+}
+
+/**
+ * What the subcontractor sees on the response page (from get_site_issue_notice())
+ */
+export interface SiteIssueNoticeView {
+  project_name: string;
+  company_name: string;
+  content: string;
+  priority: SiteIssueMetadata['priority'] | null;
+  log_date: string;
+  due_date: string | null;
+  photo_urls: string[];
+  resolved: boolean;
+  responded_at: string | null;
+  response_comment: string | null;
 }
 
 /**
@@ -702,6 +1268,7 @@ export interface ProjectDailyReport {
   generated_by: string;
   generated_at: string;
   updated_at: string;
+  pdf_storage_path?: string | null; // Last exported PDF in the private daily-reports bucket
 }
 
 /**
@@ -725,6 +1292,17 @@ export interface UpdateDailyLogInput {
   status?: SiteIssueStatus;
 }
 
+/**
+ * Input for updating a site issue's punch-list fields
+ */
+export interface UpdateSiteIssueInput {
+  priority?: SiteIssueMetadata['priority'];
+  assignee?: SiteIssueAssignee | null;
+  due_date?: string | null;
+  status?: SiteIssueStatus;
+  resolution_notes?: string;
+}
+
 /**
  * Input for creating/generating a PDR
  */
@@ -790,6 +1368,30 @@ export const SITE_ISSUE_STATUS_CONFIG: Record<SiteIssueStatus, { label: string;
   continued: { label: 'Continued', color: 'text-yellow-700', bgColor: 'bg-yellow-100' },
 };
 
+// ============================================================================
+// Analytics (safety compliance trends)
+// ============================================================================
+
+/**
+ * Shift with just the worker fields needed for FLRA submission rates
+ */
+export interface AnalyticsShift extends Pick<ProjectShift, 'id' | 'project_id' | 'name' | 'scheduled_date' | 'start_time' | 'status'> {
+  shift_workers: Pick<ShiftWorker, 'id' | 'form_submitted' | 'form_submitted_at'>[];
+}
+
+export type AnalyticsDocument = Pick<ReceivedDocument, 'id' | 'project_id' | 'received_at' | 'ai_extracted_data'>;
+
+/**
+ * Raw rows behind the analytics view for a set of projects and a date range.
+ * `dailyLogs` holds manpower and delay entries in the range plus every site
+ * issue raised up to the end date, so open counts include older issues.
+ */
+export interface AnalyticsData {
+  shifts: AnalyticsShift[];
+  documents: AnalyticsDocument[];
+  dailyLogs: ProjectDailyLog[];
+}
+
 // ============================================================================
 // Shift Task/Note Helper Functions
 // ============================================================================
@@ -3,6 +3,8 @@
 // Includes both worker form types (from frontend) and supervisor-specific forms
 // ============================================================================
 
+import type { FormTemplate } from './formTemplates';
+
 /**
  * Form category - worker forms can be assigned to workers, supervisor forms are for supervisor use only
  */
@@ -27,7 +29,7 @@ export type FormTypeId =
  * Configuration for each form type
  */
 export interface FormTypeConfig {
-  id: FormTypeId;
+  id: string; // A FormTypeId, or a type published only in form_definitions
   name: string;
   shortName: string;
   icon: string;
@@ -125,25 +127,67 @@ export const SUPERVISOR_FORM_TYPES: FormTypeConfig[] = [
   },
 ];
 
+/**
+ * Config for a form type published in form_definitions, filled in from the
+ * built-in config where the definition leaves a value out
+ */
+function toFormTypeConfig(template: FormTemplate): FormTypeConfig | undefined {
+  const type = template.formType;
+  if (!type) return undefined;
+
+  const builtIn = SUPERVISOR_FORM_TYPES.find(t => t.id === template.id);
+  return {
+    id: template.id,
+    name: type.name,
+    shortName: type.shortName ?? builtIn?.shortName ?? type.name,
+    icon: type.icon ?? builtIn?.icon ?? '📄',
+    description: type.description ?? builtIn?.description ?? '',
+    category: type.category ?? builtIn?.category ?? 'supervisor',
+    color: type.color ?? builtIn?.color ?? 'text-gray-700',
+    bgColor: type.bgColor ?? builtIn?.bgColor ?? 'bg-gray-100',
+  };
+}
+
+/**
+ * All form types: the built-ins, overridden or extended by the newest loaded
+ * definition of each type that carries a formType entry
+ */
+export function getFormTypes(definitions: FormTemplate[] = []): FormTypeConfig[] {
+  const published = new Map<string, FormTemplate>();
+  for (const template of definitions) {
+    const current = published.get(template.id);
+    if (template.formType && (!current || template.version > current.version)) {
+      published.set(template.id, template);
+    }
+  }
+
+  const configs = new Map<string, FormTypeConfig>(SUPERVISOR_FORM_TYPES.map(t => [t.id, t]));
+  for (const template of published.values()) {
+    const config = toFormTypeConfig(template);
+    if (config) configs.set(config.id, config);
+  }
+  return [...configs.values()];
+}
+
 /**
  * Get form type config by ID
  */
-export function getFormTypeConfig(formTypeId: FormTypeId | string): FormTypeConfig | undefined {
-  return SUPERVISOR_FORM_TYPES.find(t => t.id === formTypeId);
+export function getFormTypeConfig(formTypeId: FormTypeId | string, definitions: FormTemplate[] = []): FormTypeConfig | undefined {
+  return getFormTypes(definitions).find(t => t.id === formTypeId);
 }
 
 /**
  * Get all worker form types
  */
-export function getWorkerFormTypes(): FormTypeConfig[] {
-  return SUPERVISOR_FORM_TYPES.filter(t => t.category === 'worker');
+export function getWorkerFormTypes(definitions: FormTemplate[] = []): FormTypeConfig[] {
+  return getFormTypes(definitions).filter(t => t.category === 'worker');
 }
 
 /**
  * Get all supervisor form types
  */
-export function getSupervisorFormTypes(): FormTypeConfig[] {
-  return SUPERVISOR_FORM_TYPES.filter(t => t.category === 'supervisor');
+export function getSupervisorFormTypes(definitions: FormTemplate[] = []): FormTypeConfig[] {
+  return getFormTypes(definitions).filter(t => t.category === 'supervisor');
 }
 
 /**
@@ -162,10 +206,53 @@ export interface SupervisorFormInstance {
   status: 'active' | 'archived';
   created_at: string;
   updated_at: string;
-  submitted_at: string | null;
+  submitted_at: string | null; // Set when finalized; older rows also have it from archiving
   form_data: Record<string, unknown>; // Dynamic JSONB structure
   organization_id: string | null;
   project_id: string | null;
+  content_hash: string | null; // SHA-256 of form_data at the last finalize
+  submission_version: number; // Number of times finalized (0 = never)
+  amendment_reason: string | null; // Set while an amendment is open / on the amended version
+}
+
+/**
+ * Immutable copy of a form as it was finalized.
+ * Stored in form_instance_submissions - one row per finalize, never updated.
+ */
+export interface FormSubmissionSnapshot {
+  id: string;
+  form_instance_id: string;
+  version: number;
+  form_data: Record<string, unknown>;
+  content_hash: string;
+  submitted_at: string;
+  submitted_by: string;
+  amendment_reason: string | null;
+  created_at: string;
+}
+
+/**
+ * One saved version of a form's data, recorded on every save.
+ * Stored in form_instance_revisions.
+ */
+export interface FormRevision {
+  id: string;
+  form_instance_id: string;
+  form_data: Record<string, unknown>; // Full data after the save
+  changed_paths: string[]; // Paths relative to form_data.modules, e.g. "header.date"
+  author_id: string;
+  author_email: string | null;
+  restored_from: string | null; // Revision id when the save was a restore
+  created_at: string;
+}
+
+/**
+ * Whether a form is finalized and therefore read-only. Rows archived before
+ * finalize existed have submitted_at but no snapshot (version 0); they stay
+ * editable so their first finalize records a v1 snapshot.
+ */
+export function isFormLocked(form: Pick<SupervisorFormInstance, 'submitted_at' | 'submission_version'>): boolean {
+  return form.submitted_at !== null && (form.submission_version ?? 0) > 0;
 }
 
 /**
@@ -173,7 +260,7 @@ export interface SupervisorFormInstance {
  */
 export interface CreateSupervisorFormInput {
   project_id: string;
-  template_id: FormTypeId;
+  template_id: string; // A FormTypeId or a type published in form_definitions
   title?: string;
 }
 
@@ -0,0 +1,299 @@
+/**
+ * Safety Compliance Analytics
+ *
+ * Turns shifts, documents and daily logs into trend series for the analytics
+ * view. Dates are local calendar days as YYYY-MM-DD strings. Ranges up to a
+ * month are bucketed by day, up to six months by week (starting Monday), and
+ * anything longer by month.
+ */
+
+import type {
+  AnalyticsData,
+  AnalyticsDocument,
+  AnalyticsShift,
+  DocumentMetadata,
+  ManpowerMetadata,
+  ProjectDailyLog,
+  ScheduleDelayMetadata,
+} from '@/types/supervisor';
+import { addDays, toLocalDate } from '@/utils/shiftRecurrence';
+import { getSiteIssueResolvedDate } from '@/utils/siteIssues';
+import { getManpowerCompany, getManpowerHours } from '@/utils/manpowerReport';
+
+export interface AnalyticsBucket {
+  start: string;
+  end: string;
+  label: string;
+}
+
+/**
+ * A labelled total, e.g. one hazard or one company
+ */
+export interface AnalyticsCount {
+  label: string;
+  value: number;
+}
+
+export interface FlraRatePoint {
+  bucket: AnalyticsBucket;
+  shifts: number;
+  expected: number; // Workers on those shifts
+  submitted: number;
+  late: number; // Submitted after the shift started
+  rate: number | null; // submitted / expected, null when no workers were expected
+}
+
+export interface SiteIssueTrendPoint {
+  bucket: AnalyticsBucket;
+  open: number; // Unresolved at the end of the bucket
+  raised: number;
+  resolved: number;
+}
+
+export interface ProjectAnalyticsSummary {
+  project_id: string;
+  expected: number;
+  submitted: number;
+  late: number;
+  rate: number | null;
+  open_issues: number;
+  delay_hours: number;
+  manpower_hours: number;
+}
+
+export const DELAY_TYPE_LABELS: Record<NonNullable<ScheduleDelayMetadata['delay_type']>, string> = {
+  weather: 'Weather',
+  material: 'Material',
+  labor: 'Labor',
+  inspection: 'Inspection',
+  other: 'Other',
+};
+
+function parseDay(date: string): Date {
+  return new Date(date + 'T00:00:00');
+}
+
+function formatDay(date: string, options: Intl.DateTimeFormatOptions): string {
+  return parseDay(date).toLocaleDateString('en-US', options);
+}
+
+function sortCounts(counts: Map<string, AnalyticsCount>): AnalyticsCount[] {
+  return [...counts.values()].sort((a, b) => b.value - a.value || a.label.localeCompare(b.label));
+}
+
+// ============================================================================
+// Buckets
+// ============================================================================
+
+export function getAnalyticsBuckets(startDate: string, endDate: string): AnalyticsBucket[] {
+  if (startDate > endDate) return [];
+
+  const days = Math.round((parseDay(endDate).getTime() - parseDay(startDate).getTime()) / 86_400_000) + 1;
+  const buckets: AnalyticsBucket[] = [];
+
+  if (days <= 31) {
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      buckets.push({ start: date, end: date, label: formatDay(date, { month: 'short', day: 'numeric' }) });
+    }
+    return buckets;
+  }
+
+  if (days <= 183) {
+    // Weeks start on Monday; the first and last may be partial
+    let start = startDate;
+    while (start <= endDate) {
+      const toSunday = (7 - parseDay(start).getDay()) % 7;
+      const weekEnd = addDays(start, toSunday);
+      const end = weekEnd < endDate ? weekEnd : endDate;
+      buckets.push({ start, end, label: `Wk of ${formatDay(start, { month: 'short', day: 'numeric' })}` });
+      start = addDays(end, 1);
+    }
+    return buckets;
+  }
+
+  let start = startDate;
+  while (start <= endDate) {
+    const first = parseDay(start);
+    const monthEnd = toLocalDate(new Date(first.getFullYear(), first.getMonth() + 1, 0));
+    const end = monthEnd < endDate ? monthEnd : endDate;
+    buckets.push({ start, end, label: formatDay(start, { month: 'short', year: 'numeric' }) });
+    start = addDays(end, 1);
+  }
+  return buckets;
+}
+
+function findBucket(buckets: AnalyticsBucket[], date: string): number {
+  return buckets.findIndex((b) => b.start <= date && date <= b.end);
+}
+
+// ============================================================================
+// FLRA Submissions
+// ============================================================================
+
+/**
+ * Submitted after the shift's start time, or after the scheduled day when the
+ * shift has no start time
+ */
+export function isLateSubmission(shift: AnalyticsShift, submittedAt: string | null): boolean {
+  if (!submittedAt) return false;
+  const startsAt = new Date(`${shift.scheduled_date}T${shift.start_time ?? '23:59:59'}`);
+  return new Date(submittedAt).getTime() > startsAt.getTime();
+}
+
+function countShiftForms(shift: AnalyticsShift) {
+  const workers = shift.shift_workers ?? [];
+  const submitted = workers.filter((w) => w.form_submitted);
+  return {
+    expected: workers.length,
+    submitted: submitted.length,
+    late: submitted.filter((w) => isLateSubmission(shift, w.form_submitted_at)).length,
+  };
+}
+
+export function getFlraRateSeries(shifts: AnalyticsShift[], buckets: AnalyticsBucket[]): FlraRatePoint[] {
+  const points: FlraRatePoint[] = buckets.map((bucket) => ({
+    bucket, shifts: 0, expected: 0, submitted: 0, late: 0, rate: null,
+  }));
+
+  for (const shift of shifts) {
+    const index = findBucket(buckets, shift.scheduled_date);
+    if (index === -1) continue;
+    const counts = countShiftForms(shift);
+    points[index].shifts += 1;
+    points[index].expected += counts.expected;
+    points[index].submitted += counts.submitted;
+    points[index].late += counts.late;
+  }
+
+  for (const point of points) {
+    point.rate = point.expected > 0 ? point.submitted / point.expected : null;
+  }
+  return points;
+}
+
+/**
+ * Shifts with the lowest submission rate first (shifts without workers are skipped)
+ */
+export function getShiftFlraRates(shifts: AnalyticsShift[]) {
+  return shifts
+    .map((shift) => {
+      const counts = countShiftForms(shift);
+      return { shift, ...counts, rate: counts.expected > 0 ? counts.submitted / counts.expected : 0 };
+    })
+    .filter((row) => row.expected > 0)
+    .sort((a, b) => a.rate - b.rate || b.late - a.late || b.shift.scheduled_date.localeCompare(a.shift.scheduled_date));
+}
+
+// ============================================================================
+// Hazards
+// ============================================================================
+
+/**
+ * How often each hazard appears in the AI-extracted data, counted once per
+ * document. Spellings are merged case-insensitively; the first one seen is shown.
+ */
+export function getHazardFrequency(documents: AnalyticsDocument[]): AnalyticsCount[] {
+  const counts = new Map<string, AnalyticsCount>();
+
+  for (const doc of documents) {
+    const hazards = (doc.ai_extracted_data as DocumentMetadata).hazards;
+    if (!Array.isArray(hazards)) continue;
+
+    const seen = new Set<string>();
+    for (const hazard of hazards) {
+      if (typeof hazard !== 'string') continue;
+      const label = hazard.trim().replace(/\s+/g, ' ');
+      const key = label.toLowerCase();
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      const entry = counts.get(key) ?? { label, value: 0 };
+      entry.value += 1;
+      counts.set(key, entry);
+    }
+  }
+
+  return sortCounts(counts);
+}
+
+// ============================================================================
+// Site Issues
+// ============================================================================
+
+function isOpenOn(issue: ProjectDailyLog, date: string): boolean {
+  const resolved = getSiteIssueResolvedDate(issue);
+  return issue.log_date <= date && (!resolved || resolved > date);
+}
+
+export function getSiteIssueTrend(logs: ProjectDailyLog[], buckets: AnalyticsBucket[]): SiteIssueTrendPoint[] {
+  const issues = logs.filter((log) => log.log_type === 'site_issue');
+
+  return buckets.map((bucket) => ({
+    bucket,
+    open: issues.filter((issue) => isOpenOn(issue, bucket.end)).length,
+    raised: issues.filter((issue) => issue.log_date >= bucket.start && issue.log_date <= bucket.end).length,
+    resolved: issues.filter((issue) => {
+      const resolved = getSiteIssueResolvedDate(issue);
+      return !!resolved && resolved >= bucket.start && resolved <= bucket.end;
+    }).length,
+  }));
+}
+
+// ============================================================================
+// Delays & Manpower
+// ============================================================================
+
+export function getDelayHoursByType(logs: ProjectDailyLog[]): AnalyticsCount[] {
+  const counts = new Map<string, AnalyticsCount>();
+
+  for (const log of logs) {
+    if (log.log_type !== 'schedule_delay') continue;
+    const meta = log.metadata as ScheduleDelayMetadata;
+    const type = meta.delay_type ?? 'other';
+    const entry = counts.get(type) ?? { label: DELAY_TYPE_LABELS[type], value: 0 };
+    entry.value += meta.impact_hours ?? 0;
+    counts.set(type, entry);
+  }
+
+  return sortCounts(counts);
+}
+
+export function getManpowerHoursByCompany(logs: ProjectDailyLog[]): AnalyticsCount[] {
+  const counts = new Map<string, AnalyticsCount>();
+
+  for (const log of logs) {
+    if (log.log_type !== 'manpower') continue;
+    const label = getManpowerCompany(log);
+    const key = label.toLowerCase();
+    const entry = counts.get(key) ?? { label, value: 0 };
+    entry.value += getManpowerHours(log.metadata as ManpowerMetadata);
+    counts.set(key, entry);
+  }
+
+  return sortCounts(counts);
+}
+
+// ============================================================================
+// Per-project Comparison
+// ============================================================================
+
+export function getProjectSummaries(data: AnalyticsData, projectIds: string[], endDate: string): ProjectAnalyticsSummary[] {
+  return projectIds.map((projectId) => {
+    const forms = data.shifts
+      .filter((shift) => shift.project_id === projectId)
+      .map(countShiftForms)
+      .reduce(
+        (sum, c) => ({ expected: sum.expected + c.expected, submitted: sum.submitted + c.submitted, late: sum.late + c.late }),
+        { expected: 0, submitted: 0, late: 0 }
+      );
+    const logs = data.dailyLogs.filter((log) => log.project_id === projectId);
+
+    return {
+      project_id: projectId,
+      ...forms,
+      rate: forms.expected > 0 ? forms.submitted / forms.expected : null,
+      open_issues: logs.filter((log) => log.log_type === 'site_issue' && isOpenOn(log, endDate)).length,
+      delay_hours: getDelayHoursByType(logs).reduce((sum, c) => sum + c.value, 0),
+      manpower_hours: getManpowerHoursByCompany(logs).reduce((sum, c) => sum + c.value, 0),
+    };
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Audit Log Helpers
+ *
+ * Display and export helpers shared by the audit view.
+ */
+
+import type { AuditLogEntry } from '@/types/audit';
+import { AUDIT_ENTITY_LABELS } from '@/types/audit';
+import { toCsv } from '@/utils/csv';
+
+// Fields that identify an entity to a person, in preference order
+const LABEL_FIELDS = ['name', 'title', 'folder_name', 'company_name', 'original_filename', 'form_number', 'user_email', 'email', 'report_date', 'content'];
+
+// Bookkeeping fields that change on every write and aren't worth listing
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+/**
+ * Top-level fields that differ between the before and after snapshots
+ */
+export function getChangedFields(entry: AuditLogEntry): string[] {
+  if (!entry.before || !entry.after) return [];
+  const before = entry.before as Record<string, unknown>;
+  const after = entry.after as Record<string, unknown>;
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter((key) => !IGNORED_FIELDS.has(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .sort();
+}
+
+/**
+ * Human-readable name for the entity an entry refers to
+ */
+export function getEntityLabel(entry: AuditLogEntry): string {
+  const snapshot = (entry.after ?? entry.before) as Record<string, unknown> | null;
+  if (snapshot && typeof snapshot === 'object') {
+    for (const field of LABEL_FIELDS) {
+      const value = snapshot[field];
+      if (typeof value === 'string' && value.trim()) {
+        return value.length > 60 ? `${value.slice(0, 57)}...` : value;
+      }
+    }
+  }
+  return entry.entity_id ? `${AUDIT_ENTITY_LABELS[entry.entity_type]} ${entry.entity_id.slice(0, 8)}` : AUDIT_ENTITY_LABELS[entry.entity_type];
+}
+
+/**
+ * CSV export with full snapshots, for investigations
+ */
+export function auditEntriesToCsv(entries: AuditLogEntry[]): string {
+  return toCsv(
+    ['Timestamp', 'Actor Email', 'Actor ID', 'Action', 'Entity Type', 'Entity ID', 'Entity', 'Changed Fields', 'Before', 'After', 'Details'],
+    entries.map((entry) => [
+      entry.created_at,
+      entry.actor_email,
+      entry.actor_id,
+      entry.action,
+      entry.entity_type,
+      entry.entity_id,
+      getEntityLabel(entry),
+      getChangedFields(entry).join('; '),
+      entry.before === null ? '' : JSON.stringify(entry.before),
+      entry.after === null ? '' : JSON.stringify(entry.after),
+      Object.keys(entry.metadata ?? {}).length > 0 ? JSON.stringify(entry.metadata) : '',
+    ])
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * CSV Helpers
+ *
+ * RFC 4180 quoting; a BOM is prepended on download so Excel reads UTF-8.
+ * Text that a spreadsheet would run as a formula is prefixed with an apostrophe.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Leading characters that make Excel/Sheets treat a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  // Numbers are left as-is so negatives stay numeric; text comes from users and documents
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Trigger a browser download for CSV content
+ */
+export function downloadCsv(csv: string, filename: string) {
+  const blob = new Blob(['﻿', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,259 @@
+/**
+ * Project Daily Report PDF Export
+ *
+ * Builds a printable PDF from a ProjectDailyReport plus the day's logs, site
+ * issues still open that day, and shifts. Logs and shifts are sorted by stable
+ * keys and no "now" timestamps are written, so re-exporting an unchanged
+ * report yields identical output.
+ */
+
+import type {
+  ProjectDailyReport,
+  ProjectDailyLog,
+  ProjectShiftWithStats,
+  VisitorMetadata,
+  DeliveryMetadata,
+  ManpowerMetadata,
+  SiteIssueMetadata,
+  ScheduleDelayMetadata,
+  ObservationMetadata,
+} from '@/types/supervisor';
+import { WEATHER_CONDITIONS, SITE_ISSUE_STATUS_CONFIG } from '@/types/supervisor';
+import { createPdfWriter, loadPdfImage, pdfFileSlug, type PdfImage } from '@/utils/pdfLayout';
+import { formatSiteIssueAge, getSiteIssuesForDate } from '@/utils/siteIssues';
+
+export interface DailyReportPdfInput {
+  report: ProjectDailyReport;
+  projectName: string;
+  projectAddress: string | null;
+  logs: ProjectDailyLog[];
+  siteIssues?: ProjectDailyLog[]; // All project site issues, so ones still open from earlier days carry over
+  shifts: ProjectShiftWithStats[];
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Formatted by hand (not toLocaleString) so output doesn't vary with browser locale
+function formatReportDate(dateStr: string): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return `${WEEKDAYS[weekday]}, ${MONTHS[month - 1]} ${day}, ${year}`;
+}
+
+function formatTime(timeStr: string | null | undefined): string {
+  if (!timeStr) return '';
+  const [hours, minutes] = timeStr.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  return `${hour % 12 || 12}:${minutes} ${ampm}`;
+}
+
+function byCreated(a: ProjectDailyLog, b: ProjectDailyLog): number {
+  return a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+}
+
+function formatWeather(report: ProjectDailyReport): [string, string][] {
+  const weather = report.weather ?? {};
+  const condition = WEATHER_CONDITIONS.find((c) => c.value === weather.conditions);
+  const pairs: [string, string][] = [
+    ['Conditions', condition?.label ?? 'Not recorded'],
+    ['Temperature', weather.temperature !== undefined ? `${weather.temperature}°${weather.temperature_unit ?? 'F'}` : 'Not recorded'],
+  ];
+  if (weather.wind_speed !== undefined) {
+    pairs.push(['Wind', `${weather.wind_speed}${weather.wind_direction ? ` ${weather.wind_direction}` : ''}`]);
+  }
+  if (weather.precipitation) pairs.push(['Precipitation', weather.precipitation]);
+  if (weather.notes) pairs.push(['Notes', weather.notes]);
+  return pairs;
+}
+
+/**
+ * Suggested download / storage filename for a report
+ */
+export function getDailyReportPdfFilename(projectName: string, reportDate: string): string {
+  return `${pdfFileSlug(projectName)}-daily-report-${reportDate}.pdf`;
+}
+
+export async function buildDailyReportPdf(input: DailyReportPdfInput): Promise<Blob> {
+  const { report, projectName, projectAddress } = input;
+
+  const logs = input.logs.filter((log) => log.log_date === report.report_date).sort(byCreated);
+  const shifts = input.shifts
+    .filter((shift) => shift.scheduled_date === report.report_date)
+    .sort((a, b) => (a.start_time ?? '').localeCompare(b.start_time ?? '') || a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+
+  const ofType = (type: ProjectDailyLog['log_type']) => logs.filter((log) => log.log_type === type);
+  const manpower = ofType('manpower');
+  const visitors = ofType('visitor');
+  const deliveries = ofType('delivery');
+  const issues = getSiteIssuesForDate(input.siteIssues ?? logs, report.report_date);
+  const delays = ofType('schedule_delay');
+
+  const photoLogs = logs.filter((log) => (log.metadata as ObservationMetadata).photo_url);
+  const photos: PdfImage[] = [];
+  for (const log of photoLogs) {
+    const image = await loadPdfImage((log.metadata as ObservationMetadata).photo_url!);
+    if (image) photos.push({ ...image, caption: log.content });
+  }
+
+  // Fingerprint the inputs so the file id only changes when the content does
+  const seed = JSON.stringify([report, projectName, projectAddress, logs, issues, shifts]);
+  const pdf = createPdfWriter(report.updated_at ?? report.generated_at, seed);
+
+  pdf.title('Project Daily Report', [
+    projectName,
+    projectAddress ?? '',
+    formatReportDate(report.report_date),
+  ]);
+
+  // Weather
+  pdf.sectionHeading('Weather');
+  pdf.keyValues(formatWeather(report));
+
+  // Manpower
+  pdf.sectionHeading('Manpower');
+  const manpowerRows = manpower.map((log) => {
+    const meta = log.metadata as ManpowerMetadata;
+    const count = meta.count ?? 0;
+    return [meta.company ?? log.content, meta.trade ?? '', String(count), String(count * (meta.hours ?? 8))];
+  });
+  const totalWorkers = manpower.reduce((sum, log) => sum + ((log.metadata as ManpowerMetadata).count ?? 0), 0);
+  const totalHours = manpower.reduce((sum, log) => {
+    const meta = log.metadata as ManpowerMetadata;
+    return sum + (meta.count ?? 0) * (meta.hours ?? 8);
+  }, 0);
+  if (manpowerRows.length > 0) {
+    pdf.table(
+      [
+        { header: 'Company', width: 0.4 },
+        { header: 'Trade', width: 0.3 },
+        { header: 'Workers', width: 0.15, align: 'right' },
+        { header: 'Hours', width: 0.15, align: 'right' },
+      ],
+      [...manpowerRows, ['Total', '', String(totalWorkers), String(totalHours)]]
+    );
+  } else {
+    pdf.paragraph('No manpower logged.', { muted: true });
+  }
+
+  if (shifts.length > 0) {
+    pdf.table(
+      [
+        { header: 'Shift', width: 0.35 },
+        { header: 'Time', width: 0.25 },
+        { header: 'Status', width: 0.14 },
+        { header: 'Workers', width: 0.13, align: 'right' },
+        { header: 'Forms', width: 0.13, align: 'right' },
+      ],
+      shifts.map((shift) => [
+        shift.name,
+        [formatTime(shift.start_time), formatTime(shift.end_time)].filter(Boolean).join(' - '),
+        shift.status,
+        String(shift.worker_count),
+        String(shift.forms_submitted),
+      ])
+    );
+  }
+
+  // Visitors
+  pdf.sectionHeading('Visitors');
+  if (visitors.length > 0) {
+    pdf.table(
+      [
+        { header: 'Name', width: 0.25 },
+        { header: 'Company', width: 0.22 },
+        { header: 'Purpose', width: 0.29 },
+        { header: 'In', width: 0.12 },
+        { header: 'Out', width: 0.12 },
+      ],
+      visitors.map((log) => {
+        const meta = log.metadata as VisitorMetadata;
+        return [meta.name ?? log.content, meta.company ?? '', meta.purpose ?? '', formatTime(meta.time_in), formatTime(meta.time_out)];
+      })
+    );
+  } else {
+    pdf.paragraph('No visitors logged.', { muted: true });
+  }
+
+  // Deliveries
+  pdf.sectionHeading('Deliveries');
+  if (deliveries.length > 0) {
+    pdf.table(
+      [
+        { header: 'Supplier', width: 0.22 },
+        { header: 'Items', width: 0.34 },
+        { header: 'PO #', width: 0.14 },
+        { header: 'Time', width: 0.12 },
+        { header: 'Received By', width: 0.18 },
+      ],
+      deliveries.map((log) => {
+        const meta = log.metadata as DeliveryMetadata;
+        return [meta.supplier ?? '', meta.items ?? log.content, meta.po_number ?? '', formatTime(meta.delivery_time), meta.received_by ?? ''];
+      })
+    );
+  } else {
+    pdf.paragraph('No deliveries logged.', { muted: true });
+  }
+
+  // Site issues
+  pdf.sectionHeading('Site Issues');
+  if (issues.length > 0) {
+    pdf.table(
+      [
+        { header: 'Issue', width: 0.38 },
+        { header: 'Priority', width: 0.1 },
+        { header: 'Status', width: 0.12 },
+        { header: 'Age', width: 0.14 },
+        { header: 'Assigned To', width: 0.26 },
+      ],
+      issues.map(({ issue, status, age_days, overdue }) => {
+        const meta = issue.metadata as SiteIssueMetadata;
+        return [
+          issue.content,
+          meta.priority ?? '',
+          SITE_ISSUE_STATUS_CONFIG[status].label,
+          overdue ? `${formatSiteIssueAge(age_days)} (overdue)` : formatSiteIssueAge(age_days),
+          meta.assigned_to ?? '',
+        ];
+      })
+    );
+  } else {
+    pdf.paragraph('No site issues logged.', { muted: true });
+  }
+
+  // Delays
+  if (delays.length > 0) {
+    pdf.sectionHeading('Schedule & Delays');
+    pdf.table(
+      [
+        { header: 'Description', width: 0.44 },
+        { header: 'Type', width: 0.16 },
+        { header: 'Impact (hrs)', width: 0.14, align: 'right' },
+        { header: 'Affected Areas', width: 0.26 },
+      ],
+      delays.map((log) => {
+        const meta = log.metadata as ScheduleDelayMetadata;
+        return [log.content, meta.delay_type ?? '', meta.impact_hours !== undefined ? String(meta.impact_hours) : '', meta.affected_areas ?? ''];
+      })
+    );
+  }
+
+  // Summary notes
+  if (report.summary_notes) {
+    pdf.sectionHeading('Summary Notes');
+    pdf.paragraph(report.summary_notes);
+  }
+
+  // Photos
+  if (photos.length > 0) {
+    pdf.sectionHeading('Photos');
+    pdf.images(photos);
+  }
+
+  // Sign-off
+  pdf.sectionHeading('Signatures');
+  pdf.signatureLines(['Site Supervisor', 'Reviewed By']);
+
+  return pdf.finish(`${projectName} - Daily Report ${report.report_date}`);
+}
@@ -0,0 +1,122 @@
+/**
+ * Document Filter Helpers
+ *
+ * URL serialization for the document list's filters and sort, and resolution
+ * of saved views. The query string is the source of truth so filtered lists
+ * survive navigation and can be shared as links.
+ */
+
+import type {
+  DocumentDateRangePreset,
+  DocumentFilterView,
+  DocumentFilters,
+  DocumentSortOption,
+} from '@/types/supervisor';
+import { addDays, toLocalDate } from '@/utils/shiftRecurrence';
+
+export const EMPTY_DOCUMENT_FILTERS: DocumentFilters = {
+  search: '',
+  workerName: null,
+  companyName: null,
+  dateFrom: null,
+  dateTo: null,
+  documentType: null,
+};
+
+export const DEFAULT_DOCUMENT_SORT: DocumentSortOption = 'date_desc';
+
+const SORT_OPTIONS: DocumentSortOption[] = ['date_desc', 'date_asc', 'name_asc', 'name_desc', 'company', 'worker'];
+
+export const DATE_RANGE_PRESET_LABELS: Record<DocumentDateRangePreset, string> = {
+  fixed: 'Dates as selected',
+  today: 'Today',
+  this_week: 'This week',
+  last_7_days: 'Last 7 days',
+  this_month: 'This month',
+};
+
+// Query parameter for each filter field
+const FILTER_PARAMS: Record<keyof DocumentFilters, string> = {
+  search: 'q',
+  workerName: 'worker',
+  companyName: 'company',
+  dateFrom: 'from',
+  dateTo: 'to',
+  documentType: 'type',
+};
+
+const SORT_PARAM = 'sort';
+
+export function readDocumentFilterParams(params: URLSearchParams): { filters: DocumentFilters; sortBy: DocumentSortOption } {
+  const sort = params.get(SORT_PARAM) as DocumentSortOption | null;
+  return {
+    filters: {
+      search: params.get(FILTER_PARAMS.search) ?? '',
+      workerName: params.get(FILTER_PARAMS.workerName),
+      companyName: params.get(FILTER_PARAMS.companyName),
+      dateFrom: params.get(FILTER_PARAMS.dateFrom),
+      dateTo: params.get(FILTER_PARAMS.dateTo),
+      documentType: params.get(FILTER_PARAMS.documentType),
+    },
+    sortBy: sort && SORT_OPTIONS.includes(sort) ? sort : DEFAULT_DOCUMENT_SORT,
+  };
+}
+
+/**
+ * Copy of params with filter and sort keys replaced. Other parameters
+ * (e.g. ?document=) are kept; empty values and the default sort are omitted.
+ */
+export function writeDocumentFilterParams(
+  params: URLSearchParams,
+  filters: DocumentFilters,
+  sortBy: DocumentSortOption
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+
+  for (const key of Object.keys(FILTER_PARAMS) as (keyof DocumentFilters)[]) {
+    const value = filters[key];
+    if (value) next.set(FILTER_PARAMS[key], value);
+    else next.delete(FILTER_PARAMS[key]);
+  }
+
+  if (sortBy !== DEFAULT_DOCUMENT_SORT) next.set(SORT_PARAM, sortBy);
+  else next.delete(SORT_PARAM);
+
+  return next;
+}
+
+/**
+ * Concrete from/to dates for a preset, relative to today (weeks start Monday)
+ */
+export function resolveDateRange(
+  preset: Exclude<DocumentDateRangePreset, 'fixed'>,
+  today: string = toLocalDate(new Date())
+): { dateFrom: string; dateTo: string } {
+  switch (preset) {
+    case 'today':
+      return { dateFrom: today, dateTo: today };
+    case 'this_week': {
+      const weekday = new Date(today + 'T00:00:00').getDay();
+      return { dateFrom: addDays(today, -((weekday + 6) % 7)), dateTo: today };
+    }
+    case 'last_7_days':
+      return { dateFrom: addDays(today, -6), dateTo: today };
+    case 'this_month':
+      return { dateFrom: today.slice(0, 8) + '01', dateTo: today };
+  }
+}
+
+/**
+ * Filters and sort a saved view applies today
+ */
+export function resolveFilterView(view: DocumentFilterView): { filters: DocumentFilters; sortBy: DocumentSortOption } {
+  const filters = { ...EMPTY_DOCUMENT_FILTERS, ...view.filters };
+  return {
+    filters: view.date_range === 'fixed' ? filters : { ...filters, ...resolveDateRange(view.date_range) },
+    sortBy: view.sort_by,
+  };
+}
+
+export function isSameDocumentFilters(a: DocumentFilters, b: DocumentFilters): boolean {
+  return (Object.keys(FILTER_PARAMS) as (keyof DocumentFilters)[]).every((key) => (a[key] || null) === (b[key] || null));
+}
@@ -0,0 +1,191 @@
+/**
+ * Document Routing Helpers
+ *
+ * Evaluates a project's deterministic routing rules (sender domain, subject
+ * keyword, subcontractor) and previews where each unsorted document would be
+ * filed on the next reprocess. Rules win over the AI; the AI only files when
+ * its confidence clears the project's threshold.
+ */
+
+import type {
+  DocumentNameAlias,
+  DocumentReviewExample,
+  DocumentRoutingDecision,
+  DocumentRoutingRule,
+  DocumentRoutingRuleType,
+  ProjectFolder,
+  ProjectSubcontractor,
+  ReceivedDocument,
+  SupervisorProject,
+} from '@/types/supervisor';
+import { DEFAULT_AUTO_FILE_THRESHOLD, getEffectiveMetadata } from '@/types/supervisor';
+import { getLearnedFolderId, resolveNameAlias } from '@/utils/reviewLearning';
+import { diceSimilarity } from '@/utils/shiftMatching';
+
+// "Acme Electric Ltd." and "ACME Electric" are the same company
+const MIN_COMPANY_SIMILARITY = 0.85;
+
+export const ROUTING_RULE_LABELS: Record<DocumentRoutingRuleType, string> = {
+  sender_domain: 'Sender domain',
+  subject_keyword: 'Subject keyword',
+  subcontractor: 'Subcontractor',
+};
+
+export function getAutoFileThreshold(project: Pick<SupervisorProject, 'auto_file_threshold'> | null | undefined): number {
+  return project?.auto_file_threshold ?? DEFAULT_AUTO_FILE_THRESHOLD;
+}
+
+/**
+ * "@Acme.com", "acme.com" and "https://acme.com/" all become "acme.com"
+ */
+export function normalizeEmailDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^.*@/, '')
+    .replace(/\/.*$/, '');
+}
+
+function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\b(inc|ltd|llc|corp|co|limited|incorporated)\b\.?/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function senderDomain(document: ReceivedDocument): string | null {
+  const at = document.source_email?.lastIndexOf('@') ?? -1;
+  return at === -1 ? null : document.source_email!.slice(at + 1).toLowerCase();
+}
+
+function matchesSubcontractor(
+  document: ReceivedDocument,
+  subcontractor: ProjectSubcontractor,
+  aliases: DocumentNameAlias[]
+): boolean {
+  const sender = document.source_email?.toLowerCase();
+  if (sender && subcontractor.contact_email?.toLowerCase() === sender) return true;
+
+  const company = resolveNameAlias(getEffectiveMetadata(document.ai_extracted_data).companyName, 'company', aliases);
+  if (!company) return false;
+  const a = normalizeCompanyName(company);
+  const b = normalizeCompanyName(subcontractor.company_name);
+  return a === b || diceSimilarity(a, b) >= MIN_COMPANY_SIMILARITY;
+}
+
+export function matchesRoutingRule(
+  document: ReceivedDocument,
+  rule: DocumentRoutingRule,
+  subcontractors: ProjectSubcontractor[],
+  aliases: DocumentNameAlias[] = []
+): boolean {
+  switch (rule.rule_type) {
+    case 'sender_domain': {
+      const domain = senderDomain(document);
+      const pattern = normalizeEmailDomain(rule.pattern ?? '');
+      // Subdomains count: "mail.acme.com" matches "acme.com"
+      return !!domain && !!pattern && (domain === pattern || domain.endsWith('.' + pattern));
+    }
+    case 'subject_keyword': {
+      const keyword = rule.pattern?.trim().toLowerCase();
+      return !!keyword && (document.email_subject ?? '').toLowerCase().includes(keyword);
+    }
+    case 'subcontractor': {
+      const subcontractor = subcontractors.find((sc) => sc.id === rule.subcontractor_id);
+      return !!subcontractor && matchesSubcontractor(document, subcontractor, aliases);
+    }
+  }
+}
+
+/**
+ * First rule (by sort_order) that matches the document
+ */
+export function findRoutingRule(
+  document: ReceivedDocument,
+  rules: DocumentRoutingRule[],
+  subcontractors: ProjectSubcontractor[],
+  aliases: DocumentNameAlias[] = []
+): DocumentRoutingRule | null {
+  const ordered = [...rules].sort((a, b) => a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at));
+  return ordered.find((rule) => matchesRoutingRule(document, rule, subcontractors, aliases)) ?? null;
+}
+
+/**
+ * Folder whose name or classification hint mentions the AI classification
+ */
+export function findFolderForClassification(classification: string | null, folders: ProjectFolder[]): ProjectFolder | null {
+  const type = classification?.trim().toLowerCase();
+  if (!type || type === 'unknown') return null;
+
+  const keywords = (folder: ProjectFolder) =>
+    (folder.ai_classification_hint ?? '').toLowerCase().split(/[,;\n]/).map((k) => k.trim()).filter(Boolean);
+
+  return (
+    folders.find((f) => f.folder_name.toLowerCase() === type) ??
+    folders.find((f) => keywords(f).includes(type)) ??
+    folders.find((f) => f.folder_name.toLowerCase().includes(type)) ??
+    null
+  );
+}
+
+/**
+ * Folder for the AI's classification: where supervisors have been filing it,
+ * else the folder hints
+ */
+export function predictFolder(
+  classification: string | null,
+  folders: ProjectFolder[],
+  examples: DocumentReviewExample[] = []
+): ProjectFolder | null {
+  const learnedId = getLearnedFolderId(classification, examples);
+  return folders.find((f) => f.id === learnedId) ?? findFolderForClassification(classification, folders);
+}
+
+/**
+ * Dry run of the next reprocess for unsorted documents. AI decisions use each
+ * document's current classification, so a fresh AI pass may still differ.
+ */
+export function previewDocumentRouting(
+  documents: ReceivedDocument[],
+  rules: DocumentRoutingRule[],
+  folders: ProjectFolder[],
+  subcontractors: ProjectSubcontractor[],
+  threshold: number,
+  examples: DocumentReviewExample[] = [],
+  aliases: DocumentNameAlias[] = []
+): DocumentRoutingDecision[] {
+  return documents
+    .filter((d) => d.folder_id === null && d.status !== 'rejected')
+    .map((document): DocumentRoutingDecision => {
+      const rule = findRoutingRule(document, rules, subcontractors, aliases);
+      if (rule && folders.some((f) => f.id === rule.folder_id)) {
+        return { document, folder_id: rule.folder_id, source: 'rule', rule };
+      }
+
+      const folder = predictFolder(document.ai_classification, folders, examples);
+      if (folder && (document.confidence_score ?? 0) >= threshold) {
+        return { document, folder_id: folder.id, source: 'ai', rule: null };
+      }
+
+      return { document, folder_id: null, source: 'review', rule: null };
+    });
+}
+
+/**
+ * e.g. "Sender domain acme.com → Safety Forms"
+ */
+export function describeRoutingRule(
+  rule: DocumentRoutingRule,
+  folders: ProjectFolder[],
+  subcontractors: ProjectSubcontractor[]
+): string {
+  const folder = folders.find((f) => f.id === rule.folder_id)?.folder_name ?? 'deleted folder';
+  const target =
+    rule.rule_type === 'subcontractor'
+      ? subcontractors.find((sc) => sc.id === rule.subcontractor_id)?.company_name ?? 'removed subcontractor'
+      : rule.rule_type === 'subject_keyword'
+        ? `"${rule.pattern}"`
+        : rule.pattern;
+  return `${ROUTING_RULE_LABELS[rule.rule_type]} ${target} → ${folder}`;
+}
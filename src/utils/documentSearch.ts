@@ -0,0 +1,28 @@
+/**
+ * Document Search Helpers
+ *
+ * Snippet parsing for search results. The search_documents RPC marks matches
+ * with [[ ]] instead of HTML so snippets can be rendered without innerHTML.
+ */
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+const SNIPPET_MARK = /\[\[(.*?)\]\]/g;
+
+export function parseSearchSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let last = 0;
+
+  for (const found of snippet.matchAll(SNIPPET_MARK)) {
+    const index = found.index ?? 0;
+    if (index > last) parts.push({ text: snippet.slice(last, index), match: false });
+    parts.push({ text: found[1], match: true });
+    last = index + found[0].length;
+  }
+  if (last < snippet.length) parts.push({ text: snippet.slice(last), match: false });
+
+  return parts;
+}
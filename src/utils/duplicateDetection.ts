@@ -0,0 +1,138 @@
+/**
+ * Duplicate Document Detection
+ *
+ * Groups received documents that are the same submission sent more than
+ * once: byte-identical files (same content hash), or near-duplicates from the
+ * same worker on the same day with the same classification and a similar
+ * filename (e.g. "FLRA.pdf" and "FLRA (1).pdf").
+ */
+
+import type { ReceivedDocument } from '@/types/supervisor';
+import { getEffectiveMetadata } from '@/types/supervisor';
+import { diceSimilarity, getDocumentWorkDate, getNameSimilarity } from '@/utils/shiftMatching';
+
+// Same person despite OCR/spelling differences
+const MIN_WORKER_SIMILARITY = 0.85;
+const MIN_FILENAME_SIMILARITY = 0.8;
+
+export type DuplicateReason = 'identical' | 'similar';
+
+export interface DuplicateGroup {
+  id: string; // Id of the newest document
+  reason: DuplicateReason; // 'identical' when every copy has the same content hash
+  documents: ReceivedDocument[]; // Newest first
+}
+
+/**
+ * Filename without extension, copy markers ("(1)", "copy", "_2") and punctuation
+ */
+function normalizeFilename(filename: string | null): string {
+  return (filename ?? '')
+    .toLowerCase()
+    .replace(/\.[a-z0-9]{2,5}$/, '')
+    .replace(/\(\d+\)|\bcopy\b|[_-]\d{1,2}$/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function isNearDuplicate(a: ReceivedDocument, b: ReceivedDocument): boolean {
+  const workerA = getEffectiveMetadata(a.ai_extracted_data).workerName;
+  const workerB = getEffectiveMetadata(b.ai_extracted_data).workerName;
+  if (!workerA || !workerB || getNameSimilarity(workerA, workerB) < MIN_WORKER_SIMILARITY) return false;
+
+  const nameA = normalizeFilename(a.original_filename);
+  const nameB = normalizeFilename(b.original_filename);
+  return nameA === nameB || diceSimilarity(nameA, nameB) >= MIN_FILENAME_SIMILARITY;
+}
+
+/**
+ * Duplicate groups among the documents, newest group first. Rejected
+ * documents are ignored, so a resolved group disappears.
+ */
+export function findDuplicateGroups(documents: ReceivedDocument[]): DuplicateGroup[] {
+  const active = documents.filter((d) => d.status !== 'rejected');
+  const parent = new Map(active.map((d) => [d.id, d.id]));
+
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  // Identical files
+  const byHash = new Map<string, string>();
+  for (const doc of active) {
+    if (!doc.content_hash) continue;
+    const first = byHash.get(doc.content_hash);
+    if (first) union(first, doc.id);
+    else byHash.set(doc.content_hash, doc.id);
+  }
+
+  // Near-duplicates: only compare documents with the same classification and work date
+  const buckets = new Map<string, ReceivedDocument[]>();
+  for (const doc of active) {
+    if (!doc.ai_classification || doc.ai_classification === 'Unknown') continue;
+    const key = `${doc.ai_classification.toLowerCase()}|${getDocumentWorkDate(doc)}`;
+    buckets.set(key, [...(buckets.get(key) ?? []), doc]);
+  }
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        if (isNearDuplicate(bucket[i], bucket[j])) union(bucket[i].id, bucket[j].id);
+      }
+    }
+  }
+
+  const grouped = new Map<string, ReceivedDocument[]>();
+  for (const doc of active) {
+    const root = find(doc.id);
+    grouped.set(root, [...(grouped.get(root) ?? []), doc]);
+  }
+
+  return [...grouped.values()]
+    .filter((docs) => docs.length > 1)
+    .map((docs) => {
+      const sorted = [...docs].sort((a, b) => b.received_at.localeCompare(a.received_at));
+      const identical = sorted.every((d) => d.content_hash && d.content_hash === sorted[0].content_hash);
+      return { id: sorted[0].id, reason: identical ? 'identical' : 'similar', documents: sorted } satisfies DuplicateGroup;
+    })
+    .sort((a, b) => b.documents[0].received_at.localeCompare(a.documents[0].received_at));
+}
+
+/**
+ * Lookup from document id to its duplicate group
+ */
+export function indexDuplicateGroups(groups: DuplicateGroup[]): Map<string, DuplicateGroup> {
+  return new Map(groups.flatMap((group) => group.documents.map((doc) => [doc.id, group] as const)));
+}
+
+/**
+ * Copy to keep when resolving a group: one linked to a shift, then one filed
+ * in a folder, then the newest. Rejecting a linked or filed copy would drop
+ * that link.
+ */
+export function pickDuplicateToKeep(group: DuplicateGroup): ReceivedDocument {
+  return (
+    group.documents.find((d) => d.shift_id && d.folder_id) ??
+    group.documents.find((d) => d.shift_id) ??
+    group.documents.find((d) => d.folder_id) ??
+    group.documents[0]
+  );
+}
+
+/**
+ * Number of documents with each duplicate group counted once
+ */
+export function countDistinctDocuments(documents: ReceivedDocument[]): number {
+  return findDuplicateGroups(documents).reduce((count, group) => count - (group.documents.length - 1), documents.length);
+}
+
+/**
+ * Hex SHA-256 of file contents, as stored in received_documents.content_hash
+ */
+export async function getContentHash(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
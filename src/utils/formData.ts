@@ -0,0 +1,154 @@
+/**
+ * Form Data Helpers
+ *
+ * Read helpers for the form_instances.form_data JSONB structure:
+ * { modules: { [section]: { [field]: { value } } }, templateId }
+ * Photo and signature modules store their data directly (not wrapped in value).
+ */
+
+import type { FormTemplate, MissingRequiredField } from '@/types/formTemplates';
+
+export interface FormPhoto {
+  id: string;
+  storage_url: string;
+  caption: string;
+  uploaded_at?: string;
+}
+
+export function getModules(formData: Record<string, unknown>): Record<string, unknown> {
+  return (formData.modules as Record<string, unknown> | undefined) ?? {};
+}
+
+export function getFieldValue(
+  formData: Record<string, unknown>,
+  moduleName: string,
+  fieldName: string,
+  defaultValue: unknown = ''
+): unknown {
+  const module = getModules(formData)[moduleName] as Record<string, unknown> | undefined;
+  const field = module?.[fieldName] as { value?: unknown } | undefined;
+  return field?.value ?? defaultValue;
+}
+
+export function getPhotosModule(formData: Record<string, unknown>, moduleName = 'photos'): { photos: FormPhoto[] } {
+  return (getModules(formData)[moduleName] ?? { photos: [] }) as { photos: FormPhoto[] };
+}
+
+export function getSignaturesModule<T = unknown>(formData: Record<string, unknown>, moduleName = 'signatures'): T[] {
+  return (getModules(formData)[moduleName] ?? []) as T[];
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * List required fields (and required photo/signature sections) that are empty.
+ * Defaults count as answered, matching what the renderer shows.
+ */
+export function getMissingRequiredFields(
+  template: FormTemplate,
+  formData: Record<string, unknown>
+): MissingRequiredField[] {
+  const missing: MissingRequiredField[] = [];
+
+  for (const section of template.sections) {
+    const kind = section.kind ?? 'fields';
+
+    if (kind === 'photos') {
+      if (section.required && (getPhotosModule(formData, section.id).photos ?? []).length === 0) {
+        missing.push({ section: section.id, field: null, label: section.title });
+      }
+      continue;
+    }
+
+    if (kind === 'signatures') {
+      if (section.required && getSignaturesModule(formData, section.id).length === 0) {
+        missing.push({ section: section.id, field: null, label: section.title });
+      }
+      continue;
+    }
+
+    for (const field of section.fields ?? []) {
+      if (!field.required) continue;
+      const value = getFieldValue(formData, section.id, field.id, field.defaultValue ?? null);
+      if (isEmptyValue(value)) {
+        missing.push({ section: section.id, field: field.id, label: field.label || section.title });
+      }
+    }
+  }
+
+  return missing;
+}
+
+/** JSON with object keys sorted so equal data always serializes the same way */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 (hex) of form data, independent of key order.
+ * Stored on finalize so a submitted form can be verified later.
+ */
+export async function hashFormData(formData: Record<string, unknown>): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalJson(formData));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Field paths (relative to modules) whose values differ between two versions,
+ * e.g. "header.date" or "signatures". Field wrappers ({ value }) are unwrapped
+ * and arrays (photos, repeaters, signatures) are compared as a whole.
+ */
+export function diffFormData(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const changed: string[] = [];
+
+  // Containers are modules or the modules map; a missing side counts as empty
+  const isContainer = (value: unknown) => value === undefined || (isPlainObject(value) && !('value' in value));
+
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (isContainer(a) && isContainer(b) && (a !== undefined || b !== undefined)) {
+      const left = (a ?? {}) as Record<string, unknown>;
+      const right = (b ?? {}) as Record<string, unknown>;
+      const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+      for (const key of [...keys].sort()) {
+        walk(left[key], right[key], path ? `${path}.${key}` : key);
+      }
+      return;
+    }
+    if (canonicalJson(a) !== canonicalJson(b)) changed.push(path);
+  };
+
+  walk(getModules(before), getModules(after), '');
+  return changed;
+}
+
+/**
+ * Read the value at a path produced by diffFormData
+ */
+export function getFormDataPath(formData: Record<string, unknown>, path: string): unknown {
+  let current: unknown = getModules(formData);
+  for (const key of path.split('.')) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[key];
+  }
+  return isPlainObject(current) && 'value' in current ? current.value : current;
+}
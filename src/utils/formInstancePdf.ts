@@ -0,0 +1,225 @@
+/**
+ * Supervisor Form PDF Export
+ *
+ * Renders a SupervisorFormInstance to PDF by walking its FormTemplate, so
+ * every template field is printed with its answer (or "-" when blank).
+ * Forms without a template (worker form types) fall back to dumping the
+ * raw form_data modules.
+ */
+
+import type { SupervisorFormInstance } from '@/types/supervisorForms';
+import { getFormTypeConfig } from '@/types/supervisorForms';
+import type { FormTemplate, TemplateField } from '@/types/formTemplates';
+import { getFormTemplate } from '@/config/formTemplates';
+import { getFieldValue, getModules, getPhotosModule, getSignaturesModule } from '@/utils/formData';
+import { createPdfWriter, loadPdfImage, pdfFileSlug, type PdfImage, type PdfSignature, type PdfWriter } from '@/utils/pdfLayout';
+
+export interface FormInstancePdfInput {
+  form: SupervisorFormInstance;
+  projectName?: string;
+  formDefinitions?: FormTemplate[]; // Loaded templates; the built-ins are used otherwise
+}
+
+/** Shape written by SignatureModule */
+interface StoredSignature {
+  id: string;
+  storageUrl: string;
+  signerName: string;
+  signerType: 'worker' | 'supervisor';
+  signerRole: string;
+  timestamp: string;
+}
+
+const CHOICE_LABELS: Record<string, string> = {
+  yes: 'Yes',
+  no: 'No',
+  na: 'N/A',
+  pass: 'Pass',
+  fail: 'Fail',
+};
+
+function formatDateTime(dateStr: string): string {
+  const date = new Date(dateStr);
+  if (isNaN(date.getTime())) return dateStr;
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** Human-readable answer for a single (non-repeater) field */
+function formatFieldValue(field: TemplateField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (field.type) {
+    case 'select':
+      return field.options?.find((o) => o.value === value)?.label ?? String(value);
+    case 'yes_no':
+    case 'yes_no_na':
+    case 'pass_fail_na':
+      return CHOICE_LABELS[String(value)] ?? String(value);
+    case 'tags':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/** Print raw modules for forms that have no template */
+function writeRawModules(pdf: PdfWriter, formData: Record<string, unknown>) {
+  const modules = getModules(formData);
+  for (const name of Object.keys(modules).sort()) {
+    const module = modules[name];
+    if (!module || typeof module !== 'object' || Array.isArray(module)) continue;
+    if (name === 'photos' || name === 'signatures') continue;
+
+    const pairs = Object.entries(module as Record<string, unknown>).map(([key, entry]): [string, string] => {
+      const value = entry && typeof entry === 'object' && 'value' in entry ? (entry as { value: unknown }).value : entry;
+      return [key.replace(/_/g, ' '), typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '')];
+    });
+    if (pairs.length === 0) continue;
+
+    pdf.sectionHeading(name.replace(/_/g, ' '));
+    pdf.keyValues(pairs);
+  }
+}
+
+async function writePhotos(pdf: PdfWriter, formData: Record<string, unknown>, moduleName: string, title: string) {
+  const photos = getPhotosModule(formData, moduleName).photos ?? [];
+  pdf.sectionHeading(title);
+  if (photos.length === 0) {
+    pdf.paragraph('No photos attached.', { muted: true });
+    return;
+  }
+
+  const images: PdfImage[] = [];
+  for (const photo of photos) {
+    const image = await loadPdfImage(photo.storage_url);
+    if (image) images.push({ ...image, caption: photo.caption });
+  }
+  pdf.images(images);
+  if (images.length < photos.length) {
+    pdf.paragraph(`${photos.length - images.length} photo(s) could not be loaded.`, { muted: true, size: 9 });
+  }
+}
+
+async function writeSignatures(pdf: PdfWriter, formData: Record<string, unknown>, moduleName: string, title: string) {
+  const stored = getSignaturesModule<StoredSignature>(formData, moduleName);
+  pdf.sectionHeading(title);
+  if (stored.length === 0) {
+    pdf.paragraph('Not signed.', { muted: true });
+    return;
+  }
+
+  // Supervisor first, then workers in signing order
+  const ordered = [...stored].sort((a, b) =>
+    (a.signerType === 'supervisor' ? 0 : 1) - (b.signerType === 'supervisor' ? 0 : 1) || a.timestamp.localeCompare(b.timestamp)
+  );
+
+  const entries: PdfSignature[] = [];
+  for (const signature of ordered) {
+    entries.push({
+      image: signature.storageUrl ? await loadPdfImage(signature.storageUrl) : null,
+      name: signature.signerName,
+      role: signature.signerRole || (signature.signerType === 'supervisor' ? 'Supervisor' : 'Worker'),
+      signedAt: formatDateTime(signature.timestamp),
+    });
+  }
+  pdf.signatures(entries);
+}
+
+/**
+ * Suggested download filename for a form
+ */
+export function getFormInstancePdfFilename(form: SupervisorFormInstance): string {
+  return `${pdfFileSlug(form.title ?? form.template_id)}-${pdfFileSlug(form.form_number)}.pdf`;
+}
+
+export async function buildFormInstancePdf(input: FormInstancePdfInput): Promise<Blob> {
+  const { form, projectName, formDefinitions } = input;
+  const config = getFormTypeConfig(form.template_id, formDefinitions);
+  const template = getFormTemplate(form.template_id, formDefinitions, form.form_definition_version);
+  const formData = form.form_data ?? {};
+
+  const pdf = createPdfWriter(form.updated_at, JSON.stringify([form, projectName ?? null]));
+
+  pdf.title(config?.name ?? form.title ?? 'Form', [
+    `Form #${form.form_number}`,
+    projectName ?? '',
+    form.title && form.title !== config?.name ? form.title : '',
+    form.submitted_at
+      ? `Finalized ${formatDateTime(form.submitted_at)} - Version ${form.submission_version}`
+      : `Draft - last updated ${formatDateTime(form.updated_at)}`,
+    form.submitted_at && form.content_hash ? `SHA-256 ${form.content_hash}` : '',
+    form.submitted_at && form.amendment_reason ? `Amendment: ${form.amendment_reason}` : '',
+  ]);
+
+  if (!template) {
+    writeRawModules(pdf, formData);
+    await writePhotos(pdf, formData, 'photos', 'Photos');
+    await writeSignatures(pdf, formData, 'signatures', 'Signatures');
+    return pdf.finish(`${config?.shortName ?? form.template_id} #${form.form_number}`);
+  }
+
+  for (const section of template.sections) {
+    const kind = section.kind ?? 'fields';
+
+    if (kind === 'photos') {
+      await writePhotos(pdf, formData, section.id, section.title);
+      continue;
+    }
+    if (kind === 'signatures') {
+      await writeSignatures(pdf, formData, section.id, section.title);
+      continue;
+    }
+
+    pdf.sectionHeading(section.title);
+    let pairs: [string, string][] = [];
+    const flushPairs = () => {
+      if (pairs.length > 0) pdf.keyValues(pairs);
+      pairs = [];
+    };
+
+    for (const field of section.fields ?? []) {
+      if (field.type === 'static_text') {
+        flushPairs();
+        (field.paragraphs ?? []).forEach((text) => pdf.paragraph(text, { muted: true, size: 9 }));
+        continue;
+      }
+
+      const value = getFieldValue(formData, section.id, field.id, field.defaultValue ?? null);
+
+      if (field.type === 'repeater') {
+        flushPairs();
+        const rows = Array.isArray(value) ? (value as Record<string, unknown>[]) : [];
+        const rowFields = field.fields ?? [];
+        if (field.label) pdf.paragraph(field.label);
+        if (rows.length === 0 || rowFields.length === 0) {
+          pdf.paragraph(field.emptyText ?? 'None recorded.', { muted: true });
+        } else {
+          pdf.table(
+            rowFields.map((f) => ({ header: f.label, width: 1 / rowFields.length })),
+            rows.map((row) => rowFields.map((f) => formatFieldValue(f, row[f.id])))
+          );
+        }
+        continue;
+      }
+
+      // Unlabelled fields (e.g. summary text boxes) read as notes under the heading
+      if (!field.label) {
+        flushPairs();
+        const text = formatFieldValue(field, value);
+        if (text) pdf.paragraph(text);
+        continue;
+      }
+
+      pairs.push([field.label, formatFieldValue(field, value) || (field.type === 'tags' ? field.emptyText ?? '' : '')]);
+    }
+    flushPairs();
+  }
+
+  return pdf.finish(`${config?.shortName ?? form.template_id} #${form.form_number}`);
+}
@@ -0,0 +1,14 @@
+/**
+ * Links into the worker-facing HrdHat app
+ */
+
+export const HRDHAT_FRONTEND_URL = import.meta.env.DEV ? 'http://localhost:5173' : 'https://hrdhat.site';
+
+/**
+ * Signup link for an emailed worker invitation. HrdHat signup reads the
+ * token to prefill the invited email, then calls accept_worker_invite(token)
+ * once the account exists to join the project.
+ */
+export function getWorkerInviteUrl(inviteToken: string): string {
+  return `${HRDHAT_FRONTEND_URL}/signup?invite=${encodeURIComponent(inviteToken)}`;
+}
@@ -0,0 +1,172 @@
+/**
+ * Manpower Report
+ *
+ * Rolls manpower log entries up into worker-days and hours by company, trade
+ * and person, and finds days in a range with no manpower logged. An entry
+ * with a headcount counts as headcount × hours; an entry without one counts
+ * each person listed under "Personnel on Site" with their own hours.
+ */
+
+import type { ManpowerMetadata, ProjectDailyLog } from '@/types/supervisor';
+import { addDays } from '@/utils/shiftRecurrence';
+
+// Hours per worker when a manpower entry doesn't say, as on the daily report
+const DEFAULT_MANPOWER_HOURS = 8;
+
+const UNSPECIFIED = 'Unspecified';
+
+/**
+ * One manpower log entry, flattened for the report
+ */
+export interface ManpowerEntry {
+  log_id: string;
+  date: string;
+  company: string;
+  trade: string;
+  worker_days: number;
+  hours: number;
+  personnel: string[];
+  notes: string;
+}
+
+export interface ManpowerRollup {
+  label: string;
+  detail: string[]; // Trades for a company, companies for a trade or person
+  days: number; // Distinct dates with an entry
+  worker_days: number;
+  hours: number;
+}
+
+/**
+ * Hours on one manpower entry: headcount × hours when a count is given,
+ * otherwise the hours logged against each person on site
+ */
+export function getManpowerHours(meta: ManpowerMetadata): number {
+  if ((meta.count ?? 0) > 0) {
+    return (meta.count ?? 0) * (meta.hours ?? DEFAULT_MANPOWER_HOURS);
+  }
+  return (meta.personnel ?? []).reduce((sum, person) => sum + (person.hours ?? DEFAULT_MANPOWER_HOURS), 0);
+}
+
+export function getManpowerWorkerDays(meta: ManpowerMetadata): number {
+  return (meta.count ?? 0) > 0 ? (meta.count ?? 0) : (meta.personnel ?? []).length;
+}
+
+/**
+ * Company an entry is logged against; older entries may only have it in the content
+ */
+export function getManpowerCompany(log: ProjectDailyLog): string {
+  return (log.metadata as ManpowerMetadata).company?.trim() || log.content.trim() || UNSPECIFIED;
+}
+
+export function getManpowerEntries(logs: ProjectDailyLog[]): ManpowerEntry[] {
+  return logs
+    .filter((log) => log.log_type === 'manpower')
+    .map((log) => {
+      const meta = log.metadata as ManpowerMetadata;
+      const company = getManpowerCompany(log);
+      return {
+        log_id: log.id,
+        date: log.log_date,
+        company,
+        trade: meta.trade?.trim() || UNSPECIFIED,
+        worker_days: getManpowerWorkerDays(meta),
+        hours: getManpowerHours(meta),
+        personnel: (meta.personnel ?? []).map((p) => p.name),
+        notes: log.content.trim() === company ? '' : log.content.trim(),
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.company.localeCompare(b.company));
+}
+
+// ============================================================================
+// Rollups
+// ============================================================================
+
+interface RollupAccumulator {
+  label: string;
+  detail: Set<string>;
+  dates: Set<string>;
+  worker_days: number;
+  hours: number;
+}
+
+function addToRollup(
+  rollups: Map<string, RollupAccumulator>,
+  label: string,
+  date: string,
+  workerDays: number,
+  hours: number,
+  detail?: string
+) {
+  const key = label.toLowerCase();
+  const rollup = rollups.get(key) ?? { label, detail: new Set(), dates: new Set(), worker_days: 0, hours: 0 };
+  rollup.dates.add(date);
+  rollup.worker_days += workerDays;
+  rollup.hours += hours;
+  if (detail && detail !== UNSPECIFIED) rollup.detail.add(detail);
+  rollups.set(key, rollup);
+}
+
+function finishRollups(rollups: Map<string, RollupAccumulator>): ManpowerRollup[] {
+  return [...rollups.values()]
+    .map((r) => ({ label: r.label, detail: [...r.detail].sort(), days: r.dates.size, worker_days: r.worker_days, hours: r.hours }))
+    .sort((a, b) => b.hours - a.hours || a.label.localeCompare(b.label));
+}
+
+export function rollupByCompany(entries: ManpowerEntry[]): ManpowerRollup[] {
+  const rollups = new Map<string, RollupAccumulator>();
+  for (const entry of entries) {
+    addToRollup(rollups, entry.company, entry.date, entry.worker_days, entry.hours, entry.trade);
+  }
+  return finishRollups(rollups);
+}
+
+export function rollupByTrade(entries: ManpowerEntry[]): ManpowerRollup[] {
+  const rollups = new Map<string, RollupAccumulator>();
+  for (const entry of entries) {
+    addToRollup(rollups, entry.trade, entry.date, entry.worker_days, entry.hours, entry.company);
+  }
+  return finishRollups(rollups);
+}
+
+/**
+ * Named workers from "Personnel on Site", one worker-day per entry they're on.
+ * Subcontractor rows in the personnel list are companies, so they're left out.
+ */
+export function rollupByPerson(logs: ProjectDailyLog[]): ManpowerRollup[] {
+  const rollups = new Map<string, RollupAccumulator>();
+  for (const log of logs) {
+    if (log.log_type !== 'manpower') continue;
+    const meta = log.metadata as ManpowerMetadata;
+    for (const person of meta.personnel ?? []) {
+      if (person.type !== 'worker' || !person.name.trim()) continue;
+      addToRollup(rollups, person.name.trim(), log.log_date, 1, person.hours ?? DEFAULT_MANPOWER_HOURS, meta.company?.trim());
+    }
+  }
+  return finishRollups(rollups);
+}
+
+// ============================================================================
+// Missing Days
+// ============================================================================
+
+/**
+ * Dates in the range (inclusive) with no manpower entry
+ */
+export function getMissingManpowerDays(
+  logs: ProjectDailyLog[],
+  startDate: string,
+  endDate: string,
+  skipWeekends: boolean
+): string[] {
+  const logged = new Set(logs.filter((log) => log.log_type === 'manpower').map((log) => log.log_date));
+  const missing: string[] = [];
+
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const day = new Date(date + 'T00:00:00').getDay();
+    if (skipWeekends && (day === 0 || day === 6)) continue;
+    if (!logged.has(date)) missing.push(date);
+  }
+  return missing;
+}
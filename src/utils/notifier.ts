@@ -0,0 +1,88 @@
+/**
+ * Outbound Notifications
+ *
+ * Emails to people outside the app go through a Notifier so the delivery
+ * channel can be swapped. The default posts to a Supabase edge function. Set
+ * VITE_NOTIFIER=local to keep messages in an in-memory outbox and log them to
+ * the console instead, for local development and testing.
+ */
+
+import { supabase } from '@/config/supabaseClient';
+import type { SiteIssueNoticeDeliveryStatus } from '@/types/supervisor';
+
+/**
+ * Email telling a subcontractor a site issue was assigned to them. Only
+ * notice_id leaves the browser: the edge function loads the recipient, issue
+ * and token from the database under the caller's RLS, so it can't be used to
+ * mail arbitrary addresses or content. The rest is for the local notifier.
+ */
+export interface SiteIssueAssignmentMessage {
+  notice_id: string; // site_issue_notices row
+  to: string;
+  company_name: string;
+  response_url: string; // Tokenized "fixed, ready for inspection" link
+}
+
+export interface Notifier {
+  name: string;
+  deliveryStatus: SiteIssueNoticeDeliveryStatus; // Recorded on the notice when the send succeeds
+  sendSiteIssueAssignment: (message: SiteIssueAssignmentMessage) => Promise<void>;
+}
+
+export const edgeFunctionNotifier: Notifier = {
+  name: 'email',
+  deliveryStatus: 'sent',
+  sendSiteIssueAssignment: async (message) => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) throw new Error('Not authenticated');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-site-issue-notice`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ notice_id: message.notice_id }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+  },
+};
+
+// Messages "sent" by the local notifier, newest last
+export const localOutbox: SiteIssueAssignmentMessage[] = [];
+
+export const localNotifier: Notifier = {
+  name: 'local',
+  deliveryStatus: 'logged',
+  sendSiteIssueAssignment: async (message) => {
+    localOutbox.push(message);
+    console.log('📨 [local notifier] Site issue assigned to', message.company_name, `<${message.to}>`, message);
+  },
+};
+
+let activeNotifier: Notifier = import.meta.env.VITE_NOTIFIER === 'local' ? localNotifier : edgeFunctionNotifier;
+
+export function getNotifier(): Notifier {
+  return activeNotifier;
+}
+
+export function setNotifier(notifier: Notifier) {
+  activeNotifier = notifier;
+}
+
+/**
+ * Public page where a subcontractor marks an assigned issue fixed
+ */
+export function getSiteIssueResponseUrl(token: string): string {
+  return `${window.location.origin}/site-issues/respond/${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Offline Queue Persistence
+ *
+ * Thin promise wrapper around IndexedDB for storing queued mutations.
+ * The queue survives page reloads so edits made without signal are not lost
+ * if the supervisor closes the tab before reconnecting.
+ */
+
+import type { QueuedMutation } from '@/types/offlineSync';
+
+const DB_NAME = 'hrdhat_supervisor_offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Failed to open offline queue'));
+    };
+  });
+
+  return dbPromise;
+}
+
+function runTransaction<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, mode);
+        const request = action(tx.objectStore(STORE_NAME));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error ?? new Error('Offline queue transaction failed'));
+      })
+  );
+}
+
+/**
+ * Load every queued mutation, oldest first
+ */
+export async function loadQueuedMutations(): Promise<QueuedMutation[]> {
+  const mutations = await runTransaction<QueuedMutation[]>('readonly', (store) => store.getAll());
+  return mutations.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Insert or replace a queued mutation
+ */
+export async function saveQueuedMutation(mutation: QueuedMutation): Promise<void> {
+  await runTransaction('readwrite', (store) => store.put(mutation));
+}
+
+/**
+ * Remove a queued mutation once it has been applied or discarded
+ */
+export async function removeQueuedMutation(mutationId: string): Promise<void> {
+  await runTransaction('readwrite', (store) => store.delete(mutationId));
+}
+
+/**
+ * True when an error came from the network layer rather than the server.
+ * supabase-js surfaces fetch failures as plain error objects with the
+ * browser's fetch message, so we match on the message text.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === 'object' && error !== null && 'message' in error
+        ? String((error as { message: unknown }).message)
+        : '';
+
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
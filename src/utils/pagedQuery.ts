@@ -0,0 +1,26 @@
+/**
+ * Paged Query Helper
+ *
+ * Reads past PostgREST's per-request row cap by walking a query with .range().
+ */
+
+// PostgREST returns at most this many rows per request by default
+const FETCH_PAGE_SIZE = 1000;
+
+export interface PagedQuery<T> {
+  range: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>;
+}
+
+/**
+ * Fetch every row of a query a page at a time, so long ranges aren't silently
+ * cut off at the row cap. build must return a fresh query with a stable order.
+ */
+export async function fetchAllPages<T>(build: () => PagedQuery<T>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < FETCH_PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,385 @@
+/**
+ * PDF Layout Helpers
+ *
+ * Small flow-layout wrapper around jsPDF used by the report exporters.
+ * Output is deterministic: callers pass a fixed creation date and the file id
+ * is derived from the content seed, so the same inputs produce the same bytes.
+ */
+
+import { jsPDF } from 'jspdf';
+
+const PAGE_MARGIN = 40;
+const LINE_HEIGHT = 1.35;
+const FOOTER_SPACE = 30;
+const BRAND_NAME = 'HrdHat Supervisor';
+
+// Neutral palette (RGB) matching the app's gray scale
+const COLORS = {
+  text: [31, 41, 55] as const,
+  muted: [107, 114, 128] as const,
+  rule: [209, 213, 219] as const,
+  headerFill: [243, 244, 246] as const,
+};
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // Fraction of the content width; columns should sum to 1
+  align?: 'left' | 'right';
+}
+
+export interface PdfImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  caption?: string;
+}
+
+export interface PdfSignature {
+  image: Omit<PdfImage, 'caption'> | null;
+  name: string;
+  role: string;
+  signedAt: string; // Pre-formatted date text
+}
+
+export interface PdfWriter {
+  doc: jsPDF;
+  title: (text: string, subtitleLines?: string[]) => void;
+  sectionHeading: (text: string) => void;
+  paragraph: (text: string, options?: { muted?: boolean; size?: number }) => void;
+  keyValues: (pairs: [string, string][]) => void;
+  table: (columns: PdfTableColumn[], rows: string[][]) => void;
+  images: (images: PdfImage[]) => void;
+  signatureLines: (labels: string[]) => void;
+  signatures: (entries: PdfSignature[]) => void;
+  spacer: (height?: number) => void;
+  finish: (footerText: string) => Blob;
+}
+
+/**
+ * jsPDF's built-in fonts only cover WinAnsi. Map common typographic
+ * characters to ASCII and drop anything else (emoji, CJK) so text never
+ * renders as garbage.
+ */
+export function pdfSafeText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value)
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/•/g, '-')
+    .replace(/[^\n\r\t\x20-\x7E\xA0-\xFF]/g, '')
+    .trim();
+}
+
+/**
+ * 32-hex-char FNV-1a based id so the PDF trailer /ID is stable per content
+ */
+function fileIdFromSeed(seed: string): string {
+  let out = '';
+  for (let round = 0; round < 4; round++) {
+    let hash = 0x811c9dc5 ^ round;
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    out += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return out.toUpperCase();
+}
+
+/**
+ * Create a letter-size portrait writer.
+ * @param createdAt Fixed timestamp written as the PDF creation date
+ * @param seed Content fingerprint used for the file id
+ */
+export function createPdfWriter(createdAt: string, seed: string): PdfWriter {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter', compress: true });
+  doc.setCreationDate(new Date(createdAt));
+  doc.setFileId(fileIdFromSeed(seed));
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const setText = (size: number, style: 'normal' | 'bold' = 'normal', color: readonly number[] = COLORS.text) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(color[0], color[1], color[2]);
+  };
+
+  const lineHeight = (size: number) => size * LINE_HEIGHT;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN - FOOTER_SPACE) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const rule = () => {
+    doc.setDrawColor(COLORS.rule[0], COLORS.rule[1], COLORS.rule[2]);
+    doc.setLineWidth(0.5);
+    doc.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y);
+  };
+
+  const title: PdfWriter['title'] = (text, subtitleLines = []) => {
+    setText(18, 'bold');
+    doc.text(pdfSafeText(text), PAGE_MARGIN, y + 18);
+    y += 26;
+    setText(10, 'normal', COLORS.muted);
+    for (const line of subtitleLines) {
+      const safe = pdfSafeText(line);
+      if (!safe) continue;
+      doc.text(safe, PAGE_MARGIN, y + 10);
+      y += lineHeight(10);
+    }
+    y += 6;
+    rule();
+    y += 12;
+  };
+
+  const sectionHeading: PdfWriter['sectionHeading'] = (text) => {
+    // Keep headings with at least a couple of lines of their content
+    ensureSpace(50);
+    y += 6;
+    setText(12, 'bold');
+    doc.text(pdfSafeText(text), PAGE_MARGIN, y + 12);
+    y += 18;
+  };
+
+  const paragraph: PdfWriter['paragraph'] = (text, options = {}) => {
+    const size = options.size ?? 10;
+    setText(size, 'normal', options.muted ? COLORS.muted : COLORS.text);
+    const lines = doc.splitTextToSize(pdfSafeText(text), contentWidth) as string[];
+    for (const line of lines) {
+      ensureSpace(lineHeight(size));
+      doc.text(line, PAGE_MARGIN, y + size);
+      y += lineHeight(size);
+    }
+    y += 4;
+  };
+
+  const keyValues: PdfWriter['keyValues'] = (pairs) => {
+    const labelWidth = 130;
+    for (const [label, value] of pairs) {
+      setText(10, 'normal');
+      const lines = doc.splitTextToSize(pdfSafeText(value) || '-', contentWidth - labelWidth) as string[];
+      ensureSpace(lines.length * lineHeight(10));
+      setText(10, 'bold', COLORS.muted);
+      doc.text(pdfSafeText(label), PAGE_MARGIN, y + 10);
+      setText(10, 'normal');
+      lines.forEach((line, i) => doc.text(line, PAGE_MARGIN + labelWidth, y + 10 + i * lineHeight(10)));
+      y += lines.length * lineHeight(10) + 2;
+    }
+    y += 4;
+  };
+
+  const table: PdfWriter['table'] = (columns, rows) => {
+    const size = 9;
+    const padding = 4;
+    const widths = columns.map((c) => c.width * contentWidth);
+
+    const drawRow = (cells: string[], header: boolean) => {
+      setText(size, header ? 'bold' : 'normal');
+      const wrapped = cells.map((cell, i) =>
+        doc.splitTextToSize(pdfSafeText(cell) || (header ? '' : '-'), widths[i] - padding * 2) as string[]
+      );
+      const rowHeight = Math.max(...wrapped.map((w) => w.length)) * lineHeight(size) + padding * 2;
+
+      ensureSpace(rowHeight);
+      if (header) {
+        doc.setFillColor(COLORS.headerFill[0], COLORS.headerFill[1], COLORS.headerFill[2]);
+        doc.rect(PAGE_MARGIN, y, contentWidth, rowHeight, 'F');
+      }
+
+      let x = PAGE_MARGIN;
+      wrapped.forEach((lines, i) => {
+        const align = columns[i].align ?? 'left';
+        lines.forEach((line, li) => {
+          const ty = y + padding + size + li * lineHeight(size);
+          if (align === 'right') {
+            doc.text(line, x + widths[i] - padding, ty, { align: 'right' });
+          } else {
+            doc.text(line, x + padding, ty);
+          }
+        });
+        x += widths[i];
+      });
+
+      y += rowHeight;
+      rule();
+    };
+
+    drawRow(columns.map((c) => c.header), true);
+    rows.forEach((row) => drawRow(row, false));
+    y += 10;
+  };
+
+  const images: PdfWriter['images'] = (list) => {
+    const gap = 12;
+    const cellWidth = (contentWidth - gap) / 2;
+    const maxHeight = 200;
+
+    for (let i = 0; i < list.length; i += 2) {
+      const pair = list.slice(i, i + 2);
+      const sized = pair.map((img) => {
+        const scale = Math.min(cellWidth / img.width, maxHeight / img.height, 1);
+        return { ...img, w: img.width * scale, h: img.height * scale };
+      });
+      const captionHeight = lineHeight(9) * 2;
+      const rowHeight = Math.max(...sized.map((s) => s.h)) + captionHeight + 6;
+
+      ensureSpace(rowHeight);
+      sized.forEach((img, col) => {
+        const x = PAGE_MARGIN + col * (cellWidth + gap);
+        const format = img.dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+        doc.addImage(img.dataUrl, format, x, y, img.w, img.h);
+        if (img.caption) {
+          setText(9, 'normal', COLORS.muted);
+          const lines = (doc.splitTextToSize(pdfSafeText(img.caption), cellWidth) as string[]).slice(0, 2);
+          lines.forEach((line, li) => doc.text(line, x, y + img.h + 10 + li * lineHeight(9)));
+        }
+      });
+      y += rowHeight;
+    }
+    y += 4;
+  };
+
+  const signatureLines: PdfWriter['signatureLines'] = (labels) => {
+    const gap = 24;
+    const width = (contentWidth - gap) / 2;
+    for (let i = 0; i < labels.length; i += 2) {
+      ensureSpace(60);
+      labels.slice(i, i + 2).forEach((label, col) => {
+        const x = PAGE_MARGIN + col * (width + gap);
+        doc.setDrawColor(COLORS.text[0], COLORS.text[1], COLORS.text[2]);
+        doc.setLineWidth(0.75);
+        doc.line(x, y + 32, x + width * 0.65, y + 32);
+        doc.line(x + width * 0.7, y + 32, x + width, y + 32);
+        setText(9, 'normal', COLORS.muted);
+        doc.text(pdfSafeText(label), x, y + 44);
+        doc.text('Date', x + width * 0.7, y + 44);
+      });
+      y += 60;
+    }
+  };
+
+  const signatures: PdfWriter['signatures'] = (entries) => {
+    const gap = 24;
+    const width = (contentWidth - gap) / 2;
+    const imageHeight = 50;
+    const rowHeight = imageHeight + 44;
+
+    for (let i = 0; i < entries.length; i += 2) {
+      ensureSpace(rowHeight);
+      entries.slice(i, i + 2).forEach((entry, col) => {
+        const x = PAGE_MARGIN + col * (width + gap);
+        if (entry.image) {
+          const scale = Math.min((width * 0.8) / entry.image.width, imageHeight / entry.image.height, 1);
+          const format = entry.image.dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+          doc.addImage(entry.image.dataUrl, format, x, y + imageHeight - entry.image.height * scale, entry.image.width * scale, entry.image.height * scale);
+        } else {
+          setText(9, 'normal', COLORS.muted);
+          doc.text('[signature image unavailable]', x, y + imageHeight - 4);
+        }
+        doc.setDrawColor(COLORS.text[0], COLORS.text[1], COLORS.text[2]);
+        doc.setLineWidth(0.75);
+        doc.line(x, y + imageHeight + 2, x + width, y + imageHeight + 2);
+        setText(10, 'bold');
+        doc.text(pdfSafeText(entry.name) || '-', x, y + imageHeight + 14);
+        setText(9, 'normal', COLORS.muted);
+        doc.text(pdfSafeText([entry.role, entry.signedAt].filter(Boolean).join(' - ')), x, y + imageHeight + 26);
+      });
+      y += rowHeight;
+    }
+  };
+
+  const spacer: PdfWriter['spacer'] = (height = 8) => {
+    y += height;
+  };
+
+  const finish: PdfWriter['finish'] = (footerText) => {
+    const total = doc.getNumberOfPages();
+    for (let page = 1; page <= total; page++) {
+      doc.setPage(page);
+      setText(8, 'bold', COLORS.muted);
+      doc.text(BRAND_NAME, pageWidth - PAGE_MARGIN, PAGE_MARGIN / 2 + 4, { align: 'right' });
+      setText(8, 'normal', COLORS.muted);
+      doc.text(pdfSafeText(footerText), PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2);
+      doc.text(`Page ${page} of ${total}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2, { align: 'right' });
+    }
+    return doc.output('blob');
+  };
+
+  return { doc, title, sectionHeading, paragraph, keyValues, table, images, signatureLines, signatures, spacer, finish };
+}
+
+/**
+ * Fetch an image and return it as a data URL with its natural size.
+ * Returns null if the image can't be loaded (missing, CORS) so exports
+ * degrade gracefully instead of failing.
+ */
+export async function loadPdfImage(url: string): Promise<Omit<PdfImage, 'caption'> | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+    const { width, height } = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = () => reject(new Error('Failed to decode image'));
+      img.src = dataUrl;
+    });
+
+    // jsPDF only embeds JPEG/PNG natively; re-encode anything else (e.g. webp)
+    if (!/^data:image\/(png|jpe?g)/.test(dataUrl)) {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const img = new Image();
+      img.src = dataUrl;
+      await img.decode();
+      canvas.getContext('2d')?.drawImage(img, 0, 0);
+      return { dataUrl: canvas.toDataURL('image/jpeg', 0.85), width, height };
+    }
+
+    return { dataUrl, width, height };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Trigger a browser download for a generated PDF
+ */
+export function downloadPdfBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Filesystem-safe slug for export filenames
+ */
+export function pdfFileSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, 40) || 'export';
+}
@@ -0,0 +1,155 @@
+/**
+ * PDF Viewer Helpers
+ *
+ * Thin wrappers around pdf.js for the in-app document viewer. pdf.js is
+ * loaded on first use so it stays out of the main bundle.
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+/**
+ * Rectangle as fractions (0-1) of the unrotated page
+ */
+export interface PageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfTextMatch {
+  page: number; // 1-based
+  rect: PageRect;
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+function loadPdfjs() {
+  pdfjsPromise ??= Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]).then(([pdfjs, worker]) => {
+    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+    return pdfjs;
+  });
+  return pdfjsPromise;
+}
+
+/**
+ * Open a PDF from a URL or its bytes. The loading task is destroyed when the
+ * file can't be parsed, so a failed load doesn't hold on to the worker.
+ */
+export async function loadPdfDocument(source: string | ArrayBuffer): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfjs();
+  const task = pdfjs.getDocument(typeof source === 'string' ? { url: source } : { data: source });
+  try {
+    return await task.promise;
+  } catch (error) {
+    void task.destroy();
+    throw error;
+  }
+}
+
+/**
+ * Page size in CSS pixels at 100% zoom
+ */
+export function getPageSize(page: PDFPageProxy): { width: number; height: number } {
+  const viewport = page.getViewport({ scale: 1 });
+  return { width: viewport.width, height: viewport.height };
+}
+
+/**
+ * Draw a page into a canvas at the given CSS width, sharp on high-DPI screens
+ */
+export function renderPdfPage(page: PDFPageProxy, canvas: HTMLCanvasElement, cssWidth: number): RenderTask {
+  const scale = cssWidth / page.getViewport({ scale: 1 }).width;
+  const viewport = page.getViewport({ scale: scale * window.devicePixelRatio });
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  canvas.style.width = `${cssWidth}px`;
+  canvas.style.height = `${(viewport.height / viewport.width) * cssWidth}px`;
+
+  return page.render({ canvas, viewport });
+}
+
+/**
+ * Case-insensitive search of a page's text layer. Matches inside a text run
+ * are placed proportionally to their character offset.
+ */
+export async function findPageTextMatches(page: PDFPageProxy, query: string): Promise<PdfTextMatch[]> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const matches: PdfTextMatch[] = [];
+
+  for (const item of content.items) {
+    if (!('str' in item) || !item.str) continue;
+    const { str, transform, width } = item as TextItem;
+    const height = (item as TextItem).height || Math.hypot(transform[2], transform[3]);
+    const haystack = str.toLowerCase();
+
+    for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+      const start = transform[4] + (width * index) / str.length;
+      const end = start + (width * needle.length) / str.length;
+      const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([start, transform[5], end, transform[5] + height]);
+
+      matches.push({
+        page: page.pageNumber,
+        rect: {
+          x: Math.min(x1, x2) / viewport.width,
+          y: Math.min(y1, y2) / viewport.height,
+          width: Math.abs(x2 - x1) / viewport.width,
+          height: Math.abs(y2 - y1) / viewport.height,
+        },
+      });
+    }
+  }
+
+  return matches;
+}
+
+export async function findPdfTextMatches(pdf: PDFDocumentProxy, query: string): Promise<PdfTextMatch[]> {
+  const results: PdfTextMatch[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    results.push(...(await findPageTextMatches(await pdf.getPage(pageNumber), query)));
+  }
+  return results;
+}
+
+/**
+ * All text in a PDF, one page per paragraph (for the search index)
+ */
+export async function extractPdfText(pdf: PDFDocumentProxy): Promise<string> {
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const content = await (await pdf.getPage(pageNumber)).getTextContent();
+    pages.push(
+      content.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .trim()
+    );
+  }
+  return pages.join('\n\n');
+}
+
+/**
+ * Map a point inside a rotated page box (fractions of the displayed box) back
+ * to fractions of the unrotated page
+ */
+export function toUnrotatedPoint(x: number, y: number, rotation: number): { x: number; y: number } {
+  switch (((rotation % 360) + 360) % 360) {
+    case 90:
+      return { x: y, y: 1 - x };
+    case 180:
+      return { x: 1 - x, y: 1 - y };
+    case 270:
+      return { x: 1 - y, y: x };
+    default:
+      return { x, y };
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Weekly & Monthly Rollup Reports
+ *
+ * Aggregates a week (Monday to Sunday) or calendar month of daily logs into
+ * one report: weather per day from the daily reports, manpower, deliveries,
+ * delays with impact hours, site issues opened and closed, and meetings held.
+ */
+
+import type {
+  DeliveryMetadata,
+  ManpowerMetadata,
+  MeetingMinutesMetadata,
+  ProjectDailyLog,
+  ProjectDailyReport,
+  WeatherData,
+} from '@/types/supervisor';
+import { MEETING_TYPE_CONFIG, WEATHER_CONDITIONS } from '@/types/supervisor';
+import { addDays, toLocalDate } from '@/utils/shiftRecurrence';
+import { getSiteIssueResolvedDate } from '@/utils/siteIssues';
+import { getDelayHoursByType, type AnalyticsCount } from '@/utils/analytics';
+import { getManpowerEntries, getManpowerHours, getManpowerWorkerDays, rollupByCompany, type ManpowerRollup } from '@/utils/manpowerReport';
+
+export type ReportPeriod = 'week' | 'month';
+
+export interface PeriodRange {
+  period: ReportPeriod;
+  start: string;
+  end: string;
+  label: string;
+}
+
+/**
+ * One row of the day-by-day table
+ */
+export interface PeriodDay {
+  date: string;
+  weather: WeatherData | null; // From that day's daily report, if one was generated
+  worker_days: number;
+  manpower_hours: number;
+  deliveries: number;
+  delay_hours: number;
+  issues_opened: number;
+  issues_closed: number;
+  meetings: number;
+}
+
+export interface PeriodReportTotals {
+  worker_days: number;
+  manpower_hours: number;
+  deliveries: number;
+  delays: number;
+  delay_hours: number;
+  issues_opened: number;
+  issues_closed: number;
+  open_at_end: number; // Unresolved when the period ends
+  meetings: number;
+  days_reported: number; // Days with a daily report (and so weather)
+}
+
+export interface PeriodReportData {
+  range: PeriodRange;
+  days: PeriodDay[];
+  totals: PeriodReportTotals;
+  manpowerByCompany: ManpowerRollup[];
+  deliveries: ProjectDailyLog[];
+  delays: ProjectDailyLog[];
+  delayHoursByType: AnalyticsCount[];
+  issuesOpened: ProjectDailyLog[];
+  issuesClosed: ProjectDailyLog[];
+  meetings: ProjectDailyLog[];
+}
+
+function parseDay(date: string): Date {
+  return new Date(date + 'T00:00:00');
+}
+
+function formatDay(date: string, options: Intl.DateTimeFormatOptions): string {
+  return parseDay(date).toLocaleDateString('en-US', options);
+}
+
+function byDate(a: ProjectDailyLog, b: ProjectDailyLog): number {
+  return a.log_date.localeCompare(b.log_date) || a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+}
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+/**
+ * The week or month containing a date
+ */
+export function getPeriodRange(period: ReportPeriod, date: string): PeriodRange {
+  if (period === 'week') {
+    const toMonday = (parseDay(date).getDay() + 6) % 7;
+    const start = addDays(date, -toMonday);
+    const end = addDays(start, 6);
+    return {
+      period,
+      start,
+      end,
+      label: `Week of ${formatDay(start, { month: 'short', day: 'numeric', year: 'numeric' })}`,
+    };
+  }
+
+  const day = parseDay(date);
+  const start = toLocalDate(new Date(day.getFullYear(), day.getMonth(), 1));
+  const end = toLocalDate(new Date(day.getFullYear(), day.getMonth() + 1, 0));
+  return { period, start, end, label: formatDay(start, { month: 'long', year: 'numeric' }) };
+}
+
+/**
+ * The period before (-1) or after (1) the given one
+ */
+export function shiftPeriod(range: PeriodRange, direction: -1 | 1): PeriodRange {
+  return getPeriodRange(range.period, direction < 0 ? addDays(range.start, -1) : addDays(range.end, 1));
+}
+
+export function getMeetingTypeLabel(meta: MeetingMinutesMetadata): string {
+  if (meta.meeting_type === 'other' && meta.custom_type) return meta.custom_type;
+  return MEETING_TYPE_CONFIG[meta.meeting_type]?.label ?? 'Meeting';
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/**
+ * @param logs Daily logs for the project; anything outside the period is ignored
+ * @param siteIssues Every site issue on the project, so issues raised before the period can close in it
+ * @param reports The project's daily reports, for weather
+ */
+export function buildPeriodReport(
+  range: PeriodRange,
+  logs: ProjectDailyLog[],
+  siteIssues: ProjectDailyLog[],
+  reports: ProjectDailyReport[]
+): PeriodReportData {
+  const inRange = (date: string | null) => !!date && date >= range.start && date <= range.end;
+
+  const periodLogs = logs.filter((log) => inRange(log.log_date)).sort(byDate);
+  const ofType = (type: ProjectDailyLog['log_type']) => periodLogs.filter((log) => log.log_type === type);
+  const manpower = ofType('manpower');
+  const deliveries = ofType('delivery');
+  const delays = ofType('schedule_delay');
+  const meetings = ofType('meeting_minutes');
+
+  const issues = siteIssues.filter((log) => log.log_type === 'site_issue');
+  const issuesOpened = issues.filter((issue) => inRange(issue.log_date)).sort(byDate);
+  const issuesClosed = issues
+    .filter((issue) => inRange(getSiteIssueResolvedDate(issue)))
+    .sort((a, b) => (getSiteIssueResolvedDate(a) ?? '').localeCompare(getSiteIssueResolvedDate(b) ?? '') || byDate(a, b));
+  const openAtEnd = issues.filter((issue) => {
+    const resolved = getSiteIssueResolvedDate(issue);
+    return issue.log_date <= range.end && (!resolved || resolved > range.end);
+  }).length;
+
+  const weatherByDate = new Map(reports.filter((r) => inRange(r.report_date)).map((r) => [r.report_date, r.weather]));
+
+  const days: PeriodDay[] = [];
+  for (let date = range.start; date <= range.end; date = addDays(date, 1)) {
+    const onDay = (list: ProjectDailyLog[]) => list.filter((log) => log.log_date === date);
+    const dayManpower = onDay(manpower).map((log) => log.metadata as ManpowerMetadata);
+    days.push({
+      date,
+      weather: weatherByDate.get(date) ?? null,
+      worker_days: dayManpower.reduce((sum, meta) => sum + getManpowerWorkerDays(meta), 0),
+      manpower_hours: dayManpower.reduce((sum, meta) => sum + getManpowerHours(meta), 0),
+      deliveries: onDay(deliveries).length,
+      delay_hours: getDelayHoursByType(onDay(delays)).reduce((sum, c) => sum + c.value, 0),
+      issues_opened: issuesOpened.filter((issue) => issue.log_date === date).length,
+      issues_closed: issuesClosed.filter((issue) => getSiteIssueResolvedDate(issue) === date).length,
+      meetings: onDay(meetings).length,
+    });
+  }
+
+  const delayHoursByType = getDelayHoursByType(delays);
+  const sum = (key: keyof Omit<PeriodDay, 'date' | 'weather'>) => days.reduce((total, day) => total + day[key], 0);
+
+  return {
+    range,
+    days,
+    totals: {
+      worker_days: sum('worker_days'),
+      manpower_hours: sum('manpower_hours'),
+      deliveries: deliveries.length,
+      delays: delays.length,
+      delay_hours: delayHoursByType.reduce((total, c) => total + c.value, 0),
+      issues_opened: issuesOpened.length,
+      issues_closed: issuesClosed.length,
+      open_at_end: openAtEnd,
+      meetings: meetings.length,
+      days_reported: weatherByDate.size,
+    },
+    manpowerByCompany: rollupByCompany(getManpowerEntries(manpower)),
+    deliveries,
+    delays,
+    delayHoursByType,
+    issuesOpened,
+    issuesClosed,
+    meetings,
+  };
+}
+
+/**
+ * One-line weather for a day row, e.g. "Rain, 54°F, wind 12 NW"
+ */
+export function formatWeatherSummary(weather: WeatherData | null): string {
+  if (!weather) return '';
+  const condition = WEATHER_CONDITIONS.find((c) => c.value === weather.conditions);
+  const parts = [
+    condition?.label ?? '',
+    weather.temperature !== undefined ? `${weather.temperature}°${weather.temperature_unit ?? 'F'}` : '',
+    weather.wind_speed !== undefined ? `wind ${weather.wind_speed}${weather.wind_direction ? ` ${weather.wind_direction}` : ''}` : '',
+    weather.precipitation ?? '',
+  ];
+  return parts.filter(Boolean).join(', ');
+}
+
+/**
+ * Supplier, items and PO for a delivery row; older entries only have the content
+ */
+export function getDeliverySummary(log: ProjectDailyLog): { supplier: string; items: string; po_number: string } {
+  const meta = log.metadata as DeliveryMetadata;
+  return {
+    supplier: meta.supplier?.trim() ?? '',
+    items: meta.items?.trim() || log.content.trim(),
+    po_number: meta.po_number?.trim() ?? '',
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Weekly / Monthly Report PDF Export
+ *
+ * Lays out a PeriodReportData as a PDF. Like the daily report export, no
+ * "now" timestamps are written, so re-exporting unchanged data yields the
+ * same file.
+ */
+
+import type { MeetingMinutesMetadata, ProjectDailyLog, ScheduleDelayMetadata, SiteIssueMetadata } from '@/types/supervisor';
+import { createPdfWriter, pdfFileSlug } from '@/utils/pdfLayout';
+import { DELAY_TYPE_LABELS } from '@/utils/analytics';
+import { formatWeatherSummary, getDeliverySummary, getMeetingTypeLabel, type PeriodReportData } from '@/utils/periodReport';
+import { getSiteIssueResolvedDate } from '@/utils/siteIssues';
+
+export interface PeriodReportPdfInput {
+  data: PeriodReportData;
+  projectName: string;
+  projectAddress: string | null;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Formatted by hand (not toLocaleString) so output doesn't vary with browser locale
+function formatDay(dateStr: string): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return `${WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()]} ${dateStr}`;
+}
+
+function formatHours(hours: number): string {
+  return String(Math.round(hours * 100) / 100);
+}
+
+function latestUpdate(logs: ProjectDailyLog[], fallback: string): string {
+  return logs.reduce((latest, log) => (log.updated_at > latest ? log.updated_at : latest), fallback);
+}
+
+/**
+ * Suggested download filename for a period report
+ */
+export function getPeriodReportPdfFilename(projectName: string, data: PeriodReportData): string {
+  return `${pdfFileSlug(projectName)}-${data.range.period}ly-report-${data.range.start}.pdf`;
+}
+
+export function buildPeriodReportPdf(input: PeriodReportPdfInput): Blob {
+  const { data, projectName, projectAddress } = input;
+  const { range, totals } = data;
+
+  const allLogs = [...data.deliveries, ...data.delays, ...data.meetings, ...data.issuesOpened, ...data.issuesClosed];
+  const seed = JSON.stringify([data, projectName, projectAddress]);
+  const pdf = createPdfWriter(latestUpdate(allLogs, `${range.end}T00:00:00Z`), seed);
+
+  pdf.title(range.period === 'week' ? 'Weekly Report' : 'Monthly Report', [
+    projectName,
+    projectAddress ?? '',
+    `${range.label} (${range.start} to ${range.end})`,
+  ]);
+
+  // Summary
+  pdf.sectionHeading('Summary');
+  pdf.keyValues([
+    ['Manpower', `${totals.worker_days} worker-days, ${formatHours(totals.manpower_hours)} hours`],
+    ['Deliveries', String(totals.deliveries)],
+    ['Delays', `${totals.delays} (${formatHours(totals.delay_hours)} hours of impact)`],
+    ['Site issues', `${totals.issues_opened} opened, ${totals.issues_closed} closed, ${totals.open_at_end} open at period end`],
+    ['Meetings', String(totals.meetings)],
+  ]);
+
+  // Day by day
+  pdf.sectionHeading('Day by Day');
+  pdf.table(
+    [
+      { header: 'Date', width: 0.17 },
+      { header: 'Weather', width: 0.3 },
+      { header: 'Workers', width: 0.1, align: 'right' },
+      { header: 'Hours', width: 0.1, align: 'right' },
+      { header: 'Deliv.', width: 0.08, align: 'right' },
+      { header: 'Delay hrs', width: 0.1, align: 'right' },
+      { header: 'Issues +/-', width: 0.1, align: 'right' },
+      { header: 'Mtgs', width: 0.05, align: 'right' },
+    ],
+    data.days.map((day) => [
+      formatDay(day.date),
+      formatWeatherSummary(day.weather) || '-',
+      String(day.worker_days),
+      formatHours(day.manpower_hours),
+      String(day.deliveries),
+      formatHours(day.delay_hours),
+      `${day.issues_opened}/${day.issues_closed}`,
+      String(day.meetings),
+    ])
+  );
+
+  // Manpower
+  pdf.sectionHeading('Manpower by Company');
+  if (data.manpowerByCompany.length > 0) {
+    pdf.table(
+      [
+        { header: 'Company', width: 0.34 },
+        { header: 'Trades', width: 0.3 },
+        { header: 'Days', width: 0.1, align: 'right' },
+        { header: 'Worker-days', width: 0.13, align: 'right' },
+        { header: 'Hours', width: 0.13, align: 'right' },
+      ],
+      [
+        ...data.manpowerByCompany.map((r) => [r.label, r.detail.join(', '), String(r.days), String(r.worker_days), formatHours(r.hours)]),
+        ['Total', '', '', String(totals.worker_days), formatHours(totals.manpower_hours)],
+      ]
+    );
+  } else {
+    pdf.paragraph('No manpower logged.', { muted: true });
+  }
+
+  // Deliveries
+  pdf.sectionHeading('Deliveries');
+  if (data.deliveries.length > 0) {
+    pdf.table(
+      [
+        { header: 'Date', width: 0.17 },
+        { header: 'Supplier', width: 0.25 },
+        { header: 'Items', width: 0.43 },
+        { header: 'PO #', width: 0.15 },
+      ],
+      data.deliveries.map((log) => {
+        const { supplier, items, po_number } = getDeliverySummary(log);
+        return [formatDay(log.log_date), supplier, items, po_number];
+      })
+    );
+  } else {
+    pdf.paragraph('No deliveries logged.', { muted: true });
+  }
+
+  // Delays
+  pdf.sectionHeading('Schedule & Delays');
+  if (data.delays.length > 0) {
+    pdf.table(
+      [
+        { header: 'Date', width: 0.17 },
+        { header: 'Description', width: 0.41 },
+        { header: 'Type', width: 0.14 },
+        { header: 'Impact (hrs)', width: 0.13, align: 'right' },
+        { header: 'Affected Areas', width: 0.15 },
+      ],
+      data.delays.map((log) => {
+        const meta = log.metadata as ScheduleDelayMetadata;
+        return [
+          formatDay(log.log_date),
+          log.content,
+          DELAY_TYPE_LABELS[meta.delay_type ?? 'other'],
+          meta.impact_hours !== undefined ? String(meta.impact_hours) : '',
+          meta.affected_areas ?? '',
+        ];
+      })
+    );
+    if (data.delayHoursByType.length > 1) {
+      pdf.keyValues(data.delayHoursByType.map((c) => [c.label, `${formatHours(c.value)} hours`]));
+    }
+  } else {
+    pdf.paragraph('No delays logged.', { muted: true });
+  }
+
+  // Site issues
+  pdf.sectionHeading('Site Issues');
+  if (data.issuesOpened.length > 0 || data.issuesClosed.length > 0) {
+    const rows: { event: string; date: string; issue: ProjectDailyLog }[] = [
+      ...data.issuesOpened.map((issue) => ({ event: 'Opened', date: issue.log_date, issue })),
+      ...data.issuesClosed.map((issue) => ({ event: 'Closed', date: getSiteIssueResolvedDate(issue) ?? issue.log_date, issue })),
+    ];
+    pdf.table(
+      [
+        { header: 'Event', width: 0.1 },
+        { header: 'Date', width: 0.17 },
+        { header: 'Issue', width: 0.43 },
+        { header: 'Priority', width: 0.1 },
+        { header: 'Assigned To', width: 0.2 },
+      ],
+      rows.map(({ event, date, issue }) => {
+        const meta = issue.metadata as SiteIssueMetadata;
+        return [event, formatDay(date), issue.content, meta.priority ?? '', meta.assigned_to ?? ''];
+      })
+    );
+  } else {
+    pdf.paragraph('No site issues opened or closed.', { muted: true });
+  }
+  pdf.paragraph(`${totals.open_at_end} site issue${totals.open_at_end === 1 ? '' : 's'} open at the end of the period.`, { muted: true });
+
+  // Meetings
+  pdf.sectionHeading('Meetings');
+  if (data.meetings.length > 0) {
+    pdf.table(
+      [
+        { header: 'Date', width: 0.17 },
+        { header: 'Meeting', width: 0.33 },
+        { header: 'Type', width: 0.25 },
+        { header: 'Attendees', width: 0.25 },
+      ],
+      data.meetings.map((log) => {
+        const meta = log.metadata as MeetingMinutesMetadata;
+        return [formatDay(log.log_date), meta.meeting_title || log.content, getMeetingTypeLabel(meta), (meta.attendees ?? []).join(', ')];
+      })
+    );
+  } else {
+    pdf.paragraph('No meetings logged.', { muted: true });
+  }
+
+  // Sign-off
+  pdf.sectionHeading('Signatures');
+  pdf.signatureLines(['Site Supervisor', 'Reviewed By']);
+
+  return pdf.finish(`${projectName} - ${range.label}`);
+}
@@ -0,0 +1,131 @@
+/**
+ * Document Retention Helpers
+ *
+ * Works out which retention rule governs each document, when it expires, and
+ * what the next purge would remove. Legal holds on the project or the
+ * document always win over retention.
+ */
+
+import type {
+  ProjectFolder,
+  ReceivedDocument,
+  RetentionPolicy,
+  RetentionPurgeCandidate,
+  SupervisorProject,
+} from '@/types/supervisor';
+import { addDays, toLocalDate } from '@/utils/shiftRecurrence';
+
+// How far ahead the purge preview looks for documents about to expire
+export const PURGE_PREVIEW_DAYS = 30;
+
+export function isDocumentOnLegalHold(
+  document: Pick<ReceivedDocument, 'legal_hold'>,
+  project: Pick<SupervisorProject, 'legal_hold'> | null | undefined
+): boolean {
+  return document.legal_hold || !!project?.legal_hold;
+}
+
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(year, month - 1 + months, 1);
+  // Clamp to the last day of the target month (e.g. Jan 31 + 1 month = Feb 28)
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return toLocalDate(target);
+}
+
+/**
+ * The matching rule that keeps the document longest, so it is never purged
+ * earlier than any rule allows. A project-close rule whose clock hasn't
+ * started (open project) outlasts every dated rule.
+ */
+export function findRetentionPolicy(
+  document: ReceivedDocument,
+  policies: RetentionPolicy[],
+  project: Pick<SupervisorProject, 'closed_at'> | null | undefined
+): RetentionPolicy | null {
+  const matching = policies.filter(
+    (p) =>
+      p.project_id === document.project_id &&
+      (!p.folder_id || p.folder_id === document.folder_id) &&
+      (!p.form_type || p.form_type.toLowerCase() === (document.ai_classification ?? '').toLowerCase())
+  );
+
+  return matching.reduce<RetentionPolicy | null>((best, policy) => {
+    if (!best) return policy;
+    const expiry = getRetentionExpiry(document, policy, project);
+    const bestExpiry = getRetentionExpiry(document, best, project);
+    if (expiry !== bestExpiry) {
+      if (expiry === null) return policy;
+      if (bestExpiry === null) return best;
+      return expiry > bestExpiry ? policy : best;
+    }
+    return policy.retain_months > best.retain_months ? policy : best;
+  }, null);
+}
+
+/**
+ * Date the document may be purged, or null while the clock hasn't started
+ * (a project-close rule on an open project)
+ */
+export function getRetentionExpiry(
+  document: ReceivedDocument,
+  policy: RetentionPolicy,
+  project: Pick<SupervisorProject, 'closed_at'> | null | undefined
+): string | null {
+  const start = policy.anchor === 'project_close' ? project?.closed_at : document.received_at;
+  if (!start) return null;
+  return addMonths(toLocalDate(new Date(start)), policy.retain_months);
+}
+
+export interface PurgePreview {
+  due: RetentionPurgeCandidate[]; // Expired and purgeable now
+  upcoming: RetentionPurgeCandidate[]; // Expiring within PURGE_PREVIEW_DAYS
+  held: RetentionPurgeCandidate[]; // Expired but kept by a legal hold
+}
+
+export function getPurgePreview(
+  documents: ReceivedDocument[],
+  policies: RetentionPolicy[],
+  project: SupervisorProject | null | undefined,
+  today: string = toLocalDate(new Date())
+): PurgePreview {
+  const preview: PurgePreview = { due: [], upcoming: [], held: [] };
+  const horizon = addDays(today, PURGE_PREVIEW_DAYS);
+
+  for (const document of documents) {
+    const policy = findRetentionPolicy(document, policies, project);
+    if (!policy) continue;
+
+    const expiresOn = getRetentionExpiry(document, policy, project);
+    if (!expiresOn || expiresOn > horizon) continue;
+
+    const candidate = { document, policy, expires_on: expiresOn };
+    if (isDocumentOnLegalHold(document, project)) {
+      if (expiresOn <= today) preview.held.push(candidate);
+    } else {
+      (expiresOn <= today ? preview.due : preview.upcoming).push(candidate);
+    }
+  }
+
+  preview.upcoming.sort((a, b) => a.expires_on.localeCompare(b.expires_on));
+  return preview;
+}
+
+export function describeRetentionPeriod(months: number): string {
+  if (months % 12 === 0) return `${months / 12} year${months === 12 ? '' : 's'}`;
+  return `${months} month${months === 1 ? '' : 's'}`;
+}
+
+/**
+ * e.g. "FLRA in Safety Forms: keep 3 years after project close"
+ */
+export function describeRetentionPolicy(policy: RetentionPolicy, folders: ProjectFolder[]): string {
+  const folder = policy.folder_id ? folders.find((f) => f.id === policy.folder_id)?.folder_name ?? 'deleted folder' : null;
+  const scope =
+    policy.form_type && folder
+      ? `${policy.form_type} in ${folder}`
+      : policy.form_type ?? folder ?? 'All documents';
+  const anchor = policy.anchor === 'project_close' ? 'after project close' : 'after received';
+  return `${scope}: keep ${describeRetentionPeriod(policy.retain_months)} ${anchor}`;
+}
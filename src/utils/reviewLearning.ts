@@ -0,0 +1,177 @@
+/**
+ * Review Learning Helpers
+ *
+ * Turns supervisor corrections from Quick Review into routing inputs: name
+ * aliases for workers and companies, learned classification → folder
+ * mappings, few-shot examples for the AI, and per-folder override rates.
+ */
+
+import type {
+  DocumentMetadata,
+  DocumentNameAlias,
+  DocumentNameAliasKind,
+  DocumentReviewExample,
+  FolderOverrideStat,
+  ProjectFolder,
+  ReceivedDocument,
+} from '@/types/supervisor';
+import { getEffectiveMetadata } from '@/types/supervisor';
+
+// Examples needed before a learned folder beats the folder hints
+const MIN_LEARNED_EXAMPLES = 2;
+const FEW_SHOT_LIMIT = 20;
+
+export type ReviewExampleDraft = Omit<DocumentReviewExample, 'id' | 'created_by' | 'created_at'>;
+
+export interface NameCorrection {
+  kind: DocumentNameAliasKind;
+  alias: string;
+  canonical: string;
+}
+
+/**
+ * Labelled example sent to the AI with each reprocess
+ */
+export interface FewShotExample {
+  filename: string | null;
+  subject: string | null;
+  classification: string | null;
+  folder: string;
+  worker_name: string | null;
+  company_name: string | null;
+}
+
+export function normalizeAlias(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function sameName(a: string | null | undefined, b: string | null | undefined): boolean {
+  return normalizeAlias(a ?? '') === normalizeAlias(b ?? '');
+}
+
+/**
+ * The supervisor's spelling of a name the AI has misread before
+ */
+export function resolveNameAlias(
+  name: string | null,
+  kind: DocumentNameAliasKind,
+  aliases: DocumentNameAlias[]
+): string | null {
+  if (!name) return name;
+  const key = normalizeAlias(name);
+  return aliases.find((a) => a.kind === kind && a.alias === key)?.canonical ?? name;
+}
+
+/**
+ * Example for a document's first review, or null once a supervisor has
+ * already reviewed it (later edits correct a person, not the AI)
+ */
+export function buildReviewExample(
+  document: ReceivedDocument,
+  folderId: string | null,
+  metadata: Partial<DocumentMetadata> = {}
+): ReviewExampleDraft | null {
+  if (document.reviewed_by || document.status === 'rejected') return null;
+
+  const ai = document.ai_extracted_data as DocumentMetadata;
+  const reviewed = getEffectiveMetadata({ ...ai, ...metadata });
+  const finalFolderId = folderId ?? document.folder_id;
+  const movedOut = document.folder_id !== null && finalFolderId !== document.folder_id;
+
+  return {
+    project_id: document.project_id,
+    document_id: document.id,
+    original_filename: document.original_filename,
+    email_subject: document.email_subject,
+    source_email: document.source_email,
+    ai_classification: document.ai_classification,
+    confidence_score: document.confidence_score,
+    ai_folder_id: document.folder_id,
+    folder_id: finalFolderId,
+    ai_worker_name: ai.workerName ?? null,
+    worker_name: reviewed.workerName,
+    ai_company_name: ai.companyName ?? null,
+    company_name: reviewed.companyName,
+    overridden: movedOut || !sameName(ai.workerName, reviewed.workerName) || !sameName(ai.companyName, reviewed.companyName),
+  };
+}
+
+/**
+ * Names the supervisor respelled (not filled in from nothing)
+ */
+export function getNameCorrections(example: ReviewExampleDraft): NameCorrection[] {
+  const pairs: [DocumentNameAliasKind, string | null, string | null][] = [
+    ['worker', example.ai_worker_name, example.worker_name],
+    ['company', example.ai_company_name, example.company_name],
+  ];
+  return pairs
+    .filter(([, read, corrected]) => read?.trim() && corrected?.trim() && !sameName(read, corrected))
+    .map(([kind, read, corrected]) => ({ kind, alias: normalizeAlias(read!), canonical: corrected!.trim() }));
+}
+
+/**
+ * Folder supervisors most often file this classification into, once there
+ * are enough examples to trust it
+ */
+export function getLearnedFolderId(classification: string | null, examples: DocumentReviewExample[]): string | null {
+  const type = classification?.trim().toLowerCase();
+  if (!type || type === 'unknown') return null;
+
+  const counts = new Map<string, number>();
+  for (const example of examples) {
+    if (!example.folder_id || example.ai_classification?.toLowerCase() !== type) continue;
+    counts.set(example.folder_id, (counts.get(example.folder_id) ?? 0) + 1);
+  }
+
+  const total = [...counts.values()].reduce((sum, n) => sum + n, 0);
+  const [best, bestCount] = [...counts].reduce<[string | null, number]>(
+    (top, entry) => (entry[1] > top[1] ? entry : top),
+    [null, 0]
+  );
+  return bestCount >= MIN_LEARNED_EXAMPLES && bestCount > total / 2 ? best : null;
+}
+
+/**
+ * Most useful examples for the AI: corrections first, then recent confirmations
+ */
+export function getFewShotExamples(examples: DocumentReviewExample[], folders: ProjectFolder[]): FewShotExample[] {
+  return examples
+    .filter((e) => e.folder_id && folders.some((f) => f.id === e.folder_id))
+    .sort((a, b) => Number(b.overridden) - Number(a.overridden) || b.created_at.localeCompare(a.created_at))
+    .slice(0, FEW_SHOT_LIMIT)
+    .map((e) => ({
+      filename: e.original_filename,
+      subject: e.email_subject,
+      classification: e.ai_classification,
+      folder: folders.find((f) => f.id === e.folder_id)!.folder_name,
+      worker_name: e.worker_name,
+      company_name: e.company_name,
+    }));
+}
+
+/**
+ * Per-folder override counts. Auto-filed documents nobody has reviewed yet
+ * count as accepted. Documents a routing rule filed say nothing about the AI,
+ * so they're left out.
+ */
+export function getFolderOverrideStats(
+  documents: ReceivedDocument[],
+  examples: DocumentReviewExample[],
+  folders: ProjectFolder[]
+): FolderOverrideStat[] {
+  const ruleFiled = new Set(documents.filter((d) => d.filing_source === 'rule').map((d) => d.id));
+  const aiExamples = examples.filter((e) => !ruleFiled.has(e.document_id));
+
+  return folders.map((folder) => {
+    const fromAi = aiExamples.filter((e) => e.ai_folder_id === folder.id);
+    const unreviewed = documents.filter(
+      (d) => d.folder_id === folder.id && d.status === 'filed' && d.filing_source !== 'rule' && !d.reviewed_by
+    );
+    return {
+      folder_id: folder.id,
+      ai_filed: fromAi.length + unreviewed.length,
+      overridden: fromAi.filter((e) => e.folder_id !== folder.id).length,
+      filed_from_unsorted: aiExamples.filter((e) => e.ai_folder_id === null && e.folder_id === folder.id).length,
+    };
+  });
+}
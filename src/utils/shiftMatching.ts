@@ -0,0 +1,165 @@
+/**
+ * Document → Shift Worker Matching
+ *
+ * Scores how likely a received document belongs to each worker on the
+ * project's active shifts, using the worker name the AI (or a supervisor)
+ * read off the form, the sender's email and the form date. Pure functions so
+ * the auto-matcher and the confirmation queue rank candidates the same way.
+ */
+
+import type { ProjectShift, ReceivedDocument, ShiftMatchCandidate, ShiftWorker } from '@/types/supervisor';
+import { getEffectiveMetadata } from '@/types/supervisor';
+import { addDays, toLocalDate } from '@/utils/shiftRecurrence';
+
+/** Top score needed to link a document without asking */
+export const CONFIDENT_MATCH_SCORE = 0.65;
+/** How far the top candidate must lead the runner-up to be linked automatically */
+export const CONFIDENT_MATCH_LEAD = 0.15;
+/** Candidates below this aren't worth showing a supervisor */
+export const MIN_CANDIDATE_SCORE = 0.35;
+
+const MAX_CANDIDATES = 3;
+
+// AI classifications that count as a worker's daily hazard assessment
+const HAZARD_ASSESSMENT_PATTERN = /\b(flra|jsa|jha|risk assessment|hazard (assessment|analysis|identification)|job safety analysis)\b/i;
+
+export type ShiftMatchDecision =
+  | { kind: 'confident'; candidate: ShiftMatchCandidate }
+  | { kind: 'ambiguous'; candidates: ShiftMatchCandidate[] }
+  | { kind: 'none' };
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function bigrams(value: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) result.push(value.slice(i, i + 2));
+  return result;
+}
+
+/** Sørensen–Dice coefficient over character bigrams */
+export function diceSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const remaining = bigrams(b);
+  let overlap = 0;
+  for (const pair of bigrams(a)) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      overlap++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // "J" vs "John"
+  if ((a.length === 1 || b.length === 1) && a[0] === b[0]) return 0.8;
+  return diceSimilarity(a, b);
+}
+
+/**
+ * 0-1 similarity between two person names. Tolerates word order, initials,
+ * accents and small OCR/spelling differences.
+ */
+export function getNameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const tokenScore =
+    shorter.reduce((sum, token) => sum + Math.max(...longer.map((other) => tokenSimilarity(token, other))), 0) /
+    longer.length;
+
+  return Math.max(tokenScore, diceSimilarity(tokensA.join(''), tokensB.join('')));
+}
+
+/**
+ * Date the document was filled in: the form date when known, otherwise the day it arrived
+ */
+export function getDocumentWorkDate(document: ReceivedDocument): string {
+  return getEffectiveMetadata(document.ai_extracted_data).documentDate ?? toLocalDate(new Date(document.received_at));
+}
+
+/**
+ * Whether the AI classified the document as an FLRA or other hazard assessment.
+ * Only these can stand in for a worker's shift form.
+ */
+export function isHazardAssessment(document: Pick<ReceivedDocument, 'ai_classification'>): boolean {
+  return HAZARD_ASSESSMENT_PATTERN.test(document.ai_classification ?? '');
+}
+
+/**
+ * Rank open shift workers for a document, best first.
+ * Workers whose shift is more than a day away from the form date are left out,
+ * and documents that aren't hazard assessments get no candidates.
+ */
+export function rankShiftMatches(
+  document: ReceivedDocument,
+  shifts: Pick<ProjectShift, 'id' | 'name' | 'scheduled_date'>[],
+  workers: ShiftWorker[]
+): ShiftMatchCandidate[] {
+  if (!isHazardAssessment(document)) return [];
+
+  const { workerName } = getEffectiveMetadata(document.ai_extracted_data);
+  const senderEmail = document.source_email?.trim().toLowerCase() ?? '';
+  const workDate = getDocumentWorkDate(document);
+  const nearbyDates = [addDays(workDate, -1), addDays(workDate, 1)];
+
+  const candidates: ShiftMatchCandidate[] = [];
+
+  for (const worker of workers) {
+    if (worker.form_submitted) continue;
+
+    const shift = shifts.find((s) => s.id === worker.shift_id);
+    if (!shift) continue;
+
+    const dateScore = shift.scheduled_date === workDate ? 1 : nearbyDates.includes(shift.scheduled_date) ? 0.5 : 0;
+    if (dateScore === 0) continue;
+
+    const nameScore = workerName ? getNameSimilarity(workerName, worker.name) : 0;
+    const emailMatches = !!senderEmail && worker.email?.trim().toLowerCase() === senderEmail;
+    const score = 0.55 * nameScore + (emailMatches ? 0.3 : 0) + 0.15 * dateScore;
+    if (score < MIN_CANDIDATE_SCORE) continue;
+
+    const reasons: string[] = [];
+    if (nameScore > 0) reasons.push(nameScore === 1 ? 'Name matches' : `Name ${Math.round(nameScore * 100)}% similar`);
+    if (emailMatches) reasons.push('Sent from worker email');
+    reasons.push(dateScore === 1 ? 'Same day as shift' : 'Day before/after shift');
+
+    candidates.push({
+      shift_id: shift.id,
+      shift_worker_id: worker.id,
+      shift_name: shift.name,
+      worker_name: worker.name,
+      score: Math.round(score * 100) / 100,
+      reasons,
+    });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Decide whether the best candidate is clear enough to link without a supervisor
+ */
+export function decideShiftMatch(candidates: ShiftMatchCandidate[]): ShiftMatchDecision {
+  const [best, runnerUp] = candidates;
+  if (!best) return { kind: 'none' };
+
+  if (best.score >= CONFIDENT_MATCH_SCORE && best.score - (runnerUp?.score ?? 0) >= CONFIDENT_MATCH_LEAD) {
+    return { kind: 'confident', candidate: best };
+  }
+  return { kind: 'ambiguous', candidates: candidates.slice(0, MAX_CANDIDATES) };
+}
@@ -0,0 +1,91 @@
+/**
+ * Shift Recurrence Helpers
+ *
+ * Date math for recurring shift templates. Dates are local calendar days
+ * as YYYY-MM-DD strings, matching project_shifts.scheduled_date.
+ */
+
+import type { ShiftRecurrence, ShiftTemplate } from '@/types/supervisor';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+export const DEFAULT_RECURRENCE: ShiftRecurrence = {
+  frequency: 'weekdays',
+  days_of_week: WEEKDAYS,
+  until_date: null,
+};
+
+function parseDay(date: string): Date {
+  return new Date(date + 'T00:00:00');
+}
+
+export function toLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = parseDay(date);
+  d.setDate(d.getDate() + days);
+  return toLocalDate(d);
+}
+
+function activeDays(recurrence: ShiftRecurrence): number[] {
+  if (recurrence.frequency === 'weekdays') return WEEKDAYS;
+  if (recurrence.frequency === 'days') return recurrence.days_of_week;
+  return [];
+}
+
+/**
+ * Dates between from and through (inclusive) that the recurrence falls on
+ */
+export function getOccurrenceDates(recurrence: ShiftRecurrence, from: string, through: string): string[] {
+  const days = activeDays(recurrence);
+  const last = recurrence.until_date && recurrence.until_date < through ? recurrence.until_date : through;
+  const dates: string[] = [];
+
+  for (let date = from; date <= last; date = addDays(date, 1)) {
+    if (days.includes(parseDay(date).getDay())) dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * Dates a template still has to generate, given today's date
+ */
+export function getPendingTemplateDates(template: ShiftTemplate, today: string): string[] {
+  if (!template.is_active || template.recurrence.frequency === 'none') return [];
+
+  const candidates = [template.starts_on, today];
+  if (template.generated_through) candidates.push(addDays(template.generated_through, 1));
+  const from = candidates.sort()[candidates.length - 1];
+
+  return getOccurrenceDates(template.recurrence, from, addDays(today, template.lead_days));
+}
+
+/**
+ * Short description, e.g. "Weekdays until Dec 19" or "Mon, Wed, Fri"
+ */
+export function describeRecurrence(recurrence: ShiftRecurrence): string {
+  if (recurrence.frequency === 'none') return 'Not recurring';
+
+  const days = recurrence.frequency === 'weekdays'
+    ? 'Weekdays'
+    : [...recurrence.days_of_week].sort().map((d) => WEEKDAY_LABELS[d]).join(', ') || 'No days selected';
+
+  if (!recurrence.until_date) return days;
+
+  const until = parseDay(recurrence.until_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${days} until ${until}`;
+}
+
+/**
+ * Name for a generated shift, e.g. "Day Shift · Mon Oct 19"
+ */
+export function getGeneratedShiftName(templateName: string, date: string): string {
+  const label = parseDay(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  return `${templateName} · ${label.replace(',', '')}`;
+}
@@ -0,0 +1,122 @@
+/**
+ * Shift Reminder Helpers
+ *
+ * Decides which workers are due a missing-form reminder and which
+ * subcontractor contacts should hear about repeat misses. Pure functions so
+ * the scheduler and the manual "Send Reminders" button agree.
+ */
+
+import type {
+  ProjectShift,
+  ProjectSubcontractor,
+  ShiftReminderSettings,
+  ShiftWorker,
+  SupervisorProject,
+} from '@/types/supervisor';
+import { DEFAULT_SHIFT_REMINDER_SETTINGS } from '@/types/supervisor';
+
+// A failed escalation is retried after 15, 30, then 60 minutes, then given up on
+export const MAX_ESCALATION_ATTEMPTS = 4;
+const ESCALATION_RETRY_MINUTES = 15;
+
+export interface ReminderEscalation {
+  subcontractor: ProjectSubcontractor;
+  workers: ShiftWorker[];
+}
+
+export function getReminderSettings(project: SupervisorProject | null | undefined): ShiftReminderSettings {
+  return { ...DEFAULT_SHIFT_REMINDER_SETTINGS, ...project?.reminder_settings };
+}
+
+/**
+ * Shift start as a local Date; null when the shift has no start time
+ */
+export function getShiftStart(shift: Pick<ProjectShift, 'scheduled_date' | 'start_time'>): Date | null {
+  if (!shift.start_time) return null;
+  return new Date(`${shift.scheduled_date}T${shift.start_time.slice(0, 5)}:00`);
+}
+
+/**
+ * When the worker's next scheduled reminder goes out, or null if none is left
+ */
+export function getNextReminderAt(
+  shift: Pick<ProjectShift, 'scheduled_date' | 'start_time'>,
+  worker: ShiftWorker,
+  settings: ShiftReminderSettings
+): Date | null {
+  const start = getShiftStart(shift);
+  if (!start || !settings.enabled || worker.form_submitted) return null;
+
+  const offsets = [...settings.offsets_minutes].sort((a, b) => a - b);
+  const offset = offsets[worker.reminder_count];
+  return offset === undefined ? null : new Date(start.getTime() + offset * 60_000);
+}
+
+/**
+ * Workers whose next scheduled reminder time has passed
+ */
+export function getDueReminderWorkers(
+  shift: Pick<ProjectShift, 'scheduled_date' | 'start_time' | 'status'>,
+  workers: ShiftWorker[],
+  settings: ShiftReminderSettings,
+  now: Date
+): ShiftWorker[] {
+  if (shift.status !== 'active') return [];
+
+  return workers.filter((worker) => {
+    const next = getNextReminderAt(shift, worker, settings);
+    return next !== null && next <= now;
+  });
+}
+
+/**
+ * Whether a worker's escalation can be attempted now: not yet escalated, under
+ * the attempt limit, and past the backoff since the last failed attempt
+ */
+export function canAttemptEscalation(worker: ShiftWorker, now: Date): boolean {
+  if (worker.escalated_at) return false;
+
+  const attempts = worker.escalation_attempts ?? 0;
+  if (attempts >= MAX_ESCALATION_ATTEMPTS) return false;
+  if (attempts === 0 || !worker.last_escalation_attempt_at) return true;
+
+  const waitMs = ESCALATION_RETRY_MINUTES * 2 ** (attempts - 1) * 60_000;
+  return now.getTime() - new Date(worker.last_escalation_attempt_at).getTime() >= waitMs;
+}
+
+/**
+ * Subcontractor contacts to email once workers reach the escalation threshold.
+ * remindedIds are workers being reminded in this round (counted as one more miss).
+ */
+export function getReminderEscalations(
+  workers: ShiftWorker[],
+  subcontractors: ProjectSubcontractor[],
+  settings: ShiftReminderSettings,
+  remindedIds: Set<string>,
+  now: Date
+): ReminderEscalation[] {
+  const bySubcontractor = new Map<string, ReminderEscalation>();
+
+  for (const worker of workers) {
+    if (worker.form_submitted || !worker.subcontractor_id || !canAttemptEscalation(worker, now)) continue;
+
+    const misses = worker.reminder_count + (remindedIds.has(worker.id) ? 1 : 0);
+    if (misses < settings.escalate_after) continue;
+
+    const subcontractor = subcontractors.find((s) => s.id === worker.subcontractor_id);
+    if (!subcontractor?.contact_email) continue;
+
+    const group = bySubcontractor.get(subcontractor.id) ?? { subcontractor, workers: [] };
+    group.workers.push(worker);
+    bySubcontractor.set(subcontractor.id, group);
+  }
+
+  return [...bySubcontractor.values()];
+}
+
+export function describeReminderSchedule(settings: ShiftReminderSettings): string {
+  if (!settings.enabled || settings.offsets_minutes.length === 0) return 'Scheduled reminders off';
+
+  const offsets = [...settings.offsets_minutes].sort((a, b) => a - b).join(', ');
+  return `${offsets} min after start • escalate after ${settings.escalate_after} missed`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Site Issue Helpers
+ *
+ * Punch-list logic for site issues: age, overdue checks, and which issues a
+ * given day's report should carry. An issue stays on every report from the
+ * day it was raised until the day it was resolved, marked "continued" on the
+ * days in between.
+ */
+
+import type { ProjectDailyLog, SiteIssueMetadata, SiteIssueStatus } from '@/types/supervisor';
+
+/**
+ * A site issue as it stood on one report date
+ */
+export interface SiteIssueOnDate {
+  issue: ProjectDailyLog;
+  status: SiteIssueStatus;
+  age_days: number;
+  carried_over: boolean;
+  overdue: boolean;
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86_400_000);
+}
+
+/**
+ * Day the issue was resolved, or null while it's open
+ */
+export function getSiteIssueResolvedDate(issue: ProjectDailyLog): string | null {
+  if (issue.status !== 'resolved') return null;
+  // Issues resolved before resolved_date was tracked close on the day they were raised
+  return (issue.metadata as SiteIssueMetadata).resolved_date ?? issue.log_date;
+}
+
+/**
+ * Whole days since the issue was raised (0 on the day itself)
+ */
+export function getSiteIssueAgeDays(issue: ProjectDailyLog, onDate: string): number {
+  const end = getSiteIssueResolvedDate(issue);
+  return Math.max(0, daysBetween(issue.log_date, end && end < onDate ? end : onDate));
+}
+
+/**
+ * e.g. "Raised today", "Day 4"
+ */
+export function formatSiteIssueAge(days: number): string {
+  return days === 0 ? 'Raised today' : `Day ${days + 1}`;
+}
+
+export function isSiteIssueOverdue(issue: ProjectDailyLog, onDate: string): boolean {
+  const due = (issue.metadata as SiteIssueMetadata).due_date;
+  const resolved = getSiteIssueResolvedDate(issue);
+  return !!due && due < onDate && (!resolved || resolved > due);
+}
+
+/**
+ * Days past the due date, or 0 when not overdue
+ */
+export function getSiteIssueDaysOverdue(issue: ProjectDailyLog, onDate: string): number {
+  const due = (issue.metadata as SiteIssueMetadata).due_date;
+  return due && isSiteIssueOverdue(issue, onDate) ? daysBetween(due, onDate) : 0;
+}
+
+/**
+ * Status to show on a given day: open on the day raised, continued after
+ * that, resolved on the day it was closed
+ */
+export function getSiteIssueStatusOn(issue: ProjectDailyLog, onDate: string): SiteIssueStatus {
+  const resolved = getSiteIssueResolvedDate(issue);
+  if (resolved && resolved <= onDate) return 'resolved';
+  return issue.log_date < onDate ? 'continued' : 'active';
+}
+
+/**
+ * Site issues that belong on a day's report: everything raised on or before
+ * the date and not resolved before it. Oldest first.
+ */
+export function getSiteIssuesForDate(logs: ProjectDailyLog[], date: string): SiteIssueOnDate[] {
+  return logs
+    .filter((log) => log.log_type === 'site_issue' && log.log_date <= date)
+    .filter((issue) => {
+      const resolved = getSiteIssueResolvedDate(issue);
+      return !resolved || resolved >= date;
+    })
+    .sort((a, b) => a.log_date.localeCompare(b.log_date) || a.created_at.localeCompare(b.created_at))
+    .map((issue) => ({
+      issue,
+      status: getSiteIssueStatusOn(issue, date),
+      age_days: getSiteIssueAgeDays(issue, date),
+      carried_over: issue.log_date < date,
+      overdue: isSiteIssueOverdue(issue, date),
+    }));
+}